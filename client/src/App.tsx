@@ -28,12 +28,21 @@ import AdminProjectsDebug from "@/pages/AdminProjectsDebug";
 import AdminServices from "@/pages/AdminServices";
 import AdminSEO from "@/pages/AdminSEO";
 import AdminReferrals from "@/pages/AdminReferrals";
+import AdminMessages from "@/pages/AdminMessages";
+import AdminCoupons from "@/pages/AdminCoupons";
+import AdminAbandonedCheckouts from "@/pages/AdminAbandonedCheckouts";
+import AdminQuotes from "@/pages/AdminQuotes";
+import AdminInbox from "@/pages/AdminInbox";
+import AdminQuarantine from "@/pages/AdminQuarantine";
+import AdminSubscriptions from "@/pages/AdminSubscriptions";
+import AdminBankTransfers from "@/pages/AdminBankTransfers";
 import AdminLogin from "@/pages/AdminLogin";
 import Checkout from "@/pages/Checkout";
 import ReferralDashboard from "@/pages/ReferralDashboardModern";
 import ForgotPassword from "@/pages/ForgotPassword";
 import ResetPassword from "@/pages/ResetPassword";
 import PaymentSuccess from "@/pages/PaymentSuccess";
+import BankTransfer from "@/pages/BankTransfer";
 import WhatsAppFloat from "@/components/WhatsAppFloat";
 import DynamicSEOHead from "@/components/DynamicSEOHead";
 
@@ -145,6 +154,14 @@ function Router() {
         <Route path="/admin/services" component={AdminServices} />
         <Route path="/admin/seo" component={AdminSEO} />
         <Route path="/admin/referrals" component={AdminReferrals} />
+        <Route path="/admin/messages" component={AdminMessages} />
+        <Route path="/admin/coupons" component={AdminCoupons} />
+        <Route path="/admin/abandoned-checkouts" component={AdminAbandonedCheckouts} />
+        <Route path="/admin/quotes" component={AdminQuotes} />
+        <Route path="/admin/inbox" component={AdminInbox} />
+        <Route path="/admin/quarantine" component={AdminQuarantine} />
+        <Route path="/admin/subscriptions" component={AdminSubscriptions} />
+        <Route path="/admin/bank-transfers" component={AdminBankTransfers} />
         <Route path="/dashboard">
           <ProtectedRoute>
             <ClientDashboard />
@@ -160,6 +177,11 @@ function Router() {
             <ReferralDashboard />
           </ProtectedRoute>
         </Route>
+        <Route path="/bank-transfer/:reference">
+          <ProtectedRoute>
+            <BankTransfer />
+          </ProtectedRoute>
+        </Route>
         <Route path="/transactions">
           <ProtectedRoute>
             <TransactionHistory />
@@ -2,7 +2,8 @@ import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
-import { Menu, X, Shield, BarChart3, Users, Settings, FileText, MessageSquare, CreditCard, LogOut, Package, UserPlus, Search } from "lucide-react";
+import { Menu, X, Shield, BarChart3, Users, Settings, FileText, MessageSquare, CreditCard, LogOut, Package, UserPlus, Search, Tag, ShoppingCart, ClipboardList, Inbox, ShieldAlert, Repeat, Landmark } from "lucide-react";
+import NotificationBell from "@/components/NotificationBell";
 
 export default function AdminNavigation() {
   const [isOpen, setIsOpen] = useState(false);
@@ -40,12 +41,54 @@ export default function AdminNavigation() {
       icon: CreditCard,
       description: "Order Management"
     },
+    { 
+      name: "Subscriptions", 
+      href: "/admin/subscriptions", 
+      icon: Repeat,
+      description: "Recurring Plans & MRR"
+    },
+    { 
+      name: "Bank Transfers", 
+      href: "/admin/bank-transfers", 
+      icon: Landmark,
+      description: "Confirm Transfer Payments"
+    },
+    { 
+      name: "Coupons", 
+      href: "/admin/coupons", 
+      icon: Tag,
+      description: "Discount Codes & Promotions"
+    },
+    { 
+      name: "Quotes", 
+      href: "/admin/quotes", 
+      icon: ClipboardList,
+      description: "Custom Quote Requests"
+    },
+    { 
+      name: "Abandoned Carts", 
+      href: "/admin/abandoned-checkouts", 
+      icon: ShoppingCart,
+      description: "Checkout Recovery & Follow-up"
+    },
     { 
       name: "Clients", 
       href: "/admin/clients", 
       icon: Users,
       description: "Client Management"
     },
+    { 
+      name: "Inbox", 
+      href: "/admin/inbox", 
+      icon: Inbox,
+      description: "Contact Form Messages"
+    },
+    { 
+      name: "Quarantine", 
+      href: "/admin/quarantine", 
+      icon: ShieldAlert,
+      description: "Suspected Spam Submissions"
+    },
     { 
       name: "Messages", 
       href: "/admin/messages", 
@@ -104,6 +147,7 @@ export default function AdminNavigation() {
 
           {/* Admin User Info */}
           <div className="hidden md:flex items-center space-x-4">
+            <NotificationBell variant="dark" />
             <div className="flex items-center space-x-3">
               <span className="bg-red-500 text-white text-xs px-3 py-1 rounded-full font-semibold">
                 ADMIN
@@ -130,7 +174,8 @@ export default function AdminNavigation() {
           </div>
 
           {/* Mobile menu button */}
-          <div className="md:hidden flex items-center">
+          <div className="md:hidden flex items-center space-x-2">
+            <NotificationBell variant="dark" />
             <button
               onClick={() => setIsOpen(!isOpen)}
               className="inline-flex items-center justify-center p-2 rounded-md text-gray-300 hover:text-red-400 hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-red-500"
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Shield } from "lucide-react";
+
+interface AuditLogEntry {
+  id: string;
+  userId: string | null;
+  actionType: string;
+  ipAddress: string | null;
+  details: any;
+  createdAt: string;
+  user?: { email: string | null; firstName: string | null; lastName: string | null } | null;
+}
+
+interface AuditLogResponse {
+  logs: AuditLogEntry[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+const PAGE_SIZE = 25;
+
+const getActionColor = (action: string) => {
+  if (/unauthorized|violation|failed|error|invalid|rate_limit/.test(action)) return "bg-red-100 text-red-800";
+  if (/success|created|paid|completed/.test(action)) return "bg-green-100 text-green-800";
+  return "bg-gray-100 text-gray-800";
+};
+
+export default function AuditLogViewer() {
+  const [page, setPage] = useState(1);
+  const [action, setAction] = useState("all");
+  const [userFilter, setUserFilter] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+  if (action !== "all") params.set("action", action);
+  if (userFilter.trim()) params.set("user", userFilter.trim());
+  if (from) params.set("from", new Date(from).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59`).toISOString()); // Include the whole end day
+
+  const { data, isLoading } = useQuery<AuditLogResponse>({
+    queryKey: [`/api/admin/audit-logs?${params.toString()}`],
+  });
+
+  const { data: actionTypes = [] } = useQuery<string[]>({
+    queryKey: ["/api/admin/audit-logs/actions"],
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+
+  // Any filter change starts from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const describeActor = (log: AuditLogEntry) => {
+    if (!log.userId) return "anonymous";
+    if (log.user?.email) return log.user.email;
+    return log.userId;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <Label className="text-xs">Action</Label>
+          <Select value={action} onValueChange={updateFilter(setAction)}>
+            <SelectTrigger>
+              <SelectValue placeholder="All actions" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              {actionTypes.map((type) => (
+                <SelectItem key={type} value={type}>{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">User (ID or email)</Label>
+          <Input
+            value={userFilter}
+            onChange={(e) => updateFilter(setUserFilter)(e.target.value)}
+            placeholder="user@example.com"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">From</Label>
+          <Input type="date" value={from} onChange={(e) => updateFilter(setFrom)(e.target.value)} />
+        </div>
+        <div>
+          <Label className="text-xs">To</Label>
+          <Input type="date" value={to} onChange={(e) => updateFilter(setTo)(e.target.value)} />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="animate-pulse h-10 bg-slate-200 rounded"></div>
+          ))}
+        </div>
+      ) : data && data.logs.length > 0 ? (
+        <div className="border rounded-lg divide-y">
+          {data.logs.map((log) => (
+            <div key={log.id} className="p-3">
+              <button
+                type="button"
+                className="w-full flex flex-col md:flex-row md:items-center gap-2 text-left"
+                onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+              >
+                <span className="text-xs text-slate-500 md:w-40 flex-shrink-0">
+                  {new Date(log.createdAt).toLocaleString()}
+                </span>
+                <Badge className={getActionColor(log.actionType)}>{log.actionType}</Badge>
+                <span className="text-sm text-slate-700 truncate flex-1">{describeActor(log)}</span>
+                <span className="text-xs text-slate-500">{log.ipAddress || "—"}</span>
+              </button>
+              {expandedId === log.id && log.details && (
+                <pre className="mt-2 p-3 bg-slate-50 rounded text-xs text-slate-700 overflow-x-auto">
+                  {JSON.stringify(log.details, null, 2)}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8">
+          <Shield className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+          <p className="text-slate-600">No audit entries match these filters</p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-600">
+          {data ? `${data.total} entries` : ""}
+        </span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-slate-600">Page {page} of {totalPages}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,17 +14,39 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
-import { CreditCard, ArrowLeft, User, Phone, FileText, CheckCircle, Clock } from "lucide-react";
+import { CreditCard, ArrowLeft, User, Mail, Phone, FileText, CheckCircle, Clock } from "lucide-react";
 import PaymentLoader from "@/components/PaymentLoader";
+import CouponInput, { type AppliedCoupon } from "@/components/CouponInput";
+import { useCurrency } from "@/hooks/useCurrency";
+import { useSpamProtection } from "@/hooks/useSpamProtection";
 
 const contactSchema = z.object({
   fullName: z.string().min(2, "Full name must be at least 2 characters"),
+  email: z.string().email("Please enter a valid email address").optional().or(z.literal("")),
   phone: z.string().min(10, "Please enter a valid phone number"),
   projectDescription: z.string().min(10, "Please provide a detailed project description"),
 });
 
+interface PaymentProviderOption {
+  name: string;
+  label: string;
+  description: string;
+}
+
+interface PaymentScheduleOption {
+  id: string;
+  label: string;
+  description: string;
+  splits: number[];
+}
+
+// Mirrors the server's rounding: later installments are whole naira, the deposit takes the remainder
+const depositAmount = (total: number, splits: number[]) =>
+  total - splits.slice(1).reduce((sum, percentage) => sum + Math.floor((total * percentage) / 100), 0);
+
 const paymentSchema = z.object({
-  paymentMethod: z.literal("paystack"),
+  paymentMethod: z.string().min(1, "Please select a payment method"),
+  paymentSchedule: z.string().optional(),
   timeline: z.string().min(1, "Please select a timeline"),
 });
 
@@ -70,29 +92,53 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
   const [showPaymentLoader, setShowPaymentLoader] = useState(false);
   const [showStreamlinedConfirmation, setShowStreamlinedConfirmation] = useState(false);
   const [paymentCooldown, setPaymentCooldown] = useState(0);
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { user } = useAuth();
+  const { protect, honeypot } = useSpamProtection();
 
   // Step 1: Contact Form with persistent data
   const storedContactData = getStoredFormData('checkout_contact_data');
   const contactForm = useForm<ContactForm>({
     resolver: zodResolver(contactSchema),
-    defaultValues: storedContactData || {
+    defaultValues: sessionData?.contactData || storedContactData || {
       fullName: "",
+      email: "",
       phone: "",
       projectDescription: "",
     },
   });
 
+  const { data: paymentProviders = [] } = useQuery<PaymentProviderOption[]>({
+    queryKey: ["/api/payments/providers"],
+  });
+
+  const { data: paymentSchedules = [] } = useQuery<PaymentScheduleOption[]>({
+    queryKey: [`/api/payment-schedules?serviceId=${service.id}`],
+  });
+
   // Step 2: Payment Form
   const paymentForm = useForm<PaymentForm>({
     resolver: zodResolver(paymentSchema),
     defaultValues: {
       paymentMethod: "paystack",
+      paymentSchedule: "full",
     },
   });
 
+  const payableTotal = appliedCoupon ? appliedCoupon.total : totalPrice;
+  const { currency, format, isSettlementCurrency } = useCurrency();
+  const selectedSchedule = paymentSchedules.find((schedule) => schedule.id === paymentForm.watch("paymentSchedule"));
+  const amountDueNow = selectedSchedule ? depositAmount(payableTotal, selectedSchedule.splits) : payableTotal;
+
+  // Fall back to the first configured provider if the default isn't available here
+  useEffect(() => {
+    if (paymentProviders.length > 0 && !paymentProviders.some((p) => p.name === paymentForm.getValues("paymentMethod"))) {
+      paymentForm.setValue("paymentMethod", paymentProviders[0].name);
+    }
+  }, [paymentProviders]);
+
   // Auto-save form data as user types
   const watchedValues = contactForm.watch();
   useEffect(() => {
@@ -119,7 +165,7 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
         serviceId: service.id,
         contactInfo: {
           fullName: contactData.fullName,
-          email: user?.email || "noemail@example.com",
+          email: user?.email || contactData.email || "noemail@example.com",
           phone: contactData.phone,
           company: "",
         },
@@ -127,7 +173,12 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
           description: contactData.projectDescription,
         },
         selectedAddOns: data.overrideSelectedAddOns || selectedAddOns,
-        totalAmount: data.overrideTotalAmount || totalPrice,
+        totalAmount: data.overrideTotalAmount || payableTotal,
+        couponCode: data.overrideTotalAmount ? undefined : appliedCoupon?.code,
+        paymentMethod: data.paymentMethod,
+        paymentSchedule: data.paymentSchedule || "full",
+        displayCurrency: currency,
+        checkoutSessionToken: sessionData?.sessionToken || sessionStorage.getItem('checkoutSessionToken') || undefined,
       };
 
       // Enhanced authentication verification for all users
@@ -207,7 +258,7 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
         // Clear payment loader state
         sessionStorage.removeItem('payment_in_progress');
         
-        // Immediate redirect to Paystack
+        // Immediate redirect to the payment provider
         window.location.href = data.paymentUrl;
         onSuccess();
       } else {
@@ -243,11 +294,12 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
           userId: null
         };
 
-        fetch("/api/checkout-sessions", {
+        protect(createSessionData)
+        .then(body => fetch("/api/checkout-sessions", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(createSessionData),
-        })
+          body: JSON.stringify(body),
+        }))
         .then(res => res.json())
         .then(result => {
           if (result.sessionToken) {
@@ -269,6 +321,13 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
           const redirectUrl = sessionToken ? `/auth?checkout=${sessionToken}` : "/auth";
           window.location.href = redirectUrl;
         }, 2000);
+      } else if (error.message.includes("does not match current pricing")) {
+        // The server prices orders from the catalogue; stale prices need a fresh look at the service
+        toast({
+          title: "Prices have changed",
+          description: "The price of this package or its add-ons has changed. Please refresh and review your order.",
+          variant: "destructive",
+        });
       } else {
         toast({
           title: "Order failed",
@@ -351,7 +410,8 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
       setTimeout(() => {
         setShowPaymentLoader(true);
         orderMutation.mutate({
-          paymentMethod: 'paystack',
+          paymentMethod: paymentForm.getValues('paymentMethod'),
+          paymentSchedule: 'full',
           timeline: 'standard',
           overrideSelectedAddOns: sessionData?.selectedAddOns || selectedAddOns,
           overrideTotalAmount: sessionData?.totalPrice || totalPrice
@@ -417,13 +477,23 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
         userId: null
       };
 
-      // Create database session
-      fetch("/api/checkout-sessions", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(createSessionData),
-      })
-      .then(res => res.json())
+      // Create database session, or update the one being resumed from a recovery email
+      const existingToken: string | undefined = sessionData?.sessionToken;
+      const saveSession = existingToken
+        ? fetch(`/api/checkout-sessions/${existingToken}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ contactData, selectedAddOns, totalPrice }),
+          }).then(res => (res.ok ? { sessionToken: existingToken } : {}))
+        : protect(createSessionData)
+            .then(body => fetch("/api/checkout-sessions", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify(body),
+            }))
+            .then(res => res.json());
+
+      saveSession
       .then(result => {
         if (result.sessionToken) {
           // Store session token for auth redirect
@@ -462,7 +532,7 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
       ...data 
     };
     
-    // Submit the order immediately - the loader will persist until Paystack redirect
+    // Submit the order immediately - the loader will persist until the payment provider redirect
     orderMutation.mutate(combinedData);
   };
 
@@ -471,7 +541,7 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
     return (
       <PaymentLoader
         serviceName={service.name}
-        amount={totalPrice}
+        amount={payableTotal}
         onComplete={() => {
           // This will be called when the loader animation completes
           // The actual redirect happens in the timeout above
@@ -515,6 +585,25 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
               )}
             </div>
 
+            {!user && (
+              <div className="space-y-1.5">
+                <Label htmlFor="email" className="text-sm font-medium">Email</Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="email"
+                    type="email"
+                    {...contactForm.register("email")}
+                    className="pl-10 h-9 sm:h-10"
+                    placeholder="you@example.com"
+                  />
+                </div>
+                <p className="text-xs text-gray-500">We'll email you a link to finish if you get interrupted.</p>
+                {contactForm.formState.errors.email && (
+                  <p className="text-xs text-red-500">{contactForm.formState.errors.email.message}</p>
+                )}
+              </div>
+            )}
 
 
             <div className="space-y-1.5">
@@ -569,14 +658,34 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
                   <span>Contact:</span>
                   <span className="font-medium truncate ml-2">{contactData?.fullName}</span>
                 </div>
+                {appliedCoupon && (
+                  <div className="flex justify-between text-green-700">
+                    <span>Discount ({appliedCoupon.code}):</span>
+                    <span className="font-medium">-₦{appliedCoupon.discount.toLocaleString()}</span>
+                  </div>
+                )}
                 <div className="flex justify-between font-semibold text-sm sm:text-base">
                   <span>Total:</span>
-                  <span>₦{totalPrice.toLocaleString()}</span>
+                  <span>₦{payableTotal.toLocaleString()}</span>
                 </div>
+                {!isSettlementCurrency && (
+                  <div className="flex justify-between text-slate-500">
+                    <span>Approx. in {currency}:</span>
+                    <span>{format(payableTotal)}</span>
+                  </div>
+                )}
               </div>
             </div>
 
+            <CouponInput
+              serviceId={service.id}
+              selectedAddOns={selectedAddOns}
+              applied={appliedCoupon}
+              onChange={setAppliedCoupon}
+            />
+
             <form onSubmit={paymentForm.handleSubmit(onPaymentSubmit)} className="space-y-4 sm:space-y-6">
+              {honeypot}
               <div className="space-y-2">
                 <Label className="text-sm font-medium">Project Timeline</Label>
                 <Select onValueChange={(value) => paymentForm.setValue("timeline", value)}>
@@ -597,22 +706,61 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
 
               <div className="space-y-2">
                 <Label className="text-sm font-medium">Payment Method</Label>
-                <RadioGroup value="paystack" className="grid grid-cols-1">
-                  <div className="flex items-center space-x-2 border rounded-lg p-3">
-                    <RadioGroupItem value="paystack" id="paystack" />
-                    <Label htmlFor="paystack" className="flex-1">
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <div className="font-medium text-sm">Paystack</div>
-                          <div className="text-xs text-gray-500">Secure card & bank payments</div>
+                <RadioGroup
+                  value={paymentForm.watch("paymentMethod")}
+                  onValueChange={(value) => paymentForm.setValue("paymentMethod", value)}
+                  className="grid grid-cols-1 gap-2"
+                >
+                  {paymentProviders.map((provider) => (
+                    <div key={provider.name} className="flex items-center space-x-2 border rounded-lg p-3">
+                      <RadioGroupItem value={provider.name} id={`payment-${provider.name}`} />
+                      <Label htmlFor={`payment-${provider.name}`} className="flex-1">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <div className="font-medium text-sm">{provider.label}</div>
+                            <div className="text-xs text-gray-500">{provider.description}</div>
+                          </div>
+                          {provider.name === "paystack" && (
+                            <div className="text-xs text-green-600 font-medium">Recommended</div>
+                          )}
                         </div>
-                        <div className="text-xs text-green-600 font-medium">Recommended</div>
-                      </div>
-                    </Label>
-                  </div>
+                      </Label>
+                    </div>
+                  ))}
                 </RadioGroup>
+                {paymentForm.formState.errors.paymentMethod && (
+                  <p className="text-xs text-red-500">{paymentForm.formState.errors.paymentMethod.message}</p>
+                )}
               </div>
 
+              {paymentSchedules.length > 1 && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Payment Plan</Label>
+                  <RadioGroup
+                    value={paymentForm.watch("paymentSchedule")}
+                    onValueChange={(value) => paymentForm.setValue("paymentSchedule", value)}
+                    className="grid grid-cols-1 gap-2"
+                  >
+                    {paymentSchedules.map((schedule) => (
+                      <div key={schedule.id} className="flex items-center space-x-2 border rounded-lg p-3">
+                        <RadioGroupItem value={schedule.id} id={`schedule-${schedule.id}`} />
+                        <Label htmlFor={`schedule-${schedule.id}`} className="flex-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <div>
+                              <div className="font-medium text-sm">{schedule.label}</div>
+                              <div className="text-xs text-gray-500">{schedule.description}</div>
+                            </div>
+                            <div className="text-xs text-slate-700 font-medium whitespace-nowrap">
+                              ₦{depositAmount(payableTotal, schedule.splits).toLocaleString()} now
+                            </div>
+                          </div>
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+              )}
+
               <div className="flex gap-2 sm:gap-3 pt-2">
                 <Button
                   type="button"
@@ -634,7 +782,7 @@ export default function CheckoutForm({ service, totalPrice, selectedAddOns, sess
                       <span className="text-sm">Wait {paymentCooldown}s</span>
                     </span>
                   ) : (
-                    <span className="text-sm sm:text-base">Pay ₦{totalPrice.toLocaleString()}</span>
+                    <span className="text-sm sm:text-base">Pay ₦{amountDueNow.toLocaleString()}</span>
                   )}
                 </Button>
               </div>
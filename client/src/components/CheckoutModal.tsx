@@ -37,6 +37,9 @@ import {
   Heart,
 } from "lucide-react";
 import PaymentLoader from "@/components/PaymentLoader";
+import CouponInput, { type AppliedCoupon } from "@/components/CouponInput";
+import { useCurrency } from "@/hooks/useCurrency";
+import { useSpamProtection } from "@/hooks/useSpamProtection";
 
 const contactSchema = z.object({
   fullName: z.string().min(2, "Full name must be at least 2 characters"),
@@ -82,9 +85,11 @@ export default function CheckoutModal({
   const [currentStep, setCurrentStep] = useState(1);
   const [showPaymentLoader, setShowPaymentLoader] = useState(false);
   const [paymentCooldown, setPaymentCooldown] = useState(0);
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { user } = useAuth();
+  const { protect, honeypot } = useSpamProtection();
 
   const contactForm = useForm<ContactForm>({
     resolver: zodResolver(contactSchema),
@@ -115,8 +120,12 @@ export default function CheckoutModal({
     };
   }, [paymentCooldown]);
 
+  const payableTotal = appliedCoupon ? appliedCoupon.total : totalPrice;
+  const { currency, format, isSettlementCurrency } = useCurrency();
+
   const handleClose = () => {
     setCurrentStep(1);
+    setAppliedCoupon(null);
     contactForm.reset();
     paymentForm.reset();
     setShowPaymentLoader(false);
@@ -196,7 +205,7 @@ export default function CheckoutModal({
           timeline: data.timeline
         };
 
-        const response = await apiRequest("POST", "/api/checkout-sessions", sessionData);
+        const response = await apiRequest("POST", "/api/checkout-sessions", await protect(sessionData));
         const responseData = await response.json();
         
         if (responseData.sessionToken) {
@@ -232,7 +241,10 @@ export default function CheckoutModal({
       projectDescription: contactData.projectDescription,
       customRequests: `Timeline: ${data.timeline}`,
       addOns: selectedAddOns,
-      totalAmount: totalPrice,
+      selectedAddOns,
+      couponCode: appliedCoupon?.code,
+      totalAmount: payableTotal,
+      displayCurrency: currency,
     };
 
     orderMutation.mutate(orderData);
@@ -245,7 +257,7 @@ export default function CheckoutModal({
         <DialogContent className="w-full max-w-xs mx-auto">
           <PaymentLoader
             serviceName={service.name}
-            amount={totalPrice}
+            amount={payableTotal}
             onComplete={() => {
               // Redirect handled in onSuccess
             }}
@@ -394,6 +406,7 @@ export default function CheckoutModal({
               onSubmit={paymentForm.handleSubmit(onPaymentSubmit)}
               className="space-y-3"
             >
+              {honeypot}
               <div className="bg-slate-50 rounded-lg p-3 space-y-2">
                 <h4 className="font-medium text-sm text-slate-900">
                   Order Summary
@@ -402,12 +415,26 @@ export default function CheckoutModal({
                   <span>Service:</span>
                   <span className="font-medium">{service.name}</span>
                 </div>
+                {appliedCoupon && (
+                  <div className="flex justify-between text-sm text-green-700">
+                    <span>Discount ({appliedCoupon.code}):</span>
+                    <span className="font-medium">
+                      -₦{appliedCoupon.discount.toLocaleString()}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span>Total:</span>
                   <span className="font-bold text-blue-600">
-                    ₦{totalPrice.toLocaleString()}
+                    ₦{payableTotal.toLocaleString()}
                   </span>
                 </div>
+                {!isSettlementCurrency && (
+                  <div className="flex justify-between text-xs text-slate-500">
+                    <span>Approx. in {currency}:</span>
+                    <span>{format(payableTotal)}</span>
+                  </div>
+                )}
                 {selectedAddOns.length > 0 && (
                   <div className="text-xs text-slate-600">
                     Add-ons: {selectedAddOns.join(", ")}
@@ -415,6 +442,13 @@ export default function CheckoutModal({
                 )}
               </div>
 
+              <CouponInput
+                serviceId={service.id}
+                selectedAddOns={selectedAddOns}
+                applied={appliedCoupon}
+                onChange={setAppliedCoupon}
+              />
+
               <div className="space-y-2">
                 <Label className="text-xs font-medium text-gray-700">
                   Project Timeline
@@ -0,0 +1,142 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ClipboardList } from "lucide-react";
+import type { Quote } from "@shared/schema";
+import { projectTypes, quoteOptionLabel, quoteStatusLabels } from "@shared/quotes";
+
+type ClientQuote = Omit<Quote, "adminNotes" | "proposedBy">;
+
+interface PaymentScheduleOption {
+  id: string;
+  label: string;
+}
+
+const formatAmount = (amount: number | string) => `₦${Number(amount).toLocaleString()}`;
+
+// Custom quote requests made from the client's email, with any proposal waiting for an answer
+export default function ClientQuotes() {
+  const { toast } = useToast();
+
+  const { data: quotes = [] } = useQuery<ClientQuote[]>({
+    queryKey: ["/api/quotes"],
+  });
+
+  const { data: schedules = [] } = useQuery<PaymentScheduleOption[]>({
+    queryKey: ["/api/payment-schedules?category=custom"],
+    enabled: quotes.some((quote) => quote.status === "proposed"),
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (quoteId: string) => {
+      const res = await apiRequest("POST", `/api/quotes/${quoteId}/accept`);
+      return (await res.json()) as { paymentUrl?: string };
+    },
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      if (response.paymentUrl) {
+        toast({ title: "Proposal accepted", description: "Redirecting to secure payment gateway..." });
+        window.location.href = response.paymentUrl;
+      } else {
+        toast({ title: "Proposal accepted", description: "Your order is ready. You can pay for it from your orders below." });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not accept proposal",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async (quoteId: string) => {
+      const res = await apiRequest("POST", `/api/quotes/${quoteId}/decline`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Proposal declined", description: "Thanks for letting us know." });
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not decline proposal",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (quotes.length === 0) {
+    return null;
+  }
+
+  const scheduleLabel = (id: string | null) => schedules.find((schedule) => schedule.id === id)?.label ?? "Pay in full";
+
+  return (
+    <Card id="quotes">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold text-slate-900 flex items-center gap-2">
+          <ClipboardList className="h-5 w-5" /> Quotes
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {quotes.map((quote) => (
+          <div key={quote.id} className="border rounded-lg p-4 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-slate-900">{quoteOptionLabel(projectTypes, quote.projectType)}</span>
+              <Badge variant="outline">{quoteStatusLabels[quote.status]}</Badge>
+            </div>
+            <p className="text-xs text-slate-500">
+              Requested {quote.createdAt ? new Date(quote.createdAt).toLocaleDateString() : ""}
+            </p>
+
+            {quote.status === "proposed" && quote.proposedPrice && (
+              <div className="bg-slate-50 rounded p-3 space-y-2 text-sm">
+                <p className="text-lg font-bold text-slate-900">{formatAmount(quote.proposedPrice)}</p>
+                <p className="text-slate-600">
+                  {scheduleLabel(quote.proposedPaymentSchedule)}
+                  {quote.proposedDeliveryTime ? ` · Delivery in ${quote.proposedDeliveryTime}` : ""}
+                </p>
+                {quote.proposalNotes && <p className="whitespace-pre-wrap text-slate-700">{quote.proposalNotes}</p>}
+                <div className="flex gap-2 pt-1">
+                  <Button
+                    size="sm"
+                    disabled={acceptMutation.isPending || declineMutation.isPending}
+                    onClick={() => acceptMutation.mutate(quote.id)}
+                  >
+                    {acceptMutation.isPending ? "Creating order..." : "Accept & pay"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={acceptMutation.isPending || declineMutation.isPending}
+                    onClick={() => {
+                      if (window.confirm("Decline this proposal?")) {
+                        declineMutation.mutate(quote.id);
+                      }
+                    }}
+                  >
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {(quote.status === "new" || quote.status === "reviewing") && (
+              <p className="text-sm text-slate-600">We're reviewing your requirements and will email you a proposal.</p>
+            )}
+            {quote.status === "accepted" && quote.orderId && (
+              <p className="text-sm text-slate-600">Accepted · order #{quote.orderId.slice(0, 8)}</p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,247 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Repeat } from "lucide-react";
+import type { SubscriptionWithService } from "@shared/schema";
+import { billingIntervalLabels, billingIntervalSuffix, subscriptionStatusLabels, type BillingInterval, type SubscriptionStatus } from "@shared/subscriptions";
+
+type ClientSubscription = Omit<SubscriptionWithService, "paymentMethodToken" | "paymentCustomer">;
+
+interface Plan {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  billingInterval: BillingInterval;
+  features: string[] | null;
+}
+
+interface PaymentProviderOption {
+  name: string;
+  label: string;
+  recurring: boolean;
+}
+
+const statusStyles: Record<SubscriptionStatus, string> = {
+  incomplete: "bg-slate-100 text-slate-700",
+  active: "bg-green-100 text-green-800",
+  past_due: "bg-red-100 text-red-800",
+  cancelled: "bg-slate-200 text-slate-600",
+};
+
+const formatAmount = (amount: number | string) => `₦${Number(amount).toLocaleString()}`;
+const formatDate = (date: string | Date | null) => (date ? new Date(date).toLocaleDateString() : "—");
+
+const callbackMessages: Record<string, { title: string; description: string; variant?: "destructive" }> = {
+  success: { title: "Subscription active", description: "Thanks! Your plan renews automatically until you cancel it." },
+  pending: { title: "Payment processing", description: "We'll activate your plan as soon as the payment is confirmed." },
+  failed: { title: "Payment not completed", description: "Your plan isn't active yet. You can try paying again below.", variant: "destructive" },
+};
+
+// Maintenance, hosting and retainer plans: subscribe, pay an overdue renewal, cancel or resume
+export default function ClientSubscriptions() {
+  const { toast } = useToast();
+  const [paymentMethod, setPaymentMethod] = useState<string>("");
+
+  const { data: subscriptions = [] } = useQuery<ClientSubscription[]>({
+    queryKey: ["/api/subscriptions"],
+  });
+
+  const { data: plans = [] } = useQuery<Plan[]>({
+    queryKey: ["/api/subscription-plans"],
+  });
+
+  const { data: providers = [] } = useQuery<PaymentProviderOption[]>({
+    queryKey: ["/api/payments/providers"],
+  });
+  const recurringProviders = providers.filter((provider) => provider.recurring);
+  const selectedMethod = paymentMethod || recurringProviders[0]?.name;
+
+  // The payment callback lands back here with the outcome in the query string
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const outcome = params.get("subscription");
+    if (!outcome || !callbackMessages[outcome]) return;
+
+    toast(callbackMessages[outcome]);
+    params.delete("subscription");
+    const query = params.toString();
+    window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`);
+  }, [toast]);
+
+  const redirectToPayment = (response: { paymentUrl?: string }) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/subscriptions"] });
+    if (response.paymentUrl) {
+      toast({ title: "Redirecting to payment", description: "Your card is saved securely for renewals." });
+      window.location.href = response.paymentUrl;
+    }
+  };
+
+  const subscribeMutation = useMutation({
+    mutationFn: async (serviceId: string) => {
+      const res = await apiRequest("POST", "/api/subscriptions", { serviceId, paymentMethod: selectedMethod });
+      return (await res.json()) as { paymentUrl?: string };
+    },
+    onSuccess: redirectToPayment,
+    onError: (error: any) => {
+      toast({ title: "Could not subscribe", description: error.message || "Please try again later.", variant: "destructive" });
+    },
+  });
+
+  const payMutation = useMutation({
+    mutationFn: async (subscriptionId: string) => {
+      const res = await apiRequest("POST", `/api/subscriptions/${subscriptionId}/pay`);
+      return (await res.json()) as { paymentUrl?: string };
+    },
+    onSuccess: redirectToPayment,
+    onError: (error: any) => {
+      toast({ title: "Could not start payment", description: error.message || "Please try again later.", variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "cancel" | "resume" }) => {
+      const res = await apiRequest("POST", `/api/subscriptions/${id}/${action}`);
+      return (await res.json()) as ClientSubscription;
+    },
+    onSuccess: (subscription, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/subscriptions"] });
+      toast({
+        title: action === "resume" ? "Subscription resumed" : "Subscription cancelled",
+        description: action === "resume"
+          ? "Your plan will keep renewing."
+          : subscription.cancelAtPeriodEnd
+            ? `Your plan stays active until ${formatDate(subscription.currentPeriodEnd)}.`
+            : "Your plan has ended.",
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Update failed", description: error.message || "Please try again later.", variant: "destructive" });
+    },
+  });
+
+  const current = subscriptions.filter((subscription) => subscription.status !== "cancelled");
+  const subscribedPlanIds = new Set(
+    current.filter((subscription) => subscription.status !== "incomplete").map((subscription) => subscription.serviceId),
+  );
+  const availablePlans = plans.filter((plan) => !subscribedPlanIds.has(plan.id));
+
+  if (current.length === 0 && plans.length === 0) {
+    return null;
+  }
+
+  const busy = subscribeMutation.isPending || payMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Card id="subscriptions">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold text-slate-900 flex items-center gap-2">
+          <Repeat className="h-5 w-5" /> Maintenance &amp; Retainer Plans
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {current.map((subscription) => (
+          <div key={subscription.id} className="border rounded-lg p-4 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-slate-900">{subscription.serviceName ?? "Plan"}</span>
+              <Badge className={statusStyles[subscription.status]}>
+                {subscription.cancelAtPeriodEnd ? "Cancelling" : subscriptionStatusLabels[subscription.status]}
+              </Badge>
+            </div>
+            <p className="text-sm text-slate-600">
+              {formatAmount(subscription.amount)}{billingIntervalSuffix[subscription.billingInterval]}
+              {subscription.paymentMethodLabel ? ` · ${subscription.paymentMethodLabel}` : ""}
+            </p>
+            {subscription.status === "active" && (
+              <p className="text-xs text-slate-500">
+                {subscription.cancelAtPeriodEnd ? "Ends" : "Renews"} on {formatDate(subscription.currentPeriodEnd)}
+              </p>
+            )}
+            {subscription.status === "past_due" && (
+              <p className="text-xs text-red-600">
+                Renewal failed.{subscription.nextRetryAt ? ` We'll try again on ${formatDate(subscription.nextRetryAt)}.` : ""}
+              </p>
+            )}
+
+            <div className="flex gap-2 pt-1">
+              {(subscription.status === "incomplete" || subscription.status === "past_due") && (
+                <Button size="sm" disabled={busy} onClick={() => payMutation.mutate(subscription.id)}>
+                  {payMutation.isPending ? "Starting payment..." : "Pay now"}
+                </Button>
+              )}
+              {subscription.status === "active" && subscription.cancelAtPeriodEnd && (
+                <Button size="sm" disabled={busy} onClick={() => updateMutation.mutate({ id: subscription.id, action: "resume" })}>
+                  Resume
+                </Button>
+              )}
+              {!subscription.cancelAtPeriodEnd && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busy}
+                  onClick={() => {
+                    const message = subscription.status === "active"
+                      ? `Cancel this plan? It stays active until ${formatDate(subscription.currentPeriodEnd)}.`
+                      : "Cancel this plan?";
+                    if (window.confirm(message)) {
+                      updateMutation.mutate({ id: subscription.id, action: "cancel" });
+                    }
+                  }}
+                >
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {availablePlans.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm font-medium text-slate-700">Available plans</p>
+              {recurringProviders.length > 1 && (
+                <Select value={selectedMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Payment method" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {recurringProviders.map((provider) => (
+                      <SelectItem key={provider.name} value={provider.name}>{provider.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {availablePlans.map((plan) => (
+                <div key={plan.id} className="border rounded-lg p-4 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold text-slate-900">{plan.name}</span>
+                    <Badge variant="outline">{billingIntervalLabels[plan.billingInterval]}</Badge>
+                  </div>
+                  <p className="text-sm text-slate-600">{plan.description}</p>
+                  <p className="text-lg font-bold text-slate-900">
+                    {formatAmount(plan.price)}
+                    <span className="text-sm font-normal text-slate-500">{billingIntervalSuffix[plan.billingInterval]}</span>
+                  </p>
+                  <Button
+                    size="sm"
+                    disabled={busy || !selectedMethod}
+                    onClick={() => subscribeMutation.mutate(plan.id)}
+                  >
+                    {subscribeMutation.isPending && subscribeMutation.variables === plan.id ? "Starting checkout..." : "Subscribe"}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tag, X } from "lucide-react";
+
+export interface AppliedCoupon {
+  code: string;
+  description: string | null;
+  discount: number;
+  subtotal: number;
+  total: number;
+}
+
+interface CouponInputProps {
+  serviceId: string;
+  selectedAddOns: string[];
+  applied: AppliedCoupon | null;
+  onChange: (coupon: AppliedCoupon | null) => void;
+}
+
+// apiRequest errors read "400: {json body}"; show the server's message when there is one
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message as string;
+  } catch {
+    return "That code could not be applied";
+  }
+};
+
+// Discount code entry for checkout. The server re-validates the code when the order is placed.
+export default function CouponInput({ serviceId, selectedAddOns, applied, onChange }: CouponInputProps) {
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const validateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/coupons/validate", { code, serviceId, selectedAddOns });
+      return (await res.json()) as AppliedCoupon;
+    },
+    onSuccess: (coupon) => {
+      setError(null);
+      setCode("");
+      onChange(coupon);
+    },
+    onError: (err: Error) => setError(errorMessage(err)),
+  });
+
+  if (applied) {
+    return (
+      <div className="flex items-center justify-between gap-2 rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm">
+        <span className="flex items-center gap-2 text-green-800">
+          <Tag className="h-4 w-4" />
+          <span className="font-medium">{applied.code}</span>
+          <span>-₦{applied.discount.toLocaleString()}</span>
+        </span>
+        <button type="button" onClick={() => onChange(null)} className="text-green-700 hover:text-green-900" aria-label="Remove discount code">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder="Discount code"
+          className="h-9 text-sm uppercase"
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              if (code.trim()) validateMutation.mutate();
+            }
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          className="h-9"
+          disabled={!code.trim() || validateMutation.isPending}
+          onClick={() => validateMutation.mutate()}
+        >
+          {validateMutation.isPending ? "Checking..." : "Apply"}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrency } from "@/hooks/useCurrency";
+
+interface CurrencySelectorProps {
+  className?: string;
+}
+
+// Lets visitors browse prices in their own currency. Hidden until an admin adds a rate.
+export default function CurrencySelector({ className }: CurrencySelectorProps) {
+  const { currency, currencies, setCurrency } = useCurrency();
+
+  if (currencies.length < 2) return null;
+
+  return (
+    <Select value={currency} onValueChange={setCurrency}>
+      <SelectTrigger className={className ?? "w-24 h-8 text-xs"} aria-label="Display currency">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {currencies.map((code) => (
+          <SelectItem key={code} value={code}>
+            {code}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
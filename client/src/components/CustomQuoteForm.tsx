@@ -4,12 +4,14 @@ import { z } from "zod";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useSpamProtection } from "@/hooks/useSpamProtection";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { projectTypes, budgetRanges, timelines } from "@shared/quotes";
 
 const quoteSchema = z.object({
   fullName: z.string().min(1, "Full name is required"),
@@ -30,29 +32,6 @@ interface CustomQuoteFormProps {
   onClose: () => void;
 }
 
-const projectTypes = [
-  { value: "website", label: "Business Website" },
-  { value: "ecommerce", label: "E-commerce Platform" },
-  { value: "webapp", label: "Web Application" },
-  { value: "redesign", label: "Website Redesign" },
-  { value: "mobile", label: "Mobile App" },
-  { value: "other", label: "Other" },
-];
-
-const budgetRanges = [
-  { value: "5k-10k", label: "$5,000 - $10,000" },
-  { value: "10k-25k", label: "$10,000 - $25,000" },
-  { value: "25k-50k", label: "$25,000 - $50,000" },
-  { value: "50k+", label: "$50,000+" },
-];
-
-const timelines = [
-  { value: "asap", label: "ASAP (Rush project)" },
-  { value: "1-2months", label: "1-2 months" },
-  { value: "3-4months", label: "3-4 months" },
-  { value: "6months+", label: "6+ months" },
-];
-
 const availableFeatures = [
   "E-commerce Integration",
   "User Authentication",
@@ -68,6 +47,7 @@ const availableFeatures = [
 
 export default function CustomQuoteForm({ onClose }: CustomQuoteFormProps) {
   const { toast } = useToast();
+  const { protect, honeypot } = useSpamProtection();
   const {
     register,
     handleSubmit,
@@ -85,7 +65,7 @@ export default function CustomQuoteForm({ onClose }: CustomQuoteFormProps) {
 
   const quoteMutation = useMutation({
     mutationFn: async (data: QuoteForm) => {
-      return apiRequest("POST", "/api/quote-request", data);
+      return apiRequest("POST", "/api/quote-request", await protect(data));
     },
     onSuccess: () => {
       toast({
@@ -129,6 +109,7 @@ export default function CustomQuoteForm({ onClose }: CustomQuoteFormProps) {
       
       <CardContent>
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          {honeypot}
           {/* Contact Information */}
           <div>
             <h3 className="text-lg font-semibold text-slate-900 mb-4">Contact Information</h3>
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Mail } from "lucide-react";
+
+interface EmailTemplateSummary {
+  name: string;
+  description: string;
+}
+
+interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const formatName = (name: string) => name.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+export default function EmailTemplatePreview() {
+  const [selected, setSelected] = useState<string | null>(null);
+  const [mode, setMode] = useState<"html" | "text">("html");
+
+  const { data: templates = [], isLoading } = useQuery<EmailTemplateSummary[]>({
+    queryKey: ["/api/admin/email-templates"],
+  });
+
+  const activeName = selected ?? templates[0]?.name ?? null;
+
+  const { data: preview, isLoading: previewLoading } = useQuery<RenderedEmail>({
+    queryKey: [`/api/admin/email-templates/${activeName}/preview`],
+    enabled: !!activeName,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(4)].map((_, i) => (
+          <div key={i} className="animate-pulse h-10 bg-slate-200 rounded"></div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="border rounded-lg divide-y h-fit">
+        {templates.map((template) => (
+          <button
+            key={template.name}
+            type="button"
+            onClick={() => setSelected(template.name)}
+            className={`w-full text-left p-3 ${activeName === template.name ? "bg-blue-50" : "hover:bg-slate-50"}`}
+          >
+            <p className="text-sm font-medium text-slate-900">{formatName(template.name)}</p>
+            <p className="text-xs text-slate-500">{template.description}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="lg:col-span-2 space-y-3">
+        {previewLoading || !preview ? (
+          <div className="animate-pulse h-96 bg-slate-200 rounded"></div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2 min-w-0">
+                <Mail className="h-4 w-4 text-slate-500 flex-shrink-0" />
+                <span className="text-sm font-medium text-slate-900 truncate">{preview.subject}</span>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant={mode === "html" ? "default" : "outline"} onClick={() => setMode("html")}>
+                  HTML
+                </Button>
+                <Button size="sm" variant={mode === "text" ? "default" : "outline"} onClick={() => setMode("text")}>
+                  Plain text
+                </Button>
+              </div>
+            </div>
+            {mode === "html" ? (
+              // Sandboxed so template markup can't run scripts in the admin page
+              <iframe
+                title="Email preview"
+                srcDoc={preview.html}
+                sandbox=""
+                className="w-full h-[600px] border rounded-lg bg-white"
+              />
+            ) : (
+              <pre className="p-4 border rounded-lg bg-slate-50 text-sm text-slate-700 whitespace-pre-wrap">
+                {preview.text}
+              </pre>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2 } from "lucide-react";
+import { SETTLEMENT_CURRENCY } from "@shared/currency";
+
+interface ExchangeRatesData {
+  settlementCurrency: string;
+  rates: { currency: string; rate: number; updatedAt: string | null }[];
+}
+
+// Admin-maintained conversion rates used for display prices and foreign-currency service pricing
+export default function ExchangeRateSettings() {
+  const { toast } = useToast();
+  const [currency, setCurrency] = useState("");
+  const [rate, setRate] = useState("");
+
+  const { data } = useQuery<ExchangeRatesData>({
+    queryKey: ["/api/exchange-rates"],
+  });
+
+  const rates = (data?.rates ?? []).filter((row) => row.currency !== SETTLEMENT_CURRENCY);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: { currency: string; rate: number }) => {
+      const res = await apiRequest("PUT", `/api/admin/exchange-rates/${values.currency}`, { rate: values.rate });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Saved", description: "Exchange rate updated. New orders will use it." });
+      setCurrency("");
+      setRate("");
+      queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update exchange rate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("DELETE", `/api/admin/exchange-rates/${code}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove exchange rate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      {rates.length > 0 ? (
+        <div className="border rounded-lg divide-y">
+          {rates.map((row) => (
+            <div key={row.currency} className="flex items-center justify-between gap-3 p-3 text-sm">
+              <div>
+                <span className="font-medium">1 {row.currency}</span> = {SETTLEMENT_CURRENCY} {row.rate.toLocaleString()}
+                {row.updatedAt && (
+                  <span className="text-xs text-slate-500 ml-2">updated {new Date(row.updatedAt).toLocaleDateString()}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setCurrency(row.currency);
+                    setRate(String(row.rate));
+                  }}
+                >
+                  Edit
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(row.currency)}
+                  aria-label={`Remove ${row.currency}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-600">
+          No exchange rates yet. Prices are shown in {SETTLEMENT_CURRENCY} only.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <Label htmlFor="rate-currency">Currency</Label>
+          <Input
+            id="rate-currency"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value.toUpperCase().slice(0, 3))}
+            placeholder="USD"
+            className="mt-2 uppercase"
+          />
+        </div>
+        <div>
+          <Label htmlFor="rate-value">{SETTLEMENT_CURRENCY} per unit</Label>
+          <Input
+            id="rate-value"
+            type="number"
+            min="0"
+            step="0.000001"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            placeholder="1550"
+            className="mt-2"
+          />
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate({ currency, rate: Number(rate) })}
+          disabled={saveMutation.isPending || currency.length !== 3 || !(Number(rate) > 0)}
+        >
+          {saveMutation.isPending ? "Saving..." : "Save rate"}
+        </Button>
+      </div>
+    </div>
+  );
+}
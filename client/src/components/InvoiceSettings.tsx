@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface InvoiceSettingsData {
+  businessName: string | null;
+  businessAddress: string | null;
+  businessEmail: string | null;
+  businessPhone: string | null;
+  taxId: string | null;
+  vatRate: number | null;
+}
+
+const emptyForm = {
+  businessName: "",
+  businessAddress: "",
+  businessEmail: "",
+  businessPhone: "",
+  taxId: "",
+  vatRate: "",
+};
+
+// Business details and VAT printed on client invoices and receipts
+export default function InvoiceSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data } = useQuery<InvoiceSettingsData>({
+    queryKey: ["/api/admin/settings/invoicing"],
+  });
+
+  useEffect(() => {
+    if (data) {
+      setForm({
+        businessName: data.businessName ?? "",
+        businessAddress: data.businessAddress ?? "",
+        businessEmail: data.businessEmail ?? "",
+        businessPhone: data.businessPhone ?? "",
+        taxId: data.taxId ?? "",
+        vatRate: data.vatRate != null ? String(data.vatRate) : "",
+      });
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", "/api/admin/settings/invoicing", {
+        businessName: form.businessName || null,
+        businessAddress: form.businessAddress || null,
+        businessEmail: form.businessEmail || null,
+        businessPhone: form.businessPhone || null,
+        taxId: form.taxId || null,
+        vatRate: form.vatRate ? Number(form.vatRate) : null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Saved", description: "Invoice details updated. New documents will use them." });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings/invoicing"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update invoice details",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const update = (field: keyof typeof emptyForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm((current) => ({ ...current, [field]: e.target.value }));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="business-name">Business name</Label>
+          <Input id="business-name" value={form.businessName} onChange={update("businessName")} placeholder="DiSO Webs" className="mt-2" />
+        </div>
+        <div>
+          <Label htmlFor="business-email">Billing email</Label>
+          <Input id="business-email" type="email" value={form.businessEmail} onChange={update("businessEmail")} className="mt-2" />
+        </div>
+        <div>
+          <Label htmlFor="business-phone">Phone</Label>
+          <Input id="business-phone" type="tel" value={form.businessPhone} onChange={update("businessPhone")} className="mt-2" />
+        </div>
+        <div>
+          <Label htmlFor="business-tax-id">Tax ID</Label>
+          <Input id="business-tax-id" value={form.taxId} onChange={update("taxId")} placeholder="TIN / VAT number" className="mt-2" />
+        </div>
+        <div className="md:col-span-2">
+          <Label htmlFor="business-address">Address</Label>
+          <Textarea id="business-address" value={form.businessAddress} onChange={update("businessAddress")} rows={2} className="mt-2" />
+        </div>
+        <div>
+          <Label htmlFor="vat-rate">VAT rate (%)</Label>
+          <Input
+            id="vat-rate"
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            value={form.vatRate}
+            onChange={update("vatRate")}
+            placeholder="Leave empty if not VAT registered"
+            className="mt-2"
+          />
+          <p className="text-sm text-slate-600 mt-1">
+            Prices are VAT-inclusive; invoices show the VAT portion of each total.
+          </p>
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save invoice details"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,38 +1,140 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useProjectSocket, type MessagesPage } from "@/hooks/useProjectSocket";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Send, MessageSquare } from "lucide-react";
-import type { Message } from "@shared/schema";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Send, MessageSquare, CheckCheck, Paperclip, FileText, X } from "lucide-react";
+import type { MessageWithDetails } from "@shared/schema";
 
 interface MessagesListProps {
   projectId?: string;
 }
 
+interface AttachableFile {
+  id: string;
+  filename: string;
+  mimeType: string | null;
+  sizeBytes: number | null;
+}
+
+type Attachment = MessageWithDetails["attachments"][number];
+
+const formatSize = (bytes: number | null) => {
+  if (!bytes) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 export default function MessagesList({ projectId }: MessagesListProps) {
   const [newMessage, setNewMessage] = useState("");
+  const [selectedFileIds, setSelectedFileIds] = useState<string[]>([]);
+  const [olderMessages, setOlderMessages] = useState<MessageWithDetails[]>([]);
+  const [olderCursor, setOlderCursor] = useState<string | null | undefined>(undefined);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { isConnected, typingUsers, sendTyping, sendRead } = useProjectSocket(projectId);
+  const typingTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  const { data: messages, isLoading } = useQuery({
+  const { data: latestPage, isLoading } = useQuery<MessagesPage>({
     queryKey: [`/api/projects/${projectId}/messages`],
     enabled: !!projectId,
+    refetchInterval: isConnected ? false : 15000, // Poll only while the live connection is down
   });
 
-  const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
-      return apiRequest("POST", `/api/projects/${projectId}/messages`, {
-        content,
+  const { data: projectFiles = [] } = useQuery<AttachableFile[]>({
+    queryKey: [`/api/projects/${projectId}/files`],
+    enabled: !!projectId,
+  });
+
+  // Older pages are fetched on demand and kept in front of the live first page
+  useEffect(() => {
+    setOlderMessages([]);
+    setOlderCursor(undefined);
+    setSelectedFileIds([]);
+  }, [projectId]);
+
+  const latestIds = new Set(latestPage?.messages.map((m) => m.id));
+  const messages = [...olderMessages.filter((m) => !latestIds.has(m.id)), ...(latestPage?.messages ?? [])];
+  const nextCursor = olderCursor === undefined ? latestPage?.nextCursor ?? null : olderCursor;
+
+  const loadOlderMessages = async () => {
+    if (!nextCursor) return;
+    setLoadingOlder(true);
+    try {
+      const res = await apiRequest("GET", `/api/projects/${projectId}/messages?before=${nextCursor}`);
+      const page: MessagesPage = await res.json();
+      setOlderMessages((existing) => [...page.messages, ...existing]);
+      setOlderCursor(page.nextCursor);
+    } catch (error: any) {
+      toast({
+        title: "Couldn't load earlier messages",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
       });
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  // Tell the other side we've read up to the newest message they sent
+  const lastIncoming = messages.filter((m) => m.senderId !== user?.id).at(-1);
+  const lastIncomingRead = !!lastIncoming?.readBy.some((r) => r.userId === user?.id);
+  useEffect(() => {
+    if (lastIncoming && !lastIncomingRead) {
+      sendRead(lastIncoming.id);
+    }
+  }, [lastIncoming?.id, lastIncomingRead, sendRead]);
+
+  // The newest of my messages that someone else has read
+  const lastSeenOwnMessageId = messages
+    .filter((m) => m.senderId === user?.id && m.readBy.some((r) => r.userId !== user?.id))
+    .at(-1)?.id;
+
+  const stopTyping = () => {
+    if (typingTimeout.current) {
+      clearTimeout(typingTimeout.current);
+      typingTimeout.current = null;
+      sendTyping(false);
+    }
+  };
+
+  const handleInputChange = (value: string) => {
+    setNewMessage(value);
+    if (!typingTimeout.current) {
+      sendTyping(true);
+    } else {
+      clearTimeout(typingTimeout.current);
+    }
+    typingTimeout.current = setTimeout(stopTyping, 3000);
+  };
+
+  const toggleAttachment = (fileId: string) => {
+    setSelectedFileIds((ids) => ids.includes(fileId) ? ids.filter((id) => id !== fileId) : [...ids, fileId]);
+  };
+
+  const sendMessageMutation = useMutation({
+    mutationFn: async (payload: { content: string; fileIds: string[] }) => {
+      return apiRequest("POST", `/api/projects/${projectId}/messages`, payload);
     },
     onSuccess: () => {
       setNewMessage("");
+      setSelectedFileIds([]);
       queryClient.invalidateQueries({
         queryKey: [`/api/projects/${projectId}/messages`],
       });
@@ -51,11 +153,40 @@ export default function MessagesList({ projectId }: MessagesListProps) {
   });
 
   const handleSendMessage = () => {
-    if (!newMessage.trim()) return;
-    sendMessageMutation.mutate(newMessage);
+    if (!newMessage.trim() && selectedFileIds.length === 0) return;
+    stopTyping();
+    sendMessageMutation.mutate({ content: newMessage, fileIds: selectedFileIds });
   };
 
-  const formatMessageTime = (dateString: string) => {
+  const renderAttachment = (attachment: Attachment) => {
+    const url = `/api/projects/${projectId}/files/${attachment.id}/download`;
+    if (attachment.mimeType?.startsWith("image/") && attachment.mimeType !== "image/svg+xml") {
+      return (
+        <a key={attachment.id} href={url} target="_blank" rel="noopener noreferrer" className="block">
+          <img
+            src={url}
+            alt={attachment.filename}
+            loading="lazy"
+            className="max-h-40 max-w-[240px] rounded-md border object-cover"
+          />
+        </a>
+      );
+    }
+    return (
+      <a
+        key={attachment.id}
+        href={url}
+        className="flex items-center gap-2 px-3 py-2 rounded-md border bg-slate-50 hover:bg-slate-100 text-xs text-slate-700 max-w-[240px]"
+      >
+        <FileText className="h-4 w-4 text-slate-500 flex-shrink-0" />
+        <span className="truncate">{attachment.filename}</span>
+        {attachment.sizeBytes ? <span className="text-slate-500 flex-shrink-0">{formatSize(attachment.sizeBytes)}</span> : null}
+      </a>
+    );
+  };
+
+  const formatMessageTime = (dateString: string | Date | null) => {
+    if (!dateString) return "";
     const date = new Date(dateString);
     const now = new Date();
     const diffInHours = (now.getTime() - date.getTime()) / (1000 * 60 * 60);
@@ -110,8 +241,15 @@ export default function MessagesList({ projectId }: MessagesListProps) {
     <div className="space-y-4">
       {/* Messages List */}
       <div className="space-y-4 max-h-96 overflow-y-auto">
-        {messages && messages.length > 0 ? (
-          messages.map((message: Message & { sender?: { firstName: string; lastName: string } }) => (
+        {nextCursor && (
+          <div className="text-center">
+            <Button variant="ghost" size="sm" onClick={loadOlderMessages} disabled={loadingOlder}>
+              {loadingOlder ? "Loading..." : "Load earlier messages"}
+            </Button>
+          </div>
+        )}
+        {messages.length > 0 ? (
+          messages.map((message) => (
             <div key={message.id} className="flex items-start space-x-3">
               <Avatar className="w-8 h-8">
                 <AvatarFallback className={message.isAdmin ? "bg-blue-100 text-blue-600" : "bg-slate-100 text-slate-600"}>
@@ -133,9 +271,21 @@ export default function MessagesList({ projectId }: MessagesListProps) {
                     {formatMessageTime(message.sentAt)}
                   </span>
                 </div>
-                <p className="text-sm text-slate-700 leading-relaxed">
-                  {message.content}
-                </p>
+                {message.content && (
+                  <p className="text-sm text-slate-700 leading-relaxed">
+                    {message.content}
+                  </p>
+                )}
+                {message.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {message.attachments.map(renderAttachment)}
+                  </div>
+                )}
+                {message.id === lastSeenOwnMessageId && (
+                  <span className="flex items-center gap-1 text-xs text-slate-500 mt-1">
+                    <CheckCheck className="h-3 w-3" /> Seen
+                  </span>
+                )}
               </div>
             </div>
           ))
@@ -148,12 +298,33 @@ export default function MessagesList({ projectId }: MessagesListProps) {
         )}
       </div>
 
+      {typingUsers.length > 0 && (
+        <p className="text-xs text-slate-500 italic">
+          {typingUsers.map((u) => u.name).join(", ")} {typingUsers.length === 1 ? "is" : "are"} typing...
+        </p>
+      )}
+
       {/* Message Input */}
       <div className="border-t pt-4">
+        {selectedFileIds.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {projectFiles
+              .filter((file) => selectedFileIds.includes(file.id))
+              .map((file) => (
+                <span key={file.id} className="flex items-center gap-1 px-2 py-1 rounded-full bg-blue-50 text-xs text-blue-700">
+                  <Paperclip className="h-3 w-3" />
+                  <span className="max-w-[160px] truncate">{file.filename}</span>
+                  <button type="button" onClick={() => toggleAttachment(file.id)} aria-label={`Remove ${file.filename}`}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+          </div>
+        )}
         <div className="flex space-x-2">
           <Textarea
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
+            onChange={(e) => handleInputChange(e.target.value)}
             placeholder="Type your message..."
             className="flex-1 min-h-[80px] resize-none"
             onKeyDown={(e) => {
@@ -163,13 +334,35 @@ export default function MessagesList({ projectId }: MessagesListProps) {
               }
             }}
           />
-          <Button
-            onClick={handleSendMessage}
-            disabled={!newMessage.trim() || sendMessageMutation.isPending}
-            className="self-end"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+          <div className="flex flex-col justify-end gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="icon" disabled={projectFiles.length === 0} title="Attach project files">
+                  <Paperclip className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-64 max-h-72 overflow-y-auto">
+                <DropdownMenuLabel>Attach project files</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {projectFiles.map((file) => (
+                  <DropdownMenuCheckboxItem
+                    key={file.id}
+                    checked={selectedFileIds.includes(file.id)}
+                    onCheckedChange={() => toggleAttachment(file.id)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    <span className="truncate">{file.filename}</span>
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              onClick={handleSendMessage}
+              disabled={(!newMessage.trim() && selectedFileIds.length === 0) || sendMessageMutation.isPending}
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
         <p className="text-xs text-slate-500 mt-2">
           Press Enter to send, Shift+Enter for new line
@@ -9,6 +9,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import NotificationBell from "@/components/NotificationBell";
 
 export default function Navigation() {
   const [isOpen, setIsOpen] = useState(false);
@@ -61,6 +62,7 @@ export default function Navigation() {
                     Dashboard
                   </Button>
                 </Link>
+                <NotificationBell />
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button variant="ghost" size="sm" className="flex items-center space-x-2">
@@ -117,6 +119,7 @@ export default function Navigation() {
 
           {/* Mobile Actions */}
           <div className="md:hidden flex items-center space-x-3">
+            {isAuthenticated && <NotificationBell />}
             {!isAuthenticated && (
               <Link href="/services">
                 <Button 
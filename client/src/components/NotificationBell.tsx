@@ -0,0 +1,129 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Bell } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Notification } from "@shared/schema";
+
+interface NotificationBellProps {
+  variant?: "light" | "dark"; // dark matches the admin navigation bar
+}
+
+const formatTimeAgo = (dateString: string | Date | null) => {
+  if (!dateString) return "";
+  const diffInMinutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+
+  if (diffInMinutes < 1) return "Just now";
+  if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+  if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`;
+  return new Date(dateString).toLocaleDateString([], { month: "short", day: "numeric" });
+};
+
+export default function NotificationBell({ variant = "light" }: NotificationBellProps) {
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications/unread-count"],
+    refetchInterval: 60000, // Poll every minute
+  });
+
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: 60000,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/client/stats"] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("PATCH", `/api/notifications/${id}/read`),
+    onSuccess: refresh,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/notifications/read-all"),
+    onSuccess: refresh,
+  });
+
+  const handleClick = (notification: Notification) => {
+    if (!notification.isRead) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      setLocation(notification.link);
+    }
+  };
+
+  const unreadCount = unread?.count || 0;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`relative ${variant === "dark" ? "text-gray-300 hover:text-white hover:bg-gray-800" : ""}`}
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between pr-2">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              className="text-xs text-blue-600 hover:text-blue-700"
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length > 0 ? (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => handleClick(notification)}
+                className={`flex flex-col items-start gap-1 py-2 cursor-pointer ${notification.isRead ? "" : "bg-blue-50"}`}
+              >
+                <div className="flex w-full items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-slate-900">
+                    {notification.title || "Notification"}
+                  </span>
+                  <span className="text-xs text-slate-500 flex-shrink-0">
+                    {formatTimeAgo(notification.createdAt)}
+                  </span>
+                </div>
+                <span className="text-xs text-slate-600 leading-relaxed">{notification.content}</span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        ) : (
+          <div className="py-6 text-center text-sm text-slate-500">
+            You're all caught up.
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
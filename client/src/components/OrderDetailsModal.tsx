@@ -1,4 +1,5 @@
 import React from "react";
+import { useQuery } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -18,6 +19,30 @@ import {
   ExternalLink
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import OrderDocuments from "@/components/OrderDocuments";
+import { convertAmount, formatMoney } from "@shared/currency";
+import { orderStatusLabels, isOrderStatus } from "@shared/orderLifecycle";
+
+interface OrderStatusHistoryEntry {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  source: string;
+  changedByName: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+const statusLabel = (status: string) => (isOrderStatus(status) ? orderStatusLabels[status] : status);
+
+const sourceLabels: Record<string, string> = {
+  checkout: "Order placed",
+  admin: "Updated by our team",
+  client: "Updated by you",
+  payment: "Payment",
+  reconciler: "Automatic check",
+  refund: "Refund",
+};
 
 interface OrderDetailsModalProps {
   order: any;
@@ -28,6 +53,11 @@ interface OrderDetailsModalProps {
 export default function OrderDetailsModal({ order, isOpen, onClose }: OrderDetailsModalProps) {
   const { toast } = useToast();
 
+  const { data: statusHistory = [] } = useQuery<OrderStatusHistoryEntry[]>({
+    queryKey: [`/api/orders/${order?.id}/status-history`],
+    enabled: isOpen && !!order?.id,
+  });
+
   const copyOrderId = () => {
     navigator.clipboard.writeText(order.id);
     toast({
@@ -121,6 +151,12 @@ export default function OrderDetailsModal({ order, isOpen, onClose }: OrderDetai
               <div className="text-2xl font-bold text-green-600">
                 ₦{(order.totalPrice || 0).toLocaleString()}
               </div>
+              {order.displayCurrency && order.displayCurrency !== order.currency && Number(order.exchangeRate) > 0 && (
+                <p className="text-xs text-slate-500 mt-1">
+                  Quoted as {formatMoney(convertAmount(Number(order.totalPrice) || 0, 1, Number(order.exchangeRate)), order.displayCurrency)}
+                  {" "}(1 {order.displayCurrency} = {formatMoney(Number(order.exchangeRate), order.currency, { decimals: 2 })})
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -181,7 +217,22 @@ export default function OrderDetailsModal({ order, isOpen, onClose }: OrderDetai
               </p>
             </div>
 
-            {orderData.selectedAddOns && orderData.selectedAddOns.length > 0 && (
+            {/* Orders priced on the server carry their own breakdown; older ones only list add-on names */}
+            {Array.isArray(order.lineItems) && order.lineItems.length > 0 ? (
+              <div>
+                <label className="text-sm font-medium text-slate-500">Price Breakdown</label>
+                <div className="text-sm text-slate-900 mt-1 space-y-1">
+                  {order.lineItems.map((item: any) => (
+                    <div key={item.id} className="flex justify-between gap-2">
+                      <span>{item.kind === 'add_on' ? `+ ${item.description}` : item.description}</span>
+                      <span className={item.kind === 'discount' ? 'text-green-600' : ''}>
+                        {Number(item.amount) < 0 ? '-' : ''}₦{Math.abs(Number(item.amount)).toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : orderData.selectedAddOns && orderData.selectedAddOns.length > 0 && (
               <div>
                 <label className="text-sm font-medium text-slate-500">Selected Add-ons</label>
                 <ul className="text-sm text-slate-900 mt-1 list-disc list-inside">
@@ -214,6 +265,29 @@ export default function OrderDetailsModal({ order, isOpen, onClose }: OrderDetai
             </div>
           )}
 
+          {statusHistory.length > 0 && (
+            <div>
+              <label className="text-sm font-medium text-slate-500 mb-2 block">Status History</label>
+              <ol className="relative border-l border-slate-200 ml-1.5 space-y-4">
+                {statusHistory.map((entry) => (
+                  <li key={entry.id} className="ml-4">
+                    <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${getStatusColor(entry.toStatus)}`} />
+                    <p className="text-sm font-medium text-slate-900">
+                      {entry.fromStatus ? `${statusLabel(entry.fromStatus)} → ${statusLabel(entry.toStatus)}` : statusLabel(entry.toStatus)}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {new Date(entry.createdAt).toLocaleString()} · {sourceLabels[entry.source] || entry.source}
+                      {entry.changedByName && entry.source === 'admin' ? ` (${entry.changedByName})` : ""}
+                    </p>
+                    {entry.reason && <p className="text-xs text-slate-600 mt-0.5">{entry.reason}</p>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          <OrderDocuments orderId={order.id} />
+
           {/* Action Buttons */}
           <div className="flex gap-2 sm:gap-3 pt-2 border-t bg-white sticky bottom-0">
             <Button
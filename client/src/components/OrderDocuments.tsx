@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Download, FileText, Receipt } from "lucide-react";
+
+interface OrderDocumentsResponse {
+  invoice: { number: string | null; url: string } | null;
+  receipts: {
+    paymentId: string;
+    number: string | null;
+    amount: string;
+    paidAt: string | null;
+    url: string;
+  }[];
+}
+
+interface OrderDocumentsProps {
+  orderId: string;
+  className?: string;
+}
+
+const formatAmount = (amount: number | string) => `₦${Number(amount).toLocaleString()}`;
+
+// PDF invoice and per-payment receipt downloads for an order. Numbers are assigned on first download.
+export default function OrderDocuments({ orderId, className }: OrderDocumentsProps) {
+  const { data, isLoading } = useQuery<OrderDocumentsResponse>({
+    queryKey: [`/api/orders/${orderId}/documents`],
+    enabled: !!orderId,
+  });
+
+  if (isLoading || !data?.invoice) return null;
+
+  return (
+    <div className={className}>
+      <h3 className="font-semibold text-slate-900 mb-3">Invoices &amp; Receipts</h3>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2 p-2 bg-slate-50 rounded">
+          <div className="flex items-center gap-2 text-sm text-slate-900">
+            <FileText className="h-4 w-4 text-slate-500" />
+            Invoice{data.invoice.number ? ` ${data.invoice.number}` : ""}
+          </div>
+          <Button asChild size="sm" variant="outline" className="h-7">
+            <a href={data.invoice.url} download>
+              <Download className="h-3 w-3 mr-1" /> PDF
+            </a>
+          </Button>
+        </div>
+        {data.receipts.map((receipt) => (
+          <div key={receipt.paymentId} className="flex items-center justify-between gap-2 p-2 bg-slate-50 rounded">
+            <div className="flex items-center gap-2 text-sm text-slate-900 min-w-0">
+              <Receipt className="h-4 w-4 text-slate-500 flex-shrink-0" />
+              <span className="truncate">
+                Receipt{receipt.number ? ` ${receipt.number}` : ""} · {formatAmount(receipt.amount)}
+                {receipt.paidAt && ` · ${new Date(receipt.paidAt).toLocaleDateString()}`}
+              </span>
+            </div>
+            <Button asChild size="sm" variant="outline" className="h-7">
+              <a href={receipt.url} download>
+                <Download className="h-3 w-3 mr-1" /> PDF
+              </a>
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
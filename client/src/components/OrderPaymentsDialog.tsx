@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { RotateCcw } from "lucide-react";
+import type { PaymentWithRefunds } from "@shared/schema";
+
+interface OrderPaymentsDialogProps {
+  orderId: string | null;
+  onClose: () => void;
+}
+
+const formatAmount = (amount: number | string) => `₦${Number(amount).toLocaleString()}`;
+
+const statusColors: Record<string, string> = {
+  succeeded: "bg-green-100 text-green-800",
+  pending: "bg-yellow-100 text-yellow-800",
+  failed: "bg-red-100 text-red-800",
+  refunded: "bg-slate-200 text-slate-800",
+};
+
+// Admin view of an order's payments with full or partial refunds
+export default function OrderPaymentsDialog({ orderId, onClose }: OrderPaymentsDialogProps) {
+  const { toast } = useToast();
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: payments = [], isLoading } = useQuery<PaymentWithRefunds[]>({
+    queryKey: [`/api/admin/orders/${orderId}/payments`],
+    enabled: !!orderId,
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async (payment: PaymentWithRefunds) => {
+      const res = await apiRequest("POST", `/api/admin/payments/${payment.id}/refunds`, {
+        amount: amount ? Number(amount) : undefined,
+        reason: reason || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (data: { orderCancelled: boolean; awaitingTransfer: boolean }) => {
+      toast({
+        title: data.awaitingTransfer ? "Refund requested" : "Refund issued",
+        description: data.awaitingTransfer
+          ? "Send the transfer, then mark it sent on the Bank Transfers page."
+          : data.orderCancelled ? "The order was fully refunded and cancelled." : "The partial refund was recorded.",
+      });
+      setRefundingId(null);
+      setAmount("");
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/orders/${orderId}/payments`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Refund failed",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startRefund = (payment: PaymentWithRefunds) => {
+    setRefundingId(payment.id);
+    setAmount(String(payment.refundableAmount));
+    setReason("");
+  };
+
+  return (
+    <Dialog open={!!orderId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Payments</DialogTitle>
+          <DialogDescription>Order #{orderId?.slice(0, 8)}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(2)].map((_, i) => (
+              <div key={i} className="animate-pulse h-16 bg-slate-200 rounded"></div>
+            ))}
+          </div>
+        ) : payments.length === 0 ? (
+          <p className="text-sm text-slate-600 py-4 text-center">No payments recorded for this order.</p>
+        ) : (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            {payments.map((payment) => (
+              <div key={payment.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-900">
+                      {formatAmount(payment.amount)} via {payment.provider}
+                    </p>
+                    <p className="text-xs text-slate-500 truncate">{payment.providerId}</p>
+                    {payment.refundedAmount > 0 && (
+                      <p className="text-xs text-slate-600 mt-1">Refunded {formatAmount(payment.refundedAmount)}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Badge className={statusColors[payment.status] || ""}>{payment.status}</Badge>
+                    {payment.refundableAmount > 0 && refundingId !== payment.id && (
+                      <Button size="sm" variant="outline" onClick={() => startRefund(payment)}>
+                        <RotateCcw className="h-3 w-3 mr-1" /> Refund
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {refundingId === payment.id && (
+                  <div className="space-y-3 border-t pt-3">
+                    <div className="space-y-1">
+                      <Label htmlFor={`refund-amount-${payment.id}`}>
+                        Amount (max {formatAmount(payment.refundableAmount)})
+                      </Label>
+                      <Input
+                        id={`refund-amount-${payment.id}`}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        max={payment.refundableAmount}
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`refund-reason-${payment.id}`}>Reason</Label>
+                      <Textarea
+                        id={`refund-reason-${payment.id}`}
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder="Optional note kept with the refund"
+                        rows={2}
+                      />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setRefundingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={refundMutation.isPending || !(Number(amount) > 0)}
+                        onClick={() => refundMutation.mutate(payment)}
+                      >
+                        {refundMutation.isPending ? "Refunding..." : `Refund ${formatAmount(amount || 0)}`}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {payment.refunds.length > 0 && (
+                  <div className="border-t pt-3 space-y-1">
+                    {payment.refunds.map((refund) => (
+                      <div key={refund.id} className="flex items-center justify-between text-xs text-slate-600">
+                        <span>
+                          {formatAmount(refund.amount)}
+                          {refund.reason ? ` · ${refund.reason}` : ""}
+                          {Number(refund.commissionClawback) > 0 ? ` · commission reversed ${formatAmount(refund.commissionClawback!)}` : ""}
+                        </span>
+                        <span className="flex items-center gap-2">
+                          {refund.createdAt && new Date(refund.createdAt).toLocaleDateString()}
+                          <Badge className={statusColors[refund.status] || ""}>
+                            {refund.provider === "bank_transfer" && refund.status === "pending" && !refund.processedAt ? "transfer due" : refund.status}
+                          </Badge>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
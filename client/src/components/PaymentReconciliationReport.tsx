@@ -0,0 +1,154 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CheckCircle, RefreshCw } from "lucide-react";
+
+interface ReconciliationIssue {
+  id: string;
+  orderId: string;
+  provider: string;
+  reference: string;
+  kind: string;
+  expectedAmount: string | null;
+  actualAmount: string | null;
+  details: string | null;
+  detectedAt: string;
+  customerEmail: string | null;
+}
+
+interface ReconciliationRun {
+  finishedAt: string;
+  checked: number;
+  succeeded: number;
+  failed: number;
+  stillPending: number;
+  issues: number;
+  errors: number;
+  expiredOrders: number;
+}
+
+interface ReconciliationReport {
+  issues: ReconciliationIssue[];
+  lastRun: ReconciliationRun | null;
+  pendingAfterMinutes: number;
+  orderExpiryHours: number;
+}
+
+const issueLabels: Record<string, string> = {
+  amount_mismatch: "Amount mismatch",
+  currency_mismatch: "Currency mismatch",
+  paid_after_cancellation: "Paid after cancellation",
+  verification_failed: "Could not verify",
+};
+
+const formatAmount = (amount: string | null) => (amount != null ? `₦${Number(amount).toLocaleString()}` : "—");
+
+// Mismatches the pending payment reconciler couldn't settle on its own
+export default function PaymentReconciliationReport() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<ReconciliationReport>({
+    queryKey: ["/api/admin/payments/reconciliation"],
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/payments/reconciliation/run");
+      return (await res.json()) as ReconciliationRun;
+    },
+    onSuccess: (run) => {
+      toast({
+        title: "Reconciliation complete",
+        description: `${run.checked} checked, ${run.succeeded} confirmed, ${run.failed} failed, ${run.expiredOrders} orders expired.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payments/reconciliation"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to run reconciliation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, note }: { id: string; note?: string }) => {
+      const res = await apiRequest("PATCH", `/api/admin/payments/reconciliation/${id}`, { note });
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/admin/payments/reconciliation"] }),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resolve issue",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resolveIssue = (issue: ReconciliationIssue) => {
+    const note = window.prompt(`Resolution note for ${issue.reference} (optional)`);
+    if (note === null) return;
+    resolveMutation.mutate({ id: issue.id, note: note || undefined });
+  };
+
+  const issues = data?.issues ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <p className="text-sm text-slate-600">
+          {data?.lastRun
+            ? `Last run ${new Date(data.lastRun.finishedAt).toLocaleString()}: ${data.lastRun.checked} checked, ${data.lastRun.succeeded} confirmed, ${data.lastRun.failed} failed, ${data.lastRun.stillPending} still pending, ${data.lastRun.expiredOrders} orders expired.`
+            : "No reconciliation run since the server started."}
+          {data && ` Payments are checked after ${data.pendingAfterMinutes} minutes; unpaid orders expire after ${data.orderExpiryHours} hours.`}
+        </p>
+        <Button size="sm" variant="outline" onClick={() => runMutation.mutate()} disabled={runMutation.isPending}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${runMutation.isPending ? "animate-spin" : ""}`} />
+          {runMutation.isPending ? "Running..." : "Run now"}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse h-16 bg-slate-200 rounded"></div>
+      ) : issues.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle className="h-4 w-4" /> No open payment mismatches.
+        </div>
+      ) : (
+        <div className="border rounded-lg divide-y">
+          {issues.map((issue) => (
+            <div key={issue.id} className="flex flex-col md:flex-row md:items-center gap-3 p-3 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <AlertTriangle className="h-4 w-4 text-orange-600 flex-shrink-0" />
+                  <Badge variant="outline">{issueLabels[issue.kind] || issue.kind}</Badge>
+                  <span className="text-slate-900 truncate">{issue.customerEmail || "Unknown client"}</span>
+                </div>
+                <p className="text-xs text-slate-500">
+                  Order #{issue.orderId.slice(0, 8)} · {issue.provider} {issue.reference} · detected {new Date(issue.detectedAt).toLocaleString()}
+                </p>
+                {issue.details && <p className="text-xs text-slate-600 mt-1">{issue.details}</p>}
+              </div>
+              <div className="flex items-center gap-4 flex-shrink-0">
+                <div className="text-right">
+                  <p className="text-xs text-slate-500">Expected / received</p>
+                  <p className="font-medium">
+                    {formatAmount(issue.expectedAmount)} / {formatAmount(issue.actualAmount)}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" disabled={resolveMutation.isPending} onClick={() => resolveIssue(issue)}>
+                  Resolve
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
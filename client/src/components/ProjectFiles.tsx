@@ -0,0 +1,186 @@
+import { useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { FileText, Upload, Download, Trash2, Paperclip } from "lucide-react";
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // Keep in sync with server/fileStorage.ts
+const ACCEPTED_TYPES = ".pdf,.zip,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.png,.jpg,.jpeg,.gif,.webp,.txt,.csv";
+
+interface ProjectFile {
+  id: string;
+  projectId: string;
+  uploadedBy: string;
+  filename: string;
+  mimeType: string | null;
+  sizeBytes: number | null;
+  uploadedAt: string;
+  uploader?: { firstName: string | null; lastName: string | null; role: string | null };
+}
+
+interface ProjectFilesProps {
+  projectId: string;
+}
+
+const readAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(new Error("Could not read file"));
+    reader.readAsDataURL(file);
+  });
+
+export default function ProjectFiles({ projectId }: ProjectFilesProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const filesKey = [`/api/projects/${projectId}/files`];
+
+  const { data: files = [], isLoading } = useQuery<ProjectFile[]>({
+    queryKey: filesKey,
+    enabled: !!projectId,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const data = await readAsBase64(file);
+      return apiRequest("POST", `/api/projects/${projectId}/files`, {
+        filename: file.name,
+        mimeType: file.type,
+        data,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: filesKey });
+      toast({
+        title: "File uploaded",
+        description: "Your file has been shared with the project team.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Upload failed",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (fileId: string) => {
+      return apiRequest("DELETE", `/api/projects/${projectId}/files/${fileId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: filesKey });
+      toast({ title: "File deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deleting file",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.size > MAX_FILE_SIZE) {
+      toast({
+        title: "File too large",
+        description: "Files must be 5MB or smaller.",
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  const formatSize = (bytes: number | null) => {
+    if (!bytes) return "";
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const uploaderName = (file: ProjectFile) => {
+    if (file.uploadedBy === user?.id) return "You";
+    if (file.uploader?.role === "admin") return "DiSO Webs Team";
+    return `${file.uploader?.firstName || ""} ${file.uploader?.lastName || ""}`.trim() || "Client";
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-600">
+          Share briefs, assets and deliverables (max 5MB per file).
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_TYPES}
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+        <Button
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadMutation.isPending}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {uploadMutation.isPending ? "Uploading..." : "Upload"}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(2)].map((_, i) => (
+            <div key={i} className="animate-pulse h-12 bg-slate-200 rounded"></div>
+          ))}
+        </div>
+      ) : files.length > 0 ? (
+        <div className="divide-y border rounded-lg">
+          {files.map((file) => (
+            <div key={file.id} className="flex items-center gap-3 p-3">
+              <FileText className="h-5 w-5 text-blue-600 flex-shrink-0" />
+              <div className="min-w-0 flex-1">
+                <div className="text-sm font-medium text-slate-900 truncate">{file.filename}</div>
+                <div className="text-xs text-slate-500">
+                  {uploaderName(file)} · {new Date(file.uploadedAt).toLocaleDateString()}
+                  {file.sizeBytes ? ` · ${formatSize(file.sizeBytes)}` : ""}
+                </div>
+              </div>
+              <Button variant="ghost" size="sm" asChild>
+                <a href={`/api/projects/${projectId}/files/${file.id}/download`}>
+                  <Download className="h-4 w-4" />
+                </a>
+              </Button>
+              {(file.uploadedBy === user?.id || user?.role === "admin") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(file.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8">
+          <Paperclip className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-slate-900 mb-2">No Files Yet</h3>
+          <p className="text-slate-600">Upload a brief or asset to get started.</p>
+        </div>
+      )}
+    </div>
+  );
+}
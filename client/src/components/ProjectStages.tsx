@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CheckCircle, Circle, ArrowUp, ArrowDown, Trash2, Plus, ListChecks } from "lucide-react";
+import type { ProjectStage } from "@shared/schema";
+
+interface ProjectStagesProps {
+  projectId: string;
+  editable?: boolean; // Admin controls for toggling, adding and reordering stages
+  compact?: boolean;
+}
+
+export default function ProjectStages({ projectId, editable = false, compact = false }: ProjectStagesProps) {
+  const [newStageTitle, setNewStageTitle] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const stagesKey = [`/api/projects/${projectId}/stages`];
+
+  const { data: stages = [], isLoading } = useQuery<ProjectStage[]>({
+    queryKey: stagesKey,
+    enabled: !!projectId,
+  });
+
+  // Stage changes also move the project's progress, so refresh project queries too
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: stagesKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error updating stages",
+      description: error.message || "Please try again later.",
+      variant: "destructive",
+    });
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: async (stage: ProjectStage) => {
+      return apiRequest("PATCH", `/api/admin/projects/${projectId}/stages/${stage.id}`, {
+        isComplete: !stage.isComplete,
+      });
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (title: string) => {
+      return apiRequest("POST", `/api/admin/projects/${projectId}/stages`, { title });
+    },
+    onSuccess: () => {
+      setNewStageTitle("");
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (stageId: string) => {
+      return apiRequest("DELETE", `/api/admin/projects/${projectId}/stages/${stageId}`);
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (stageIds: string[]) => {
+      return apiRequest("PUT", `/api/admin/projects/${projectId}/stages/reorder`, { stageIds });
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const templateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/admin/projects/${projectId}/stages/template`, {});
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stages.length) return;
+
+    const ids = stages.map(stage => stage.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="animate-pulse h-6 bg-gray-200 rounded"></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (stages.length === 0 && !editable) {
+    return compact ? null : (
+      <div className="text-center py-6 text-sm text-gray-500">
+        Milestones will appear here once your project kicks off.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {stages.map((stage, index) => (
+        <div key={stage.id} className="flex items-start gap-3">
+          {editable ? (
+            <button
+              type="button"
+              onClick={() => toggleMutation.mutate(stage)}
+              disabled={toggleMutation.isPending}
+              className="mt-0.5"
+            >
+              {stage.isComplete
+                ? <CheckCircle className="h-4 w-4 text-green-600" />
+                : <Circle className="h-4 w-4 text-gray-400" />}
+            </button>
+          ) : stage.isComplete ? (
+            <CheckCircle className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+          ) : (
+            <Circle className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+          )}
+          <div className="min-w-0 flex-1">
+            <div className={`text-sm font-medium ${stage.isComplete ? "text-gray-500 line-through" : "text-gray-900"}`}>
+              {stage.title}
+            </div>
+            {!compact && stage.description && (
+              <div className="text-xs text-gray-500 mt-0.5">{stage.description}</div>
+            )}
+            {!compact && stage.isComplete && stage.completedAt && (
+              <div className="text-xs text-green-600 mt-0.5">
+                Completed {new Date(stage.completedAt).toLocaleDateString()}
+              </div>
+            )}
+          </div>
+          {editable && (
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" onClick={() => moveStage(index, -1)} disabled={index === 0 || reorderMutation.isPending}>
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => moveStage(index, 1)} disabled={index === stages.length - 1 || reorderMutation.isPending}>
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(stage.id)} disabled={deleteMutation.isPending}>
+                <Trash2 className="h-3 w-3 text-red-500" />
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {editable && (
+        <div className="space-y-2 pt-2 border-t">
+          {stages.length === 0 && (
+            <Button variant="outline" size="sm" className="w-full" onClick={() => templateMutation.mutate()} disabled={templateMutation.isPending}>
+              <ListChecks className="h-4 w-4 mr-2" />
+              Apply default milestones
+            </Button>
+          )}
+          <div className="flex gap-2">
+            <Input
+              value={newStageTitle}
+              onChange={(e) => setNewStageTitle(e.target.value)}
+              placeholder="New stage title"
+              className="h-8 text-sm"
+            />
+            <Button
+              size="sm"
+              onClick={() => newStageTitle.trim() && addMutation.mutate(newStageTitle.trim())}
+              disabled={!newStageTitle.trim() || addMutation.isPending}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
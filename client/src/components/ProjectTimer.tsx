@@ -2,14 +2,17 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Clock, Calendar, User, Building, CheckCircle, AlertCircle } from 'lucide-react';
+import { Clock, Calendar, User, Building, CheckCircle, AlertCircle, Paperclip } from 'lucide-react';
+import { Link } from 'wouter';
 import ExpandableText from './ExpandableText';
+import ProjectStages from './ProjectStages';
 
 interface ProjectTimerProps {
   project: any;
+  showWorkspaceLink?: boolean;
 }
 
-export default function ProjectTimer({ project }: ProjectTimerProps) {
+export default function ProjectTimer({ project, showWorkspaceLink = true }: ProjectTimerProps) {
   const [timeRemaining, setTimeRemaining] = useState({
     days: 0,
     hours: 0,
@@ -97,7 +100,7 @@ export default function ProjectTimer({ project }: ProjectTimerProps) {
       id: projectData.id || 'unknown',
       projectName: getServiceName(),
       status: projectData.status || 'active',
-      progressPercentage: projectData.progressPercentage || Math.min(95, Math.max(5, Math.floor((elapsed / totalDuration) * 100))),
+      progressPercentage: projectData.progressPercentage ?? 0, // Derived from completed stages on the server
       currentStage: projectData.currentStage || 'In Progress',
       startDate,
       dueDate,
@@ -274,6 +277,16 @@ export default function ProjectTimer({ project }: ProjectTimerProps) {
             </div>
             <Progress value={timeProgress} className="h-3" />
           </div>
+
+          {projectData.id && (
+            <div className="pt-3 border-t border-gray-100 space-y-2">
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-gray-600">Current Stage</span>
+                <span className="font-semibold text-gray-900">{info.currentStage}</span>
+              </div>
+              <ProjectStages projectId={projectData.id} compact />
+            </div>
+          )}
         </div>
 
         {/* Timeline Section */}
@@ -329,6 +342,16 @@ export default function ProjectTimer({ project }: ProjectTimerProps) {
             </div>
           </div>
         </div>
+
+        {showWorkspaceLink && project.id && (
+          <Link
+            href={`/project/${project.id}`}
+            className="flex items-center justify-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            <Paperclip className="h-4 w-4" />
+            Files & project workspace
+          </Link>
+        )}
       </CardContent>
     </Card>
   );
@@ -2,12 +2,14 @@
 import { useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { useSpamProtection } from '@/hooks/useSpamProtection';
 
 interface SEOAnalyticsProps {
   page: string;
 }
 
 export default function SEOAnalytics({ page }: SEOAnalyticsProps) {
+  const { protect } = useSpamProtection();
   const { data: seoSettings } = useQuery({
     queryKey: ['/api/seo/settings'],
     queryFn: async () => {
@@ -36,13 +38,12 @@ export default function SEOAnalytics({ page }: SEOAnalyticsProps) {
 
         // Track internal analytics
         const today = new Date().toISOString().split('T')[0];
-        await apiRequest('POST', '/api/seo/analytics', {
+        await apiRequest('POST', '/api/seo/analytics', await protect({
           page: page,
           date: today,
-          views: 1,
           referrer: document.referrer || 'direct',
           userAgent: navigator.userAgent
-        });
+        }));
       } catch (error) {
         console.debug('Analytics tracking error:', error);
       }
@@ -51,7 +52,7 @@ export default function SEOAnalytics({ page }: SEOAnalyticsProps) {
     // Track page view after a short delay
     const timer = setTimeout(trackPageView, 1000);
     return () => clearTimeout(timer);
-  }, [page, seoSettings]);
+  }, [page, seoSettings, protect]);
 
   useEffect(() => {
     // Track scroll depth for engagement metrics
@@ -32,6 +32,9 @@ import {
 } from "lucide-react";
 
 import CheckoutModal from "@/components/CheckoutModal";
+import CurrencySelector from "@/components/CurrencySelector";
+import { useCurrency } from "@/hooks/useCurrency";
+import { SETTLEMENT_CURRENCY } from "@shared/currency";
 
 interface AddOn {
   name: string;
@@ -97,6 +100,7 @@ function PricingCalculator({
 }: PricingCalculatorProps) {
   const [selectedAddOns, setSelectedAddOns] = useState<string[]>(currentSelectedAddOns || []);
   const [isAddOnsExpanded, setIsAddOnsExpanded] = useState(false);
+  const { format } = useCurrency();
 
   const totalPrice = useMemo(() => {
     const addOnsCost = service.addOns
@@ -129,7 +133,7 @@ function PricingCalculator({
       <div className="flex justify-between items-center">
         <span className="text-sm font-medium text-slate-600">Base Price:</span>
         <span className="text-sm font-bold text-slate-800">
-          ₦{service.price.toLocaleString()}
+          {format(service.price)}
         </span>
       </div>
 
@@ -172,7 +176,7 @@ function PricingCalculator({
                     </label>
                   </div>
                   <span className="text-sm font-medium text-slate-600">
-                    +₦{addon.price.toLocaleString()}
+                    +{format(addon.price)}
                   </span>
                 </div>
               ))}
@@ -185,7 +189,7 @@ function PricingCalculator({
       <div className="flex justify-between items-center">
         <span className="text-base font-bold text-slate-800">Total:</span>
         <span className="text-lg font-bold text-blue-600">
-          ₦{totalPrice.toLocaleString()}
+          {format(totalPrice)}
         </span>
       </div>
     </div>
@@ -194,6 +198,7 @@ function PricingCalculator({
 
 function ROICalculator({ service }: { service: Service }) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const { format } = useCurrency();
 
   const roiMetrics = useMemo(() => {
     const monthlyValue = service.price * 0.1;
@@ -233,13 +238,13 @@ function ROICalculator({ service }: { service: Service }) {
             <div>
               <span className="text-slate-600">Monthly Value:</span>
               <div className="font-semibold text-green-700">
-                ₦{roiMetrics.monthlyValue.toLocaleString()}
+                {format(roiMetrics.monthlyValue)}
               </div>
             </div>
             <div>
               <span className="text-slate-600">Yearly Value:</span>
               <div className="font-semibold text-green-700">
-                ₦{roiMetrics.yearlyValue.toLocaleString()}
+                {format(roiMetrics.yearlyValue)}
               </div>
             </div>
             <div>
@@ -268,6 +273,7 @@ export default function ServicePackages() {
   const [, setLocation] = useLocation();
   const { user } = useAuth();
   const [selectedIndustry, setSelectedIndustry] = useState<string>("all");
+  const { format, formatSettlement, isSettlementCurrency, currency } = useCurrency();
   const [priceUpdates, setPriceUpdates] = useState<Record<string, number>>({});
   const [selectedAddOns, setSelectedAddOns] = useState<Record<string, string[]>>({});
   const [checkoutModal, setCheckoutModal] = useState<{
@@ -318,12 +324,13 @@ export default function ServicePackages() {
             id: service.id,
             name: service.name,
             description: service.description,
-            price: parseInt(service.priceUsd) || 0,
-            originalPrice: parseInt(service.originalPriceUsd) || parseInt(service.priceUsd) || 0,
+            // Already converted to the settlement currency by the server
+            price: Number(service.price) || 0,
+            originalPrice: Number(service.originalPrice) || Number(service.price) || 0,
             duration: service.duration || "4-6 weeks",
             deliveryDate: calculateDeliveryDate(service.duration || "4-6 weeks"),
-            spots: service.spotsRemaining || 5,
-            totalSpots: service.totalSpots || 10,
+            spots: service.spotsRemaining ?? 5,
+            totalSpots: service.totalSpots ?? 10,
             features: parseArrayField(service.features),
             addOns: Array.isArray(service.addOns) ? service.addOns : [],
             recommended: service.recommended || false,
@@ -442,6 +449,14 @@ export default function ServicePackages() {
           <p className="text-slate-600 max-w-2xl mx-auto text-base">
             Professional web solutions tailored to your industry needs. Select your industry to see recommended packages.
           </p>
+          <div className="flex items-center justify-center gap-2 mt-3">
+            <CurrencySelector />
+            {!isSettlementCurrency && (
+              <span className="text-xs text-slate-500">
+                Prices in {currency} are estimates at today's rate; payment is taken in {SETTLEMENT_CURRENCY}.
+              </span>
+            )}
+          </div>
         </div>
 
         {/* Industry Selection */}
@@ -510,13 +525,16 @@ export default function ServicePackages() {
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
                     <span className="text-xl font-bold text-blue-600">
-                      ₦{(service.price || 0).toLocaleString()}
+                      {format(service.price || 0)}
                     </span>
                     {service.originalPrice && service.originalPrice > (service.price || 0) && (
                       <span className="text-sm text-slate-500 line-through">
-                        ₦{(service.originalPrice || 0).toLocaleString()}
+                        {format(service.originalPrice || 0)}
                       </span>
                     )}
+                    {!isSettlementCurrency && (
+                      <span className="text-xs text-slate-500">{formatSettlement(service.price || 0)}</span>
+                    )}
                   </div>
                   <div className="flex items-center text-xs text-slate-500">
                     <Users className="h-3 w-3 mr-1" />
@@ -0,0 +1,61 @@
+import { useSyncExternalStore } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { SETTLEMENT_CURRENCY, convertAmount, formatMoney, type CurrencyRate } from "@shared/currency";
+
+interface ExchangeRatesResponse {
+  settlementCurrency: string;
+  rates: (CurrencyRate & { updatedAt: string | null })[];
+}
+
+const STORAGE_KEY = "displayCurrency";
+const listeners = new Set<() => void>();
+
+const readDisplayCurrency = () => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) || SETTLEMENT_CURRENCY;
+  } catch {
+    return SETTLEMENT_CURRENCY;
+  }
+};
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+export function setDisplayCurrency(currency: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY, currency);
+  } catch {
+    // Private browsing; the choice just won't persist
+  }
+  listeners.forEach((listener) => listener());
+}
+
+// The visitor's display currency, shared across components and remembered between visits.
+// Amounts handed to convert/format are in the settlement currency, which is what gets charged.
+export function useCurrency() {
+  const selected = useSyncExternalStore(subscribe, readDisplayCurrency, () => SETTLEMENT_CURRENCY);
+  const { data } = useQuery<ExchangeRatesResponse>({
+    queryKey: ["/api/exchange-rates"],
+  });
+
+  const rates = data?.rates ?? [{ currency: SETTLEMENT_CURRENCY, rate: 1 }];
+  const active = rates.find((rate) => rate.currency === selected) ?? { currency: SETTLEMENT_CURRENCY, rate: 1 };
+  const convert = (amount: number) => convertAmount(amount, 1, active.rate);
+
+  return {
+    currency: active.currency,
+    rate: active.rate,
+    currencies: rates.map((rate) => rate.currency),
+    isSettlementCurrency: active.currency === SETTLEMENT_CURRENCY,
+    setCurrency: setDisplayCurrency,
+    convert,
+    format: (amount: number) => formatMoney(convert(amount), active.currency),
+    formatSettlement: (amount: number) => formatMoney(amount, SETTLEMENT_CURRENCY),
+  };
+}
@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { MessageWithDetails } from "@shared/schema";
+
+export interface MessagesPage {
+  messages: MessageWithDetails[];
+  nextCursor: string | null;
+}
+
+type ServerEvent =
+  | { type: "message"; projectId: string; message: MessageWithDetails }
+  | { type: "typing"; projectId: string; userId: string; name: string; isAdmin: boolean; isTyping: boolean }
+  | { type: "read"; projectId: string; userId: string; messageIds: string[]; readAt: string }
+  | { type: "subscribed"; projectId: string }
+  | { type: "error"; message: string };
+
+export interface TypingUser {
+  userId: string;
+  name: string;
+}
+
+const TYPING_TIMEOUT_MS = 5000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Live project chat: new messages and read receipts go straight into the messages
+// query cache, plus typing indicators. Falls back to polling while disconnected.
+export function useProjectSocket(projectId?: string) {
+  const queryClient = useQueryClient();
+  const socketRef = useRef<WebSocket | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const typingTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    const messagesKey = [`/api/projects/${projectId}/messages`];
+    let reconnectAttempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const clearTyping = (userId: string) => {
+      const timer = typingTimers.current.get(userId);
+      if (timer) clearTimeout(timer);
+      typingTimers.current.delete(userId);
+      setTypingUsers((users) => users.filter((u) => u.userId !== userId));
+    };
+
+    const handleEvent = (event: ServerEvent) => {
+      if ("projectId" in event && event.projectId !== projectId) return;
+
+      switch (event.type) {
+        case "message":
+          queryClient.setQueryData<MessagesPage>(messagesKey, (page) => {
+            if (!page || page.messages.some((m) => m.id === event.message.id)) return page;
+            return { ...page, messages: [...page.messages, event.message] };
+          });
+          clearTyping(event.message.senderId);
+          break;
+        case "typing":
+          if (!event.isTyping) {
+            clearTyping(event.userId);
+            break;
+          }
+          setTypingUsers((users) =>
+            users.some((u) => u.userId === event.userId) ? users : [...users, { userId: event.userId, name: event.name }]
+          );
+          // Expire stale indicators if the stop event never arrives
+          const existingTimer = typingTimers.current.get(event.userId);
+          if (existingTimer) clearTimeout(existingTimer);
+          typingTimers.current.set(event.userId, setTimeout(() => clearTyping(event.userId), TYPING_TIMEOUT_MS));
+          break;
+        case "read": {
+          const readIds = new Set(event.messageIds);
+          const readAt = new Date(event.readAt);
+          queryClient.setQueryData<MessagesPage>(messagesKey, (page) => page && {
+            ...page,
+            messages: page.messages.map((m) =>
+              readIds.has(m.id) && !m.readBy.some((r) => r.userId === event.userId)
+                ? { ...m, readBy: [...m.readBy, { userId: event.userId, readAt }] }
+                : m
+            ),
+          });
+          break;
+        }
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(`${protocol}//${window.location.host}/ws/messages`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        reconnectAttempts = 0;
+        setIsConnected(true);
+        socket.send(JSON.stringify({ type: "subscribe", projectId }));
+        // Catch up on anything sent while we were disconnected
+        queryClient.invalidateQueries({ queryKey: messagesKey });
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          handleEvent(JSON.parse(event.data));
+        } catch {
+          // Ignore malformed frames
+        }
+      };
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        socketRef.current = null;
+        if (closed) return;
+        const delay = Math.min(1000 * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+        reconnectAttempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      typingTimers.current.forEach((timer) => clearTimeout(timer));
+      typingTimers.current.clear();
+      socketRef.current?.close();
+      socketRef.current = null;
+      setTypingUsers([]);
+    };
+  }, [projectId, queryClient]);
+
+  const send = useCallback((payload: Record<string, unknown>) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify({ ...payload, projectId }));
+      return true;
+    }
+    return false;
+  }, [projectId]);
+
+  const sendTyping = useCallback((isTyping: boolean) => {
+    send({ type: "typing", isTyping });
+  }, [send]);
+
+  const sendRead = useCallback((messageId: string) => {
+    if (!send({ type: "read", messageId })) {
+      apiRequest("POST", `/api/projects/${projectId}/messages/read`, { messageId })
+        .then(() => queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/messages`] }))
+        .catch(() => {});
+    }
+  }, [send, projectId, queryClient]);
+
+  return { isConnected, typingUsers, sendTyping, sendRead };
+}
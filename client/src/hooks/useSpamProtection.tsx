@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef } from "react";
+
+interface Challenge {
+  token: string;
+  difficulty: number;
+}
+
+interface Solution {
+  token: string;
+  nonce: number;
+}
+
+const leadingZeroBits = (digest: Uint8Array) => {
+  let bits = 0;
+  for (let i = 0; i < digest.length; i++) {
+    if (digest[i] === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(digest[i]) - 24;
+  }
+  return bits;
+};
+
+// Finds a nonce whose sha256(`${token}:${nonce}`) has the required leading zero bits
+async function solveChallenge({ token, difficulty }: Challenge): Promise<Solution> {
+  const encoder = new TextEncoder();
+  for (let nonce = 0; ; nonce++) {
+    const digest = await crypto.subtle.digest("SHA-256", encoder.encode(`${token}:${nonce}`));
+    if (leadingZeroBits(new Uint8Array(digest)) >= difficulty) {
+      return { token, nonce };
+    }
+  }
+}
+
+async function fetchSolution(): Promise<Solution | null> {
+  try {
+    const res = await fetch("/api/anti-abuse/challenge", { credentials: "include" });
+    if (!res.ok) {
+      return null;
+    }
+    return await solveChallenge(await res.json());
+  } catch {
+    return null;
+  }
+}
+
+// Anti-abuse fields for the public forms (server/antiAbuse.ts). A challenge is fetched and solved in
+// the background as soon as the form opens; protect() waits for it and adds the answer to the payload.
+// Render `honeypot` inside the form: it is hidden from people, so only bots fill it in.
+export function useSpamProtection() {
+  const solution = useRef<Promise<Solution | null> | null>(null);
+  const honeypotRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(() => {
+    solution.current = fetchSolution();
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const protect = useCallback(async <T extends object>(payload: T) => {
+    const solved = await (solution.current ?? fetchSolution());
+    // Challenges are single use, so start on the next one straight away
+    refresh();
+    return {
+      ...payload,
+      _challenge: solved?.token,
+      _nonce: solved?.nonce,
+      website: honeypotRef.current?.value ?? "",
+    };
+  }, [refresh]);
+
+  const honeypot = (
+    <div aria-hidden="true" className="absolute -left-[10000px] h-px w-px overflow-hidden">
+      <label>
+        Website
+        <input ref={honeypotRef} type="text" name="website" tabIndex={-1} autoComplete="off" defaultValue="" />
+      </label>
+    </div>
+  );
+
+  return { protect, honeypot };
+}
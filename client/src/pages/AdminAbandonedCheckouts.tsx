@@ -0,0 +1,227 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import AdminNavigation from "@/components/AdminNavigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Mail, MousePointerClick, RefreshCw, ShoppingCart, Wallet } from "lucide-react";
+
+interface AbandonedCheckout {
+  id: string;
+  serviceId: string;
+  serviceName: string | null;
+  customerName: string | null;
+  email: string | null;
+  selectedAddOns: string[] | null;
+  totalPrice: number;
+  isCompleted: boolean | null;
+  orderId: string | null;
+  orderStatus: string | null;
+  recoveryEmailSentAt: string | null;
+  recoveredAt: string | null;
+  createdAt: string | null;
+}
+
+interface RecoverySweep {
+  finishedAt: string;
+  emailed: number;
+  errors: number;
+}
+
+interface AbandonedCheckoutReport {
+  checkouts: AbandonedCheckout[];
+  summary: {
+    abandoned: number;
+    abandonedValue: number;
+    emailed: number;
+    recovered: number;
+    converted: number;
+    conversionRate: number;
+    recoveredRevenue: number;
+  };
+  abandonedAfterMinutes: number;
+  linkValidDays: number;
+  lastSweep: RecoverySweep | null;
+}
+
+const formatAmount = (amount: number | string) => `₦${Number(amount).toLocaleString()}`;
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleString() : "—");
+
+function recoveryBadge(checkout: AbandonedCheckout) {
+  if (checkout.orderId) {
+    return <Badge className="bg-green-100 text-green-800">Converted{checkout.orderStatus ? ` · ${checkout.orderStatus}` : ""}</Badge>;
+  }
+  if (checkout.recoveredAt) {
+    return <Badge className="bg-blue-100 text-blue-800">Link opened</Badge>;
+  }
+  if (checkout.recoveryEmailSentAt) {
+    return <Badge className="bg-yellow-100 text-yellow-800">Email sent</Badge>;
+  }
+  return <Badge variant="outline">{checkout.email ? "Awaiting email" : "No email"}</Badge>;
+}
+
+export default function AdminAbandonedCheckouts() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+
+  const isAdmin = isAuthenticated && user?.role === "admin";
+
+  const { data, isLoading } = useQuery<AbandonedCheckoutReport>({
+    queryKey: ["/api/admin/abandoned-checkouts"],
+    enabled: isAdmin,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/abandoned-checkouts/run");
+      return (await res.json()) as RecoverySweep;
+    },
+    onSuccess: (sweep) => {
+      toast({ title: "Recovery emails sent", description: `${sweep.emailed} sent, ${sweep.errors} failed.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/abandoned-checkouts"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send recovery emails",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  // Redirect non-admin users
+  if (!isAdmin) {
+    window.location.href = "/admin";
+    return null;
+  }
+
+  const checkouts = data?.checkouts ?? [];
+  const summary = data?.summary;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <AdminNavigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="p-4 flex items-center gap-3">
+              <ShoppingCart className="h-8 w-8 text-orange-600" />
+              <div>
+                <p className="text-sm text-slate-600">Abandoned</p>
+                <p className="text-2xl font-bold">{summary?.abandoned ?? 0}</p>
+                <p className="text-xs text-slate-500">{formatAmount(summary?.abandonedValue ?? 0)} in carts</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 flex items-center gap-3">
+              <Mail className="h-8 w-8 text-blue-600" />
+              <div>
+                <p className="text-sm text-slate-600">Recovery emails</p>
+                <p className="text-2xl font-bold">{summary?.emailed ?? 0}</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 flex items-center gap-3">
+              <MousePointerClick className="h-8 w-8 text-purple-600" />
+              <div>
+                <p className="text-sm text-slate-600">Converted</p>
+                <p className="text-2xl font-bold">{summary?.converted ?? 0}</p>
+                <p className="text-xs text-slate-500">
+                  {summary?.conversionRate ?? 0}% of emailed · {summary?.recovered ?? 0} links opened
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 flex items-center gap-3">
+              <Wallet className="h-8 w-8 text-green-600" />
+              <div>
+                <p className="text-sm text-slate-600">Recovered revenue</p>
+                <p className="text-2xl font-bold">{formatAmount(summary?.recoveredRevenue ?? 0)}</p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle>Abandoned Checkouts</CardTitle>
+              <CardDescription>
+                {data
+                  ? `Checkouts left unfinished for ${data.abandonedAfterMinutes} minutes get a resume link valid for ${data.linkValidDays} days.`
+                  : "Checkouts started but not completed, with their recovery status"}
+                {data?.lastSweep && ` Last sweep ${new Date(data.lastSweep.finishedAt).toLocaleString()}.`}
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => runMutation.mutate()} disabled={runMutation.isPending}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${runMutation.isPending ? "animate-spin" : ""}`} />
+              {runMutation.isPending ? "Sending..." : "Send due emails"}
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="animate-pulse h-14 bg-slate-200 rounded"></div>
+                ))}
+              </div>
+            ) : checkouts.length === 0 ? (
+              <div className="text-center py-8">
+                <ShoppingCart className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+                <p className="text-slate-600">No abandoned checkouts.</p>
+              </div>
+            ) : (
+              <div className="border rounded-lg divide-y">
+                {checkouts.map((checkout) => (
+                  <div key={checkout.id} className="flex flex-col md:flex-row md:items-center gap-3 p-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-semibold text-slate-900 truncate">
+                          {checkout.customerName || checkout.email || "Anonymous visitor"}
+                        </span>
+                        {recoveryBadge(checkout)}
+                      </div>
+                      <p className="text-xs text-slate-500">
+                        {checkout.serviceName || checkout.serviceId}
+                        {checkout.selectedAddOns && checkout.selectedAddOns.length > 0 ? ` + ${checkout.selectedAddOns.join(", ")}` : ""}
+                        {checkout.email && checkout.customerName ? ` · ${checkout.email}` : ""}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        Started {formatDate(checkout.createdAt)}
+                        {checkout.recoveryEmailSentAt && ` · emailed ${formatDate(checkout.recoveryEmailSentAt)}`}
+                        {checkout.recoveredAt && ` · opened ${formatDate(checkout.recoveredAt)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4 flex-shrink-0 text-sm">
+                      <span className="font-semibold">{formatAmount(checkout.totalPrice)}</span>
+                      {checkout.email && (
+                        <a className="text-blue-600 hover:underline" href={`mailto:${checkout.email}`}>
+                          Follow up
+                        </a>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import AdminNavigation from "@/components/AdminNavigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, Landmark } from "lucide-react";
+import type { BankTransferRefundDue, PaymentProofWithPayment } from "@shared/schema";
+import { orderStatusLabels } from "@shared/orderLifecycle";
+
+type AdminProof = Omit<PaymentProofWithPayment, "fileUrl">;
+type ProofStatus = AdminProof["status"];
+
+interface BankTransferReport {
+  proofs: AdminProof[];
+  counts: Record<ProofStatus, number>;
+  refundsDue: BankTransferRefundDue[];
+  accountDetails: { bankName: string; accountName: string; accountNumber: string } | null;
+}
+
+const PROOF_STATUSES: ProofStatus[] = ["pending", "confirmed", "rejected"];
+
+const statusLabels: Record<ProofStatus, string> = {
+  pending: "To review",
+  confirmed: "Confirmed",
+  rejected: "Rejected",
+};
+
+const statusStyles: Record<ProofStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  confirmed: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+const formatAmount = (amount: number | string) => `₦${Number(amount).toLocaleString()}`;
+
+export default function AdminBankTransfers() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<ProofStatus>("pending");
+  const [rejecting, setRejecting] = useState<AdminProof | null>(null);
+  const [reason, setReason] = useState("");
+
+  const isAdmin = isAuthenticated && user?.role === "admin";
+
+  const { data, isLoading } = useQuery<BankTransferReport>({
+    queryKey: ["/api/admin/bank-transfers"],
+    enabled: isAdmin,
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/bank-transfers/${id}/confirm`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Payment confirmed", description: "The order has been marked paid and the client notified." });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bank-transfers"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Confirm failed", description: error.message || "Please try again later.", variant: "destructive" });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      const res = await apiRequest("POST", `/api/admin/bank-transfers/${id}/reject`, { reason });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Proof rejected", description: "The client has been asked to upload it again." });
+      setRejecting(null);
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bank-transfers"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Reject failed", description: error.message || "Please try again later.", variant: "destructive" });
+    },
+  });
+
+  const refundSentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/refunds/${id}/sent`);
+      return res.json();
+    },
+    onSuccess: (data: { orderCancelled: boolean }) => {
+      toast({
+        title: "Refund recorded",
+        description: data.orderCancelled ? "The order was fully refunded and cancelled." : "The client has been notified.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bank-transfers"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not record refund", description: error.message || "Please try again later.", variant: "destructive" });
+    },
+  });
+
+  const refundCancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/refunds/${id}/cancel`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Refund cancelled", description: "The amount can be refunded again from the order." });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/bank-transfers"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not cancel refund", description: error.message || "Please try again later.", variant: "destructive" });
+    },
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  // Redirect non-admin users
+  if (!isAdmin) {
+    window.location.href = "/admin";
+    return null;
+  }
+
+  const proofs = (data?.proofs ?? []).filter((proof) => proof.status === statusFilter);
+  const account = data?.accountDetails;
+  const refundsDue = data?.refundsDue ?? [];
+  const busy = confirmMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <AdminNavigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {refundsDue.length > 0 && (
+          <Card className="border-amber-200">
+            <CardHeader>
+              <CardTitle>Refunds to send ({refundsDue.length})</CardTitle>
+              <CardDescription>
+                These refunds go back by hand from the business account. Nothing is reversed on the order
+                until you mark the transfer as sent.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-lg divide-y">
+                {refundsDue.map((refund) => (
+                  <div key={refund.id} className="flex flex-col md:flex-row md:items-center gap-3 p-4">
+                    <div className="flex-1 min-w-0">
+                      <span className="font-semibold text-slate-900 truncate">
+                        {refund.customerName || refund.customerEmail || "Unknown client"}
+                      </span>
+                      <p className="text-xs text-slate-500">
+                        Order #{refund.orderId.slice(0, 8)} · {refund.reference}
+                        {refund.createdAt ? ` · requested ${new Date(refund.createdAt).toLocaleString()}` : ""}
+                      </p>
+                      {refund.reason && <p className="text-sm text-slate-700 mt-1">"{refund.reason}"</p>}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <span className="font-semibold text-sm mr-2">{formatAmount(refund.amount)}</span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={refundSentMutation.isPending || refundCancelMutation.isPending}
+                        onClick={() => {
+                          if (window.confirm(`Cancel the ${formatAmount(refund.amount)} refund for ${refund.reference}? Only do this if nothing was sent.`)) {
+                            refundCancelMutation.mutate(refund.id);
+                          }
+                        }}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={refundSentMutation.isPending || refundCancelMutation.isPending}
+                        onClick={() => {
+                          if (window.confirm(`Confirm ${formatAmount(refund.amount)} has been sent back for ${refund.reference}?`)) {
+                            refundSentMutation.mutate(refund.id);
+                          }
+                        }}
+                      >
+                        Mark sent
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Bank Transfers</CardTitle>
+            <CardDescription>
+              Check each transfer against the bank statement before confirming. Confirming marks the payment
+              succeeded and starts the project; rejecting sends the order back to pending.
+              {account
+                ? ` Receiving account: ${account.bankName} ${account.accountNumber} (${account.accountName}).`
+                : " Bank transfer is not offered at checkout until the BANK_TRANSFER_* settings are configured."}
+            </CardDescription>
+            <div className="flex flex-wrap gap-2 pt-3">
+              {PROOF_STATUSES.map((status) => (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={statusFilter === status ? "default" : "outline"}
+                  onClick={() => setStatusFilter(status)}
+                >
+                  {statusLabels[status]} ({data?.counts[status] ?? 0})
+                </Button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="animate-pulse h-14 bg-slate-200 rounded"></div>
+                ))}
+              </div>
+            ) : proofs.length === 0 ? (
+              <div className="text-center py-8">
+                <Landmark className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+                <p className="text-slate-600">No bank transfers here.</p>
+              </div>
+            ) : (
+              <div className="border rounded-lg divide-y">
+                {proofs.map((proof) => (
+                  <div key={proof.id} className="flex flex-col md:flex-row md:items-center gap-3 p-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        <span className="font-semibold text-slate-900 truncate">
+                          {proof.customerName || proof.customerEmail || "Unknown client"}
+                        </span>
+                        <Badge className={statusStyles[proof.status]}>{statusLabels[proof.status]}</Badge>
+                        {proof.orderStatus && <Badge variant="outline">{orderStatusLabels[proof.orderStatus]}</Badge>}
+                      </div>
+                      <p className="text-xs text-slate-500">
+                        Order #{proof.orderId.slice(0, 8)} · {proof.reference}
+                        {proof.installmentId ? " · installment" : ""}
+                        {proof.customerEmail && proof.customerName ? ` · ${proof.customerEmail}` : ""}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        Uploaded {new Date(proof.createdAt).toLocaleString()}
+                        {proof.senderName ? ` · sent by ${proof.senderName}` : ""}
+                        {proof.reviewedAt ? ` · reviewed ${new Date(proof.reviewedAt).toLocaleString()}` : ""}
+                      </p>
+                      {proof.note && <p className="text-sm text-slate-700 mt-1">"{proof.note}"</p>}
+                      {proof.rejectionReason && <p className="text-xs text-red-600 mt-1">Rejected: {proof.rejectionReason}</p>}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <span className="font-semibold text-sm mr-2">{formatAmount(proof.amount)}</span>
+                      <Button size="sm" variant="outline" asChild>
+                        <a href={`/api/admin/bank-transfers/${proof.id}/proof`}>
+                          <Download className="h-4 w-4 mr-1" /> Proof
+                        </a>
+                      </Button>
+                      {proof.status === "pending" && (
+                        <>
+                          <Button
+                            size="sm"
+                            disabled={busy}
+                            onClick={() => {
+                              if (window.confirm(`Confirm ${formatAmount(proof.amount)} has arrived in the account for ${proof.reference}?`)) {
+                                confirmMutation.mutate(proof.id);
+                              }
+                            }}
+                          >
+                            Confirm
+                          </Button>
+                          <Button size="sm" variant="outline" disabled={busy} onClick={() => setRejecting(proof)}>
+                            Reject
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject proof of payment</DialogTitle>
+            <DialogDescription>
+              The client is emailed this reason and asked to upload a new proof.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={reason}
+            maxLength={500}
+            rows={3}
+            placeholder="e.g. The transfer hasn't reached our account yet"
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || rejectMutation.isPending}
+              onClick={() => rejecting && rejectMutation.mutate({ id: rejecting.id, reason: reason.trim() })}
+            >
+              {rejectMutation.isPending ? "Rejecting..." : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import AdminNavigation from "@/components/AdminNavigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Tag, TrendingDown, Wallet } from "lucide-react";
+import type { CouponWithStats } from "@shared/schema";
+
+interface CouponsResponse {
+  coupons: CouponWithStats[];
+  summary: { redemptions: number; discountTotal: number; paidRevenue: number };
+}
+
+interface CouponRedemption {
+  orderId: string;
+  status: string | null;
+  totalPrice: string;
+  discount: number;
+  customerEmail: string | null;
+  createdAt: string | null;
+}
+
+const ANY = "any";
+
+const emptyForm = {
+  code: "",
+  description: "",
+  type: "percentage",
+  value: "",
+  serviceId: ANY,
+  category: ANY,
+  startsAt: "",
+  expiresAt: "",
+  maxRedemptions: "",
+  perUserLimit: "",
+};
+
+const formatAmount = (amount: number | string) => `₦${Number(amount).toLocaleString()}`;
+
+const formatDate = (date: string | Date | null) => (date ? new Date(date).toLocaleDateString() : "—");
+
+const describeValue = (coupon: CouponWithStats) =>
+  coupon.type === "percentage" ? `${parseFloat(coupon.value)}% off` : `${formatAmount(coupon.value)} off`;
+
+export default function AdminCoupons() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [redemptionsFor, setRedemptionsFor] = useState<CouponWithStats | null>(null);
+
+  const isAdmin = isAuthenticated && user?.role === "admin";
+
+  const { data, isLoading } = useQuery<CouponsResponse>({
+    queryKey: ["/api/admin/coupons"],
+    enabled: isAdmin,
+  });
+
+  const { data: services = [] } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ["/api/services"],
+    enabled: isAdmin,
+  });
+
+  const { data: redemptions = [], isLoading: redemptionsLoading } = useQuery<CouponRedemption[]>({
+    queryKey: [`/api/admin/coupons/${redemptionsFor?.id}/redemptions`],
+    enabled: !!redemptionsFor,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/coupons", {
+        code: form.code,
+        description: form.description || null,
+        type: form.type,
+        value: Number(form.value),
+        serviceId: form.serviceId === ANY ? null : form.serviceId,
+        category: form.category === ANY ? null : form.category,
+        startsAt: form.startsAt || null,
+        expiresAt: form.expiresAt || null,
+        maxRedemptions: form.maxRedemptions ? Number(form.maxRedemptions) : null,
+        perUserLimit: form.perUserLimit ? Number(form.perUserLimit) : null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Coupon created", description: `${form.code.toUpperCase()} is ready to use.` });
+      setIsCreateOpen(false);
+      setForm(emptyForm);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/coupons"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not create coupon",
+        description: error.message || "Please check the details and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/admin/coupons/${id}`, { isActive });
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/admin/coupons"] }),
+    onError: (error: any) => {
+      toast({
+        title: "Update failed",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  // Redirect non-admin users
+  if (!isAdmin) {
+    window.location.href = "/admin";
+    return null;
+  }
+
+  const update = (field: keyof typeof emptyForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm((current) => ({ ...current, [field]: e.target.value }));
+
+  const coupons = data?.coupons ?? [];
+  const summary = data?.summary;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <AdminNavigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardContent className="p-4 flex items-center gap-3">
+              <Tag className="h-8 w-8 text-blue-600" />
+              <div>
+                <p className="text-sm text-slate-600">Redemptions</p>
+                <p className="text-2xl font-bold">{summary?.redemptions ?? 0}</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 flex items-center gap-3">
+              <TrendingDown className="h-8 w-8 text-orange-600" />
+              <div>
+                <p className="text-sm text-slate-600">Discounts given</p>
+                <p className="text-2xl font-bold">{formatAmount(summary?.discountTotal ?? 0)}</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 flex items-center gap-3">
+              <Wallet className="h-8 w-8 text-green-600" />
+              <div>
+                <p className="text-sm text-slate-600">Revenue from discounted orders</p>
+                <p className="text-2xl font-bold">{formatAmount(summary?.paidRevenue ?? 0)}</p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle>Discount Codes</CardTitle>
+              <CardDescription>Codes clients can apply at checkout, with their redemptions and revenue impact</CardDescription>
+            </div>
+            <Button onClick={() => setIsCreateOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" /> New code
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="animate-pulse h-14 bg-slate-200 rounded"></div>
+                ))}
+              </div>
+            ) : coupons.length === 0 ? (
+              <div className="text-center py-8">
+                <Tag className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+                <p className="text-slate-600">No discount codes yet.</p>
+              </div>
+            ) : (
+              <div className="border rounded-lg divide-y">
+                {coupons.map((coupon) => (
+                  <div key={coupon.id} className="flex flex-col md:flex-row md:items-center gap-3 p-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-mono font-semibold text-slate-900">{coupon.code}</span>
+                        <Badge variant="outline">{describeValue(coupon)}</Badge>
+                        {coupon.expiresAt && new Date(coupon.expiresAt) <= new Date() && (
+                          <Badge className="bg-slate-200 text-slate-800">expired</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-500">
+                        {coupon.serviceId
+                          ? services.find((service) => service.id === coupon.serviceId)?.name || coupon.serviceId
+                          : coupon.category
+                            ? `${coupon.category} packages`
+                            : "All packages"}
+                        {" · "}
+                        {formatDate(coupon.startsAt)} – {formatDate(coupon.expiresAt)}
+                        {coupon.perUserLimit ? ` · ${coupon.perUserLimit} per client` : ""}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4 flex-shrink-0 text-sm">
+                      <button
+                        type="button"
+                        className="text-blue-600 hover:underline"
+                        onClick={() => setRedemptionsFor(coupon)}
+                      >
+                        {coupon.redemptions}{coupon.maxRedemptions ? ` / ${coupon.maxRedemptions}` : ""} used
+                      </button>
+                      <span className="text-orange-700">-{formatAmount(coupon.discountTotal)}</span>
+                      <span className="text-green-700">{formatAmount(coupon.paidRevenue)}</span>
+                      <Switch
+                        checked={coupon.isActive}
+                        disabled={toggleMutation.isPending}
+                        onCheckedChange={(isActive) => toggleMutation.mutate({ id: coupon.id, isActive })}
+                        aria-label={`Toggle ${coupon.code}`}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New discount code</DialogTitle>
+            <DialogDescription>Leave limits and dates empty for no restriction.</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="coupon-code">Code</Label>
+              <Input id="coupon-code" value={form.code} onChange={update("code")} placeholder="LAUNCH20" className="uppercase" />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="coupon-description">Description</Label>
+              <Input id="coupon-description" value={form.description} onChange={update("description")} placeholder="Internal note or campaign name" />
+            </div>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={form.type} onValueChange={(type) => setForm((current) => ({ ...current, type }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">Percentage</SelectItem>
+                  <SelectItem value="fixed">Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="coupon-value">{form.type === "percentage" ? "Percent off" : "Amount off (₦)"}</Label>
+              <Input id="coupon-value" type="number" min="0" value={form.value} onChange={update("value")} />
+            </div>
+            <div className="space-y-1">
+              <Label>Service</Label>
+              <Select value={form.serviceId} onValueChange={(serviceId) => setForm((current) => ({ ...current, serviceId }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any service</SelectItem>
+                  {services.map((service) => (
+                    <SelectItem key={service.id} value={service.id}>{service.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Category</Label>
+              <Select value={form.category} onValueChange={(category) => setForm((current) => ({ ...current, category }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any category</SelectItem>
+                  <SelectItem value="launch">Launch</SelectItem>
+                  <SelectItem value="growth">Growth</SelectItem>
+                  <SelectItem value="elite">Elite</SelectItem>
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="coupon-starts">Starts</Label>
+              <Input id="coupon-starts" type="date" value={form.startsAt} onChange={update("startsAt")} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="coupon-expires">Expires</Label>
+              <Input id="coupon-expires" type="date" value={form.expiresAt} onChange={update("expiresAt")} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="coupon-max">Total uses</Label>
+              <Input id="coupon-max" type="number" min="1" value={form.maxRedemptions} onChange={update("maxRedemptions")} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="coupon-per-user">Uses per client</Label>
+              <Input id="coupon-per-user" type="number" min="1" value={form.perUserLimit} onChange={update("perUserLimit")} />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+            <Button
+              disabled={createMutation.isPending || !form.code.trim() || !(Number(form.value) > 0)}
+              onClick={() => createMutation.mutate()}
+            >
+              {createMutation.isPending ? "Creating..." : "Create code"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!redemptionsFor} onOpenChange={(open) => !open && setRedemptionsFor(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Redemptions of {redemptionsFor?.code}</DialogTitle>
+            <DialogDescription>Cancelled orders are listed but don't count toward the usage limit.</DialogDescription>
+          </DialogHeader>
+          {redemptionsLoading ? (
+            <div className="animate-pulse h-16 bg-slate-200 rounded"></div>
+          ) : redemptions.length === 0 ? (
+            <p className="text-sm text-slate-600 py-4 text-center">This code hasn't been used yet.</p>
+          ) : (
+            <div className="border rounded-lg divide-y max-h-[60vh] overflow-y-auto">
+              {redemptions.map((redemption) => (
+                <div key={redemption.orderId} className="flex items-center justify-between gap-3 p-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-900 truncate">{redemption.customerEmail || "Unknown client"}</p>
+                    <p className="text-xs text-slate-500">
+                      Order #{redemption.orderId.slice(0, 8)} · {formatDate(redemption.createdAt)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    <span className="text-orange-700">-{formatAmount(redemption.discount)}</span>
+                    <span className="font-medium">{formatAmount(redemption.totalPrice)}</span>
+                    <Badge variant="outline">{redemption.status}</Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,6 +2,12 @@ import React, { useState, useEffect } from "react";
 
 
 import AdminNavigation from "@/components/AdminNavigation";
+import AuditLogViewer from "@/components/AuditLogViewer";
+import EmailTemplatePreview from "@/components/EmailTemplatePreview";
+import OrderPaymentsDialog from "@/components/OrderPaymentsDialog";
+import InvoiceSettings from "@/components/InvoiceSettings";
+import ExchangeRateSettings from "@/components/ExchangeRateSettings";
+import PaymentReconciliationReport from "@/components/PaymentReconciliationReport";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
@@ -232,6 +238,7 @@ export default function AdminDashboard() {
   const [isUpdateDialogOpen, setIsUpdateDialogOpen] = useState(false);
   const [isRevenueModalOpen, setIsRevenueModalOpen] = useState(false);
   const [isOrdersModalOpen, setIsOrdersModalOpen] = useState(false);
+  const [paymentsOrderId, setPaymentsOrderId] = useState<string | null>(null);
   const [isClientsModalOpen, setIsClientsModalOpen] = useState(false);
   const [isProjectsModalOpen, setIsProjectsModalOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<any>(null);
@@ -1034,12 +1041,14 @@ export default function AdminDashboard() {
 
         {/* Main Content Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="orders">Orders</TabsTrigger>
             <TabsTrigger value="projects">Projects</TabsTrigger>
             <TabsTrigger value="clients">Clients</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="audit">Audit</TabsTrigger>
+            <TabsTrigger value="emails">Emails</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-8">
@@ -1117,7 +1126,17 @@ export default function AdminDashboard() {
             </div>
           </TabsContent>
 
-          <TabsContent value="orders">
+          <TabsContent value="orders" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Payment Reconciliation</CardTitle>
+                <CardDescription>Pending payments confirmed with the provider, and mismatches that need a decision</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PaymentReconciliationReport />
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>All Orders</CardTitle>
@@ -1153,8 +1172,8 @@ export default function AdminDashboard() {
                               {new Date(order.createdAt).toLocaleDateString()}
                             </td>
                             <td className="p-2">
-                              <Button variant="outline" size="sm">
-                                View
+                              <Button variant="outline" size="sm" onClick={() => setPaymentsOrderId(order.id)}>
+                                Payments
                               </Button>
                             </td>
                           </tr>
@@ -1172,6 +1191,8 @@ export default function AdminDashboard() {
             </Card>
           </TabsContent>
 
+          <OrderPaymentsDialog orderId={paymentsOrderId} onClose={() => setPaymentsOrderId(null)} />
+
           <TabsContent value="projects">
             <div className="space-y-6">
               {/* Project Management Header */}
@@ -1269,6 +1290,30 @@ export default function AdminDashboard() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="audit">
+            <Card>
+              <CardHeader>
+                <CardTitle>Audit Log</CardTitle>
+                <CardDescription>Security and business events recorded across the platform</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AuditLogViewer />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="emails">
+            <Card>
+              <CardHeader>
+                <CardTitle>Email Templates</CardTitle>
+                <CardDescription>Transactional emails sent to clients, previewed with sample data</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <EmailTemplatePreview />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="analytics">
             <div className="space-y-6">
               {/* WhatsApp Settings */}
@@ -1282,6 +1327,27 @@ export default function AdminDashboard() {
                 </CardContent>
               </Card>
 
+              {/* Invoice Settings */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Invoice Details</CardTitle>
+                  <CardDescription>Business details and VAT printed on client invoices and receipts</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <InvoiceSettings />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Exchange Rates</CardTitle>
+                  <CardDescription>Rates used to show prices in visitors' currencies and to price services set in other currencies</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ExchangeRateSettings />
+                </CardContent>
+              </Card>
+
               {/* Workload Management */}
               <Card>
                 <CardHeader>
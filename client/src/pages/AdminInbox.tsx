@@ -0,0 +1,350 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import AdminNavigation from "@/components/AdminNavigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Archive, Inbox, Mail, Send } from "lucide-react";
+import type { ContactSubmission, ContactSubmissionWithReplies } from "@shared/schema";
+import { budgetRanges, projectTypes, timelines, type QuoteOption } from "@shared/quotes";
+
+type ContactStatus = ContactSubmission["status"];
+
+interface ContactsResponse {
+  submissions: ContactSubmission[];
+  counts: Record<ContactStatus, number>;
+}
+
+const CONTACT_STATUSES: ContactStatus[] = ["new", "read", "replied", "archived"];
+
+const statusLabels: Record<ContactStatus, string> = {
+  new: "New",
+  read: "Read",
+  replied: "Replied",
+  archived: "Archived",
+};
+
+const statusStyles: Record<ContactStatus, string> = {
+  new: "bg-blue-100 text-blue-800",
+  read: "bg-slate-100 text-slate-800",
+  replied: "bg-green-100 text-green-800",
+  archived: "bg-slate-200 text-slate-600",
+};
+
+const emptyQuote = { projectType: "other", budgetRange: "5k-10k", timeline: "1-2months" };
+
+const formatDate = (date: string | Date | null) => (date ? new Date(date).toLocaleString() : "—");
+
+function OptionSelect({ label, options, value, onChange }: { label: string; options: QuoteOption[]; value: string; onChange: (value: string) => void }) {
+  return (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export default function AdminInbox() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<ContactStatus | "inbox">("inbox");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [quoteForm, setQuoteForm] = useState(emptyQuote);
+
+  const isAdmin = isAuthenticated && user?.role === "admin";
+
+  const { data, isLoading } = useQuery<ContactsResponse>({
+    queryKey: ["/api/admin/contacts"],
+    enabled: isAdmin,
+  });
+
+  const { data: selected } = useQuery<ContactSubmissionWithReplies>({
+    queryKey: [`/api/admin/contacts/${selectedId}`],
+    enabled: !!selectedId,
+  });
+
+  // Opening a message marks it read on the server, so refresh the list once it has loaded
+  useEffect(() => {
+    if (selected?.id) {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/contacts"] });
+    }
+  }, [selected?.id]);
+
+  const openMessage = (id: string) => {
+    setSelectedId(id);
+    setReply("");
+    setQuoteForm(emptyQuote);
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/contacts"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/admin/contacts/${selectedId}`] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message || "Please try again later.", variant: "destructive" });
+  };
+
+  const replyMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/contacts/${id}/reply`, { body: reply });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Reply sent", description: `Emailed to ${selected?.email}.` });
+      setReply("");
+      refresh();
+    },
+    onError: onError("Could not send reply"),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: ContactStatus }) => {
+      const res = await apiRequest("PATCH", `/api/admin/contacts/${id}`, { status });
+      return res.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Update failed"),
+  });
+
+  const convertMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/contacts/${id}/convert-to-quote`, quoteForm);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Quote created", description: "The message is now in the quote inbox for review." });
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/quotes"] });
+    },
+    onError: onError("Could not create quote"),
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  // Redirect non-admin users
+  if (!isAdmin) {
+    window.location.href = "/admin";
+    return null;
+  }
+
+  const allSubmissions = data?.submissions ?? [];
+  const submissions = statusFilter === "inbox"
+    ? allSubmissions.filter((submission) => submission.status !== "archived")
+    : allSubmissions.filter((submission) => submission.status === statusFilter);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <AdminNavigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Contact Inbox</CardTitle>
+            <CardDescription>Messages from the contact page. Replies are emailed to the sender.</CardDescription>
+            <div className="flex flex-wrap gap-2 pt-2">
+              <Button size="sm" variant={statusFilter === "inbox" ? "default" : "outline"} onClick={() => setStatusFilter("inbox")}>
+                Inbox ({allSubmissions.length - (data?.counts.archived ?? 0)})
+              </Button>
+              {CONTACT_STATUSES.map((status) => (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={statusFilter === status ? "default" : "outline"}
+                  onClick={() => setStatusFilter(status)}
+                >
+                  {statusLabels[status]} ({data?.counts[status] ?? 0})
+                </Button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="animate-pulse h-14 bg-slate-200 rounded"></div>
+                ))}
+              </div>
+            ) : submissions.length === 0 ? (
+              <div className="text-center py-8">
+                <Inbox className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+                <p className="text-slate-600">No messages here.</p>
+              </div>
+            ) : (
+              <div className="border rounded-lg divide-y">
+                {submissions.map((submission) => (
+                  <button
+                    key={submission.id}
+                    type="button"
+                    className="w-full text-left flex flex-col md:flex-row md:items-center gap-3 p-4 hover:bg-slate-50"
+                    onClick={() => openMessage(submission.id)}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className={`truncate text-slate-900 ${submission.status === "new" ? "font-bold" : "font-semibold"}`}>
+                          {submission.subject}
+                        </span>
+                        <Badge className={statusStyles[submission.status]}>{statusLabels[submission.status]}</Badge>
+                        {submission.quoteId && <Badge variant="outline">Quote</Badge>}
+                      </div>
+                      <p className="text-xs text-slate-500 truncate">
+                        {submission.name} · {submission.email} · {submission.message}
+                      </p>
+                    </div>
+                    <span className="text-xs text-slate-500 flex-shrink-0">{formatDate(submission.createdAt)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!selectedId} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {!selected ? (
+            <div className="animate-pulse h-32 bg-slate-200 rounded"></div>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {selected.subject}
+                  <Badge className={statusStyles[selected.status]}>{statusLabels[selected.status]}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  {selected.name} &lt;{selected.email}&gt; · {formatDate(selected.createdAt)}
+                  {selected.userId ? ` · registered client${selected.userName ? ` (${selected.userName})` : ""}` : " · no account"}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 text-sm">
+                <p className="whitespace-pre-wrap text-slate-700 bg-slate-50 rounded p-3">{selected.message}</p>
+
+                {selected.replies.map((sent) => (
+                  <div key={sent.id} className="border-l-4 border-blue-200 pl-3">
+                    <p className="text-xs text-slate-500 mb-1">
+                      <Mail className="h-3 w-3 inline mr-1" />
+                      {sent.sentByName || "Admin"} replied {formatDate(sent.createdAt)}
+                    </p>
+                    <p className="whitespace-pre-wrap text-slate-700">{sent.body}</p>
+                  </div>
+                ))}
+
+                <div className="space-y-2">
+                  <Label htmlFor="contact-reply">Reply by email</Label>
+                  <Textarea id="contact-reply" rows={4} value={reply} onChange={(e) => setReply(e.target.value)} />
+                  <div className="flex flex-wrap justify-between gap-2">
+                    <div className="flex gap-2">
+                      {selected.status === "archived" ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={statusMutation.isPending}
+                          onClick={() => statusMutation.mutate({ id: selected.id, status: selected.repliedAt ? "replied" : "read" })}
+                        >
+                          Move to inbox
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={statusMutation.isPending}
+                          onClick={() => statusMutation.mutate({ id: selected.id, status: "archived" })}
+                        >
+                          <Archive className="h-4 w-4 mr-1" /> Archive
+                        </Button>
+                      )}
+                      {selected.status === "read" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={statusMutation.isPending}
+                          onClick={() => statusMutation.mutate({ id: selected.id, status: "new" })}
+                        >
+                          Mark unread
+                        </Button>
+                      )}
+                    </div>
+                    <Button
+                      size="sm"
+                      disabled={replyMutation.isPending || !reply.trim()}
+                      onClick={() => replyMutation.mutate(selected.id)}
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      {replyMutation.isPending ? "Sending..." : "Send reply"}
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="border-t pt-4 space-y-3">
+                  {selected.quoteId ? (
+                    <p className="text-slate-600">
+                      Converted to a quote.{" "}
+                      <Link href="/admin/quotes" className="text-blue-600 hover:underline">Open the quote inbox</Link>
+                    </p>
+                  ) : (
+                    <>
+                      <p className="font-semibold text-slate-900">Convert to quote</p>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        <OptionSelect
+                          label="Project type"
+                          options={projectTypes}
+                          value={quoteForm.projectType}
+                          onChange={(projectType) => setQuoteForm((current) => ({ ...current, projectType }))}
+                        />
+                        <OptionSelect
+                          label="Budget"
+                          options={budgetRanges}
+                          value={quoteForm.budgetRange}
+                          onChange={(budgetRange) => setQuoteForm((current) => ({ ...current, budgetRange }))}
+                        />
+                        <OptionSelect
+                          label="Timeline"
+                          options={timelines}
+                          value={quoteForm.timeline}
+                          onChange={(timeline) => setQuoteForm((current) => ({ ...current, timeline }))}
+                        />
+                      </div>
+                      <div className="flex justify-end">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={convertMutation.isPending}
+                          onClick={() => convertMutation.mutate(selected.id)}
+                        >
+                          {convertMutation.isPending ? "Creating..." : "Create quote"}
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
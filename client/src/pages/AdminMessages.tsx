@@ -0,0 +1,122 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import AdminNavigation from "@/components/AdminNavigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { MessageSquare, Clock, Eye, EyeOff } from "lucide-react";
+
+interface UnansweredConversation {
+  projectId: string;
+  projectName: string | null;
+  client: { id: string; email: string; firstName: string | null; lastName: string | null } | null;
+  lastMessage: { id: string; content: string; sentAt: string | null };
+  unansweredCount: number;
+  waitingSince: string | null;
+  readByAdminAt: string | null;
+}
+
+const formatWaiting = (dateString: string | null) => {
+  if (!dateString) return "";
+  const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 1440) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / 1440)}d`;
+};
+
+export default function AdminMessages() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+
+  const { data: conversations = [], isLoading } = useQuery<UnansweredConversation[]>({
+    queryKey: ["/api/admin/messages/unanswered"],
+    enabled: isAuthenticated && user?.role === "admin",
+    refetchInterval: 60000,
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  // Redirect non-admin users
+  if (!isAuthenticated || user?.role !== "admin") {
+    window.location.href = "/admin";
+    return null;
+  }
+
+  const clientName = (conversation: UnansweredConversation) =>
+    `${conversation.client?.firstName || ""} ${conversation.client?.lastName || ""}`.trim() ||
+    conversation.client?.email ||
+    "Unknown client";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <AdminNavigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Unanswered Messages</CardTitle>
+            <CardDescription>Projects where the client is waiting on a reply from the team, oldest first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[...Array(4)].map((_, i) => (
+                  <div key={i} className="animate-pulse h-16 bg-slate-200 rounded"></div>
+                ))}
+              </div>
+            ) : conversations.length > 0 ? (
+              <div className="border rounded-lg divide-y">
+                {conversations.map((conversation) => (
+                  <Link
+                    key={conversation.projectId}
+                    href={`/project/${conversation.projectId}`}
+                    className="flex flex-col md:flex-row md:items-center gap-3 p-4 hover:bg-slate-50"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-sm font-medium text-slate-900 truncate">
+                          {conversation.projectName || "Untitled project"}
+                        </span>
+                        <span className="text-xs text-slate-500 truncate">· {clientName(conversation)}</span>
+                      </div>
+                      <p className="text-sm text-slate-600 truncate">
+                        {conversation.lastMessage.content || "Sent an attachment"}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 flex-shrink-0">
+                      <Badge className="bg-orange-100 text-orange-800">
+                        {conversation.unansweredCount} unanswered
+                      </Badge>
+                      <span className="flex items-center gap-1 text-xs text-slate-500">
+                        <Clock className="h-3 w-3" /> {formatWaiting(conversation.waitingSince)}
+                      </span>
+                      {conversation.readByAdminAt ? (
+                        <span className="flex items-center gap-1 text-xs text-slate-500" title="Read by the team">
+                          <Eye className="h-3 w-3" /> Read
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-xs text-red-600" title="Not yet read by the team">
+                          <EyeOff className="h-3 w-3" /> Unread
+                        </span>
+                      )}
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <MessageSquare className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+                <p className="text-slate-600">Every client conversation has a reply.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
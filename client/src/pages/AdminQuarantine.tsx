@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import AdminNavigation from "@/components/AdminNavigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ShieldAlert } from "lucide-react";
+import type { QuarantinedSubmission } from "@shared/schema";
+
+type QuarantineStatus = QuarantinedSubmission["status"];
+
+interface QuarantineResponse {
+  submissions: QuarantinedSubmission[];
+  counts: Record<QuarantineStatus, number>;
+}
+
+const QUARANTINE_STATUSES: QuarantineStatus[] = ["pending", "released", "discarded"];
+
+const statusLabels: Record<QuarantineStatus, string> = {
+  pending: "Pending",
+  released: "Released",
+  discarded: "Discarded",
+};
+
+const statusStyles: Record<QuarantineStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  released: "bg-green-100 text-green-800",
+  discarded: "bg-slate-200 text-slate-600",
+};
+
+const formLabels: Record<string, string> = {
+  contact: "Contact form",
+  quote: "Quote request",
+};
+
+// Reason codes recorded by server/antiAbuse.ts
+const reasonLabels: Record<string, string> = {
+  honeypot: "Filled hidden field",
+  too_fast: "Submitted too fast",
+  missing_challenge: "No challenge",
+  invalid_challenge: "Forged challenge",
+  expired_challenge: "Expired challenge",
+  unsolved_challenge: "Unsolved challenge",
+  reused_challenge: "Reused challenge",
+  "content:many_links": "Many links",
+  "content:link_in_name": "Link in name",
+  "content:markup_links": "Link markup",
+  "content:spam_phrases": "Spam phrases",
+  "content:shouting": "All caps",
+  "content:repeated_characters": "Repeated characters",
+};
+
+const formatDate = (date: string | Date | null) => (date ? new Date(date).toLocaleString() : "—");
+
+const payloadText = (payload: Record<string, unknown>, field: string) =>
+  typeof payload[field] === "string" ? (payload[field] as string) : "";
+
+const formatValue = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value));
+
+export default function AdminQuarantine() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<QuarantineStatus>("pending");
+  const [selected, setSelected] = useState<QuarantinedSubmission | null>(null);
+
+  const isAdmin = isAuthenticated && user?.role === "admin";
+
+  const { data, isLoading } = useQuery<QuarantineResponse>({
+    queryKey: ["/api/admin/quarantine"],
+    enabled: isAdmin,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "release" | "discard" }) => {
+      const res = await apiRequest("POST", `/api/admin/quarantine/${id}/${action}`);
+      return res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      toast({
+        title: action === "release" ? "Submission released" : "Submission discarded",
+        description: action === "release"
+          ? `It has been delivered to the ${selected?.form === "quote" ? "quote" : "contact"} inbox.`
+          : "It will stay here for reference.",
+      });
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/quarantine"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/quotes"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Update failed", description: error.message || "Please try again later.", variant: "destructive" });
+    },
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  // Redirect non-admin users
+  if (!isAdmin) {
+    window.location.href = "/admin";
+    return null;
+  }
+
+  const submissions = (data?.submissions ?? []).filter((submission) => submission.status === statusFilter);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <AdminNavigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Spam Quarantine</CardTitle>
+            <CardDescription>
+              Contact and quote submissions held back as suspected spam. Releasing one delivers it as if it had just been sent.
+            </CardDescription>
+            <div className="flex flex-wrap gap-2 pt-2">
+              {QUARANTINE_STATUSES.map((status) => (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={statusFilter === status ? "default" : "outline"}
+                  onClick={() => setStatusFilter(status)}
+                >
+                  {statusLabels[status]} ({data?.counts[status] ?? 0})
+                </Button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="animate-pulse h-14 bg-slate-200 rounded"></div>
+                ))}
+              </div>
+            ) : submissions.length === 0 ? (
+              <div className="text-center py-8">
+                <ShieldAlert className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+                <p className="text-slate-600">No submissions here.</p>
+              </div>
+            ) : (
+              <div className="border rounded-lg divide-y">
+                {submissions.map((submission) => {
+                  const sender = payloadText(submission.payload, "name") || payloadText(submission.payload, "fullName");
+                  const preview = payloadText(submission.payload, "message") || payloadText(submission.payload, "description");
+                  return (
+                    <button
+                      key={submission.id}
+                      type="button"
+                      className="w-full text-left flex flex-col md:flex-row md:items-center gap-3 p-4 hover:bg-slate-50"
+                      onClick={() => setSelected(submission)}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2 mb-1">
+                          <span className="font-semibold text-slate-900 truncate">{sender || "(no name)"}</span>
+                          <Badge variant="outline">{formLabels[submission.form] ?? submission.form}</Badge>
+                          {submission.reasons.map((reason) => (
+                            <Badge key={reason} className="bg-red-50 text-red-700">{reasonLabels[reason] ?? reason}</Badge>
+                          ))}
+                        </div>
+                        <p className="text-xs text-slate-500 truncate">
+                          {payloadText(submission.payload, "email")} · {preview}
+                        </p>
+                      </div>
+                      <span className="text-xs text-slate-500 flex-shrink-0">{formatDate(submission.createdAt)}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {formLabels[selected.form] ?? selected.form}
+                  <Badge className={statusStyles[selected.status]}>{statusLabels[selected.status]}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  {formatDate(selected.createdAt)} · {selected.ipAddress || "unknown IP"}
+                  {selected.reviewedAt ? ` · reviewed ${formatDate(selected.reviewedAt)}` : ""}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 text-sm">
+                <div className="flex flex-wrap gap-2">
+                  {selected.reasons.map((reason) => (
+                    <Badge key={reason} className="bg-red-50 text-red-700">{reasonLabels[reason] ?? reason}</Badge>
+                  ))}
+                </div>
+
+                <dl className="bg-slate-50 rounded p-3 space-y-2">
+                  {Object.entries(selected.payload).map(([field, value]) => (
+                    <div key={field}>
+                      <dt className="text-xs font-medium text-slate-500">{field}</dt>
+                      <dd className="whitespace-pre-wrap break-words text-slate-700">{formatValue(value)}</dd>
+                    </div>
+                  ))}
+                </dl>
+
+                {selected.userAgent && <p className="text-xs text-slate-500 break-all">{selected.userAgent}</p>}
+
+                {selected.status === "pending" && (
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ id: selected.id, action: "discard" })}
+                    >
+                      Discard
+                    </Button>
+                    <Button
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ id: selected.id, action: "release" })}
+                    >
+                      {reviewMutation.isPending ? "Saving..." : "Not spam, release"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
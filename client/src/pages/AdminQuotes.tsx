@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import AdminNavigation from "@/components/AdminNavigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardList, Send } from "lucide-react";
+import type { Quote } from "@shared/schema";
+import {
+  QUOTE_STATUSES,
+  adminQuoteTransitions,
+  budgetRanges,
+  projectTypes,
+  quoteOptionLabel,
+  quoteStatusLabels,
+  timelines,
+  type QuoteStatus,
+} from "@shared/quotes";
+
+interface QuotesResponse {
+  quotes: Quote[];
+  counts: Record<QuoteStatus, number>;
+}
+
+interface PaymentScheduleOption {
+  id: string;
+  label: string;
+}
+
+const ALL = "all";
+
+const statusStyles: Record<QuoteStatus, string> = {
+  new: "bg-blue-100 text-blue-800",
+  reviewing: "bg-yellow-100 text-yellow-800",
+  proposed: "bg-purple-100 text-purple-800",
+  accepted: "bg-green-100 text-green-800",
+  declined: "bg-slate-200 text-slate-700",
+};
+
+const emptyProposal = { price: "", paymentSchedule: "full", deliveryTime: "", notes: "" };
+
+const formatAmount = (amount: number | string) => `₦${Number(amount).toLocaleString()}`;
+
+const formatDate = (date: string | Date | null) => (date ? new Date(date).toLocaleString() : "—");
+
+export default function AdminQuotes() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<QuoteStatus | typeof ALL>(ALL);
+  const [selected, setSelected] = useState<Quote | null>(null);
+  const [adminNotes, setAdminNotes] = useState("");
+  const [proposal, setProposal] = useState(emptyProposal);
+
+  const isAdmin = isAuthenticated && user?.role === "admin";
+
+  const { data, isLoading } = useQuery<QuotesResponse>({
+    queryKey: ["/api/admin/quotes"],
+    enabled: isAdmin,
+  });
+
+  const { data: schedules = [] } = useQuery<PaymentScheduleOption[]>({
+    queryKey: ["/api/payment-schedules?category=custom"],
+    enabled: isAdmin,
+  });
+
+  const openQuote = (quote: Quote) => {
+    setSelected(quote);
+    setAdminNotes(quote.adminNotes ?? "");
+    setProposal({
+      price: quote.proposedPrice ? String(parseFloat(quote.proposedPrice)) : "",
+      paymentSchedule: quote.proposedPaymentSchedule ?? "full",
+      deliveryTime: quote.proposedDeliveryTime ?? "",
+      notes: quote.proposalNotes ?? "",
+    });
+  };
+
+  const onQuoteSaved = (quote: Quote) => {
+    setSelected(quote);
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/quotes"] });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: QuoteStatus }) => {
+      const res = await apiRequest("PATCH", `/api/admin/quotes/${id}`, { status, adminNotes: adminNotes || null });
+      return (await res.json()) as Quote;
+    },
+    onSuccess: (quote) => {
+      toast({ title: "Quote updated", description: `Quote from ${quote.fullName} is ${quoteStatusLabels[quote.status].toLowerCase()}.` });
+      onQuoteSaved(quote);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update failed",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const proposalMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/quotes/${id}/proposal`, {
+        price: Number(proposal.price),
+        paymentSchedule: proposal.paymentSchedule,
+        deliveryTime: proposal.deliveryTime || null,
+        notes: proposal.notes || null,
+      });
+      return (await res.json()) as Quote;
+    },
+    onSuccess: (quote) => {
+      toast({ title: "Proposal sent", description: `${quote.fullName} has been emailed a proposal of ${formatAmount(quote.proposedPrice ?? 0)}.` });
+      onQuoteSaved(quote);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not send proposal",
+        description: error.message || "Please check the details and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  // Redirect non-admin users
+  if (!isAdmin) {
+    window.location.href = "/admin";
+    return null;
+  }
+
+  const allQuotes = data?.quotes ?? [];
+  const quotes = statusFilter === ALL ? allQuotes : allQuotes.filter((quote) => quote.status === statusFilter);
+  const canPropose = selected && selected.status !== "accepted" && selected.status !== "declined";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <AdminNavigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Quote Requests</CardTitle>
+            <CardDescription>Custom project requests from the services page. Accepted proposals become orders at the proposed price.</CardDescription>
+            <div className="flex flex-wrap gap-2 pt-2">
+              <Button size="sm" variant={statusFilter === ALL ? "default" : "outline"} onClick={() => setStatusFilter(ALL)}>
+                All ({allQuotes.length})
+              </Button>
+              {QUOTE_STATUSES.map((status) => (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={statusFilter === status ? "default" : "outline"}
+                  onClick={() => setStatusFilter(status)}
+                >
+                  {quoteStatusLabels[status]} ({data?.counts[status] ?? 0})
+                </Button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="animate-pulse h-14 bg-slate-200 rounded"></div>
+                ))}
+              </div>
+            ) : quotes.length === 0 ? (
+              <div className="text-center py-8">
+                <ClipboardList className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+                <p className="text-slate-600">No quote requests{statusFilter === ALL ? "" : ` marked ${quoteStatusLabels[statusFilter].toLowerCase()}`}.</p>
+              </div>
+            ) : (
+              <div className="border rounded-lg divide-y">
+                {quotes.map((quote) => (
+                  <div key={quote.id} className="flex flex-col md:flex-row md:items-center gap-3 p-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-semibold text-slate-900 truncate">{quote.fullName}</span>
+                        <Badge className={statusStyles[quote.status]}>{quoteStatusLabels[quote.status]}</Badge>
+                      </div>
+                      <p className="text-xs text-slate-500">
+                        {quoteOptionLabel(projectTypes, quote.projectType)} · {quoteOptionLabel(budgetRanges, quote.budgetRange)} · {quoteOptionLabel(timelines, quote.timeline)}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {quote.email}{quote.company ? ` · ${quote.company}` : ""} · received {formatDate(quote.createdAt)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4 flex-shrink-0 text-sm">
+                      {quote.proposedPrice && <span className="font-semibold">{formatAmount(quote.proposedPrice)}</span>}
+                      <Button size="sm" variant="outline" onClick={() => openQuote(quote)}>
+                        Review
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {quoteOptionLabel(projectTypes, selected.projectType)} for {selected.fullName}
+                  <Badge className={statusStyles[selected.status]}>{quoteStatusLabels[selected.status]}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  {selected.email}
+                  {selected.phone ? ` · ${selected.phone}` : ""}
+                  {selected.company ? ` · ${selected.company}` : ""}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 text-sm">
+                <div className="grid grid-cols-2 gap-2">
+                  <p><span className="text-slate-500">Budget:</span> {quoteOptionLabel(budgetRanges, selected.budgetRange)}</p>
+                  <p><span className="text-slate-500">Timeline:</span> {quoteOptionLabel(timelines, selected.timeline)}</p>
+                  {selected.preferredStartDate && (
+                    <p><span className="text-slate-500">Preferred start:</span> {selected.preferredStartDate}</p>
+                  )}
+                  {selected.orderId && (
+                    <p><span className="text-slate-500">Order:</span> #{selected.orderId.slice(0, 8)}</p>
+                  )}
+                </div>
+                <p className="whitespace-pre-wrap text-slate-700">{selected.description}</p>
+                {selected.features.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {selected.features.map((feature) => (
+                      <Badge key={feature} variant="outline">{feature}</Badge>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-1">
+                  <Label htmlFor="quote-admin-notes">Internal notes</Label>
+                  <Textarea
+                    id="quote-admin-notes"
+                    rows={2}
+                    value={adminNotes}
+                    onChange={(e) => setAdminNotes(e.target.value)}
+                    placeholder="Only visible to admins"
+                  />
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={statusMutation.isPending}
+                    onClick={() => statusMutation.mutate({ id: selected.id, status: selected.status })}
+                  >
+                    Save notes
+                  </Button>
+                  {adminQuoteTransitions[selected.status].map((status) => (
+                    <Button
+                      key={status}
+                      size="sm"
+                      variant={status === "declined" ? "destructive" : "outline"}
+                      disabled={statusMutation.isPending}
+                      onClick={() => statusMutation.mutate({ id: selected.id, status })}
+                    >
+                      {status === "declined" ? "Decline" : selected.status === "proposed" ? "Withdraw proposal" : selected.status === "declined" ? "Reopen" : "Start review"}
+                    </Button>
+                  ))}
+                </div>
+
+                {canPropose && (
+                  <div className="border-t pt-4 space-y-3">
+                    <p className="font-semibold text-slate-900">
+                      {selected.status === "proposed" ? "Revise proposal" : "Send proposal"}
+                    </p>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="quote-price">Price (₦)</Label>
+                        <Input
+                          id="quote-price"
+                          type="number"
+                          min="100"
+                          value={proposal.price}
+                          onChange={(e) => setProposal((current) => ({ ...current, price: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Payment</Label>
+                        <Select
+                          value={proposal.paymentSchedule}
+                          onValueChange={(paymentSchedule) => setProposal((current) => ({ ...current, paymentSchedule }))}
+                        >
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {schedules.map((schedule) => (
+                              <SelectItem key={schedule.id} value={schedule.id}>{schedule.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1 col-span-2">
+                        <Label htmlFor="quote-delivery">Delivery time</Label>
+                        <Input
+                          id="quote-delivery"
+                          placeholder="e.g. 6-8 weeks"
+                          value={proposal.deliveryTime}
+                          onChange={(e) => setProposal((current) => ({ ...current, deliveryTime: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-1 col-span-2">
+                        <Label htmlFor="quote-notes">Message to the client</Label>
+                        <Textarea
+                          id="quote-notes"
+                          rows={4}
+                          placeholder="Scope, what's included, assumptions..."
+                          value={proposal.notes}
+                          onChange={(e) => setProposal((current) => ({ ...current, notes: e.target.value }))}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex justify-end">
+                      <Button
+                        disabled={proposalMutation.isPending || !(Number(proposal.price) >= 100)}
+                        onClick={() => proposalMutation.mutate(selected.id)}
+                      >
+                        <Send className="h-4 w-4 mr-1" />
+                        {proposalMutation.isPending ? "Sending..." : "Email proposal"}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {selected.proposedAt && !canPropose && (
+                  <p className="text-slate-600 border-t pt-4">
+                    Proposed {formatAmount(selected.proposedPrice ?? 0)} on {formatDate(selected.proposedAt)}
+                    {selected.respondedAt && ` · client responded ${formatDate(selected.respondedAt)}`}
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
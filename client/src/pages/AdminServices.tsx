@@ -13,6 +13,11 @@ import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import { Plus, Edit, Trash2, Package, DollarSign, Clock, Users } from 'lucide-react';
+import { SETTLEMENT_CURRENCY, formatMoney } from '@shared/currency';
+import { BILLING_INTERVALS, billingIntervalLabels, billingIntervalSuffix, type BillingInterval } from '@shared/subscriptions';
+
+// Select items can't have an empty value
+const ONE_OFF = 'one_off';
 
 interface Service {
   id: string;
@@ -22,7 +27,10 @@ interface Service {
   price: number;
   priceUsd: string;
   currency: string;
+  billingInterval: BillingInterval | null;
   deliveryDays: number;
+  spotsRemaining: number;
+  totalSpots: number;
   features: string[];
   isActive: boolean;
   createdAt: string;
@@ -47,11 +55,18 @@ export default function AdminServices() {
     price: '',
     priceUsd: '',
     currency: 'NGN',
+    billingInterval: ONE_OFF as string,
     deliveryDays: '',
     features: [''],
     isActive: true
   });
 
+  // Currencies a service can be priced in
+  const { data: exchangeRates } = useQuery<{ rates: { currency: string; rate: number }[] }>({
+    queryKey: ["/api/exchange-rates"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
   // Fetch services
   const { data: services = [], isLoading } = useQuery<Service[]>({
     queryKey: ["/api/admin/services"],
@@ -64,6 +79,7 @@ export default function AdminServices() {
       const formattedData = {
         ...serviceData,
         price: parseInt(serviceData.price),
+        billingInterval: serviceData.billingInterval === ONE_OFF ? null : serviceData.billingInterval,
         deliveryDays: parseInt(serviceData.deliveryDays),
         features: serviceData.features.filter((f: string) => f.trim() !== '')
       };
@@ -94,6 +110,7 @@ export default function AdminServices() {
       const formattedUpdates = {
         ...updates,
         price: updates.price ? parseInt(updates.price) : undefined,
+        billingInterval: updates.billingInterval === ONE_OFF ? null : updates.billingInterval,
         deliveryDays: updates.deliveryDays ? parseInt(updates.deliveryDays) : undefined,
         features: updates.features ? updates.features.filter((f: string) => f.trim() !== '') : undefined
       };
@@ -119,6 +136,40 @@ export default function AdminServices() {
     },
   });
 
+  // Capacity is set separately so spots held by open orders stay accounted for
+  const capacityMutation = useMutation({
+    mutationFn: async (data: { serviceId: string; totalSpots: number }) => {
+      const res = await apiRequest('POST', '/api/admin/availability', data);
+      return res.json();
+    },
+    onSuccess: (data: { totalSpots: number; spotsRemaining: number; reservedSpots: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/services"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      toast({
+        title: "Capacity updated",
+        description: `${data.spotsRemaining} of ${data.totalSpots} spots open, ${data.reservedSpots} held by unpaid orders.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update capacity",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCapacity = (service: Service) => {
+    const input = window.prompt(`Total spots for ${service.name}`, String(service.totalSpots));
+    if (input === null) return;
+    const totalSpots = Number(input);
+    if (!Number.isInteger(totalSpots) || totalSpots < 0) {
+      toast({ title: "Invalid capacity", description: "Enter a whole number of spots.", variant: "destructive" });
+      return;
+    }
+    capacityMutation.mutate({ serviceId: service.id, totalSpots });
+  };
+
   // Delete service mutation
   const deleteServiceMutation = useMutation({
     mutationFn: async (serviceId: string) => {
@@ -149,6 +200,7 @@ export default function AdminServices() {
       price: '',
       priceUsd: '',
       currency: 'NGN',
+      billingInterval: ONE_OFF,
       deliveryDays: '',
       features: [''],
       isActive: true
@@ -164,6 +216,7 @@ export default function AdminServices() {
       price: service.price ? service.price.toString() : '',
       priceUsd: service.priceUsd || '',
       currency: service.currency || 'NGN',
+      billingInterval: service.billingInterval || ONE_OFF,
       deliveryDays: service.deliveryDays ? service.deliveryDays.toString() : '',
       features: service.features && service.features.length > 0 ? service.features : [''],
       isActive: service.isActive
@@ -255,22 +308,26 @@ export default function AdminServices() {
 
       <div className="grid grid-cols-3 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="price">Price (NGN)</Label>
-          <Input
-            id="price"
-            type="number"
-            value={serviceForm.price}
-            onChange={(e) => setServiceForm(prev => ({ ...prev, price: e.target.value }))}
-            placeholder="150000"
-          />
+          <Label>Base Currency</Label>
+          <Select value={serviceForm.currency} onValueChange={(value) => setServiceForm(prev => ({ ...prev, currency: value }))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(exchangeRates?.rates ?? [{ currency: SETTLEMENT_CURRENCY }]).map((row) => (
+                <SelectItem key={row.currency} value={row.currency}>{row.currency}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
         <div className="space-y-2">
-          <Label htmlFor="priceUsd">Price (USD)</Label>
+          <Label htmlFor="priceUsd">Price ({serviceForm.currency})</Label>
           <Input
             id="priceUsd"
+            type="number"
             value={serviceForm.priceUsd}
             onChange={(e) => setServiceForm(prev => ({ ...prev, priceUsd: e.target.value }))}
-            placeholder="$100"
+            placeholder="150000"
           />
         </div>
         <div className="space-y-2">
@@ -285,6 +342,26 @@ export default function AdminServices() {
         </div>
       </div>
 
+      <div className="space-y-2">
+        <Label>Billing</Label>
+        <Select value={serviceForm.billingInterval} onValueChange={(value) => setServiceForm(prev => ({ ...prev, billingInterval: value }))}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ONE_OFF}>One-off project</SelectItem>
+            {BILLING_INTERVALS.map((interval) => (
+              <SelectItem key={interval} value={interval}>{billingIntervalLabels[interval]} subscription</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {serviceForm.billingInterval !== ONE_OFF && (
+          <p className="text-xs text-slate-500">
+            Clients subscribe from their dashboard and are charged this price every period until they cancel.
+          </p>
+        )}
+      </div>
+
       <div className="space-y-2">
         <Label>Features</Label>
         {serviceForm.features.map((feature, index) => (
@@ -489,12 +566,26 @@ export default function AdminServices() {
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-slate-600">Price:</span>
-                    <span className="font-semibold">₦{service.price.toLocaleString()} ({service.priceUsd})</span>
+                    <span className="font-semibold">
+                      {formatMoney(parseFloat(service.priceUsd) || 0, service.currency || SETTLEMENT_CURRENCY)}
+                      {service.billingInterval ? billingIntervalSuffix[service.billingInterval] : ''}
+                    </span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-slate-600">Delivery:</span>
                     <span className="font-semibold">{service.deliveryDays} days</span>
                   </div>
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-slate-600">Spots open:</span>
+                    <button
+                      type="button"
+                      className="font-semibold text-blue-600 hover:underline"
+                      onClick={() => handleCapacity(service)}
+                      disabled={capacityMutation.isPending}
+                    >
+                      {service.spotsRemaining}/{service.totalSpots}
+                    </button>
+                  </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-slate-600">Category:</span>
                     <span className="font-semibold capitalize">{service.category}</span>
@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import AdminNavigation from "@/components/AdminNavigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, RefreshCw, Repeat, TrendingDown, TrendingUp, Users } from "lucide-react";
+import type { SubscriptionWithService } from "@shared/schema";
+import {
+  SUBSCRIPTION_STATUSES,
+  billingIntervalSuffix,
+  monthlyRecurringAmount,
+  subscriptionStatusLabels,
+  type SubscriptionStatus,
+} from "@shared/subscriptions";
+
+type AdminSubscription = Omit<SubscriptionWithService, "paymentMethodToken" | "paymentCustomer"> & {
+  customerEmail: string | null;
+  customerName: string | null;
+};
+
+interface BillingSweep {
+  finishedAt: string;
+  renewed: number;
+  failed: number;
+  cancelled: number;
+  checkoutsSettled: number;
+  errors: number;
+}
+
+interface SubscriptionReport {
+  subscriptions: AdminSubscription[];
+  metrics: {
+    mrr: number;
+    active: number;
+    cancelling: number;
+    pastDue: number;
+    atRiskMrr: number;
+    churned30d: number;
+    collected30d: number;
+    failedCharges30d: number;
+    byPlan: { serviceId: string; name: string; subscribers: number; mrr: number }[];
+  };
+  lastSweep: BillingSweep | null;
+}
+
+const statusStyles: Record<SubscriptionStatus, string> = {
+  incomplete: "bg-slate-100 text-slate-700",
+  active: "bg-green-100 text-green-800",
+  past_due: "bg-red-100 text-red-800",
+  cancelled: "bg-slate-200 text-slate-600",
+};
+
+const cancellationLabels: Record<string, string> = {
+  client: "by client",
+  admin: "by admin",
+  payment_failed: "unpaid",
+};
+
+const formatAmount = (amount: number | string) => `₦${Number(amount).toLocaleString()}`;
+
+const formatDate = (date: string | Date | null) => (date ? new Date(date).toLocaleDateString() : "—");
+
+export default function AdminSubscriptions() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<SubscriptionStatus>("active");
+
+  const isAdmin = isAuthenticated && user?.role === "admin";
+
+  const { data, isLoading } = useQuery<SubscriptionReport>({
+    queryKey: ["/api/admin/subscriptions"],
+    enabled: isAdmin,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/subscriptions/run");
+      return (await res.json()) as BillingSweep;
+    },
+    onSuccess: (sweep) => {
+      toast({
+        title: "Billing run complete",
+        description: `${sweep.renewed} renewed, ${sweep.failed} failed, ${sweep.cancelled} ended.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/subscriptions"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to run billing", variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async ({ id, immediately }: { id: string; immediately: boolean }) => {
+      const res = await apiRequest("POST", `/api/admin/subscriptions/${id}/cancel`, { immediately });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Subscription cancelled" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/subscriptions"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Cancel failed", description: error.message || "Please try again later.", variant: "destructive" });
+    },
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  // Redirect non-admin users
+  if (!isAdmin) {
+    window.location.href = "/admin";
+    return null;
+  }
+
+  const metrics = data?.metrics;
+  const all = data?.subscriptions ?? [];
+  const subscriptions = all.filter((subscription) => subscription.status === statusFilter);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <AdminNavigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="p-4 flex items-center gap-3">
+              <TrendingUp className="h-8 w-8 text-green-600" />
+              <div>
+                <p className="text-sm text-slate-600">MRR</p>
+                <p className="text-2xl font-bold">{formatAmount(metrics?.mrr ?? 0)}</p>
+                <p className="text-xs text-slate-500">{formatAmount(metrics?.collected30d ?? 0)} collected in 30 days</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 flex items-center gap-3">
+              <Users className="h-8 w-8 text-blue-600" />
+              <div>
+                <p className="text-sm text-slate-600">Active subscriptions</p>
+                <p className="text-2xl font-bold">{metrics?.active ?? 0}</p>
+                <p className="text-xs text-slate-500">{metrics?.cancelling ?? 0} ending at period end</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 flex items-center gap-3">
+              <AlertTriangle className="h-8 w-8 text-orange-600" />
+              <div>
+                <p className="text-sm text-slate-600">Past due</p>
+                <p className="text-2xl font-bold">{metrics?.pastDue ?? 0}</p>
+                <p className="text-xs text-slate-500">
+                  {formatAmount(metrics?.atRiskMrr ?? 0)} MRR at risk · {metrics?.failedCharges30d ?? 0} failed charges
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 flex items-center gap-3">
+              <TrendingDown className="h-8 w-8 text-red-600" />
+              <div>
+                <p className="text-sm text-slate-600">Churned (30 days)</p>
+                <p className="text-2xl font-bold">{metrics?.churned30d ?? 0}</p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {metrics && metrics.byPlan.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>MRR by Plan</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-lg divide-y">
+                {metrics.byPlan.map((plan) => (
+                  <div key={plan.serviceId} className="flex items-center justify-between p-3 text-sm">
+                    <span className="font-medium text-slate-900">{plan.name}</span>
+                    <span className="text-slate-600">
+                      {plan.subscribers} subscriber{plan.subscribers === 1 ? "" : "s"} · <span className="font-semibold text-slate-900">{formatAmount(plan.mrr)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle>Subscriptions</CardTitle>
+              <CardDescription>
+                Renewals are charged to the client's saved card; failed renewals are retried before the plan is cancelled.
+                {data?.lastSweep && ` Last billing run ${new Date(data.lastSweep.finishedAt).toLocaleString()}.`}
+              </CardDescription>
+              <div className="flex flex-wrap gap-2 pt-3">
+                {SUBSCRIPTION_STATUSES.map((status) => (
+                  <Button
+                    key={status}
+                    size="sm"
+                    variant={statusFilter === status ? "default" : "outline"}
+                    onClick={() => setStatusFilter(status)}
+                  >
+                    {subscriptionStatusLabels[status]} ({all.filter((subscription) => subscription.status === status).length})
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <Button variant="outline" onClick={() => runMutation.mutate()} disabled={runMutation.isPending}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${runMutation.isPending ? "animate-spin" : ""}`} />
+              {runMutation.isPending ? "Running..." : "Run billing now"}
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="animate-pulse h-14 bg-slate-200 rounded"></div>
+                ))}
+              </div>
+            ) : subscriptions.length === 0 ? (
+              <div className="text-center py-8">
+                <Repeat className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+                <p className="text-slate-600">No subscriptions here.</p>
+              </div>
+            ) : (
+              <div className="border rounded-lg divide-y">
+                {subscriptions.map((subscription) => (
+                  <div key={subscription.id} className="flex flex-col md:flex-row md:items-center gap-3 p-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        <span className="font-semibold text-slate-900 truncate">
+                          {subscription.customerName || subscription.customerEmail || "Unknown client"}
+                        </span>
+                        <Badge className={statusStyles[subscription.status]}>{subscriptionStatusLabels[subscription.status]}</Badge>
+                        {subscription.cancelAtPeriodEnd && <Badge variant="outline">Ends at period end</Badge>}
+                      </div>
+                      <p className="text-xs text-slate-500">
+                        {subscription.serviceName ?? subscription.serviceId}
+                        {subscription.customerEmail && subscription.customerName ? ` · ${subscription.customerEmail}` : ""}
+                        {subscription.paymentMethodLabel ? ` · ${subscription.paymentMethodLabel}` : ""}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {subscription.status === "cancelled"
+                          ? `Cancelled ${formatDate(subscription.cancelledAt)}${subscription.cancellationReason ? ` (${cancellationLabels[subscription.cancellationReason] ?? subscription.cancellationReason})` : ""}`
+                          : `Started ${formatDate(subscription.createdAt)} · period ends ${formatDate(subscription.currentPeriodEnd)}`}
+                        {subscription.status === "past_due" && ` · ${subscription.failedAttempts} failed attempt${subscription.failedAttempts === 1 ? "" : "s"}, next retry ${formatDate(subscription.nextRetryAt)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4 flex-shrink-0 text-sm">
+                      <div className="text-right">
+                        <p className="font-semibold">
+                          {formatAmount(subscription.amount)}{billingIntervalSuffix[subscription.billingInterval]}
+                        </p>
+                        {subscription.billingInterval !== "monthly" && (
+                          <p className="text-xs text-slate-500">
+                            {formatAmount(monthlyRecurringAmount(subscription.amount, subscription.billingInterval))}/mo
+                          </p>
+                        )}
+                      </div>
+                      {subscription.status !== "cancelled" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={cancelMutation.isPending}
+                          onClick={() => {
+                            if (window.confirm("Cancel this subscription now? The client won't be charged again.")) {
+                              cancelMutation.mutate({ id: subscription.id, immediately: true });
+                            }
+                          }}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
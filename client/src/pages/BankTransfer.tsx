@@ -0,0 +1,270 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useRoute } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import Navigation from "@/components/Navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, CheckCircle, Clock, Copy, Landmark, Upload, XCircle } from "lucide-react";
+import type { Payment, PaymentProof } from "@shared/schema";
+import { orderStatusLabels, type OrderStatus } from "@shared/orderLifecycle";
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // Keep in sync with server/fileStorage.ts
+const ACCEPTED_TYPES = ".png,.jpg,.jpeg,.webp,.pdf"; // PAYMENT_PROOF_FILE_TYPES
+
+type ClientProof = Omit<PaymentProof, "fileUrl">;
+
+interface BankTransferDetails {
+  reference: string;
+  amount: string;
+  currency: string | null;
+  status: Payment["status"];
+  installmentId: string | null;
+  order: { id: string; status: OrderStatus; totalPrice: string };
+  accountDetails: { bankName: string; accountName: string; accountNumber: string } | null;
+  proofs: ClientProof[];
+}
+
+const readAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] || "");
+    reader.onerror = () => reject(new Error("Could not read file"));
+    reader.readAsDataURL(file);
+  });
+
+const formatAmount = (amount: number | string) => `₦${Number(amount).toLocaleString()}`;
+
+const proofStatus: Record<ClientProof["status"], { label: string; className: string }> = {
+  pending: { label: "Under review", className: "bg-amber-100 text-amber-800" },
+  confirmed: { label: "Confirmed", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Rejected", className: "bg-red-100 text-red-800" },
+};
+
+// Where bank transfer checkouts land: our account details, the amount and reference to quote,
+// and the proof of payment upload an admin reviews before the order goes ahead
+export default function BankTransfer() {
+  const [, params] = useRoute("/bank-transfer/:reference");
+  const reference = params?.reference ?? "";
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [senderName, setSenderName] = useState("");
+  const [note, setNote] = useState("");
+  const transferKey = [`/api/payments/bank-transfer/${reference}`];
+
+  const { data: transfer, isLoading, error } = useQuery<BankTransferDetails>({
+    queryKey: transferKey,
+    enabled: !!reference,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (proofFile: File) => {
+      const data = await readAsBase64(proofFile);
+      const res = await apiRequest("POST", `/api/payments/bank-transfer/${reference}/proof`, {
+        filename: proofFile.name,
+        mimeType: proofFile.type,
+        data,
+        senderName,
+        note,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      setFile(null);
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: transferKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Proof uploaded",
+        description: "We'll confirm your payment once the transfer shows up in our account.",
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Upload failed", description: error.message || "Please try again later.", variant: "destructive" });
+    },
+  });
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+
+    if (selected.size > MAX_FILE_SIZE) {
+      toast({ title: "File too large", description: "Files must be 5MB or smaller.", variant: "destructive" });
+      return;
+    }
+    setFile(selected);
+  };
+
+  const copy = (value: string, label: string) => {
+    navigator.clipboard?.writeText(value).then(
+      () => toast({ title: `${label} copied` }),
+      () => toast({ title: "Couldn't copy", description: value }),
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !transfer) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Navigation />
+        <div className="max-w-2xl mx-auto px-4 py-16 text-center">
+          <Landmark className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+          <p className="text-slate-600 mb-4">We couldn't find this bank transfer.</p>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to dashboard</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const underReview = transfer.proofs.some((proof) => proof.status === "pending");
+  const canUpload = transfer.status === "pending" && transfer.order.status !== "cancelled" && !underReview;
+  const account = transfer.accountDetails;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation />
+
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 py-6 space-y-6">
+        <Link href="/dashboard">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-1" /> Back to dashboard
+          </Button>
+        </Link>
+
+        {transfer.status === "succeeded" ? (
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="p-4 flex items-center gap-3">
+              <CheckCircle className="h-6 w-6 text-green-600" />
+              <p className="text-sm text-green-800">Your transfer has been confirmed. Thank you!</p>
+            </CardContent>
+          </Card>
+        ) : underReview ? (
+          <Card className="border-amber-200 bg-amber-50">
+            <CardContent className="p-4 flex items-center gap-3">
+              <Clock className="h-6 w-6 text-amber-600" />
+              <p className="text-sm text-amber-800">
+                We're checking your transfer. You'll get a notification as soon as it's confirmed.
+              </p>
+            </CardContent>
+          </Card>
+        ) : null}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Landmark className="h-5 w-5" /> Pay by bank transfer
+            </CardTitle>
+            <CardDescription>
+              Order #{transfer.order.id.slice(0, 8)} · {orderStatusLabels[transfer.order.status]}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="rounded-lg bg-slate-100 p-4 text-center">
+              <p className="text-sm text-slate-600">Amount to transfer</p>
+              <p className="text-3xl font-bold text-slate-900">{formatAmount(transfer.amount)}</p>
+            </div>
+
+            {account ? (
+              <div className="border rounded-lg divide-y text-sm">
+                {[
+                  { label: "Bank", value: account.bankName },
+                  { label: "Account name", value: account.accountName },
+                  { label: "Account number", value: account.accountNumber, copyable: true },
+                  { label: "Narration / reference", value: transfer.reference, copyable: true },
+                ].map((row) => (
+                  <div key={row.label} className="flex items-center justify-between gap-2 p-3">
+                    <span className="text-slate-600">{row.label}</span>
+                    <span className="flex items-center gap-2 font-medium text-slate-900 break-all text-right">
+                      {row.value}
+                      {row.copyable && (
+                        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => copy(row.value, row.label)}>
+                          <Copy className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-600">Bank transfer details aren't available right now. Please contact us to complete your payment.</p>
+            )}
+            <p className="text-xs text-slate-500">
+              Use the reference above as the transfer narration so we can match your payment quickly.
+            </p>
+          </CardContent>
+        </Card>
+
+        {canUpload && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Upload proof of payment</CardTitle>
+              <CardDescription>A screenshot or PDF receipt from your bank (PNG, JPG, WebP or PDF, up to 5MB).</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="sender-name">Name on the sending account</Label>
+                <Input id="sender-name" value={senderName} maxLength={100} onChange={(e) => setSenderName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="proof-note">Note (optional)</Label>
+                <Textarea id="proof-note" value={note} maxLength={500} rows={2} onChange={(e) => setNote(e.target.value)} />
+              </div>
+              <input ref={fileInputRef} type="file" accept={ACCEPTED_TYPES} className="hidden" onChange={handleFileSelected} />
+              <div className="flex flex-wrap items-center gap-3">
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={uploadMutation.isPending}>
+                  <Upload className="h-4 w-4 mr-1" /> {file ? "Choose another file" : "Choose file"}
+                </Button>
+                {file && <span className="text-sm text-slate-600 truncate">{file.name}</span>}
+              </div>
+              <Button className="w-full" disabled={!file || uploadMutation.isPending} onClick={() => file && uploadMutation.mutate(file)}>
+                {uploadMutation.isPending ? "Uploading..." : "Submit proof of payment"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {transfer.proofs.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Your uploads</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-lg divide-y">
+                {transfer.proofs.map((proof) => (
+                  <div key={proof.id} className="p-3 space-y-1 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-slate-900 truncate">{proof.filename}</span>
+                      <Badge className={proofStatus[proof.status].className}>{proofStatus[proof.status].label}</Badge>
+                    </div>
+                    <p className="text-xs text-slate-500">Uploaded {new Date(proof.createdAt).toLocaleString()}</p>
+                    {proof.status === "rejected" && proof.rejectionReason && (
+                      <p className="text-xs text-red-600 flex items-center gap-1">
+                        <XCircle className="h-3.5 w-3.5" /> {proof.rejectionReason}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
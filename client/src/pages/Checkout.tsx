@@ -16,6 +16,7 @@ export default function Checkout() {
   const [selectedAddOns, setSelectedAddOns] = useState<string[]>([]);
   const [totalPrice, setTotalPrice] = useState<number>(0);
   const [sessionData, setSessionData] = useState<any>(null);
+  const [resumeError, setResumeError] = useState<string | null>(null);
   const { user } = useAuth();
 
   // Parse URL parameters
@@ -25,6 +26,7 @@ export default function Checkout() {
   const addons = urlParams.get('addons');
   const checkoutParam = urlParams.get('checkout');
   const stepParam = urlParams.get('step');
+  const resumeParam = urlParams.get('resume');
   
 
   
@@ -46,6 +48,37 @@ export default function Checkout() {
     
 
     
+    const restoreSession = (fetchedSessionData: any) => {
+      setSessionData(fetchedSessionData); // Store session data for CheckoutForm
+
+      const service = fetchedSessionData.serviceData;
+      if (service) {
+        setServiceData({
+          ...service,
+          price: service.price || parseInt(service.priceUsd || '0')
+        });
+        setTotalPrice(fetchedSessionData.totalPrice || 0);
+        setSelectedAddOns(fetchedSessionData.selectedAddOns || []);
+      }
+    };
+
+    // Signed link from an abandoned checkout email: reopen that session
+    if (resumeParam && !serviceData) {
+      const params = new URLSearchParams({ exp: urlParams.get('exp') || '', sig: urlParams.get('sig') || '' });
+      fetch(`/api/checkout-sessions/${encodeURIComponent(resumeParam)}/resume?${params.toString()}`)
+      .then(res => res.json())
+      .then(resumedSession => {
+        if (resumedSession && !resumedSession.error) {
+          sessionStorage.setItem('checkoutSessionToken', resumedSession.sessionToken);
+          restoreSession(resumedSession);
+        } else {
+          setResumeError(resumedSession?.error || "This checkout link is no longer valid.");
+        }
+      })
+      .catch(() => setResumeError("We couldn't reopen your checkout. Please try again."));
+      return;
+    }
+
     // First priority: Restore from database checkout session if available
     const sessionToken = sessionStorage.getItem('checkoutSessionToken') || checkoutParam;
     if (sessionToken && !serviceData) {
@@ -55,21 +88,7 @@ export default function Checkout() {
       .then(res => res.json())
       .then(fetchedSessionData => {
         if (fetchedSessionData && !fetchedSessionData.error) {
-
-          
-          setSessionData(fetchedSessionData); // Store session data for CheckoutForm
-          
-          const service = fetchedSessionData.serviceData;
-          if (service) {
-            setServiceData({
-              ...service,
-              price: service.price || parseInt(service.priceUsd || '0')
-            });
-            setTotalPrice(fetchedSessionData.totalPrice || 0);
-            setSelectedAddOns(fetchedSessionData.selectedAddOns || []);
-            
-
-          }
+          restoreSession(fetchedSessionData);
         }
       })
       .catch(error => {
@@ -130,7 +149,26 @@ export default function Checkout() {
     servicesLoading
   });
   
-  if (!serviceId && !serviceData && !hasPendingCheckout && !checkoutParam && !servicesLoading) {
+  if (resumeError) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navigation />
+        <div className="container mx-auto px-4 py-16">
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">Checkout Link Expired</h1>
+            <p className="text-gray-600 mb-6">{resumeError} You can start a new order from our services.</p>
+            <Button onClick={() => setLocation('/services')}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Browse Services
+            </Button>
+          </div>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  if (!serviceId && !serviceData && !hasPendingCheckout && !checkoutParam && !resumeParam && !servicesLoading) {
     return (
       <div className="min-h-screen bg-gray-50">
         <Navigation />
@@ -10,6 +10,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import ProjectCard from "@/components/ProjectCard";
 import MessagesList from "@/components/MessagesList";
 import OrderDetailsModal from "@/components/OrderDetailsModal";
+import ClientQuotes from "@/components/ClientQuotes";
+import ClientSubscriptions from "@/components/ClientSubscriptions";
 import ProjectTimer from "@/components/ProjectTimer";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
@@ -196,7 +198,7 @@ export default function ClientDashboard() {
     return orders.filter((order: any) => {
       switch (orderFilter) {
         case 'pending':
-          return order.status === 'pending';
+          return order.status === 'pending' || order.status === 'awaiting_confirmation';
         case 'paid':
           return order.status === 'paid';
         case 'cancelled':
@@ -234,7 +236,7 @@ export default function ClientDashboard() {
     if (!Array.isArray(orders)) return { all: 0, pending: 0, paid: 0, cancelled: 0 };
     return {
       all: orders.length,
-      pending: orders.filter((o: any) => o.status === 'pending').length,
+      pending: orders.filter((o: any) => o.status === 'pending' || o.status === 'awaiting_confirmation').length,
       paid: orders.filter((o: any) => o.status === 'paid').length,
       cancelled: orders.filter((o: any) => o.status === 'cancelled').length,
     };
@@ -406,8 +408,8 @@ export default function ClientDashboard() {
                           >
                             <div className="flex justify-between items-start mb-3">
                               <h4 className="font-semibold text-slate-900 group-hover:text-blue-600 transition-colors">Service Order</h4>
-                              <Badge variant={order.status === 'paid' ? 'default' : order.status === 'pending' ? 'secondary' : 'outline'}>
-                                {order.status}
+                              <Badge variant={order.status === 'paid' ? 'default' : order.status === 'pending' || order.status === 'awaiting_confirmation' ? 'secondary' : 'outline'}>
+                                {order.status.replace(/_/g, ' ')}
                               </Badge>
                             </div>
                             <div className="space-y-2">
@@ -477,6 +479,12 @@ export default function ClientDashboard() {
                             </div>
                           )}
 
+                          {order.status === 'awaiting_confirmation' && (
+                            <p className="mt-3 text-xs text-amber-700 bg-amber-50 rounded p-2">
+                              We're confirming your bank transfer. Your project starts as soon as it's verified.
+                            </p>
+                          )}
+
                           {/* Action Buttons for Pending Orders */}
                           {order.status === 'pending' && (
                             <div className="mt-3 flex gap-2">
@@ -652,6 +660,12 @@ export default function ClientDashboard() {
                 </CardContent>
               </Card>
 
+            {/* Quotes Section */}
+            <ClientQuotes />
+
+            {/* Subscriptions Section */}
+            <ClientSubscriptions />
+
             {/* Projects Section */}
             <Card>
               <CardHeader>
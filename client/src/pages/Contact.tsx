@@ -12,6 +12,7 @@ import { z } from "zod";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useSpamProtection } from "@/hooks/useSpamProtection";
 
 const contactSchema = z.object({
   firstName: z.string().min(1, "First name is required"),
@@ -25,6 +26,7 @@ type ContactForm = z.infer<typeof contactSchema>;
 
 export default function Contact() {
   const { toast } = useToast();
+  const { protect, honeypot } = useSpamProtection();
   const {
     register,
     handleSubmit,
@@ -37,12 +39,12 @@ export default function Contact() {
 
   const contactMutation = useMutation({
     mutationFn: async (data: ContactForm) => {
-      return apiRequest("POST", "/api/contact", {
+      return apiRequest("POST", "/api/contact", await protect({
         name: `${data.firstName} ${data.lastName}`,
         email: data.email,
         subject: data.subject,
         message: data.message,
-      });
+      }));
     },
     onSuccess: () => {
       toast({
@@ -84,6 +86,7 @@ export default function Contact() {
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                {honeypot}
                 <div className="grid md:grid-cols-2 gap-6">
                   <div>
                     <label className="block text-sm font-semibold text-slate-700 mb-2">
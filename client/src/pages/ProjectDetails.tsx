@@ -1,12 +1,18 @@
 
 import React, { useEffect } from "react";
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import Navigation from "@/components/Navigation";
 import Footer from "@/components/Footer";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Calendar, ExternalLink, CheckCircle, TrendingUp, Users, Clock } from "lucide-react";
+import { ArrowLeft, Calendar, ExternalLink, CheckCircle, TrendingUp, Users, Clock, Paperclip, ListChecks, MessageSquare } from "lucide-react";
+import ProjectTimer from "@/components/ProjectTimer";
+import ProjectFiles from "@/components/ProjectFiles";
+import ProjectStages from "@/components/ProjectStages";
+import MessagesList from "@/components/MessagesList";
+import { useAuth } from "@/hooks/useAuth";
 
 // Project data (same as in Projects.tsx but with more details)
 const projectData = {
@@ -312,6 +318,104 @@ const projectData = {
   }
 };
 
+// Client workspace for a real project (ids are UUIDs, portfolio entries use slugs)
+function ClientProjectDetails({ projectId }: { projectId: string }) {
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+
+  const { data: project, isLoading, error } = useQuery<any>({
+    queryKey: [`/api/projects/${projectId}`],
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !project) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Project Not Found</h1>
+          <Button onClick={() => setLocation('/dashboard')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Button
+          variant="ghost"
+          onClick={() => setLocation('/active-projects')}
+          className="mb-6 text-blue-600 hover:text-blue-700"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Projects
+        </Button>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-1">
+            <ProjectTimer project={project} showWorkspaceLink={false} />
+          </div>
+
+          <div className="lg:col-span-2 space-y-8">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ListChecks className="h-5 w-5" />
+                  Milestones
+                </CardTitle>
+                <CardDescription>
+                  {project.progressPercentage ?? 0}% complete · Current stage: {project.currentStage}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ProjectStages projectId={projectId} editable={user?.role === 'admin'} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Paperclip className="h-5 w-5" />
+                  Files
+                </CardTitle>
+                <CardDescription>Briefs, assets and deliverables for this project</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ProjectFiles projectId={projectId} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessageSquare className="h-5 w-5" />
+                  Messages
+                </CardTitle>
+                <CardDescription>Conversation between you and the project team</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <MessagesList projectId={projectId} />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function ProjectDetails() {
   const [location, setLocation] = useLocation();
   const projectId = location.split('/project/')[1];
@@ -322,6 +426,10 @@ export default function ProjectDetails() {
     window.scrollTo(0, 0);
   }, []);
 
+  if (!project && projectId && /^[0-9a-f-]{36}$/i.test(projectId)) {
+    return <ClientProjectDetails projectId={projectId} />;
+  }
+
   if (!project) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -1,5 +1,7 @@
 import React from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -9,6 +11,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { ArrowLeft, Calendar, DollarSign, Package, Filter, ChevronLeft, ChevronRight, Eye, ShoppingCart, CreditCard, Search, User, Building } from 'lucide-react';
 import { Link } from 'wouter';
 import Navigation from '@/components/Navigation';
+import OrderDocuments from '@/components/OrderDocuments';
 
 export default function TransactionHistory() {
   const [statusFilter, setStatusFilter] = React.useState<'all' | 'paid' | 'pending' | 'cancelled'>('paid');
@@ -26,6 +29,33 @@ export default function TransactionHistory() {
     queryKey: ["/api/client/stats"],
   });
 
+  const { toast } = useToast();
+
+  // Due installments (including an unpaid deposit) are paid through the provider checkout
+  const payInstallmentMutation = useMutation({
+    mutationFn: async ({ orderId, installmentId }: { orderId: string; installmentId: string }) => {
+      const res = await apiRequest('POST', `/api/orders/${orderId}/installments/${installmentId}/pay`);
+      return res.json();
+    },
+    onSuccess: (data: { paymentUrl: string }) => {
+      window.location.href = data.paymentUrl;
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Payment could not be started',
+        description: error.message || 'Please try again later.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const totalOutstanding = React.useMemo(() => {
+    if (!Array.isArray(orders)) return 0;
+    return (orders as any[])
+      .filter((order: any) => order.status !== 'pending')
+      .reduce((sum: number, order: any) => sum + (order.outstandingBalance || 0), 0);
+  }, [orders]);
+
   // Smart default filter based on available data
   React.useEffect(() => {
     if (Array.isArray(orders) && orders.length > 0 && statusFilter === 'paid') {
@@ -143,6 +173,11 @@ export default function TransactionHistory() {
           <p className="text-slate-600 text-sm sm:text-base">
             View all your orders and transactions (Total Spent: <span className="font-semibold text-slate-900">₦{((stats as any)?.totalSpent || 0).toLocaleString()}</span>)
           </p>
+          {totalOutstanding > 0 && (
+            <p className="text-sm text-orange-700 mt-1">
+              Outstanding balance on active projects: <span className="font-semibold">₦{totalOutstanding.toLocaleString()}</span>
+            </p>
+          )}
         </div>
 
         {/* Compact Summary Stats */}
@@ -305,6 +340,12 @@ export default function TransactionHistory() {
                         <span className="text-slate-600">Date:</span>
                         <span className="text-slate-900">{formatDate(order.createdAt)}</span>
                       </div>
+                      {order.status !== 'pending' && order.outstandingBalance > 0 && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-slate-600">Balance due:</span>
+                          <span className="font-semibold text-orange-600">{formatPrice(order.outstandingBalance)}</span>
+                        </div>
+                      )}
                       
                       {/* Add-ons count */}
                       {order.addons && order.addons.length > 0 && (
@@ -489,8 +530,25 @@ export default function TransactionHistory() {
                   </div>
                 </div>
 
+                {/* Price Breakdown */}
+                {Array.isArray(selectedOrder.lineItems) && selectedOrder.lineItems.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold text-slate-900 mb-3">Price Breakdown</h3>
+                    <div className="space-y-2">
+                      {selectedOrder.lineItems.map((item: any) => (
+                        <div key={item.id} className="flex justify-between items-center p-2 bg-blue-50 rounded">
+                          <span className="text-sm">{item.kind === 'add_on' ? `Add-on: ${item.description}` : item.description}</span>
+                          <span className={`text-sm font-medium ${item.kind === 'discount' ? 'text-green-600' : 'text-blue-600'}`}>
+                            {Number(item.amount) < 0 ? `-${formatPrice(Math.abs(Number(item.amount)))}` : formatPrice(item.amount)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Add-ons */}
-                {selectedOrder.addons && selectedOrder.addons.length > 0 && (
+                {!selectedOrder.lineItems?.length && selectedOrder.addons && selectedOrder.addons.length > 0 && (
                   <div>
                     <h3 className="font-semibold text-slate-900 mb-3">Add-ons ({selectedOrder.addons.length})</h3>
                     <div className="space-y-2">
@@ -564,15 +622,66 @@ export default function TransactionHistory() {
                   </div>
                 </div>
 
+                {/* Payment Schedule */}
+                {Array.isArray(selectedOrder.installments) && selectedOrder.installments.length > 1 && (
+                  <div className="border-t pt-4">
+                    <h3 className="font-semibold text-slate-900 mb-3">Payment Schedule</h3>
+                    <div className="space-y-2">
+                      {selectedOrder.installments.map((installment: any) => (
+                        <div key={installment.id} className="flex items-center justify-between gap-2 p-2 bg-slate-50 rounded">
+                          <div>
+                            <div className="text-sm font-medium text-slate-900">{installment.label}</div>
+                            <div className="text-xs text-slate-500">
+                              {installment.percentage}%
+                              {installment.status === 'paid' && installment.paidAt && ` · paid ${formatDate(installment.paidAt)}`}
+                              {installment.status === 'locked' && ` · due at ${installment.unlockAtProgress}% progress`}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-semibold">{formatPrice(installment.amount)}</span>
+                            {installment.status === 'due' && selectedOrder.status !== 'cancelled' ? (
+                              <Button
+                                size="sm"
+                                className="h-7"
+                                disabled={payInstallmentMutation.isPending}
+                                onClick={() => payInstallmentMutation.mutate({ orderId: selectedOrder.id, installmentId: installment.id })}
+                              >
+                                Pay
+                              </Button>
+                            ) : (
+                              <Badge variant={installment.status === 'paid' ? 'default' : 'outline'} className="text-xs">
+                                {installment.status}
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    {selectedOrder.outstandingBalance > 0 && (
+                      <div className="flex justify-between items-center mt-3 text-sm">
+                        <span className="text-slate-600">Outstanding balance:</span>
+                        <span className="font-semibold text-orange-600">{formatPrice(selectedOrder.outstandingBalance)}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <OrderDocuments orderId={selectedOrder.id} className="border-t pt-4" />
+
                 {/* Action Buttons */}
                 {selectedOrder.status === 'pending' && (
                   <div className="flex gap-2 pt-4 border-t">
                     <Button 
                       size="sm" 
                       className="flex-1"
+                      disabled={payInstallmentMutation.isPending}
                       onClick={() => {
-                        // Handle payment logic here
-                        setIsOrderModalOpen(false);
+                        const deposit = selectedOrder.installments?.find((installment: any) => installment.status === 'due');
+                        if (deposit) {
+                          payInstallmentMutation.mutate({ orderId: selectedOrder.id, installmentId: deposit.id });
+                        } else {
+                          setIsOrderModalOpen(false);
+                        }
                       }}
                     >
                       Pay Now
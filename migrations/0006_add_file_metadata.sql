@@ -0,0 +1,6 @@
+-- Track content type and size for uploaded project files
+ALTER TABLE "files"
+  ADD COLUMN IF NOT EXISTS "mime_type" varchar,
+  ADD COLUMN IF NOT EXISTS "size_bytes" integer;
+
+CREATE INDEX IF NOT EXISTS "files_project_id_idx" ON "files" ("project_id");
@@ -0,0 +1,4 @@
+-- Track when project milestones are completed
+ALTER TABLE "project_stages" ADD COLUMN IF NOT EXISTS "completed_at" timestamp;
+
+CREATE INDEX IF NOT EXISTS "project_stages_project_id_idx" ON "project_stages" ("project_id", "order_index");
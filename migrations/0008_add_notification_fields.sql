@@ -0,0 +1,7 @@
+-- Richer in-app notifications: title, deep link and read timestamp
+ALTER TABLE "notifications"
+  ADD COLUMN IF NOT EXISTS "title" varchar,
+  ADD COLUMN IF NOT EXISTS "link" varchar,
+  ADD COLUMN IF NOT EXISTS "read_at" timestamp;
+
+CREATE INDEX IF NOT EXISTS "notifications_user_id_idx" ON "notifications" ("user_id", "is_read", "created_at");
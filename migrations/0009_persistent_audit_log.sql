@@ -0,0 +1,10 @@
+-- Persist auditLog() events: anonymous actors, client IP and structured details
+ALTER TABLE "audit_logs" DROP CONSTRAINT IF EXISTS "audit_logs_user_id_users_id_fk";
+ALTER TABLE "audit_logs" ALTER COLUMN "user_id" DROP NOT NULL;
+ALTER TABLE "audit_logs" ADD COLUMN IF NOT EXISTS "ip_address" varchar;
+-- Existing rows were written with JSON.stringify, so they cast cleanly
+ALTER TABLE "audit_logs" ALTER COLUMN "details" TYPE jsonb USING "details"::jsonb;
+
+CREATE INDEX IF NOT EXISTS "audit_logs_action_type_idx" ON "audit_logs" ("action_type");
+CREATE INDEX IF NOT EXISTS "audit_logs_user_id_idx" ON "audit_logs" ("user_id");
+CREATE INDEX IF NOT EXISTS "audit_logs_created_at_idx" ON "audit_logs" ("created_at");
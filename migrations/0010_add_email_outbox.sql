@@ -0,0 +1,23 @@
+-- Persisted outbox for outgoing email with retry bookkeeping
+DO $$ BEGIN
+  CREATE TYPE "email_status" AS ENUM ('pending', 'sent', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "email_outbox" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "to_address" varchar NOT NULL,
+  "subject" varchar NOT NULL,
+  "html" text NOT NULL,
+  "text" text,
+  "status" "email_status" DEFAULT 'pending' NOT NULL,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "last_error" text,
+  "transport" varchar,
+  "next_attempt_at" timestamp DEFAULT now(),
+  "sent_at" timestamp,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "email_outbox_status_next_attempt_idx" ON "email_outbox" ("status", "next_attempt_at");
@@ -0,0 +1,20 @@
+-- Chat message attachments (links to project files) and per-recipient read receipts
+CREATE TABLE IF NOT EXISTS "message_attachments" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "message_id" uuid NOT NULL REFERENCES "messages"("id") ON DELETE CASCADE,
+  "file_id" uuid NOT NULL REFERENCES "files"("id") ON DELETE CASCADE,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "message_attachments_message_id_idx" ON "message_attachments" ("message_id");
+
+CREATE TABLE IF NOT EXISTS "message_reads" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "message_id" uuid NOT NULL REFERENCES "messages"("id") ON DELETE CASCADE,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "read_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "message_reads_message_user_idx" ON "message_reads" ("message_id", "user_id");
+
+CREATE INDEX IF NOT EXISTS "messages_project_sent_at_idx" ON "messages" ("project_id", "sent_at");
@@ -0,0 +1,17 @@
+-- Ledger of applied payment references so repeated webhook/callback deliveries are no-ops
+CREATE TABLE IF NOT EXISTS "processed_payment_events" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "provider" varchar NOT NULL,
+  "reference" varchar NOT NULL,
+  "order_id" uuid NOT NULL REFERENCES "orders"("id"),
+  "processed_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "processed_payment_events_provider_reference_idx" ON "processed_payment_events" ("provider", "reference");
+
+-- Backfill references that were already applied before the ledger existed
+INSERT INTO "processed_payment_events" ("provider", "reference", "order_id", "processed_at")
+SELECT "provider", "provider_id", "order_id", COALESCE("paid_at", now())
+FROM "payments"
+WHERE "status" = 'succeeded'
+ON CONFLICT DO NOTHING;
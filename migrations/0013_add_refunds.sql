@@ -0,0 +1,23 @@
+-- Admin-issued full and partial refunds against provider payments
+DO $$ BEGIN
+  CREATE TYPE "refund_status" AS ENUM ('pending', 'succeeded', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "refunds" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "payment_id" uuid NOT NULL REFERENCES "payments"("id"),
+  "order_id" uuid NOT NULL REFERENCES "orders"("id"),
+  "amount" numeric NOT NULL,
+  "reason" text,
+  "provider" varchar NOT NULL,
+  "provider_refund_id" varchar,
+  "status" "refund_status" DEFAULT 'pending' NOT NULL,
+  "commission_clawback" numeric(10, 2) DEFAULT '0.00',
+  "requested_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now(),
+  "processed_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "refunds_payment_id_idx" ON "refunds" ("payment_id");
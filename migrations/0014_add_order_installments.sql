@@ -0,0 +1,26 @@
+-- Deposit-plus-balance payment schedules: one row per scheduled payment on an order
+DO $$ BEGIN
+  CREATE TYPE "installment_status" AS ENUM ('locked', 'due', 'paid');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "payment_schedule" varchar DEFAULT 'full' NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "order_installments" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "order_id" uuid NOT NULL REFERENCES "orders"("id") ON DELETE CASCADE,
+  "sequence" integer NOT NULL,
+  "label" varchar NOT NULL,
+  "percentage" integer NOT NULL,
+  "amount" numeric NOT NULL,
+  "unlock_at_progress" integer DEFAULT 0 NOT NULL,
+  "status" "installment_status" DEFAULT 'locked' NOT NULL,
+  "due_at" timestamp,
+  "paid_at" timestamp,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "order_installments_order_sequence_idx" ON "order_installments" ("order_id", "sequence");
+
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "installment_id" uuid REFERENCES "order_installments"("id");
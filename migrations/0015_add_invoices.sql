@@ -0,0 +1,44 @@
+-- PDF invoices and receipts with gap-free sequential numbering
+DO $$ BEGIN
+  CREATE TYPE "invoice_kind" AS ENUM ('invoice', 'receipt');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "settings" ADD COLUMN IF NOT EXISTS "business_name" text;
+ALTER TABLE "settings" ADD COLUMN IF NOT EXISTS "business_address" text;
+ALTER TABLE "settings" ADD COLUMN IF NOT EXISTS "business_email" text;
+ALTER TABLE "settings" ADD COLUMN IF NOT EXISTS "business_phone" text;
+ALTER TABLE "settings" ADD COLUMN IF NOT EXISTS "tax_id" text;
+ALTER TABLE "settings" ADD COLUMN IF NOT EXISTS "vat_rate" numeric(5, 2);
+
+CREATE TABLE IF NOT EXISTS "invoice_sequences" (
+  "kind" "invoice_kind" PRIMARY KEY NOT NULL,
+  "last_number" integer DEFAULT 0 NOT NULL
+);
+
+INSERT INTO "invoice_sequences" ("kind", "last_number")
+VALUES ('invoice', 0), ('receipt', 0)
+ON CONFLICT ("kind") DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS "invoices" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "number" varchar NOT NULL,
+  "kind" "invoice_kind" NOT NULL,
+  "order_id" uuid NOT NULL REFERENCES "orders"("id"),
+  "payment_id" uuid REFERENCES "payments"("id"),
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "currency" varchar DEFAULT 'NGN' NOT NULL,
+  "line_items" jsonb NOT NULL,
+  "subtotal" numeric(12, 2) NOT NULL,
+  "vat_rate" numeric(5, 2) DEFAULT '0.00' NOT NULL,
+  "vat_amount" numeric(12, 2) DEFAULT '0.00' NOT NULL,
+  "total" numeric(12, 2) NOT NULL,
+  "seller" jsonb NOT NULL,
+  "bill_to" jsonb NOT NULL,
+  "issued_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "invoices_number_idx" ON "invoices" ("number");
+CREATE UNIQUE INDEX IF NOT EXISTS "invoices_order_invoice_idx" ON "invoices" ("order_id") WHERE "kind" = 'invoice';
+CREATE UNIQUE INDEX IF NOT EXISTS "invoices_payment_idx" ON "invoices" ("payment_id");
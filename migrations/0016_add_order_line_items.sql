@@ -0,0 +1,19 @@
+-- Server-computed order price breakdown, replacing the add-on list kept in custom_request
+DO $$ BEGIN
+  CREATE TYPE "order_line_item_kind" AS ENUM ('service', 'add_on', 'discount');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "order_line_items" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "order_id" uuid NOT NULL REFERENCES "orders"("id") ON DELETE CASCADE,
+  "sequence" integer NOT NULL,
+  "kind" "order_line_item_kind" NOT NULL,
+  "description" varchar NOT NULL,
+  "quantity" integer DEFAULT 1 NOT NULL,
+  "unit_price" numeric(12, 2) NOT NULL,
+  "amount" numeric(12, 2) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "order_line_items_order_sequence_idx" ON "order_line_items" ("order_id", "sequence");
@@ -0,0 +1,28 @@
+-- Discount codes with expiry, usage limits and an optional service or category scope
+DO $$ BEGIN
+  CREATE TYPE "coupon_type" AS ENUM ('percentage', 'fixed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "coupons" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "code" varchar NOT NULL,
+  "description" text,
+  "type" "coupon_type" NOT NULL,
+  "value" numeric(12, 2) NOT NULL,
+  "service_id" varchar REFERENCES "services"("id"),
+  "category" "service_category",
+  "starts_at" timestamp,
+  "expires_at" timestamp,
+  "max_redemptions" integer,
+  "per_user_limit" integer,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "coupons_code_idx" ON "coupons" ("code");
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "coupon_id" uuid REFERENCES "coupons"("id");
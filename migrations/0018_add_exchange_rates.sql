@@ -0,0 +1,17 @@
+-- Base currency per service, admin-maintained exchange rates, and the currency and rate
+-- recorded on each order and payment
+CREATE TABLE IF NOT EXISTS "exchange_rates" (
+  "currency" varchar(3) PRIMARY KEY NOT NULL,
+  "rate" numeric(18, 6) NOT NULL,
+  "updated_by" varchar REFERENCES "users"("id"),
+  "updated_at" timestamp DEFAULT now()
+);
+
+ALTER TABLE "services" ADD COLUMN IF NOT EXISTS "currency" varchar(3) DEFAULT 'NGN' NOT NULL;
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "currency" varchar(3) DEFAULT 'NGN' NOT NULL;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "display_currency" varchar(3) DEFAULT 'NGN' NOT NULL;
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "exchange_rate" numeric(18, 6) DEFAULT 1 NOT NULL;
+
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "display_currency" varchar(3) DEFAULT 'NGN' NOT NULL;
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "exchange_rate" numeric(18, 6) DEFAULT 1 NOT NULL;
@@ -0,0 +1,21 @@
+-- Mismatches found by the pending payment reconciler, kept for admin review
+CREATE TABLE IF NOT EXISTS "payment_reconciliation_issues" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "payment_id" uuid NOT NULL REFERENCES "payments"("id"),
+  "order_id" uuid NOT NULL REFERENCES "orders"("id"),
+  "provider" varchar NOT NULL,
+  "reference" varchar NOT NULL,
+  "kind" varchar NOT NULL,
+  "expected_amount" numeric(12, 2),
+  "actual_amount" numeric(12, 2),
+  "details" text,
+  "detected_at" timestamp DEFAULT now() NOT NULL,
+  "resolved_at" timestamp,
+  "resolved_by" varchar REFERENCES "users"("id"),
+  "resolution_note" text
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "payment_reconciliation_issues_payment_kind_idx"
+  ON "payment_reconciliation_issues" ("payment_id", "kind");
+
+CREATE INDEX IF NOT EXISTS "payments_status_created_at_idx" ON "payments" ("status", "created_at");
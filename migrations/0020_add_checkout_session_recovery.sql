@@ -0,0 +1,7 @@
+-- Abandoned checkout recovery: resume emails, link opens and conversions per session
+ALTER TABLE "checkout_sessions" ADD COLUMN IF NOT EXISTS "order_id" uuid REFERENCES "orders"("id");
+ALTER TABLE "checkout_sessions" ADD COLUMN IF NOT EXISTS "recovery_email_sent_at" timestamp;
+ALTER TABLE "checkout_sessions" ADD COLUMN IF NOT EXISTS "recovered_at" timestamp;
+
+CREATE INDEX IF NOT EXISTS "checkout_sessions_completed_created_at_idx"
+  ON "checkout_sessions" ("is_completed", "created_at");
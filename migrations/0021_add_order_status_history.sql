@@ -0,0 +1,21 @@
+-- Order status changes, written by the order lifecycle (shared/orderLifecycle.ts)
+CREATE TABLE IF NOT EXISTS "order_status_history" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "order_id" uuid NOT NULL REFERENCES "orders"("id"),
+  "from_status" "order_status",
+  "to_status" "order_status" NOT NULL,
+  "source" varchar NOT NULL,
+  "changed_by" varchar REFERENCES "users"("id"),
+  "reason" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "order_status_history_order_created_at_idx"
+  ON "order_status_history" ("order_id", "created_at");
+
+-- Existing orders start their timeline at their current status
+INSERT INTO "order_status_history" ("order_id", "from_status", "to_status", "source", "reason", "created_at")
+SELECT o."id", NULL, o."status", 'checkout', 'Recorded when status history was introduced', COALESCE(o."created_at", now())
+FROM "orders" o
+WHERE o."status" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "order_status_history" h WHERE h."order_id" = o."id");
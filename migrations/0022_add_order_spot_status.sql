@@ -0,0 +1,3 @@
+-- Service capacity held by each order: reserved at checkout, consumed on payment,
+-- released on cancellation or expiry. Orders placed before this have no reservation.
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "spot_status" varchar(10);
@@ -0,0 +1,36 @@
+-- Custom quote requests and the priced proposals sent back to clients (shared/quotes.ts)
+DO $$ BEGIN
+  CREATE TYPE "quote_status" AS ENUM ('new', 'reviewing', 'proposed', 'accepted', 'declined');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "quotes" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar REFERENCES "users"("id"),
+  "full_name" varchar NOT NULL,
+  "email" varchar NOT NULL,
+  "phone" varchar,
+  "company" varchar,
+  "project_type" varchar NOT NULL,
+  "budget_range" varchar NOT NULL,
+  "timeline" varchar NOT NULL,
+  "description" text NOT NULL,
+  "features" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "preferred_start_date" varchar,
+  "status" "quote_status" DEFAULT 'new' NOT NULL,
+  "admin_notes" text,
+  "proposed_price" numeric(12, 2),
+  "proposed_payment_schedule" varchar,
+  "proposed_delivery_time" varchar,
+  "proposal_notes" text,
+  "proposed_by" varchar REFERENCES "users"("id"),
+  "proposed_at" timestamp,
+  "responded_at" timestamp,
+  "order_id" uuid REFERENCES "orders"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "quotes_status_created_at_idx" ON "quotes" ("status", "created_at");
+CREATE INDEX IF NOT EXISTS "quotes_email_idx" ON "quotes" ("email");
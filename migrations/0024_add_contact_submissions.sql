@@ -0,0 +1,48 @@
+-- Contact form inbox with admin replies, replacing contact submissions stored in audit_logs
+DO $$ BEGIN
+  CREATE TYPE "contact_status" AS ENUM ('new', 'read', 'replied', 'archived');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "contact_submissions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar REFERENCES "users"("id"),
+  "name" varchar NOT NULL,
+  "email" varchar NOT NULL,
+  "subject" varchar NOT NULL,
+  "message" text NOT NULL,
+  "status" "contact_status" DEFAULT 'new' NOT NULL,
+  "read_at" timestamp,
+  "replied_at" timestamp,
+  "quote_id" uuid REFERENCES "quotes"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "contact_submissions_status_created_at_idx" ON "contact_submissions" ("status", "created_at");
+CREATE INDEX IF NOT EXISTS "contact_submissions_email_idx" ON "contact_submissions" ("email");
+
+CREATE TABLE IF NOT EXISTS "contact_replies" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "submission_id" uuid NOT NULL REFERENCES "contact_submissions"("id") ON DELETE CASCADE,
+  "body" text NOT NULL,
+  "sent_by" varchar REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "contact_replies_submission_idx" ON "contact_replies" ("submission_id");
+
+-- Copy earlier submissions from the audit log into the inbox
+INSERT INTO "contact_submissions" ("user_id", "name", "email", "subject", "message", "created_at", "updated_at")
+SELECT u."id", COALESCE(a."details"->>'name', ''), lower(a."details"->>'email'), COALESCE(a."details"->>'subject', ''), a."details"->>'message',
+       COALESCE(a."created_at", now()), COALESCE(a."created_at", now())
+FROM "audit_logs" a
+LEFT JOIN "users" u ON lower(u."email") = lower(a."details"->>'email')
+WHERE a."action_type" = 'contact_form_submission'
+  AND a."details"->>'email' IS NOT NULL
+  AND a."details"->>'message' IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "contact_submissions" c
+    WHERE c."email" = lower(a."details"->>'email') AND c."created_at" = COALESCE(a."created_at", now())
+  );
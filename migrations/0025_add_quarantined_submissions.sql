@@ -0,0 +1,22 @@
+-- Public form submissions held back as suspected spam (server/antiAbuse.ts)
+DO $$ BEGIN
+  CREATE TYPE "quarantine_status" AS ENUM ('pending', 'released', 'discarded');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "quarantined_submissions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "form" varchar NOT NULL,
+  "payload" jsonb NOT NULL,
+  "reasons" jsonb NOT NULL,
+  "ip_address" varchar,
+  "user_agent" text,
+  "user_id" varchar REFERENCES "users"("id"),
+  "status" "quarantine_status" DEFAULT 'pending' NOT NULL,
+  "reviewed_by" varchar REFERENCES "users"("id"),
+  "reviewed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "quarantined_submissions_status_created_at_idx" ON "quarantined_submissions" ("status", "created_at");
@@ -0,0 +1,61 @@
+-- Recurring maintenance, hosting and retainer plans with renewal charges (shared/subscriptions.ts)
+DO $$ BEGIN
+  CREATE TYPE "billing_interval" AS ENUM ('monthly', 'quarterly', 'yearly');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "subscription_status" AS ENUM ('incomplete', 'active', 'past_due', 'cancelled');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "services" ADD COLUMN IF NOT EXISTS "billing_interval" "billing_interval";
+
+CREATE TABLE IF NOT EXISTS "subscriptions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "service_id" varchar NOT NULL REFERENCES "services"("id"),
+  "status" "subscription_status" DEFAULT 'incomplete' NOT NULL,
+  "billing_interval" "billing_interval" NOT NULL,
+  "amount" numeric(12, 2) NOT NULL,
+  "currency" varchar(3) DEFAULT 'NGN' NOT NULL,
+  "provider" varchar NOT NULL,
+  "payment_method_token" text,
+  "payment_customer" varchar,
+  "payment_method_label" varchar,
+  "current_period_start" timestamp,
+  "current_period_end" timestamp,
+  "cancel_at_period_end" boolean DEFAULT false NOT NULL,
+  "failed_attempts" integer DEFAULT 0 NOT NULL,
+  "next_retry_at" timestamp,
+  "cancelled_at" timestamp,
+  "cancellation_reason" varchar,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "subscriptions_status_period_end_idx" ON "subscriptions" ("status", "current_period_end");
+CREATE INDEX IF NOT EXISTS "subscriptions_user_id_idx" ON "subscriptions" ("user_id");
+
+CREATE TABLE IF NOT EXISTS "subscription_charges" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "subscription_id" uuid NOT NULL REFERENCES "subscriptions"("id"),
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "kind" varchar NOT NULL,
+  "attempt" integer DEFAULT 1 NOT NULL,
+  "amount" numeric(12, 2) NOT NULL,
+  "currency" varchar(3) DEFAULT 'NGN' NOT NULL,
+  "provider" varchar NOT NULL,
+  "reference" varchar,
+  "status" "payment_status" DEFAULT 'pending' NOT NULL,
+  "period_start" timestamp NOT NULL,
+  "period_end" timestamp NOT NULL,
+  "failure_reason" text,
+  "paid_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "subscription_charges_period_attempt_idx" ON "subscription_charges" ("subscription_id", "kind", "period_start", "attempt");
+CREATE UNIQUE INDEX IF NOT EXISTS "subscription_charges_reference_idx" ON "subscription_charges" ("reference");
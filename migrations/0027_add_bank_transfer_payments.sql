@@ -0,0 +1,29 @@
+-- Offline bank transfer payments: orders wait for an admin to confirm the uploaded proof
+ALTER TYPE "order_status" ADD VALUE IF NOT EXISTS 'awaiting_confirmation' BEFORE 'paid';
+
+DO $$ BEGIN
+  CREATE TYPE "payment_proof_status" AS ENUM ('pending', 'confirmed', 'rejected');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "payment_proofs" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "payment_id" uuid NOT NULL REFERENCES "payments"("id"),
+  "order_id" uuid NOT NULL REFERENCES "orders"("id"),
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "file_url" text NOT NULL,
+  "filename" varchar NOT NULL,
+  "mime_type" varchar NOT NULL,
+  "size_bytes" integer NOT NULL,
+  "sender_name" varchar,
+  "note" text,
+  "status" "payment_proof_status" DEFAULT 'pending' NOT NULL,
+  "reviewed_by" varchar REFERENCES "users"("id"),
+  "reviewed_at" timestamp,
+  "rejection_reason" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "payment_proofs_status_created_at_idx" ON "payment_proofs" ("status", "created_at");
+CREATE INDEX IF NOT EXISTS "payment_proofs_payment_id_idx" ON "payment_proofs" ("payment_id");
@@ -0,0 +1,36 @@
+-- One running earnings row per referrer, so commission credits can upsert on user_id.
+-- Duplicate rows are folded into the oldest one first; each credit lives in exactly one row, so the sums are the true totals.
+WITH merged AS (
+  SELECT
+    "user_id",
+    (array_agg("id" ORDER BY "updated_at" NULLS LAST, "id"))[1] AS "keep_id",
+    sum(coalesce("total_earned", 0)) AS "total_earned",
+    sum(coalesce("total_withdrawn", 0)) AS "total_withdrawn",
+    sum(coalesce("pending_earnings", 0)) AS "pending_earnings",
+    sum(coalesce("available_balance", 0)) AS "available_balance",
+    sum(coalesce("total_referrals", 0)) AS "total_referrals",
+    sum(coalesce("successful_referrals", 0)) AS "successful_referrals",
+    max("updated_at") AS "updated_at"
+  FROM "referral_earnings"
+  GROUP BY "user_id"
+  HAVING count(*) > 1
+),
+kept AS (
+  UPDATE "referral_earnings" e
+  SET
+    "total_earned" = m."total_earned",
+    "total_withdrawn" = m."total_withdrawn",
+    "pending_earnings" = m."pending_earnings",
+    "available_balance" = m."available_balance",
+    "total_referrals" = m."total_referrals",
+    "successful_referrals" = m."successful_referrals",
+    "updated_at" = m."updated_at"
+  FROM merged m
+  WHERE e."id" = m."keep_id"
+  RETURNING e."id", e."user_id"
+)
+DELETE FROM "referral_earnings" e
+USING kept
+WHERE e."user_id" = kept."user_id" AND e."id" <> kept."id";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "referral_earnings_user_id_idx" ON "referral_earnings" ("user_id");
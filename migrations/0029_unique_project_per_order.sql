@@ -0,0 +1,20 @@
+-- One project per order. Duplicates created by the old unlocked paths are folded into the oldest
+-- project: messages, files and support requests move over, the duplicate's seeded stages go.
+CREATE TEMP TABLE "duplicate_projects" ON COMMIT DROP AS
+SELECT p."id" AS "duplicate_id", k."keep_id"
+FROM "projects" p
+JOIN (
+  SELECT "order_id", (array_agg("id" ORDER BY "created_at" NULLS LAST, "id"))[1] AS "keep_id"
+  FROM "projects"
+  GROUP BY "order_id"
+  HAVING count(*) > 1
+) k ON k."order_id" = p."order_id"
+WHERE p."id" <> k."keep_id";
+
+UPDATE "messages" m SET "project_id" = d."keep_id" FROM "duplicate_projects" d WHERE m."project_id" = d."duplicate_id";
+UPDATE "files" f SET "project_id" = d."keep_id" FROM "duplicate_projects" d WHERE f."project_id" = d."duplicate_id";
+UPDATE "support_requests" s SET "project_id" = d."keep_id" FROM "duplicate_projects" d WHERE s."project_id" = d."duplicate_id";
+DELETE FROM "project_stages" s USING "duplicate_projects" d WHERE s."project_id" = d."duplicate_id";
+DELETE FROM "projects" p USING "duplicate_projects" d WHERE p."id" = d."duplicate_id";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "projects_order_id_idx" ON "projects" ("order_id");
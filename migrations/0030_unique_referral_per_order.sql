@@ -0,0 +1,31 @@
+-- One referral commission per order. Duplicates written by racing payment paths are folded into
+-- the oldest row, and the extra credits they added to the referrer's earnings are taken back out.
+CREATE TEMP TABLE "duplicate_referrals" ON COMMIT DROP AS
+SELECT r."id", r."referrer_id", r."commission_amount"
+FROM "referrals" r
+JOIN (
+  SELECT "order_id", (array_agg("id" ORDER BY "created_at" NULLS LAST, "id"))[1] AS "keep_id"
+  FROM "referrals"
+  WHERE "order_id" IS NOT NULL
+  GROUP BY "order_id"
+  HAVING count(*) > 1
+) k ON k."order_id" = r."order_id"
+WHERE r."id" <> k."keep_id";
+
+UPDATE "referral_earnings" e
+SET
+  "total_earned" = coalesce(e."total_earned", 0) - d."amount",
+  "available_balance" = coalesce(e."available_balance", 0) - d."amount",
+  "total_referrals" = greatest(coalesce(e."total_referrals", 0) - d."count", 0),
+  "successful_referrals" = greatest(coalesce(e."successful_referrals", 0) - d."count", 0),
+  "updated_at" = now()
+FROM (
+  SELECT "referrer_id", sum("commission_amount") AS "amount", count(*) AS "count"
+  FROM "duplicate_referrals"
+  GROUP BY "referrer_id"
+) d
+WHERE e."user_id" = d."referrer_id";
+
+DELETE FROM "referrals" r USING "duplicate_referrals" d WHERE r."id" = d."id";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "referrals_order_id_idx" ON "referrals" ("order_id");
@@ -0,0 +1,253 @@
+import crypto from "crypto";
+import type { Response, NextFunction } from "express";
+import type { AnyZodObject } from "zod";
+import { storage } from "./storage";
+import { auditLog } from "./security";
+import type { QuarantinedSubmission } from "@shared/schema";
+
+// Public forms that run through spamGuard; the value is stored with each quarantined submission
+export type QuarantineForm = 'contact' | 'quote';
+export const QUARANTINE_FORMS: QuarantineForm[] = ['contact', 'quote'];
+
+// Fields the client adds next to the form data (see client/src/hooks/useSpamProtection.tsx)
+export const CHALLENGE_FIELD = '_challenge';
+export const NONCE_FIELD = '_nonce';
+export const HONEYPOT_FIELD = 'website';
+
+const positiveNumberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : fallback;
+};
+
+// Leading zero bits required of sha256(`${token}:${nonce}`); each extra bit doubles the client's work
+const POW_DIFFICULTY = Math.min(24, Math.floor(positiveNumberFromEnv('SPAM_POW_DIFFICULTY', 14)));
+const MIN_SUBMIT_MS = positiveNumberFromEnv('SPAM_MIN_SUBMIT_SECONDS', 3) * 1000;
+const CHALLENGE_TTL_MS = 6 * 60 * 60 * 1000;
+const SPAM_SCORE_THRESHOLD = 3;
+
+// Solved challenges, kept until they would have expired anyway so a token can't be replayed
+const usedChallenges = new Map<string, number>();
+
+const sign = (payload: string) => {
+  const secret = process.env.SESSION_SECRET || 'dev-secret-key-for-replit-development';
+  return crypto.createHmac("sha256", secret).update(`challenge.${payload}`).digest("hex");
+};
+
+export interface Challenge {
+  token: string;
+  difficulty: number;
+}
+
+// The token carries its own issue time and difficulty, so nothing is stored until it is redeemed
+export function issueChallenge(): Challenge {
+  const payload = `${Date.now()}.${POW_DIFFICULTY}.${crypto.randomBytes(12).toString("hex")}`;
+  return { token: `${payload}.${sign(payload)}`, difficulty: POW_DIFFICULTY };
+}
+
+const leadingZeroBits = (digest: Buffer) => {
+  let bits = 0;
+  for (let i = 0; i < digest.length; i++) {
+    if (digest[i] === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(digest[i]) - 24;
+  }
+  return bits;
+};
+
+// Returns the problems with a submitted challenge; an empty list means it was solved and is now spent
+function checkChallenge(token: unknown, nonce: unknown): string[] {
+  if (typeof token !== 'string' || !token || nonce === undefined || nonce === null || nonce === '') {
+    return ['missing_challenge'];
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 4) {
+    return ['invalid_challenge'];
+  }
+  const [issuedAtPart, difficultyPart, random, signature] = parts;
+  const expected = Buffer.from(sign(`${issuedAtPart}.${difficultyPart}.${random}`));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    return ['invalid_challenge'];
+  }
+
+  const now = Date.now();
+  const issuedAt = Number(issuedAtPart);
+  if (!Number.isFinite(issuedAt) || now - issuedAt > CHALLENGE_TTL_MS) {
+    return ['expired_challenge'];
+  }
+
+  const digest = crypto.createHash("sha256").update(`${token}:${String(nonce)}`).digest();
+  if (leadingZeroBits(digest) < Number(difficultyPart)) {
+    return ['unsolved_challenge'];
+  }
+
+  usedChallenges.forEach((expiresAt, used) => {
+    if (expiresAt < now) {
+      usedChallenges.delete(used);
+    }
+  });
+  if (usedChallenges.has(token)) {
+    return ['reused_challenge'];
+  }
+  usedChallenges.set(token, issuedAt + CHALLENGE_TTL_MS);
+
+  // The challenge is fetched when the form opens, so its age is how long the visitor took to fill it in
+  return now - issuedAt < MIN_SUBMIT_MS ? ['too_fast'] : [];
+}
+
+const LINK_PATTERN = /\bhttps?:\/\/|\bwww\.[a-z0-9-]+\./gi;
+const MARKUP_LINK_PATTERN = /\[url=|\[link=|<a\s+href/i;
+const SPAM_PHRASES = [
+  /\bcasino\b/i,
+  /\bviagra\b|\bcialis\b/i,
+  /\bforex\b|\bbinary options\b/i,
+  /\bcrypto(currency)? (investment|trading|signals)\b/i,
+  /\bbacklinks?\b/i,
+  /\bguest posts?\b/i,
+  /\b(first page|page one) (of|on) google\b/i,
+  /\bloan offers?\b/i,
+  /\bwork from home\b/i,
+  /\bunsubscribe\b/i,
+];
+
+// Scores the free-text fields; a submission is only flagged once the score reaches the threshold,
+// so a single link or an unlucky word doesn't quarantine a real enquiry
+export function contentSpamReasons(
+  payload: Record<string, unknown>,
+  fields: { text: string[]; linkFree: string[] },
+): string[] {
+  const value = (field: string) => (typeof payload[field] === 'string' ? payload[field] as string : '');
+  const text = fields.text.map(value).join('\n');
+  const signals: { reason: string; score: number }[] = [];
+
+  const links = text.match(LINK_PATTERN)?.length ?? 0;
+  if (links > 5) {
+    signals.push({ reason: 'many_links', score: 3 });
+  } else if (links > 2) {
+    signals.push({ reason: 'many_links', score: 2 });
+  }
+  if (fields.linkFree.some(field => new RegExp(LINK_PATTERN.source, 'i').test(value(field)))) {
+    signals.push({ reason: 'link_in_name', score: 3 });
+  }
+  if (MARKUP_LINK_PATTERN.test(text)) {
+    signals.push({ reason: 'markup_links', score: 3 });
+  }
+
+  const phrases = SPAM_PHRASES.filter(pattern => pattern.test(text)).length;
+  if (phrases > 0) {
+    signals.push({ reason: 'spam_phrases', score: Math.min(phrases, 3) });
+  }
+
+  const letters = text.replace(/[^a-z]/gi, '');
+  if (letters.length >= 20 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.7) {
+    signals.push({ reason: 'shouting', score: 1 });
+  }
+  if (/(.)\1{9,}/.test(text)) {
+    signals.push({ reason: 'repeated_characters', score: 1 });
+  }
+
+  const score = signals.reduce((total, signal) => total + signal.score, 0);
+  return score >= SPAM_SCORE_THRESHOLD ? signals.map(signal => `content:${signal.reason}`) : [];
+}
+
+interface SpamGuardOptions {
+  schema: AnyZodObject; // The route's form schema; only its fields are kept in quarantine
+  textFields: string[];
+  linkFreeFields: string[];
+  acceptedStatus?: number;
+  // Same body the route sends for a real submission, so senders can't tell they were caught
+  acceptedResponse: (quarantined: QuarantinedSubmission) => Record<string, unknown>;
+}
+
+// Quarantined payloads keep only the form's own fields, cut down to a size an admin can review
+const MAX_QUARANTINED_TEXT_LENGTH = 10000;
+const MAX_QUARANTINED_LIST_LENGTH = 50;
+
+function quarantinePayload(payload: Record<string, unknown>, schema: AnyZodObject): Record<string, unknown> {
+  const kept: Record<string, unknown> = {};
+  for (const field of Object.keys(schema.shape)) {
+    const value = payload[field];
+    if (typeof value === 'string') {
+      kept[field] = value.slice(0, MAX_QUARANTINED_TEXT_LENGTH);
+    } else if (Array.isArray(value)) {
+      kept[field] = value
+        .filter((item): item is string => typeof item === 'string')
+        .slice(0, MAX_QUARANTINED_LIST_LENGTH)
+        .map(item => item.slice(0, MAX_QUARANTINED_TEXT_LENGTH));
+    }
+  }
+  return kept;
+}
+
+// Takes the anti-abuse fields off the body, leaving the route only the form data, and returns
+// the problems with them: a filled-in honeypot or an unsolved, replayed or too-quick challenge
+function takeBotChecks(req: any): string[] {
+  const body = req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {};
+  const {
+    [CHALLENGE_FIELD]: challenge,
+    [NONCE_FIELD]: nonce,
+    [HONEYPOT_FIELD]: honeypot,
+    ...payload
+  } = body;
+  req.body = payload;
+
+  return [
+    ...(typeof honeypot === 'string' && honeypot.trim() !== '' ? ['honeypot'] : []),
+    ...checkChallenge(challenge, nonce),
+  ];
+}
+
+// Strips the anti-abuse fields from the body and passes clean submissions on to the route.
+// Anything suspicious is quarantined for an admin to release or discard instead of being dropped.
+export function spamGuard(form: QuarantineForm, options: SpamGuardOptions) {
+  return async (req: any, res: Response, next: NextFunction) => {
+    const reasons = [
+      ...takeBotChecks(req),
+      ...contentSpamReasons(req.body, { text: options.textFields, linkFree: options.linkFreeFields }),
+    ];
+    const payload = req.body;
+    if (reasons.length === 0) {
+      return next();
+    }
+
+    try {
+      const quarantined = await storage.quarantineSubmission({
+        form,
+        payload: quarantinePayload(payload, options.schema),
+        reasons,
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent')?.slice(0, 500) ?? null,
+        userId: req.user?.id ?? null,
+      });
+      auditLog('form_submission_quarantined', req.user?.id, { form, quarantineId: quarantined.id, reasons, clientIP: req.ip });
+      res.status(options.acceptedStatus ?? 200).json(options.acceptedResponse(quarantined));
+    } catch (error) {
+      console.error(`Error quarantining ${form} submission:`, error);
+      res.status(500).json({ message: "Failed to submit form" });
+    }
+  };
+}
+
+interface BotGuardOptions {
+  // Writes that fire on their own (e.g. a page view) rather than after someone fills in a form
+  allowQuickSubmit?: boolean;
+  rejectedStatus?: number;
+  rejectedResponse: () => Record<string, unknown>;
+}
+
+// The challenge and honeypot checks of spamGuard for public writes with no free text worth
+// scoring or reviewing. Failing requests are turned away instead of quarantined.
+export function botGuard(endpoint: string, options: BotGuardOptions) {
+  return (req: any, res: Response, next: NextFunction) => {
+    const reasons = takeBotChecks(req).filter(reason => !(options.allowQuickSubmit && reason === 'too_fast'));
+    if (reasons.length === 0) {
+      return next();
+    }
+
+    auditLog('bot_request_rejected', req.user?.id, { endpoint, reasons, clientIP: req.ip });
+    res.status(options.rejectedStatus ?? 400).json(options.rejectedResponse());
+  };
+}
@@ -0,0 +1,113 @@
+import { db } from "./db";
+import { auditLogs, type NewAuditLog } from "@shared/schema";
+
+const FLUSH_INTERVAL_MS = 2000;
+const MAX_BATCH_SIZE = 100;
+const MAX_QUEUE_SIZE = 5000; // Drop oldest entries rather than grow without bound if the DB is down
+// After this many failed batches the entries are written one by one, so a single row the database
+// rejects can't hold up the rest; a row that keeps failing on its own is logged and dropped
+const MAX_BATCH_FAILURES = 3;
+const MAX_ENTRY_FAILURES = 3;
+
+// Buffers audit entries in memory and writes them in batches off the request path
+export class AuditLogger {
+  private static instance: AuditLogger;
+  private queue: NewAuditLog[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private batchFailures = 0;
+  private entryFailures = new WeakMap<NewAuditLog, number>();
+
+  static getInstance(): AuditLogger {
+    if (!AuditLogger.instance) {
+      AuditLogger.instance = new AuditLogger();
+    }
+    return AuditLogger.instance;
+  }
+
+  enqueue(entry: NewAuditLog): void {
+    this.queue.push(entry);
+
+    if (this.queue.length > MAX_QUEUE_SIZE) {
+      this.queue.splice(0, this.queue.length - MAX_QUEUE_SIZE);
+    }
+
+    if (this.queue.length >= MAX_BATCH_SIZE) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), FLUSH_INTERVAL_MS);
+      this.timer.unref(); // Never keep the process alive just for pending logs
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // Serialize flushes so batches are written in order
+    if (this.flushing) {
+      await this.flushing;
+    }
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    const batch = this.queue.splice(0, MAX_BATCH_SIZE);
+    this.flushing = (async () => {
+      if (this.batchFailures >= MAX_BATCH_FAILURES) {
+        await this.writeEntries(batch);
+        return;
+      }
+      try {
+        await db.insert(auditLogs).values(batch);
+        this.batchFailures = 0;
+      } catch (error) {
+        this.batchFailures++;
+        console.error(`⚠️ [AUDIT] Failed to persist ${batch.length} audit entries:`, (error as Error).message);
+        // Put the batch back for the next attempt
+        this.queue.unshift(...batch);
+      }
+    })();
+
+    try {
+      await this.flushing;
+    } finally {
+      this.flushing = null;
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      this.timer = setTimeout(() => void this.flush(), FLUSH_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+
+  private async writeEntries(batch: NewAuditLog[]): Promise<void> {
+    const retry: NewAuditLog[] = [];
+    let written = 0;
+
+    for (const entry of batch) {
+      try {
+        await db.insert(auditLogs).values(entry);
+        written++;
+      } catch (error) {
+        const failures = (this.entryFailures.get(entry) ?? 0) + 1;
+        if (failures >= MAX_ENTRY_FAILURES) {
+          console.error(`⚠️ [AUDIT] Dropping audit entry "${entry.actionType}" after ${failures} failed writes:`, (error as Error).message);
+        } else {
+          this.entryFailures.set(entry, failures);
+          retry.push(entry);
+        }
+      }
+    }
+
+    // Back to batches once the database accepts writes again
+    if (written > 0) {
+      this.batchFailures = 0;
+    }
+    this.queue.unshift(...retry);
+  }
+}
+
+export const auditLogger = AuditLogger.getInstance();
@@ -3,7 +3,7 @@ import { Strategy as LocalStrategy } from "passport-local";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
 import { Strategy as TwitterStrategy } from "passport-twitter";
 import { Strategy as FacebookStrategy } from "passport-facebook";
-import { Express } from "express";
+import { Express, RequestHandler } from "express";
 import bcrypt from "bcrypt";
 import { storage } from "./storage";
 import { User as SelectUser } from "@shared/schema";
@@ -28,6 +28,13 @@ declare global {
   }
 }
 
+// Kept so the WebSocket upgrade handler can read the same session cookie
+let sessionMiddleware: RequestHandler | null = null;
+
+export function getSessionMiddleware(): RequestHandler | null {
+  return sessionMiddleware;
+}
+
 async function hashPassword(password: string): Promise<string> {
   const saltRounds = 12;
   return await bcrypt.hash(password, saltRounds);
@@ -51,7 +58,8 @@ export async function setupAuth(app: Express) {
   });
 
   app.set("trust proxy", 1);
-  app.use(session(sessionConfig));
+  sessionMiddleware = session(sessionConfig);
+  app.use(sessionMiddleware);
   
   // Initialize passport after session middleware
   app.use(passport.initialize());
@@ -341,6 +349,8 @@ export async function setupAuth(app: Express) {
         return res.status(500).json({ message: "User creation failed" });
       }
 
+      void emailService.sendTemplate(user.email, 'welcome', { firstName: user.firstName });
+
       // Use SessionManager to create a reliable session after registration
       try {
         // Create user session using our robust session manager
@@ -674,15 +684,16 @@ export async function setupAuth(app: Express) {
       console.log('🔍 DEBUG: Password reset token created successfully');
 
       // Generate reset URL
-      const resetUrl = `${req.protocol}://${req.get('host')}/reset-password?token=${resetToken}`;
+      // Prefer the configured public URL so links work behind proxies and aren't taken from the Host header
+      const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get('host')}`;
+      const resetUrl = `${baseUrl.replace(/\/$/, '')}/reset-password?token=${resetToken}`;
       console.log('🔍 DEBUG: Reset URL generated:', resetUrl.replace(resetToken, 'HIDDEN_TOKEN'));
 
       // Send password reset email
       console.log('🔍 DEBUG: Attempting to send email...');
-      const emailSent = await emailService.sendEmail({
-        to: user.email,
-        subject: "Password Reset - DiSO Webs",
-        html: emailService.generatePasswordResetEmail(resetUrl, user.firstName || 'there')
+      const emailSent = await emailService.sendTemplate(user.email, 'password_reset', {
+        resetUrl,
+        firstName: user.firstName
       });
       console.log('🔍 DEBUG: Email sent result:', emailSent);
 
@@ -0,0 +1,207 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { emailService } from "./email";
+import { auditLog } from "./security";
+import type { CheckoutSession } from "@shared/schema";
+
+export interface CheckoutRecoverySweepSummary {
+  startedAt: Date;
+  finishedAt: Date;
+  emailed: number;
+  errors: number;
+}
+
+export type AbandonedCheckout = CheckoutSession & {
+  email: string | null;
+  customerName: string | null;
+  serviceName: string | null;
+  orderStatus: string | null;
+  orderTotal: string | null;
+};
+
+export interface AbandonedCheckoutReport {
+  checkouts: AbandonedCheckout[];
+  summary: {
+    abandoned: number;
+    abandonedValue: number;
+    emailed: number;
+    recovered: number; // Resume link opened
+    converted: number; // Order placed after the recovery email
+    conversionRate: number; // Converted / emailed, as a percentage
+    recoveredRevenue: number; // Paid orders among the conversions
+  };
+  abandonedAfterMinutes: number;
+  linkValidDays: number;
+  lastSweep: CheckoutRecoverySweepSummary | null;
+}
+
+const BATCH_SIZE = 100;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PAID_ORDER_STATUSES = ["paid", "in_progress", "complete"];
+
+const positiveNumberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : fallback;
+};
+
+const appUrl = (path: string) => `${(process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "")}${path}`;
+
+const contactField = (session: CheckoutSession, field: string): string | null => {
+  const contact = session.contactData as Record<string, unknown> | null;
+  const value = contact?.[field];
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+};
+
+const serviceName = (session: CheckoutSession): string | null => {
+  const service = session.serviceData as { name?: unknown } | null;
+  return typeof service?.name === "string" ? service.name : null;
+};
+
+// Emails a signed resume link to clients who filled in the checkout form but never placed the
+// order, and reports how many of those came back. Sessions are only deleted once they are well
+// past the link lifetime; converted sessions are kept for reporting.
+export class CheckoutRecovery {
+  private static instance: CheckoutRecovery;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<CheckoutRecoverySweepSummary> | null = null;
+  lastSweep: CheckoutRecoverySweepSummary | null = null;
+
+  // A session untouched for this long counts as abandoned
+  readonly abandonedAfterMinutes = positiveNumberFromEnv("CHECKOUT_RECOVERY_AFTER_MINUTES", 60);
+  readonly linkValidDays = positiveNumberFromEnv("CHECKOUT_RECOVERY_LINK_DAYS", 7);
+  readonly retentionDays = positiveNumberFromEnv("CHECKOUT_SESSION_RETENTION_DAYS", 30);
+
+  static getInstance(): CheckoutRecovery {
+    if (!CheckoutRecovery.instance) {
+      CheckoutRecovery.instance = new CheckoutRecovery();
+    }
+    return CheckoutRecovery.instance;
+  }
+
+  private sign(sessionToken: string, expires: number): string {
+    const secret = process.env.SESSION_SECRET || 'dev-secret-key-for-replit-development';
+    return crypto.createHmac("sha256", secret).update(`${sessionToken}.${expires}`).digest("hex");
+  }
+
+  resumeUrl(sessionToken: string): string {
+    const expires = Date.now() + this.linkValidDays * 24 * 60 * 60 * 1000;
+    const params = new URLSearchParams({
+      resume: sessionToken,
+      exp: String(expires),
+      sig: this.sign(sessionToken, expires),
+    });
+    return appUrl(`/checkout?${params.toString()}`);
+  }
+
+  verifyResumeLink(sessionToken: string, expires: string, signature: string): boolean {
+    const expiresAt = Number(expires);
+    if (!Number.isFinite(expiresAt) || expiresAt < Date.now()) return false;
+
+    const expected = Buffer.from(this.sign(sessionToken, expiresAt));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  // Overlapping calls share the in-flight sweep
+  run(): Promise<CheckoutRecoverySweepSummary> {
+    if (!this.running) {
+      this.running = this.sweep().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async sweep(): Promise<CheckoutRecoverySweepSummary> {
+    const summary: CheckoutRecoverySweepSummary = { startedAt: new Date(), finishedAt: new Date(), emailed: 0, errors: 0 };
+    const now = Date.now();
+
+    const sessions = await storage.getCheckoutSessionsForRecovery(
+      new Date(now - this.linkValidDays * 24 * 60 * 60 * 1000),
+      new Date(now - this.abandonedAfterMinutes * 60 * 1000),
+      BATCH_SIZE,
+    );
+
+    for (const session of sessions) {
+      const email = contactField(session, "email") || session.userEmail;
+      if (!email || !EMAIL_PATTERN.test(email)) continue;
+
+      try {
+        // Claim the session first so a concurrent sweep can't email it twice
+        if (!(await storage.markCheckoutRecoveryEmailSent(session.id))) continue;
+
+        const fullName = contactField(session, "fullName");
+        await emailService.sendTemplate(email, 'checkout_recovery', {
+          firstName: fullName ? fullName.split(" ")[0] : session.userFirstName,
+          serviceName: serviceName(session) || "your selected service",
+          amount: session.totalPrice,
+          addOns: Array.isArray(session.selectedAddOns) ? (session.selectedAddOns as string[]) : [],
+          resumeUrl: this.resumeUrl(session.sessionToken),
+          linkValidDays: this.linkValidDays,
+        });
+        summary.emailed++;
+        auditLog('checkout_recovery_email_sent', session.userId ?? undefined, { sessionId: session.id, serviceId: session.serviceId });
+      } catch (error) {
+        summary.errors++;
+        console.error(`Checkout recovery email failed for session ${session.id}:`, error);
+      }
+    }
+
+    await storage.cleanupExpiredCheckoutSessions(new Date(now - this.retentionDays * 24 * 60 * 60 * 1000));
+
+    summary.finishedAt = new Date();
+    this.lastSweep = summary;
+    return summary;
+  }
+
+  async report(): Promise<AbandonedCheckoutReport> {
+    const rows = await storage.getAbandonedCheckouts(new Date(Date.now() - this.abandonedAfterMinutes * 60 * 1000));
+
+    const checkouts: AbandonedCheckout[] = rows.map(({ userEmail, ...session }) => ({
+      ...session,
+      email: contactField(session, "email") || userEmail,
+      customerName: contactField(session, "fullName"),
+      serviceName: serviceName(session),
+    }));
+
+    const emailed = checkouts.filter(checkout => checkout.recoveryEmailSentAt);
+    const converted = emailed.filter(checkout => checkout.orderId);
+    const abandoned = checkouts.filter(checkout => !checkout.isCompleted);
+
+    return {
+      checkouts,
+      summary: {
+        abandoned: abandoned.length,
+        abandonedValue: abandoned.reduce((total, checkout) => total + checkout.totalPrice, 0),
+        emailed: emailed.length,
+        recovered: emailed.filter(checkout => checkout.recoveredAt).length,
+        converted: converted.length,
+        conversionRate: emailed.length > 0 ? Math.round((converted.length / emailed.length) * 1000) / 10 : 0,
+        recoveredRevenue: converted
+          .filter(checkout => checkout.orderStatus && PAID_ORDER_STATUSES.includes(checkout.orderStatus))
+          .reduce((total, checkout) => total + parseFloat(checkout.orderTotal || "0"), 0),
+      },
+      abandonedAfterMinutes: this.abandonedAfterMinutes,
+      linkValidDays: this.linkValidDays,
+      lastSweep: this.lastSweep,
+    };
+  }
+
+  start(intervalMs: number = positiveNumberFromEnv("CHECKOUT_RECOVERY_INTERVAL_MINUTES", 15) * 60 * 1000): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch((error) => console.error('Checkout recovery sweep failed:', error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const checkoutRecovery = CheckoutRecovery.getInstance();
@@ -0,0 +1,29 @@
+// Discount code rules. Redemption counts come from storage (they need a lock on the
+// coupon row); everything that depends only on the coupon itself is decided here.
+import type { Coupon, Service } from "@shared/schema";
+
+export const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+// The reason a coupon can't be used on this service right now, or null when it applies
+export function couponIneligibility(coupon: Coupon, service: Pick<Service, "id" | "category">, now = new Date()): string | null {
+  if (!coupon.isActive) return "This code is no longer active";
+  if (coupon.startsAt && coupon.startsAt > now) return "This code is not active yet";
+  if (coupon.expiresAt && coupon.expiresAt <= now) return "This code has expired";
+  if (coupon.serviceId && coupon.serviceId !== service.id) return "This code does not apply to this package";
+  if (coupon.category && coupon.category !== service.category) return "This code does not apply to this package";
+  return null;
+}
+
+// Whole naira, never more than the order itself
+export function couponDiscount(coupon: Coupon, subtotal: number): number {
+  const value = parseFloat(coupon.value) || 0;
+  const discount = coupon.type === "percentage" ? (subtotal * Math.min(value, 100)) / 100 : value;
+  return Math.min(Math.round(Math.max(discount, 0)), Math.floor(subtotal));
+}
+
+export const couponLineDescription = (coupon: Coupon) =>
+  coupon.type === "percentage"
+    ? `Discount code ${coupon.code} (${parseFloat(coupon.value)}% off)`
+    : `Discount code ${coupon.code}`;
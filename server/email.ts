@@ -1,15 +1,46 @@
 import { auditLog } from "./security";
+import { db } from "./db";
+import { emailOutbox, users, type EmailOutboxEntry } from "@shared/schema";
+import { and, eq, lte } from "drizzle-orm";
+import { createEmailTransport, type EmailTransport } from "./emailTransports";
+import { renderEmailTemplate, type EmailTemplateName, type EmailTemplateData } from "./emailTemplates";
 
 interface EmailOptions {
   to: string;
   subject: string;
   html: string;
+  text?: string; // Plain-text fallback; derived from the HTML when omitted
 }
 
-// Simple email service implementation
-// In production, you would integrate with services like SendGrid, Mailgun, or AWS SES
+// Retry schedule in minutes after the 1st, 2nd, ... failed attempt
+const RETRY_BACKOFF_MINUTES = [1, 5, 15, 60, 360];
+const MAX_ATTEMPTS = RETRY_BACKOFF_MINUTES.length + 1;
+const SEND_LEASE_MS = 5 * 60 * 1000; // Keeps the worker off a row while a send is in flight
+
+const maskAddress = (address: string) => address.substring(0, 5) + '***';
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|title)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a [^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n\s*/g, '\n\n')
+    .trim();
+}
+
+// Email delivery goes through a persisted outbox: every message is stored first,
+// sent through the configured transport and retried with backoff on failure.
 export class EmailService {
   private static instance: EmailService;
+  private transport: EmailTransport | null = null;
+  private workerTimer: NodeJS.Timeout | null = null;
 
   static getInstance(): EmailService {
     if (!EmailService.instance) {
@@ -18,79 +49,176 @@ export class EmailService {
     return EmailService.instance;
   }
 
+  private getTransport(): EmailTransport {
+    if (!this.transport) {
+      this.transport = createEmailTransport();
+      console.log(`📧 [EMAIL] Using ${this.transport.name} transport`);
+    }
+    return this.transport;
+  }
+
+  private get fromAddress(): string {
+    return process.env.EMAIL_FROM || 'DiSO Webs <noreply@disowebs.com>';
+  }
+
+  // Returns true once the message is delivered or safely queued for retry
   async sendEmail(options: EmailOptions): Promise<boolean> {
+    const text = options.text || htmlToText(options.html);
+
+    let entry: EmailOutboxEntry;
     try {
-      // For development/demo purposes, we'll log the email instead of sending
-      // In production, replace this with actual email service integration
-      console.log('📧 Email would be sent:');
-      console.log(`To: ${options.to}`);
-      console.log(`Subject: ${options.subject}`);
-      console.log(`HTML Content: ${options.html}`);
-
-      auditLog('email_sent', undefined, { 
-        to: options.to.substring(0, 5) + '***',
-        subject: options.subject 
+      [entry] = await db.insert(emailOutbox).values({
+        toAddress: options.to,
+        subject: options.subject,
+        html: options.html,
+        text,
+        nextAttemptAt: new Date(Date.now() + SEND_LEASE_MS),
+      }).returning();
+    } catch (error) {
+      // Without the outbox we can still try a direct send, just without retries
+      console.error('Email outbox insert failed:', error);
+      try {
+        await this.getTransport().send({ ...options, text, from: this.fromAddress });
+        return true;
+      } catch (sendError) {
+        auditLog('email_failed', undefined, {
+          error: (sendError as Error).message,
+          to: maskAddress(options.to)
+        });
+        return false;
+      }
+    }
+
+    await this.deliver(entry);
+    return true;
+  }
+
+  private async deliver(entry: EmailOutboxEntry): Promise<boolean> {
+    const attempts = entry.attempts + 1;
+    let transport: EmailTransport | null = null;
+
+    try {
+      transport = this.getTransport();
+      await transport.send({
+        to: entry.toAddress,
+        from: this.fromAddress,
+        subject: entry.subject,
+        html: entry.html,
+        text: entry.text || undefined,
       });
 
+      await db.update(emailOutbox)
+        .set({ status: 'sent', attempts, sentAt: new Date(), lastError: null, transport: transport.name })
+        .where(eq(emailOutbox.id, entry.id));
+
+      auditLog('email_sent', undefined, {
+        to: maskAddress(entry.toAddress),
+        subject: entry.subject,
+        transport: transport.name,
+        attempts
+      });
       return true;
     } catch (error) {
-      console.error('Email sending failed:', error);
-      auditLog('email_failed', undefined, { 
-        error: (error as Error).message,
-        to: options.to.substring(0, 5) + '***'
+      const message = (error as Error).message;
+      const exhausted = attempts >= MAX_ATTEMPTS;
+      const backoffMinutes = RETRY_BACKOFF_MINUTES[Math.min(attempts - 1, RETRY_BACKOFF_MINUTES.length - 1)];
+
+      console.error(`Email sending failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, message);
+      await db.update(emailOutbox)
+        .set({
+          status: exhausted ? 'failed' : 'pending',
+          attempts,
+          lastError: message,
+          transport: transport?.name,
+          nextAttemptAt: new Date(Date.now() + backoffMinutes * 60 * 1000),
+        })
+        .where(eq(emailOutbox.id, entry.id))
+        .catch((updateError) => console.error('Email outbox update failed:', updateError));
+
+      auditLog('email_failed', undefined, {
+        error: message,
+        to: maskAddress(entry.toAddress),
+        attempts,
+        willRetry: !exhausted
       });
       return false;
     }
   }
 
-  generatePasswordResetEmail(resetUrl: string, firstName: string): string {
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Password Reset - DiSO Webs</title>
-        <style>
-          body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; margin: 0; padding: 0; background-color: #f8fafc; }
-          .container { max-width: 600px; margin: 0 auto; background-color: white; }
-          .header { background: linear-gradient(135deg, #3b82f6, #8b5cf6); padding: 40px 30px; text-align: center; }
-          .header h1 { color: white; margin: 0; font-size: 28px; font-weight: bold; }
-          .content { padding: 40px 30px; }
-          .button { display: inline-block; background: linear-gradient(135deg, #3b82f6, #8b5cf6); color: white; text-decoration: none; padding: 14px 28px; border-radius: 8px; font-weight: 600; margin: 20px 0; }
-          .footer { background-color: #f1f5f9; padding: 20px 30px; text-align: center; color: #64748b; font-size: 14px; }
-          .warning { background-color: #fef3c7; border-left: 4px solid #f59e0b; padding: 15px; margin: 20px 0; border-radius: 4px; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>DiSO Webs</h1>
-          </div>
-          <div class="content">
-            <h2>Password Reset Request</h2>
-            <p>Hello ${firstName || 'there'},</p>
-            <p>We received a request to reset your password for your DiSO Webs account. If you didn't make this request, you can safely ignore this email.</p>
-            <p>To reset your password, click the button below:</p>
-            <div style="text-align: center;">
-              <a href="${resetUrl}" class="button">Reset Password</a>
-            </div>
-            <div class="warning">
-              <strong>⚠️ Important:</strong> This link will expire in 1 hour for security reasons.
-            </div>
-            <p>If the button doesn't work, you can copy and paste this link into your browser:</p>
-            <p style="word-break: break-all; color: #3b82f6;">${resetUrl}</p>
-            <p>If you continue to have problems, please contact our support team.</p>
-            <p>Best regards,<br>The DiSO Webs Team</p>
-          </div>
-          <div class="footer">
-            <p>© ${new Date().getFullYear()} DiSO Webs. All rights reserved.</p>
-            <p>This is an automated message, please do not reply to this email.</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
+  // Retry pending messages whose backoff has elapsed
+  async processOutbox(batchSize: number = 20): Promise<number> {
+    const now = new Date();
+    const dueEntries = await db
+      .select()
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, 'pending'), lte(emailOutbox.nextAttemptAt, now)))
+      .limit(batchSize);
+
+    let sent = 0;
+    for (const entry of dueEntries) {
+      // Claim the row so a concurrent worker doesn't send it twice
+      const [claimed] = await db.update(emailOutbox)
+        .set({ nextAttemptAt: new Date(Date.now() + SEND_LEASE_MS) })
+        .where(and(
+          eq(emailOutbox.id, entry.id),
+          eq(emailOutbox.status, 'pending'),
+          lte(emailOutbox.nextAttemptAt, now)
+        ))
+        .returning();
+
+      if (claimed && await this.deliver(claimed)) {
+        sent++;
+      }
+    }
+    return sent;
+  }
+
+  startOutboxWorker(intervalMs: number = 60000): void {
+    if (this.workerTimer) return;
+
+    this.workerTimer = setInterval(() => {
+      this.processOutbox().catch((error) => console.error('Email outbox processing failed:', error));
+    }, intervalMs);
+    this.workerTimer.unref();
+  }
+
+  stopOutboxWorker(): void {
+    if (this.workerTimer) {
+      clearInterval(this.workerTimer);
+      this.workerTimer = null;
+    }
+  }
+
+  // Render a registered template and send it through the outbox
+  async sendTemplate<K extends EmailTemplateName>(to: string, name: K, data: EmailTemplateData<K>): Promise<boolean> {
+    try {
+      const rendered = renderEmailTemplate(name, data);
+      return await this.sendEmail({ to, ...rendered });
+    } catch (error) {
+      console.error(`Email template ${name} failed:`, error);
+      return false;
+    }
+  }
+
+  // Look up the recipient's address and greeting name, then send the template
+  async sendTemplateToUser<K extends EmailTemplateName>(
+    userId: string,
+    name: K,
+    data: EmailTemplateData<K>
+  ): Promise<boolean> {
+    try {
+      const [user] = await db
+        .select({ email: users.email, firstName: users.firstName })
+        .from(users)
+        .where(eq(users.id, userId));
+      if (!user?.email) {
+        return false;
+      }
+      return await this.sendTemplate(user.email, name, { ...data, firstName: user.firstName });
+    } catch (error) {
+      console.error(`Email template ${name} failed for user ${userId}:`, error);
+      return false;
+    }
   }
 }
 
@@ -0,0 +1,499 @@
+// Transactional email templates. Every template renders into the shared layout
+// with inline styles (many mail clients strip <style> blocks) plus a plain-text version.
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface EmailTemplate<T> {
+  description: string;
+  sample: T;
+  render(data: T): { subject: string; heading: string; bodyHtml: string; bodyText: string; action?: { label: string; url: string } };
+}
+
+const BRAND_COLOR = "#3b82f6";
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatNaira = (amount: number | string) => `₦${Number(amount || 0).toLocaleString()}`;
+
+const shortId = (id: string) => id.slice(0, 8).toUpperCase();
+
+const appUrl = (path: string) => `${(process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "")}${path}`;
+
+const paragraph = (text: string) => `<p style="margin:0 0 16px;font-size:15px;line-height:1.6;color:#334155;">${text}</p>`;
+
+const detailsTable = (rows: [string, string][]) => `
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin:0 0 20px;border:1px solid #e2e8f0;border-radius:8px;border-collapse:separate;">
+    ${rows.map(([label, value]) => `
+    <tr>
+      <td style="padding:10px 14px;font-size:14px;color:#64748b;border-bottom:1px solid #f1f5f9;">${escapeHtml(label)}</td>
+      <td style="padding:10px 14px;font-size:14px;color:#0f172a;font-weight:600;text-align:right;border-bottom:1px solid #f1f5f9;">${escapeHtml(value)}</td>
+    </tr>`).join("")}
+  </table>`;
+
+const detailsText = (rows: [string, string][]) => rows.map(([label, value]) => `${label}: ${value}`).join("\n");
+
+function renderLayout(heading: string, bodyHtml: string, action?: { label: string; url: string }): string {
+  const button = action ? `
+    <table role="presentation" cellpadding="0" cellspacing="0" style="margin:8px 0 24px;">
+      <tr><td style="border-radius:8px;background:${BRAND_COLOR};">
+        <a href="${escapeHtml(action.url)}" style="display:inline-block;padding:14px 28px;font-size:15px;font-weight:600;color:#ffffff;text-decoration:none;">${escapeHtml(action.label)}</a>
+      </td></tr>
+    </table>` : "";
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(heading)} - DiSO Webs</title>
+</head>
+<body style="margin:0;padding:0;background-color:#f8fafc;font-family:'Segoe UI',Tahoma,Geneva,Verdana,sans-serif;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color:#f8fafc;padding:24px 0;">
+    <tr><td align="center">
+      <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border-radius:12px;overflow:hidden;">
+        <tr><td style="background:linear-gradient(135deg,#3b82f6,#8b5cf6);background-color:${BRAND_COLOR};padding:32px 30px;text-align:center;">
+          <h1 style="margin:0;color:#ffffff;font-size:26px;font-weight:bold;">DiSO Webs</h1>
+        </td></tr>
+        <tr><td style="padding:36px 30px;">
+          <h2 style="margin:0 0 20px;font-size:20px;color:#0f172a;">${escapeHtml(heading)}</h2>
+          ${bodyHtml}
+          ${button}
+          ${paragraph("Best regards,<br>The DiSO Webs Team")}
+        </td></tr>
+        <tr><td style="background-color:#f1f5f9;padding:20px 30px;text-align:center;color:#64748b;font-size:13px;">
+          <p style="margin:0 0 6px;">© ${new Date().getFullYear()} DiSO Webs. All rights reserved.</p>
+          <p style="margin:0;">This is an automated message, please do not reply to this email.</p>
+        </td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+}
+
+function renderText(heading: string, bodyText: string, action?: { label: string; url: string }): string {
+  return [
+    heading,
+    "",
+    bodyText,
+    action ? `\n${action.label}: ${action.url}` : "",
+    "",
+    "Best regards,",
+    "The DiSO Webs Team",
+  ].join("\n").replace(/\n{3,}/g, "\n\n");
+}
+
+interface EmailTemplateDataMap {
+  welcome: { firstName?: string | null };
+  password_reset: { firstName?: string | null; resetUrl: string };
+  order_created: { firstName?: string | null; orderId: string; serviceName: string; amount: number | string; paymentUrl?: string };
+  checkout_recovery: { firstName?: string | null; serviceName: string; amount: number | string; addOns: string[]; resumeUrl: string; linkValidDays: number };
+  contact_reply: { firstName?: string | null; subject: string; reply: string; originalMessage: string };
+  quote_proposal: { firstName?: string | null; projectType: string; amount: number | string; paymentSchedule: string; deliveryTime?: string | null; notes?: string | null };
+  payment_receipt: { firstName?: string | null; orderId: string; serviceName: string; amount: number | string; reference: string; paidAt: Date | string; installmentLabel?: string; balanceRemaining?: number };
+  installment_due: { firstName?: string | null; orderId: string; projectName: string; installmentLabel: string; amount: number | string };
+  subscription_payment_received: { firstName?: string | null; planName: string; amount: number | string; interval: string; reference: string; periodEnd: Date | string; paymentMethod?: string | null };
+  subscription_payment_failed: { firstName?: string | null; planName: string; amount: number | string; reason?: string | null; nextRetryAt?: Date | string | null };
+  subscription_cancelled: { firstName?: string | null; planName: string; reason: string; endedAt: Date | string };
+  bank_transfer_rejected: { firstName?: string | null; orderId: string; reference: string; amount: number | string; reason: string };
+  project_activated: { firstName?: string | null; projectId: string; projectName: string; dueDate?: Date | string | null; stages: string[] };
+  stage_completed: { firstName?: string | null; projectId: string; projectName: string; stageTitle: string; progressPercentage: number; nextStage?: string | null };
+  project_completed: { firstName?: string | null; projectId: string; projectName: string };
+  new_message: { firstName?: string | null; projectId: string; projectName: string; preview: string };
+  withdrawal_approved: { firstName?: string | null; amount: number | string; status: string; notes?: string | null };
+  withdrawal_rejected: { firstName?: string | null; amount: number | string; notes?: string | null };
+}
+
+export type EmailTemplateName = keyof EmailTemplateDataMap;
+export type EmailTemplateData<K extends EmailTemplateName> = EmailTemplateDataMap[K];
+
+const templates: { [K in EmailTemplateName]: EmailTemplate<EmailTemplateDataMap[K]> } = {
+  welcome: {
+    description: "Sent after a new account registers",
+    sample: { firstName: "Ada" },
+    render: (data) => ({
+      subject: "Welcome to DiSO Webs",
+      heading: `Welcome, ${data.firstName || "there"}!`,
+      bodyHtml:
+        paragraph("Thanks for creating a DiSO Webs account. From your dashboard you can order a service, follow your project's milestones, share files and message our team.") +
+        paragraph("If you have any questions, just reply through the project messages and we'll get back to you."),
+      bodyText:
+        "Thanks for creating a DiSO Webs account. From your dashboard you can order a service, follow your project's milestones, share files and message our team.",
+      action: { label: "Go to your dashboard", url: appUrl("/dashboard") },
+    }),
+  },
+
+  password_reset: {
+    description: "Password reset link requested from the login page",
+    sample: { firstName: "Ada", resetUrl: "https://example.com/reset-password?token=sample" },
+    render: (data) => ({
+      subject: "Password Reset - DiSO Webs",
+      heading: "Password Reset Request",
+      bodyHtml:
+        paragraph(`Hello ${escapeHtml(data.firstName || "there")},`) +
+        paragraph("We received a request to reset your password for your DiSO Webs account. If you didn't make this request, you can safely ignore this email.") +
+        `<div style="background-color:#fef3c7;border-left:4px solid #f59e0b;padding:14px;margin:0 0 20px;border-radius:4px;font-size:14px;color:#78350f;"><strong>Important:</strong> This link will expire in 1 hour for security reasons.</div>` +
+        paragraph(`If the button doesn't work, copy and paste this link into your browser:<br><span style="word-break:break-all;color:${BRAND_COLOR};">${escapeHtml(data.resetUrl)}</span>`),
+      bodyText:
+        `Hello ${data.firstName || "there"},\n\nWe received a request to reset your password for your DiSO Webs account. If you didn't make this request, you can safely ignore this email.\n\nThis link will expire in 1 hour.`,
+      action: { label: "Reset Password", url: data.resetUrl },
+    }),
+  },
+
+  order_created: {
+    description: "Order placed and waiting for payment",
+    sample: { firstName: "Ada", orderId: "3f2a9c1e-0000-0000-0000-000000000000", serviceName: "Growth Website", amount: 450000, paymentUrl: "https://checkout.paystack.com/sample" },
+    render: (data) => {
+      const rows: [string, string][] = [
+        ["Order", `#${shortId(data.orderId)}`],
+        ["Service", data.serviceName],
+        ["Amount due", formatNaira(data.amount)],
+        ["Status", "Pending payment"],
+      ];
+      return {
+        subject: `Order #${shortId(data.orderId)} received - complete your payment`,
+        heading: "We've received your order",
+        bodyHtml:
+          paragraph(`Hi ${escapeHtml(data.firstName || "there")}, thanks for your order. Your project will be scheduled as soon as payment is confirmed.`) +
+          detailsTable(rows),
+        bodyText: `Hi ${data.firstName || "there"}, thanks for your order. Your project will be scheduled as soon as payment is confirmed.\n\n${detailsText(rows)}`,
+        action: { label: "Complete payment", url: data.paymentUrl || appUrl("/dashboard") },
+      };
+    },
+  },
+
+  checkout_recovery: {
+    description: "Checkout started but not completed - link to resume it",
+    sample: { firstName: "Ada", serviceName: "Growth Website", amount: 450000, addOns: ["Logo design"], resumeUrl: "https://example.com/checkout?resume=sample", linkValidDays: 7 },
+    render: (data) => {
+      const rows: [string, string][] = [
+        ["Service", data.serviceName],
+        ...(data.addOns.length > 0 ? [["Add-ons", data.addOns.join(", ")] as [string, string]] : []),
+        ["Total", formatNaira(data.amount)],
+      ];
+      return {
+        subject: `Your ${data.serviceName} order is waiting`,
+        heading: "Pick up where you left off",
+        bodyHtml:
+          paragraph(`Hi ${escapeHtml(data.firstName || "there")}, you started ordering ${escapeHtml(data.serviceName)} but didn't finish checking out. We've saved your details, so it only takes a minute to complete.`) +
+          detailsTable(rows) +
+          paragraph(`This link stays valid for ${data.linkValidDays} days. If you have questions before ordering, just reply to this email.`),
+        bodyText:
+          `Hi ${data.firstName || "there"}, you started ordering ${data.serviceName} but didn't finish checking out. We've saved your details, so it only takes a minute to complete.\n\n${detailsText(rows)}\n\nThis link stays valid for ${data.linkValidDays} days.`,
+        action: { label: "Resume checkout", url: data.resumeUrl },
+      };
+    },
+  },
+
+  contact_reply: {
+    description: "Reply from the team to a contact form message",
+    sample: { firstName: "Ada", subject: "Website redesign", reply: "Thanks for reaching out! We'd love to help with the redesign.\nCould you share your current site's address?", originalMessage: "Hi, we're looking to redesign our company website before the end of the quarter." },
+    render: (data) => ({
+      subject: `Re: ${data.subject}`,
+      heading: `Re: ${data.subject}`,
+      bodyHtml:
+        paragraph(`Hi ${escapeHtml(data.firstName || "there")},`) +
+        paragraph(escapeHtml(data.reply).replace(/\n/g, "<br>")) +
+        `<div style="border-left:3px solid #e2e8f0;padding:4px 0 4px 14px;margin:0 0 20px;font-size:14px;line-height:1.6;color:#64748b;">${escapeHtml(data.originalMessage).replace(/\n/g, "<br>")}</div>` +
+        paragraph("To continue the conversation, send us another message from the contact page."),
+      bodyText:
+        `Hi ${data.firstName || "there"},\n\n${data.reply}\n\n> ${data.originalMessage.replace(/\n/g, "\n> ")}\n\nTo continue the conversation, send us another message from the contact page.`,
+      action: { label: "Contact us", url: appUrl("/contact") },
+    }),
+  },
+
+  quote_proposal: {
+    description: "Priced proposal sent in reply to a custom quote request",
+    sample: { firstName: "Ada", projectType: "E-commerce Platform", amount: 2500000, paymentSchedule: "50% deposit, 50% on delivery", deliveryTime: "6-8 weeks", notes: "Includes payment gateway setup and three rounds of revisions." },
+    render: (data) => {
+      const rows: [string, string][] = [
+        ["Project", data.projectType],
+        ["Price", formatNaira(data.amount)],
+        ["Payment", data.paymentSchedule],
+        ...(data.deliveryTime ? [["Delivery", data.deliveryTime] as [string, string]] : []),
+      ];
+      return {
+        subject: `Your ${data.projectType} proposal is ready`,
+        heading: "Your project proposal",
+        bodyHtml:
+          paragraph(`Hi ${escapeHtml(data.firstName || "there")}, thanks for telling us about your project. We've reviewed your requirements and put together a proposal.`) +
+          detailsTable(rows) +
+          (data.notes ? paragraph(escapeHtml(data.notes).replace(/\n/g, "<br>")) : "") +
+          paragraph("Sign in with this email address to accept the proposal and pay, or to let us know it isn't right for you."),
+        bodyText:
+          `Hi ${data.firstName || "there"}, thanks for telling us about your project. We've reviewed your requirements and put together a proposal.\n\n${detailsText(rows)}${data.notes ? `\n\n${data.notes}` : ""}\n\nSign in with this email address to accept the proposal and pay, or to let us know it isn't right for you.`,
+        action: { label: "Review proposal", url: appUrl("/dashboard#quotes") },
+      };
+    },
+  },
+
+  payment_receipt: {
+    description: "Payment succeeded - receipt for the order",
+    sample: { firstName: "Ada", orderId: "3f2a9c1e-0000-0000-0000-000000000000", serviceName: "Growth Website", amount: 450000, reference: "PSK_1700000000000_sample", paidAt: new Date("2024-01-15T10:30:00Z") },
+    render: (data) => {
+      const rows: [string, string][] = [
+        ["Order", `#${shortId(data.orderId)}`],
+        ["Service", data.serviceName],
+        ["Amount paid", formatNaira(data.amount)],
+        ["Payment reference", data.reference],
+        ["Date", new Date(data.paidAt).toLocaleString("en-NG")],
+      ];
+      if (data.installmentLabel) {
+        rows.splice(2, 0, ["Installment", data.installmentLabel]);
+      }
+      if (data.balanceRemaining !== undefined) {
+        rows.push(["Balance remaining", formatNaira(data.balanceRemaining)]);
+      }
+      return {
+        subject: `Payment receipt for order #${shortId(data.orderId)}`,
+        heading: "Payment received - thank you!",
+        bodyHtml:
+          paragraph(`Hi ${escapeHtml(data.firstName || "there")}, we've received your payment. Keep this email as your receipt.`) +
+          detailsTable(rows),
+        bodyText: `Hi ${data.firstName || "there"}, we've received your payment. Keep this email as your receipt.\n\n${detailsText(rows)}`,
+        action: { label: "View your orders", url: appUrl("/transactions") },
+      };
+    },
+  },
+
+  installment_due: {
+    description: "A scheduled installment unlocked after a project milestone",
+    sample: { firstName: "Ada", orderId: "3f2a9c1e-0000-0000-0000-000000000000", projectName: "Elite Company Website", installmentLabel: "Balance on delivery", amount: 600000 },
+    render: (data) => {
+      const rows: [string, string][] = [
+        ["Order", `#${shortId(data.orderId)}`],
+        ["Project", data.projectName],
+        ["Installment", data.installmentLabel],
+        ["Amount due", formatNaira(data.amount)],
+      ];
+      return {
+        subject: `${data.installmentLabel} due for order #${shortId(data.orderId)}`,
+        heading: "Your next payment is due",
+        bodyHtml:
+          paragraph(`Hi ${escapeHtml(data.firstName || "there")}, ${escapeHtml(data.projectName)} has reached the milestone for your next scheduled payment.`) +
+          detailsTable(rows),
+        bodyText: `Hi ${data.firstName || "there"}, ${data.projectName} has reached the milestone for your next scheduled payment.\n\n${detailsText(rows)}`,
+        action: { label: "Pay now", url: appUrl("/transactions") },
+      };
+    },
+  },
+
+  subscription_payment_received: {
+    description: "Subscription payment succeeded - first period or renewal",
+    sample: { firstName: "Ada", planName: "Website Maintenance", amount: 45000, interval: "Monthly", reference: "PSK_1700000000000_sample", periodEnd: new Date("2024-02-15T10:30:00Z"), paymentMethod: "Visa •••• 4081" },
+    render: (data) => {
+      const rows: [string, string][] = [
+        ["Plan", data.planName],
+        ["Billing", data.interval],
+        ["Amount paid", formatNaira(data.amount)],
+        ["Payment reference", data.reference],
+        ["Paid until", new Date(data.periodEnd).toLocaleDateString("en-NG")],
+        ...(data.paymentMethod ? [["Payment method", data.paymentMethod] as [string, string]] : []),
+      ];
+      return {
+        subject: `Payment receipt for your ${data.planName} plan`,
+        heading: "Subscription payment received",
+        bodyHtml:
+          paragraph(`Hi ${escapeHtml(data.firstName || "there")}, thanks for your payment. Your plan renews automatically at the end of each period until you cancel it.`) +
+          detailsTable(rows),
+        bodyText: `Hi ${data.firstName || "there"}, thanks for your payment. Your plan renews automatically at the end of each period until you cancel it.\n\n${detailsText(rows)}`,
+        action: { label: "Manage subscriptions", url: appUrl("/dashboard#subscriptions") },
+      };
+    },
+  },
+
+  subscription_payment_failed: {
+    description: "Subscription renewal charge failed - retry scheduled",
+    sample: { firstName: "Ada", planName: "Website Maintenance", amount: 45000, reason: "Insufficient funds", nextRetryAt: new Date("2024-02-18T10:30:00Z") },
+    render: (data) => {
+      const retry = data.nextRetryAt
+        ? `We'll try your card again on ${new Date(data.nextRetryAt).toLocaleDateString("en-NG")}, or you can pay now from your dashboard.`
+        : "Please pay from your dashboard to keep your plan running.";
+      return {
+        subject: `Payment failed for your ${data.planName} plan`,
+        heading: "We couldn't renew your plan",
+        bodyHtml:
+          paragraph(`Hi ${escapeHtml(data.firstName || "there")}, the renewal payment of <strong>${formatNaira(data.amount)}</strong> for your ${escapeHtml(data.planName)} plan didn't go through${data.reason ? ` (${escapeHtml(data.reason)})` : ""}.`) +
+          paragraph(escapeHtml(retry)),
+        bodyText:
+          `Hi ${data.firstName || "there"}, the renewal payment of ${formatNaira(data.amount)} for your ${data.planName} plan didn't go through${data.reason ? ` (${data.reason})` : ""}.\n\n${retry}`,
+        action: { label: "Pay now", url: appUrl("/dashboard#subscriptions") },
+      };
+    },
+  },
+
+  subscription_cancelled: {
+    description: "Subscription ended - cancelled by the client or admin, or unpaid",
+    sample: { firstName: "Ada", planName: "Website Maintenance", reason: "payment_failed", endedAt: new Date("2024-02-22T10:30:00Z") },
+    render: (data) => {
+      const why = data.reason === "payment_failed"
+        ? "we weren't able to collect the renewal payment after several attempts"
+        : data.reason === "admin"
+          ? "it was cancelled by our team"
+          : "you cancelled it";
+      return {
+        subject: `Your ${data.planName} plan has ended`,
+        heading: "Subscription ended",
+        bodyHtml:
+          paragraph(`Hi ${escapeHtml(data.firstName || "there")}, your ${escapeHtml(data.planName)} plan ended on ${new Date(data.endedAt).toLocaleDateString("en-NG")} because ${why}.`) +
+          paragraph("You can subscribe again at any time from your dashboard."),
+        bodyText:
+          `Hi ${data.firstName || "there"}, your ${data.planName} plan ended on ${new Date(data.endedAt).toLocaleDateString("en-NG")} because ${why}.\n\nYou can subscribe again at any time from your dashboard.`,
+        action: { label: "View plans", url: appUrl("/dashboard#subscriptions") },
+      };
+    },
+  },
+
+  bank_transfer_rejected: {
+    description: "Proof of a bank transfer was rejected by an admin",
+    sample: { firstName: "Ada", orderId: "8f2a0000-0000-0000-0000-000000000000", reference: "BTR_1705312200000_k3j9x2m1q", amount: 250000, reason: "The transfer hasn't reached our account yet" },
+    render: (data) => ({
+      subject: `We couldn't confirm your transfer for order #${shortId(data.orderId)}`,
+      heading: "Transfer not confirmed",
+      bodyHtml:
+        paragraph(`Hi ${escapeHtml(data.firstName || "there")}, we reviewed the proof of payment you uploaded but couldn't match it to a transfer of <strong>${formatNaira(data.amount)}</strong> in our account.`) +
+        paragraph(`<strong>Reason:</strong> ${escapeHtml(data.reason)}`) +
+        paragraph(`Please check the transfer and upload your proof again, using <strong>${escapeHtml(data.reference)}</strong> as the narration.`),
+      bodyText:
+        `Hi ${data.firstName || "there"}, we reviewed the proof of payment you uploaded but couldn't match it to a transfer of ${formatNaira(data.amount)} in our account.\n\nReason: ${data.reason}\n\nPlease check the transfer and upload your proof again, using ${data.reference} as the narration.`,
+      action: { label: "Upload proof again", url: appUrl(`/bank-transfer/${data.reference}`) },
+    }),
+  },
+
+  project_activated: {
+    description: "Project created and started after payment",
+    sample: { firstName: "Ada", projectId: "9b1c0000-0000-0000-0000-000000000000", projectName: "Growth Website", dueDate: new Date("2024-02-15T00:00:00Z"), stages: ["Discovery", "Design", "Development", "Launch"] },
+    render: (data) => ({
+      subject: `Your project "${data.projectName}" has started`,
+      heading: "Your project is underway",
+      bodyHtml:
+        paragraph(`Hi ${escapeHtml(data.firstName || "there")}, work on <strong>${escapeHtml(data.projectName)}</strong> has begun.`) +
+        (data.dueDate ? paragraph(`Estimated delivery: <strong>${escapeHtml(new Date(data.dueDate).toDateString())}</strong>`) : "") +
+        (data.stages.length > 0
+          ? paragraph("Here are the milestones we'll work through:") +
+            `<ol style="margin:0 0 20px;padding-left:20px;font-size:15px;line-height:1.8;color:#334155;">${data.stages.map(stage => `<li>${escapeHtml(stage)}</li>`).join("")}</ol>`
+          : ""),
+      bodyText:
+        `Hi ${data.firstName || "there"}, work on ${data.projectName} has begun.` +
+        (data.dueDate ? `\nEstimated delivery: ${new Date(data.dueDate).toDateString()}` : "") +
+        (data.stages.length > 0 ? `\n\nMilestones:\n${data.stages.map((stage, i) => `${i + 1}. ${stage}`).join("\n")}` : ""),
+      action: { label: "Open your project", url: appUrl(`/project/${data.projectId}`) },
+    }),
+  },
+
+  stage_completed: {
+    description: "A project milestone was marked complete",
+    sample: { firstName: "Ada", projectId: "9b1c0000-0000-0000-0000-000000000000", projectName: "Growth Website", stageTitle: "Design", progressPercentage: 40, nextStage: "Development" },
+    render: (data) => ({
+      subject: `${data.projectName}: "${data.stageTitle}" completed`,
+      heading: `Milestone completed: ${data.stageTitle}`,
+      bodyHtml:
+        paragraph(`Hi ${escapeHtml(data.firstName || "there")}, we've completed the <strong>${escapeHtml(data.stageTitle)}</strong> stage of ${escapeHtml(data.projectName)}.`) +
+        detailsTable([
+          ["Overall progress", `${data.progressPercentage}%`],
+          ["Up next", data.nextStage || "Final delivery"],
+        ]),
+      bodyText:
+        `Hi ${data.firstName || "there"}, we've completed the ${data.stageTitle} stage of ${data.projectName}.\n\nOverall progress: ${data.progressPercentage}%\nUp next: ${data.nextStage || "Final delivery"}`,
+      action: { label: "View progress", url: appUrl(`/project/${data.projectId}`) },
+    }),
+  },
+
+  project_completed: {
+    description: "All milestones done - project delivered",
+    sample: { firstName: "Ada", projectId: "9b1c0000-0000-0000-0000-000000000000", projectName: "Growth Website" },
+    render: (data) => ({
+      subject: `${data.projectName} is complete 🎉`,
+      heading: "Your project is complete",
+      bodyHtml:
+        paragraph(`Hi ${escapeHtml(data.firstName || "there")}, great news - <strong>${escapeHtml(data.projectName)}</strong> is complete and all milestones have been delivered.`) +
+        paragraph("Your deliverables are available in the project's Files section. Thank you for working with us!"),
+      bodyText:
+        `Hi ${data.firstName || "there"}, great news - ${data.projectName} is complete and all milestones have been delivered.\n\nYour deliverables are available in the project's Files section. Thank you for working with us!`,
+      action: { label: "Open your project", url: appUrl(`/project/${data.projectId}`) },
+    }),
+  },
+
+  new_message: {
+    description: "The team sent a message on a project",
+    sample: { firstName: "Ada", projectId: "9b1c0000-0000-0000-0000-000000000000", projectName: "Growth Website", preview: "Hi Ada, the homepage mockups are ready for your review." },
+    render: (data) => ({
+      subject: `New message about ${data.projectName}`,
+      heading: "You have a new message from our team",
+      bodyHtml:
+        paragraph(`Hi ${escapeHtml(data.firstName || "there")}, the DiSO Webs team sent a message about <strong>${escapeHtml(data.projectName)}</strong>:`) +
+        `<blockquote style="margin:0 0 20px;padding:14px 18px;border-left:4px solid ${BRAND_COLOR};background:#f8fafc;font-size:15px;line-height:1.6;color:#334155;">${escapeHtml(data.preview)}</blockquote>`,
+      bodyText:
+        `Hi ${data.firstName || "there"}, the DiSO Webs team sent a message about ${data.projectName}:\n\n"${data.preview}"`,
+      action: { label: "Reply", url: appUrl(`/project/${data.projectId}`) },
+    }),
+  },
+
+  withdrawal_approved: {
+    description: "Referral withdrawal approved or paid out",
+    sample: { firstName: "Ada", amount: 25000, status: "approved", notes: "Paid to your GTBank account" },
+    render: (data) => ({
+      subject: `Your withdrawal of ${formatNaira(data.amount)} was ${data.status}`,
+      heading: "Withdrawal approved",
+      bodyHtml:
+        paragraph(`Hi ${escapeHtml(data.firstName || "there")}, your withdrawal request of <strong>${formatNaira(data.amount)}</strong> has been ${escapeHtml(data.status)}.`) +
+        (data.notes ? paragraph(`Note from our team: ${escapeHtml(data.notes)}`) : ""),
+      bodyText:
+        `Hi ${data.firstName || "there"}, your withdrawal request of ${formatNaira(data.amount)} has been ${data.status}.` +
+        (data.notes ? `\n\nNote from our team: ${data.notes}` : ""),
+      action: { label: "View referral earnings", url: appUrl("/referrals") },
+    }),
+  },
+
+  withdrawal_rejected: {
+    description: "Referral withdrawal rejected",
+    sample: { firstName: "Ada", amount: 25000, notes: "The account name does not match your profile" },
+    render: (data) => ({
+      subject: `Your withdrawal of ${formatNaira(data.amount)} was not approved`,
+      heading: "Withdrawal not approved",
+      bodyHtml:
+        paragraph(`Hi ${escapeHtml(data.firstName || "there")}, unfortunately we couldn't approve your withdrawal request of <strong>${formatNaira(data.amount)}</strong>. The amount remains in your available balance.`) +
+        (data.notes ? paragraph(`Reason: ${escapeHtml(data.notes)}`) : ""),
+      bodyText:
+        `Hi ${data.firstName || "there"}, unfortunately we couldn't approve your withdrawal request of ${formatNaira(data.amount)}. The amount remains in your available balance.` +
+        (data.notes ? `\n\nReason: ${data.notes}` : ""),
+      action: { label: "View referral earnings", url: appUrl("/referrals") },
+    }),
+  },
+};
+
+export function renderEmailTemplate<K extends EmailTemplateName>(name: K, data: EmailTemplateData<K>): RenderedEmail {
+  const template: EmailTemplate<EmailTemplateData<K>> = templates[name];
+  const { subject, heading, bodyHtml, bodyText, action } = template.render(data);
+
+  return {
+    subject,
+    html: renderLayout(heading, bodyHtml, action),
+    text: renderText(heading, bodyText, action),
+  };
+}
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return Object.prototype.hasOwnProperty.call(templates, name);
+}
+
+export function listEmailTemplates(): { name: EmailTemplateName; description: string }[] {
+  return (Object.keys(templates) as EmailTemplateName[]).map(name => ({
+    name,
+    description: templates[name].description,
+  }));
+}
+
+// Render a template with its built-in sample data for the admin preview
+export function previewEmailTemplate(name: EmailTemplateName): RenderedEmail {
+  return renderEmailTemplate(name, templates[name].sample);
+}
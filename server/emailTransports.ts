@@ -0,0 +1,151 @@
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+import sgMail from "@sendgrid/mail";
+import nodemailer from "nodemailer";
+
+export interface EmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+// A transport delivers one message or throws; retries are handled by the outbox
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export class SendGridTransport implements EmailTransport {
+  readonly name = "sendgrid";
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await sgMail.send({
+      to: message.to,
+      from: message.from,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+  }
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      to: message.to,
+      from: message.from,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+  }
+}
+
+// Writes each message as an .eml file so local development never sends real mail
+export class FileOutboxTransport implements EmailTransport {
+  readonly name = "file";
+
+  constructor(private outboxDir: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const boundary = `boundary_${crypto.randomBytes(8).toString("hex")}`;
+    const lines = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${crypto.randomUUID()}@disowebs.local>`,
+      "MIME-Version: 1.0",
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      "",
+      `--${boundary}`,
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      message.text || "",
+      `--${boundary}`,
+      "Content-Type: text/html; charset=utf-8",
+      "",
+      message.html,
+      `--${boundary}--`,
+      "",
+    ];
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}_${safeRecipient}.eml`;
+    await fs.writeFile(path.join(this.outboxDir, filename), lines.join("\r\n"));
+    console.log(`📧 [EMAIL] Wrote ${filename} to ${this.outboxDir}`);
+  }
+}
+
+// Last resort when nothing is configured: keep the old log-only behaviour
+export class ConsoleTransport implements EmailTransport {
+  readonly name = "console";
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log('📧 Email would be sent:');
+    console.log(`To: ${message.to}`);
+    console.log(`Subject: ${message.subject}`);
+    console.log(`Text Content: ${message.text || message.html}`);
+  }
+}
+
+// EMAIL_TRANSPORT picks a driver explicitly; otherwise use whatever is configured
+export function createEmailTransport(): EmailTransport {
+  const requested = process.env.EMAIL_TRANSPORT?.toLowerCase();
+  const outboxDir = process.env.EMAIL_OUTBOX_DIR || path.resolve(process.cwd(), "outbox");
+
+  const smtpConfigured = !!process.env.EMAIL_HOST;
+  const sendgridConfigured = !!process.env.SENDGRID_API_KEY;
+
+  const driver = requested || (
+    sendgridConfigured ? "sendgrid" :
+    smtpConfigured ? "smtp" :
+    process.env.NODE_ENV === "production" ? "console" : "file"
+  );
+
+  switch (driver) {
+    case "sendgrid":
+      if (!sendgridConfigured) {
+        throw new Error("EMAIL_TRANSPORT=sendgrid requires SENDGRID_API_KEY");
+      }
+      return new SendGridTransport(process.env.SENDGRID_API_KEY!);
+    case "smtp":
+      if (!smtpConfigured) {
+        throw new Error("EMAIL_TRANSPORT=smtp requires EMAIL_HOST");
+      }
+      return new SmtpTransport({
+        host: process.env.EMAIL_HOST!,
+        port: parseInt(process.env.EMAIL_PORT || "587"),
+        secure: process.env.EMAIL_SECURE === "true" || process.env.EMAIL_PORT === "465",
+        user: process.env.EMAIL_USER,
+        pass: process.env.EMAIL_PASS,
+      });
+    case "file":
+      return new FileOutboxTransport(outboxDir);
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown email transport: ${driver}`);
+  }
+}
@@ -0,0 +1,132 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Upload constraints shared by the file routes
+export const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB per file
+
+export const ALLOWED_FILE_TYPES: Record<string, string[]> = {
+  "application/pdf": [".pdf"],
+  "application/zip": [".zip"],
+  "application/msword": [".doc"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+  "application/vnd.ms-excel": [".xls"],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
+  "application/vnd.ms-powerpoint": [".ppt"],
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": [".pptx"],
+  "image/png": [".png"],
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/gif": [".gif"],
+  "image/webp": [".webp"],
+  "text/plain": [".txt"],
+  "text/csv": [".csv"],
+};
+
+// Proof of a bank transfer: a screenshot or the bank's PDF receipt
+export const PAYMENT_PROOF_FILE_TYPES = ["image/png", "image/jpeg", "image/webp", "application/pdf"];
+
+// Blob storage contract - keys are opaque strings owned by the driver
+export interface FileStorageDriver {
+  readonly name: string;
+  save(key: string, data: Buffer, mimeType: string): Promise<string>;
+  read(location: string): Promise<Buffer>;
+  remove(location: string): Promise<void>;
+}
+
+// Default driver: writes blobs under a directory on local disk
+export class LocalDiskDriver implements FileStorageDriver {
+  readonly name = "local";
+
+  constructor(private baseDir: string) {}
+
+  private resolve(location: string): string {
+    const key = location.replace(/^local:\/\//, "");
+    const fullPath = path.resolve(this.baseDir, key);
+
+    // Never allow a stored key to escape the upload directory
+    if (!fullPath.startsWith(path.resolve(this.baseDir) + path.sep)) {
+      throw new Error("Invalid file location");
+    }
+    return fullPath;
+  }
+
+  async save(key: string, data: Buffer): Promise<string> {
+    const fullPath = this.resolve(key);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, data);
+    return `local://${key}`;
+  }
+
+  async read(location: string): Promise<Buffer> {
+    return await fs.readFile(this.resolve(location));
+  }
+
+  async remove(location: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(location));
+    } catch (error) {
+      // Already gone is fine - the database row is the source of truth
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+}
+
+const drivers: Record<string, () => FileStorageDriver> = {
+  local: () => new LocalDiskDriver(process.env.FILE_STORAGE_DIR || path.resolve(process.cwd(), "uploads")),
+};
+
+// Register an additional driver (e.g. S3) without touching the routes
+export function registerFileStorageDriver(name: string, factory: () => FileStorageDriver) {
+  drivers[name] = factory;
+}
+
+let activeDriver: FileStorageDriver | null = null;
+
+export function getFileStorage(): FileStorageDriver {
+  if (!activeDriver) {
+    const driverName = process.env.FILE_STORAGE_DRIVER || "local";
+    const factory = drivers[driverName];
+    if (!factory) {
+      throw new Error(`Unknown file storage driver: ${driverName}`);
+    }
+    activeDriver = factory();
+    console.log(`📁 [FILES] Using ${activeDriver.name} file storage driver`);
+  }
+  return activeDriver;
+}
+
+// Validate the declared type, extension and size of an upload
+export function validateUpload(filename: string, mimeType: string, size: number): { valid: boolean; message?: string } {
+  const allowedExtensions = ALLOWED_FILE_TYPES[mimeType];
+  if (!allowedExtensions) {
+    return { valid: false, message: "File type not allowed" };
+  }
+
+  const extension = path.extname(filename).toLowerCase();
+  if (!allowedExtensions.includes(extension)) {
+    return { valid: false, message: "File extension does not match its type" };
+  }
+
+  if (size <= 0) {
+    return { valid: false, message: "File is empty" };
+  }
+  if (size > MAX_FILE_SIZE) {
+    return { valid: false, message: `File exceeds the ${MAX_FILE_SIZE / (1024 * 1024)}MB limit` };
+  }
+
+  return { valid: true };
+}
+
+// Content-Disposition for a download: a plain ASCII fallback plus the exact name per RFC 5987
+export function attachmentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// Strip path components and unsafe characters from a client supplied name
+export function sanitizeFilename(filename: string): string {
+  const base = path.basename(String(filename || "")).replace(/[^a-zA-Z0-9._ -]/g, "_").trim();
+  return base.substring(0, 200) || "file";
+}
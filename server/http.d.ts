@@ -0,0 +1,9 @@
+// Payment webhooks keep the exact bytes the provider signed; see the express.json verify hook in
+// server/index.ts
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: string;
+  }
+}
+
+export {};
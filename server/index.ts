@@ -6,10 +6,16 @@ import {
   securityHeaders, 
   validateContentType, 
   auditLog, 
+  flushAuditLog,
   clearSessionSecurely,
   validateRequestSize 
 } from "./security";
 import { SessionManager } from "./sessionManager";
+import { emailService } from "./email";
+import { paymentReconciler } from "./paymentReconciler";
+import { checkoutRecovery } from "./checkoutRecovery";
+import { subscriptionBilling } from "./subscriptionBilling";
+import { isValidPaymentReference } from "./paymentProviders";
 
 // Add process error handlers to prevent crashes
 process.on('uncaughtException', (err) => {
@@ -30,17 +36,25 @@ process.on('unhandledRejection', (reason, promise) => {
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully...');
   auditLog('server_shutdown', undefined, { signal: 'SIGTERM' });
-  process.exit(0);
+  flushAuditLog().finally(() => process.exit(0));
 });
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully...');
   auditLog('server_shutdown', undefined, { signal: 'SIGINT' });
-  process.exit(0);
+  flushAuditLog().finally(() => process.exit(0));
 });
 
 const app = express();
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Webhook signatures are computed over the exact bytes the provider sent
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith('/api/payments/webhook')) {
+      req.rawBody = buf.toString('utf8');
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: false, limit: '10mb' }));
 
 // Apply security headers globally
@@ -120,7 +134,7 @@ app.get('/payment-success', async (req, res) => {
     const paymentReference = (reference || trxref) as string;
 
     // Security: Validate payment reference format
-    if (!paymentReference || !/^PSK_\d+_[a-z0-9]+$/i.test(paymentReference)) {
+    if (!isValidPaymentReference(paymentReference)) {
       auditLog('payment_callback_invalid_reference', undefined, { clientIP, reference: paymentReference });
       return res.send(`
         <!DOCTYPE html>
@@ -183,35 +197,20 @@ app.get('/payment-success', async (req, res) => {
     }
 
     if (paymentReference) {
-      // Verify payment with Paystack before confirming success
+      // Verify payment with the issuing provider before confirming success
       try {
-        const paystackSecretKey = process.env.PAYSTACK_SECRET_KEY;
-        if (!paystackSecretKey) {
-          throw new Error('Payment service not configured');
-        }
-
         // Import storage here to avoid circular dependency
         const { storage } = await import('./storage');
 
-        const verifyResponse = await fetch(`https://api.paystack.co/transaction/verify/${paymentReference}`, {
-          headers: {
-            Authorization: `Bearer ${paystackSecretKey}`,
-          },
-        });
-
-        if (!verifyResponse.ok) {
-          throw new Error(`Paystack API error: ${verifyResponse.status}`);
-        }
+        const verified = await storage.verifyPayment(paymentReference);
 
-        const verifyData = await verifyResponse.json();
-
-        if (verifyData.status && verifyData.data.status === 'success') {
+        if (verified.status === 'success') {
           // Payment verified, use the centralized success handler
-          await storage.handleSuccessfulPayment(verifyData.data);
+          await storage.handleSuccessfulPayment(verified);
           auditLog('payment_callback_success', undefined, { 
             clientIP, 
-            orderId: verifyData.data.metadata?.orderId,
-            amount: verifyData.data.amount,
+            orderId: verified.orderId,
+            amount: verified.amount,
             reference: paymentReference
           });
 
@@ -306,7 +305,7 @@ app.get('/payment-success', async (req, res) => {
           auditLog('payment_callback_failed', undefined, { 
             clientIP, 
             reference: paymentReference,
-            status: verifyData.data?.status || 'unknown'
+            status: verified.status
           });
           
           return res.send(`
@@ -656,6 +655,18 @@ app.use((req, res, next) => {
     serveStatic(app);
   }
 
+  // Retry queued emails that failed to send
+  emailService.startOutboxWorker();
+
+  // Settle pending payments whose webhook was missed, and expire unpaid orders
+  paymentReconciler.start();
+
+  // Email resume links for abandoned checkouts and prune old sessions
+  checkoutRecovery.start();
+
+  // Charge subscription renewals, retry failed ones and end cancelled plans
+  subscriptionBilling.start();
+
   // ALWAYS serve the app on port 5000
   // this serves both the API and the client.
   // It is the only port that is not firewalled.
@@ -0,0 +1,187 @@
+// Invoice and receipt documents: line items from the ordered service and add-ons, VAT
+// extraction, and PDF rendering. Numbers and persistence live in storage.ts.
+import PDFDocument from "pdfkit";
+import type { Invoice, InvoiceLineItem, Order, OrderLineItem, Payment, Service } from "@shared/schema";
+import { parseAddOns } from "./orderPricing";
+
+export type InvoiceKind = Invoice["kind"];
+
+const NUMBER_PREFIXES: Record<InvoiceKind, string> = {
+  invoice: "INV",
+  receipt: "RCT",
+};
+
+export const formatInvoiceNumber = (kind: InvoiceKind, sequence: number) =>
+  `${NUMBER_PREFIXES[kind]}-${sequence.toString().padStart(6, "0")}`;
+
+const toMoney = (value: number) => (Math.round(value * 100) / 100).toFixed(2);
+
+// The built-in PDF fonts have no naira glyph, so amounts are printed with the currency code
+const formatAmount = (amount: number | string, currency: string) =>
+  `${currency} ${Number(amount || 0).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Checkout prices are VAT-inclusive, so the VAT portion is extracted from the total rather than added to it
+export function splitVat(total: number, vatRate: number) {
+  const rate = vatRate > 0 ? vatRate : 0;
+  const vatAmount = rate ? Math.round(((total * rate) / (100 + rate)) * 100) / 100 : 0;
+  return {
+    subtotal: toMoney(total - vatAmount),
+    vatRate: toMoney(rate),
+    vatAmount: toMoney(vatAmount),
+    total: toMoney(total),
+  };
+}
+
+const lineItem = (description: string, amount: number): InvoiceLineItem => ({
+  description,
+  quantity: 1,
+  unitPrice: toMoney(amount),
+  amount: toMoney(amount),
+});
+
+// Orders priced on the server carry their own line items. Older orders are rebuilt from the
+// service price and the add-on names kept in customRequest, with any difference to what the
+// client was actually charged shown as an adjustment so the lines add up to the order total.
+export function buildOrderLineItems(order: Order, service?: Service, orderLineItems: OrderLineItem[] = []): InvoiceLineItem[] {
+  if (orderLineItems.length > 0) {
+    return orderLineItems.map(item => ({
+      description: item.kind === "add_on" ? `Add-on: ${item.description}` : item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      amount: item.amount,
+    }));
+  }
+
+  const total = parseFloat(order.totalPrice) || 0;
+  if (!service) {
+    return [lineItem("Custom project", total)];
+  }
+
+  let selectedAddOns: string[] = [];
+  try {
+    const data = JSON.parse(order.customRequest || "{}");
+    if (Array.isArray(data.selectedAddOns)) selectedAddOns = data.selectedAddOns;
+  } catch {
+    // Older orders stored free text here
+  }
+
+  const catalogue = parseAddOns(service.addOns);
+  const items = [lineItem(service.name, parseFloat(service.priceUsd) || 0)];
+  for (const name of selectedAddOns) {
+    const addOn = catalogue.find(a => a.name === name);
+    items.push(lineItem(`Add-on: ${name}`, Number(addOn?.price) || 0));
+  }
+
+  const listed = items.reduce((sum, item) => sum + parseFloat(item.amount), 0);
+  const difference = Math.round((total - listed) * 100) / 100;
+  if (difference !== 0) {
+    items.push(lineItem(difference < 0 ? "Discount" : "Adjustment", difference));
+  }
+  return items;
+}
+
+// Receipts carry a single line for the amount actually paid
+export function buildPaymentLineItems(payment: Payment, serviceName: string, installmentLabel?: string): InvoiceLineItem[] {
+  const description = installmentLabel ? `${serviceName} - ${installmentLabel}` : serviceName;
+  return [lineItem(description, parseFloat(payment.amount) || 0)];
+}
+
+export interface RenderInvoiceOptions {
+  payment?: Payment;
+  invoiceNumber?: string; // The order invoice a receipt settles
+}
+
+export function renderInvoicePdf(invoice: Invoice, options: RenderInvoiceOptions = {}): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50, info: { Title: `${invoice.kind === "receipt" ? "Receipt" : "Invoice"} ${invoice.number}` } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const { seller, billTo, currency } = invoice;
+    const left = doc.page.margins.left;
+    const right = doc.page.width - doc.page.margins.right;
+    const width = right - left;
+
+    // Header: seller on the left, document title and number on the right
+    doc.fontSize(18).font("Helvetica-Bold").text(seller.name, left, 50, { width: width / 2 });
+    doc.fontSize(9).font("Helvetica").fillColor("#475569");
+    for (const line of [seller.address, seller.email, seller.phone, seller.taxId ? `Tax ID: ${seller.taxId}` : null]) {
+      if (line) doc.text(line, { width: width / 2 });
+    }
+
+    doc.fillColor("#0f172a").fontSize(20).font("Helvetica-Bold")
+      .text(invoice.kind === "receipt" ? "RECEIPT" : "INVOICE", left, 50, { width, align: "right" });
+    doc.fontSize(10).font("Helvetica")
+      .text(invoice.number, { width, align: "right" })
+      .text(`Issued ${invoice.issuedAt.toLocaleDateString("en-GB")}`, { width, align: "right" })
+      .text(`Order #${invoice.orderId.slice(0, 8).toUpperCase()}`, { width, align: "right" });
+    if (options.invoiceNumber) {
+      doc.text(`For invoice ${options.invoiceNumber}`, { width, align: "right" });
+    }
+
+    // Bill to
+    doc.moveDown(2);
+    const billToTop = Math.max(doc.y, 150);
+    doc.fontSize(9).fillColor("#64748b").text("BILL TO", left, billToTop);
+    doc.fontSize(10).fillColor("#0f172a").font("Helvetica-Bold").text(billTo.name);
+    doc.font("Helvetica");
+    for (const line of [billTo.company, billTo.email, billTo.phone]) {
+      if (line) doc.text(line);
+    }
+
+    // Line items
+    const columns = { description: left, quantity: left + width * 0.6, unitPrice: left + width * 0.68, amount: left + width * 0.84 };
+    let y = doc.y + 24;
+    doc.rect(left, y - 6, width, 20).fill("#f1f5f9");
+    doc.fillColor("#334155").fontSize(9).font("Helvetica-Bold");
+    doc.text("Description", columns.description + 6, y);
+    doc.text("Qty", columns.quantity, y, { width: width * 0.08, align: "right" });
+    doc.text("Unit price", columns.unitPrice, y, { width: width * 0.16, align: "right" });
+    doc.text("Amount", columns.amount, y, { width: width * 0.16 - 6, align: "right" });
+    y += 22;
+
+    doc.font("Helvetica").fillColor("#0f172a");
+    for (const item of invoice.lineItems) {
+      const rowHeight = Math.max(doc.heightOfString(item.description, { width: width * 0.58 }), 12);
+      doc.text(item.description, columns.description + 6, y, { width: width * 0.58 });
+      doc.text(String(item.quantity), columns.quantity, y, { width: width * 0.08, align: "right" });
+      doc.text(formatAmount(item.unitPrice, currency), columns.unitPrice, y, { width: width * 0.16, align: "right" });
+      doc.text(formatAmount(item.amount, currency), columns.amount, y, { width: width * 0.16 - 6, align: "right" });
+      y += rowHeight + 8;
+      doc.moveTo(left, y - 4).lineTo(right, y - 4).strokeColor("#e2e8f0").stroke();
+    }
+
+    // Totals
+    const totals: [string, string][] = [["Subtotal", formatAmount(invoice.subtotal, currency)]];
+    if (parseFloat(invoice.vatRate) > 0) {
+      totals.push([`VAT (${parseFloat(invoice.vatRate)}%)`, formatAmount(invoice.vatAmount, currency)]);
+    }
+    totals.push([invoice.kind === "receipt" ? "Amount paid" : "Total", formatAmount(invoice.total, currency)]);
+
+    y += 6;
+    totals.forEach(([label, value], index) => {
+      const isLast = index === totals.length - 1;
+      doc.font(isLast ? "Helvetica-Bold" : "Helvetica").fontSize(isLast ? 11 : 10);
+      doc.text(label, left + width * 0.5, y, { width: width * 0.3, align: "right" });
+      doc.text(value, columns.amount - width * 0.04, y, { width: width * 0.2 - 6, align: "right" });
+      y += 18;
+    });
+
+    if (options.payment) {
+      y += 12;
+      doc.font("Helvetica").fontSize(9).fillColor("#475569");
+      doc.text(`Paid via ${options.payment.provider}`, left, y);
+      doc.text(`Reference: ${options.payment.providerId}`);
+      if (options.payment.paidAt) {
+        doc.text(`Paid on ${options.payment.paidAt.toLocaleDateString("en-GB")}`);
+      }
+    }
+
+    doc.fontSize(8).fillColor("#94a3b8")
+      .text(`Thank you for your business. Questions about this document? Quote ${invoice.number}.`, left, doc.page.height - doc.page.margins.bottom - 20, { width, align: "center", lineBreak: false });
+
+    doc.end();
+  });
+}
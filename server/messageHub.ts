@@ -0,0 +1,258 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import type { Request, Response, RequestHandler } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { auditLog } from "./security";
+import { SessionManager } from "./sessionManager";
+import type { MessageWithDetails, User } from "@shared/schema";
+
+export const MESSAGE_SOCKET_PATH = "/ws/messages";
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+const MAX_PAYLOAD_BYTES = 16 * 1024;
+
+type ClientEvent =
+  | { type: "subscribe"; projectId: string }
+  | { type: "unsubscribe"; projectId: string }
+  | { type: "typing"; projectId: string; isTyping: boolean }
+  | { type: "read"; projectId: string; messageId: string };
+
+export type MessageSocketEvent =
+  | { type: "message"; projectId: string; message: MessageWithDetails }
+  | { type: "typing"; projectId: string; userId: string; name: string; isAdmin: boolean; isTyping: boolean }
+  | { type: "read"; projectId: string; userId: string; messageIds: string[]; readAt: string }
+  | { type: "subscribed"; projectId: string }
+  | { type: "error"; message: string };
+
+// Browsers always send Origin on a WebSocket handshake, and the session cookie goes cross-site,
+// so only pages served from this host, APP_URL or ALLOWED_ORIGINS may open a socket
+const isAllowedOrigin = (origin: string | undefined, host: string | undefined) => {
+  if (!origin) return false;
+
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  if (host && url.host === host) return true;
+  if (process.env.NODE_ENV !== "production" && (url.hostname === "localhost" || url.hostname === "127.0.0.1")) return true;
+
+  const allowed = [process.env.APP_URL, ...(process.env.ALLOWED_ORIGINS || "").split(",")]
+    .map(value => value?.trim())
+    .filter((value): value is string => !!value)
+    .map(value => {
+      try {
+        return new URL(value).origin;
+      } catch {
+        return null;
+      }
+    });
+  return allowed.includes(url.origin);
+};
+
+interface ClientState {
+  user: User;
+  projects: Set<string>;
+  isAlive: boolean;
+}
+
+// Pushes project chat events to subscribed browsers. Sending still goes through
+// POST /api/projects/:projectId/messages, which broadcasts the stored row here.
+export class ProjectMessageHub {
+  private static instance: ProjectMessageHub;
+  private wss: WebSocketServer | null = null;
+  private clients = new Map<WebSocket, ClientState>();
+  private rooms = new Map<string, Set<WebSocket>>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  static getInstance(): ProjectMessageHub {
+    if (!ProjectMessageHub.instance) {
+      ProjectMessageHub.instance = new ProjectMessageHub();
+    }
+    return ProjectMessageHub.instance;
+  }
+
+  attach(server: Server, sessionMiddleware: RequestHandler | null): void {
+    if (this.wss) return;
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+
+    server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      // Other upgrade listeners (e.g. Vite HMR) handle their own paths
+      if (!req.url?.startsWith(MESSAGE_SOCKET_PATH)) return;
+
+      if (!isAllowedOrigin(req.headers.origin, req.headers.host)) {
+        auditLog('security_violation', undefined, { type: 'websocket_origin_rejected', origin: req.headers.origin, ip: req.socket.remoteAddress });
+        socket.write("HTTP/1.1 403 Forbidden\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      this.authenticate(req, sessionMiddleware)
+        .then((user) => {
+          if (!user) {
+            socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+            socket.destroy();
+            return;
+          }
+          this.wss!.handleUpgrade(req, socket, head, (ws) => this.handleConnection(ws, user));
+        })
+        .catch((error) => {
+          console.error("💬 [SOCKET] Upgrade failed:", error);
+          socket.destroy();
+        });
+    });
+
+    this.heartbeat = setInterval(() => this.checkConnections(), HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+  }
+
+  // Run the express-session middleware against the upgrade request, then resolve the user with
+  // the same SessionManager checks isAuthenticated applies to HTTP requests
+  private async authenticate(req: IncomingMessage, sessionMiddleware: RequestHandler | null): Promise<User | null> {
+    if (!sessionMiddleware) return null;
+
+    const request = req as Request;
+    await new Promise<void>((resolve, reject) => {
+      sessionMiddleware(request, {} as Response, (error?: unknown) => (error ? reject(error) : resolve()));
+    });
+
+    if (!request.session || !SessionManager.isSessionValid(request)) return null;
+    return await SessionManager.getCurrentUser(request);
+  }
+
+  private handleConnection(ws: WebSocket, user: User): void {
+    this.clients.set(ws, { user, projects: new Set(), isAlive: true });
+
+    ws.on("pong", () => {
+      const state = this.clients.get(ws);
+      if (state) state.isAlive = true;
+    });
+
+    ws.on("message", (raw) => {
+      let event: ClientEvent;
+      try {
+        event = JSON.parse(raw.toString());
+      } catch {
+        this.send(ws, { type: "error", message: "Invalid message format" });
+        return;
+      }
+      this.handleEvent(ws, event).catch((error) => {
+        console.error("💬 [SOCKET] Event handling failed:", error);
+        this.send(ws, { type: "error", message: "Failed to process event" });
+      });
+    });
+
+    ws.on("close", () => this.disconnect(ws));
+    ws.on("error", () => this.disconnect(ws));
+  }
+
+  private async handleEvent(ws: WebSocket, event: ClientEvent): Promise<void> {
+    const state = this.clients.get(ws);
+    if (!state || typeof event?.projectId !== "string") return;
+
+    switch (event.type) {
+      case "subscribe": {
+        const hasAccess = await storage.userHasProjectAccess(state.user.id, event.projectId);
+        if (!hasAccess) {
+          auditLog("socket_unauthorized_subscribe", state.user.id, { projectId: event.projectId });
+          this.send(ws, { type: "error", message: "Unauthorized" });
+          return;
+        }
+        state.projects.add(event.projectId);
+        if (!this.rooms.has(event.projectId)) {
+          this.rooms.set(event.projectId, new Set());
+        }
+        this.rooms.get(event.projectId)!.add(ws);
+        this.send(ws, { type: "subscribed", projectId: event.projectId });
+        break;
+      }
+      case "unsubscribe":
+        this.leaveRoom(ws, event.projectId);
+        break;
+      case "typing":
+        if (!state.projects.has(event.projectId)) return;
+        this.broadcast(event.projectId, {
+          type: "typing",
+          projectId: event.projectId,
+          userId: state.user.id,
+          name: state.user.role === "admin"
+            ? "DiSO Webs Team"
+            : `${state.user.firstName || ""} ${state.user.lastName || ""}`.trim() || "Client",
+          isAdmin: state.user.role === "admin",
+          isTyping: !!event.isTyping,
+        }, ws);
+        break;
+      case "read": {
+        if (!state.projects.has(event.projectId) || typeof event.messageId !== "string") return;
+        const { messageIds, readAt } = await storage.markMessagesRead(event.projectId, state.user.id, event.messageId);
+        if (messageIds.length > 0) {
+          this.publishRead(event.projectId, state.user.id, messageIds, readAt);
+        }
+        break;
+      }
+    }
+  }
+
+  publishMessage(message: MessageWithDetails): void {
+    this.broadcast(message.projectId, { type: "message", projectId: message.projectId, message });
+  }
+
+  publishRead(projectId: string, userId: string, messageIds: string[], readAt: Date): void {
+    this.broadcast(projectId, { type: "read", projectId, userId, messageIds, readAt: readAt.toISOString() });
+  }
+
+  private broadcast(projectId: string, event: MessageSocketEvent, except?: WebSocket): void {
+    const room = this.rooms.get(projectId);
+    if (!room) return;
+
+    for (const ws of Array.from(room)) {
+      if (ws !== except) {
+        this.send(ws, event);
+      }
+    }
+  }
+
+  private send(ws: WebSocket, event: MessageSocketEvent): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(event));
+    }
+  }
+
+  private leaveRoom(ws: WebSocket, projectId: string): void {
+    this.clients.get(ws)?.projects.delete(projectId);
+    const room = this.rooms.get(projectId);
+    if (room) {
+      room.delete(ws);
+      if (room.size === 0) {
+        this.rooms.delete(projectId);
+      }
+    }
+  }
+
+  private disconnect(ws: WebSocket): void {
+    const state = this.clients.get(ws);
+    if (!state) return;
+
+    for (const projectId of Array.from(state.projects)) {
+      this.leaveRoom(ws, projectId);
+    }
+    this.clients.delete(ws);
+  }
+
+  // Drop connections that stopped answering pings (e.g. a laptop lid closed mid-session)
+  private checkConnections(): void {
+    for (const [ws, state] of Array.from(this.clients.entries())) {
+      if (!state.isAlive) {
+        ws.terminate();
+        this.disconnect(ws);
+        continue;
+      }
+      state.isAlive = false;
+      ws.ping();
+    }
+  }
+}
+
+export const messageHub = ProjectMessageHub.getInstance();
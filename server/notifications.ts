@@ -0,0 +1,271 @@
+import { storage } from "./storage";
+import { cacheManager, CacheKeys } from "./cache";
+
+export type NotificationType =
+  | "order_status"
+  | "new_message"
+  | "withdrawal"
+  | "payment_success"
+  | "payment_refund"
+  | "installment_due"
+  | "project_status"
+  | "quote"
+  | "contact"
+  | "subscription"
+  | "bank_transfer";
+
+interface NotifyOptions {
+  type: NotificationType;
+  title: string;
+  content: string;
+  link?: string;
+}
+
+const formatStatus = (status: string) => status.replace(/_/g, " ");
+
+// Writes in-app notifications. Failures are logged and never break the calling request.
+export class NotificationService {
+  private static instance: NotificationService;
+
+  static getInstance(): NotificationService {
+    if (!NotificationService.instance) {
+      NotificationService.instance = new NotificationService();
+    }
+    return NotificationService.instance;
+  }
+
+  async notify(userId: string, options: NotifyOptions): Promise<void> {
+    try {
+      await storage.createNotification({
+        userId,
+        type: options.type,
+        title: options.title,
+        content: options.content,
+        link: options.link ?? null,
+      });
+
+      if (options.type === "new_message") {
+        // Client stats include the unread message count
+        await cacheManager.invalidate(CacheKeys.userStats(userId));
+      }
+    } catch (error) {
+      console.error("🔔 [NOTIFICATIONS] Failed to create notification:", error);
+    }
+  }
+
+  async notifyAdmins(options: NotifyOptions, excludeUserId?: string): Promise<void> {
+    try {
+      const admins = await storage.getAdminUsers();
+      await Promise.all(
+        admins
+          .filter(admin => admin.id !== excludeUserId)
+          .map(admin => this.notify(admin.id, options)),
+      );
+    } catch (error) {
+      console.error("🔔 [NOTIFICATIONS] Failed to notify admins:", error);
+    }
+  }
+
+  async orderStatusChanged(userId: string, orderId: string, status: string): Promise<void> {
+    await this.notify(userId, {
+      type: "order_status",
+      title: "Order updated",
+      content: `Your order #${orderId.slice(0, 8)} is now ${formatStatus(status)}.`,
+      link: "/dashboard",
+    });
+  }
+
+  async paymentSucceeded(userId: string, orderId: string): Promise<void> {
+    await this.notify(userId, {
+      type: "payment_success",
+      title: "Payment received",
+      content: `We received your payment for order #${orderId.slice(0, 8)}. Your project is now active.`,
+      link: "/active-projects",
+    });
+    await this.notifyAdmins({
+      type: "payment_success",
+      title: "New paid order",
+      content: `Order #${orderId.slice(0, 8)} has been paid.`,
+      link: "/admin-dashboard",
+    });
+  }
+
+  async installmentDue(userId: string, orderId: string, label: string, amount: string | number): Promise<void> {
+    await this.notify(userId, {
+      type: "installment_due",
+      title: "Payment due",
+      content: `${label} of ₦${Number(amount).toLocaleString()} for order #${orderId.slice(0, 8)} is now due.`,
+      link: "/transactions",
+    });
+  }
+
+  async installmentPaid(userId: string, orderId: string, label: string): Promise<void> {
+    await this.notify(userId, {
+      type: "payment_success",
+      title: "Payment received",
+      content: `We received your ${label.toLowerCase()} for order #${orderId.slice(0, 8)}.`,
+      link: "/transactions",
+    });
+    await this.notifyAdmins({
+      type: "payment_success",
+      title: "Installment paid",
+      content: `${label} for order #${orderId.slice(0, 8)} has been paid.`,
+      link: "/admin-dashboard",
+    });
+  }
+
+  async paymentRefunded(userId: string, orderId: string, amount: number, orderCancelled: boolean): Promise<void> {
+    await this.notify(userId, {
+      type: "payment_refund",
+      title: "Refund issued",
+      content: `We refunded ₦${amount.toLocaleString()} for order #${orderId.slice(0, 8)}.${orderCancelled ? " The order has been cancelled." : ""}`,
+      link: "/dashboard",
+    });
+  }
+
+  async contactReceived(name: string, subject: string): Promise<void> {
+    await this.notifyAdmins({
+      type: "contact",
+      title: "New contact message",
+      content: `${name}: ${subject}`,
+      link: "/admin/inbox",
+    });
+  }
+
+  async quoteRequested(quoteId: string, fullName: string, projectType: string): Promise<void> {
+    await this.notifyAdmins({
+      type: "quote",
+      title: "New quote request",
+      content: `${fullName} requested a quote for a ${projectType.toLowerCase()} (#${quoteId.slice(0, 8)}).`,
+      link: "/admin/quotes",
+    });
+  }
+
+  async quoteProposed(userId: string, projectType: string): Promise<void> {
+    await this.notify(userId, {
+      type: "quote",
+      title: "Proposal ready",
+      content: `Your ${projectType.toLowerCase()} proposal is ready to review.`,
+      link: "/dashboard#quotes",
+    });
+  }
+
+  async quoteAnswered(quoteId: string, fullName: string, accepted: boolean): Promise<void> {
+    await this.notifyAdmins({
+      type: "quote",
+      title: accepted ? "Proposal accepted" : "Proposal declined",
+      content: `${fullName} ${accepted ? "accepted" : "declined"} the proposal for quote #${quoteId.slice(0, 8)}.`,
+      link: "/admin/quotes",
+    });
+  }
+
+  async subscriptionStarted(userId: string, planName: string, customerName: string): Promise<void> {
+    await this.notify(userId, {
+      type: "subscription",
+      title: "Subscription active",
+      content: `Your ${planName} plan is now active.`,
+      link: "/dashboard#subscriptions",
+    });
+    await this.notifyAdmins({
+      type: "subscription",
+      title: "New subscription",
+      content: `${customerName} subscribed to ${planName}.`,
+      link: "/admin/subscriptions",
+    });
+  }
+
+  async subscriptionPaymentFailed(userId: string, planName: string): Promise<void> {
+    await this.notify(userId, {
+      type: "subscription",
+      title: "Subscription payment failed",
+      content: `We couldn't renew your ${planName} plan. Update your payment to keep it running.`,
+      link: "/dashboard#subscriptions",
+    });
+  }
+
+  async subscriptionEnded(userId: string, planName: string, unpaid: boolean): Promise<void> {
+    await this.notify(userId, {
+      type: "subscription",
+      title: "Subscription ended",
+      content: `Your ${planName} plan has ended${unpaid ? " because the renewal couldn't be collected" : ""}.`,
+      link: "/dashboard#subscriptions",
+    });
+    if (unpaid) {
+      await this.notifyAdmins({
+        type: "subscription",
+        title: "Subscription cancelled for non-payment",
+        content: `A ${planName} subscription was cancelled after its renewal retries failed.`,
+        link: "/admin/subscriptions",
+      });
+    }
+  }
+
+  async paymentProofSubmitted(orderId: string, customerName: string): Promise<void> {
+    await this.notifyAdmins({
+      type: "bank_transfer",
+      title: "Bank transfer to confirm",
+      content: `${customerName} uploaded proof of a bank transfer for order #${orderId.slice(0, 8)}.`,
+      link: "/admin/bank-transfers",
+    });
+  }
+
+  async paymentProofRejected(userId: string, orderId: string, reference: string): Promise<void> {
+    await this.notify(userId, {
+      type: "bank_transfer",
+      title: "Bank transfer not confirmed",
+      content: `We couldn't confirm your transfer for order #${orderId.slice(0, 8)}. Please check the details and upload your proof again.`,
+      link: `/bank-transfer/${reference}`,
+    });
+  }
+
+  async projectStatusChanged(userId: string, projectId: string, projectName: string | null, status: string): Promise<void> {
+    await this.notify(userId, {
+      type: "project_status",
+      title: "Project update",
+      content: `${projectName || "Your project"} is now ${formatStatus(status)}.`,
+      link: `/project/${projectId}`,
+    });
+  }
+
+  // Admin replies notify the project owner; client messages notify the admins
+  async newProjectMessage(params: {
+    projectId: string;
+    projectOwnerId: string;
+    senderId: string;
+    senderName: string;
+    isAdmin: boolean;
+    preview: string;
+  }): Promise<void> {
+    const preview = params.preview.length > 80 ? `${params.preview.slice(0, 77)}...` : params.preview;
+
+    if (params.isAdmin) {
+      if (params.projectOwnerId !== params.senderId) {
+        await this.notify(params.projectOwnerId, {
+          type: "new_message",
+          title: "New message from DiSO Webs",
+          content: preview,
+          link: `/project/${params.projectId}`,
+        });
+      }
+      return;
+    }
+
+    await this.notifyAdmins({
+      type: "new_message",
+      title: `New message from ${params.senderName}`,
+      content: preview,
+      link: `/project/${params.projectId}`,
+    }, params.senderId);
+  }
+
+  async withdrawalProcessed(userId: string, amount: string | number, status: string): Promise<void> {
+    await this.notify(userId, {
+      type: "withdrawal",
+      title: "Withdrawal update",
+      content: `Your withdrawal request of ₦${Number(amount).toLocaleString()} was ${formatStatus(status)}.`,
+      link: "/referrals",
+    });
+  }
+}
+
+export const notificationService = NotificationService.getInstance();
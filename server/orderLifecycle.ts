@@ -0,0 +1,69 @@
+import { storage, type OrderStatusChange } from "./storage";
+import { notificationService } from "./notifications";
+import { auditLog } from "./security";
+import type { Order } from "@shared/schema";
+import type { OrderStatus } from "@shared/orderLifecycle";
+
+// Applies manual order status changes through the lifecycle in shared/orderLifecycle.ts. The
+// storage layer checks the move and writes the history row under the order lock; the side
+// effects of reaching each status run here once the change has committed. Payments, expiry
+// and refunds move orders inside their own transactions and handle their own side effects.
+export class OrderLifecycle {
+  private static instance: OrderLifecycle;
+
+  static getInstance(): OrderLifecycle {
+    if (!OrderLifecycle.instance) {
+      OrderLifecycle.instance = new OrderLifecycle();
+    }
+    return OrderLifecycle.instance;
+  }
+
+  async transition(orderId: string, status: OrderStatus, change: OrderStatusChange): Promise<Order> {
+    const { order, previousStatus } = await storage.transitionOrderStatus(orderId, status, change);
+    auditLog('order_status_changed', change.changedBy ?? undefined, {
+      orderId,
+      from: previousStatus,
+      to: status,
+      source: change.source,
+      reason: change.reason,
+    });
+
+    try {
+      await this.runSideEffects(order, previousStatus, status);
+    } catch (error) {
+      // The status change stands; a failed side effect is logged for follow-up
+      console.error(`Order ${orderId} side effects for ${previousStatus} -> ${status} failed:`, error);
+    }
+    return order;
+  }
+
+  private async runSideEffects(order: Order, from: OrderStatus, to: OrderStatus): Promise<void> {
+    switch (to) {
+      case 'paid': {
+        // Marked paid outside the checkout: start the project and credit the referrer as a payment would
+        const { projectId, serviceCategory } = await storage.activatePaidOrder(order.id);
+        await storage.seedProjectStages(projectId, serviceCategory);
+        break;
+      }
+      case 'in_progress':
+        await storage.setOrderProjectStatus(order.id, 'active');
+        break;
+      case 'complete':
+        await storage.setOrderProjectStatus(order.id, 'completed');
+        break;
+      case 'cancelled':
+        // Commission clawback is tied to refunds, so cancelling alone leaves earnings in place
+        if (from !== 'pending') {
+          await storage.setOrderProjectStatus(order.id, 'paused');
+        }
+        break;
+      case 'pending':
+      case 'awaiting_confirmation':
+        break;
+    }
+
+    await notificationService.orderStatusChanged(order.userId, order.id, to);
+  }
+}
+
+export const orderLifecycle = OrderLifecycle.getInstance();
@@ -0,0 +1,112 @@
+// Authoritative order pricing. Totals are recomputed from the service catalogue so the
+// amount the client submits is only ever checked against, never trusted. Catalogue prices
+// are in the service's base currency and are converted to the settlement currency here.
+import type { OrderLineItem, Service } from "@shared/schema";
+
+export type PricedLineItem = Pick<OrderLineItem, "kind" | "description" | "quantity" | "unitPrice" | "amount">;
+
+export interface OrderDiscount {
+  description: string;
+  amount: number; // Positive amount taken off the order
+}
+
+export interface OrderPricing {
+  lineItems: PricedLineItem[];
+  subtotal: number;
+  discountTotal: number;
+  total: number;
+}
+
+interface CatalogueAddOn {
+  name: string;
+  price: number | string;
+}
+
+const toMoney = (value: number) => (Math.round(value * 100) / 100).toFixed(2);
+
+// services.addOns is stored as a JSON string; getServiceById hands it back parsed
+export function parseAddOns(addOns: Service["addOns"] | CatalogueAddOn[]): CatalogueAddOn[] {
+  const parsed = typeof addOns === "string" ? JSON.parse(addOns || "[]") : addOns;
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+// Add-on names from a request body. They are matched exactly against the catalogue, so they
+// are only trimmed and length-checked here; sanitizing would break names like "Reporting & BI".
+const MAX_ADD_ON_NAME_LENGTH = 200;
+
+export function readAddOnNames(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((name): name is string => typeof name === "string")
+    .map(name => name.trim())
+    .filter(name => name.length > 0 && name.length <= MAX_ADD_ON_NAME_LENGTH);
+}
+
+// Catalogue prices in the settlement currency, as shown at checkout. baseRate is the
+// settlement value of one unit of the service's base currency.
+export function settlementCatalogue(service: Service, baseRate: number) {
+  const convert = (price: number) => Math.round(price * baseRate * 100) / 100;
+  const originalPrice = service.originalPriceUsd ? parseFloat(service.originalPriceUsd) : NaN;
+  return {
+    price: convert(parseFloat(service.priceUsd) || 0),
+    originalPrice: isNaN(originalPrice) ? undefined : convert(originalPrice),
+    addOns: parseAddOns(service.addOns).map(addOn => ({ ...addOn, price: convert(Number(addOn.price) || 0) })),
+  };
+}
+
+export function priceOrder(
+  service: Service,
+  addOnNames: string[],
+  options: { discounts?: OrderDiscount[]; baseRate?: number } = {},
+): OrderPricing {
+  const { discounts = [], baseRate = 1 } = options;
+  const basePrice = parseFloat(service.priceUsd);
+  if (isNaN(basePrice) || basePrice < 0) {
+    throw new Error(`Service ${service.id} has no valid price`);
+  }
+  if (!(baseRate > 0)) {
+    throw new Error(`No exchange rate for ${service.currency}`);
+  }
+
+  const catalogue = parseAddOns(service.addOns);
+  const servicePrice = toMoney(basePrice * baseRate);
+  const lineItems: PricedLineItem[] = [{
+    kind: "service",
+    description: service.name,
+    quantity: 1,
+    unitPrice: servicePrice,
+    amount: servicePrice,
+  }];
+
+  for (const name of Array.from(new Set(addOnNames))) {
+    const addOn = catalogue.find(a => a.name === name);
+    const price = Number(addOn?.price);
+    if (!addOn || isNaN(price)) {
+      throw new Error(`Unknown add-on: ${name}`);
+    }
+    const addOnPrice = toMoney(price * baseRate);
+    lineItems.push({ kind: "add_on", description: name, quantity: 1, unitPrice: addOnPrice, amount: addOnPrice });
+  }
+
+  const subtotal = lineItems.reduce((sum, item) => sum + parseFloat(item.amount), 0);
+
+  // Discounts never take the order below zero
+  let discountTotal = 0;
+  for (const discount of discounts) {
+    const amount = Math.min(Math.max(discount.amount, 0), subtotal - discountTotal);
+    if (amount <= 0) continue;
+    discountTotal += amount;
+    lineItems.push({ kind: "discount", description: discount.description, quantity: 1, unitPrice: toMoney(-amount), amount: toMoney(-amount) });
+  }
+
+  return {
+    lineItems,
+    subtotal: Math.round(subtotal * 100) / 100,
+    discountTotal: Math.round(discountTotal * 100) / 100,
+    total: Math.round((subtotal - discountTotal) * 100) / 100,
+  };
+}
+
+// Checkout shows whole naira, so the client's figure only has to agree to the naira
+export const clientTotalMatches = (clientTotal: number, pricing: OrderPricing) =>
+  Math.round(clientTotal) === Math.round(pricing.total);
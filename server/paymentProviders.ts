@@ -0,0 +1,542 @@
+import crypto from "crypto";
+import Stripe from "stripe";
+
+export interface PaymentInitParams {
+  orderId: string;
+  userId: string;
+  email: string;
+  amount: number; // Major units (e.g. naira), providers convert as needed
+  currency: string;
+  description?: string;
+  callbackUrl: string; // Where the customer lands after paying
+  cancelUrl: string;
+  saveMethod?: boolean; // Keep the card for later off-session charges (subscriptions)
+  metadata?: Record<string, string>; // Extra provider metadata, e.g. the subscription id
+}
+
+export interface PaymentInitResult {
+  reference: string; // Stored as payments.providerId
+  authorizationUrl: string;
+}
+
+// A reported amount this close to the payment row (major units) still counts as a match
+export const PAYMENT_AMOUNT_TOLERANCE = 0.01;
+
+export interface VerifiedPayment {
+  reference: string;
+  status: "success" | "failed" | "pending";
+  amount?: number; // Major units
+  currency?: string;
+  orderId?: string;
+  paidAt?: Date;
+  savedMethod?: SavedPaymentMethod; // Reusable authorization, when the payment was made with saveMethod
+  failureReason?: string;
+  raw?: unknown;
+}
+
+export interface SavedPaymentMethod {
+  token: string;
+  customer?: string;
+  label?: string;
+}
+
+export interface RecurringChargeParams {
+  email: string;
+  amount: number; // Major units
+  currency: string;
+  method: SavedPaymentMethod;
+  description?: string;
+  metadata: Record<string, string>;
+}
+
+export interface PaymentWebhookEvent {
+  type: "payment.succeeded" | "payment.failed" | "ignored";
+  payment?: VerifiedPayment;
+  raw?: unknown;
+}
+
+export interface RefundResult {
+  refundId: string;
+  status: "pending" | "succeeded" | "failed";
+  amount?: number;
+}
+
+// A payment provider talks to one gateway; order and project bookkeeping stays in storage
+export interface PaymentProvider {
+  readonly name: string;
+  readonly label: string;
+  readonly description: string;
+  isValidReference(reference: string): boolean;
+  initialize(params: PaymentInitParams): Promise<PaymentInitResult>;
+  verify(reference: string): Promise<VerifiedPayment>;
+  // Returns null when the signature doesn't check out
+  verifyWebhook(headers: Record<string, string | string[] | undefined>, rawBody: string): Promise<PaymentWebhookEvent | null>;
+  refund(reference: string, amount?: number): Promise<RefundResult>;
+  // Charges a saved method without the customer present. Providers without it can't take subscriptions.
+  chargeSavedMethod?(params: RecurringChargeParams): Promise<VerifiedPayment>;
+}
+
+const generateReference = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const headerValue = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+export class PaystackProvider implements PaymentProvider {
+  readonly name = "paystack";
+  readonly label = "Paystack";
+  readonly description = "Secure card & bank payments";
+  private readonly baseUrl = "https://api.paystack.co";
+
+  constructor(private secretKey: string) {}
+
+  isValidReference(reference: string): boolean {
+    return /^PSK_\d+_[a-z0-9]+$/i.test(reference);
+  }
+
+  private async request(path: string, init: RequestInit = {}): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        "Content-Type": "application/json",
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Paystack API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data.status) {
+      throw new Error(data.message || "Paystack request failed");
+    }
+    return data.data;
+  }
+
+  private toVerifiedPayment(data: any): VerifiedPayment {
+    const authorization = data.authorization;
+    return {
+      reference: data.reference,
+      status: data.status === "success" ? "success" : data.status === "failed" || data.status === "abandoned" ? "failed" : "pending",
+      amount: typeof data.amount === "number" ? data.amount / 100 : undefined, // Kobo to naira
+      currency: data.currency,
+      orderId: data.metadata?.orderId,
+      paidAt: data.paid_at ? new Date(data.paid_at) : undefined,
+      savedMethod: authorization?.reusable && authorization.authorization_code
+        ? {
+          token: authorization.authorization_code,
+          label: [authorization.brand || authorization.card_type, authorization.last4 ? `•••• ${authorization.last4}` : null]
+            .filter(Boolean).join(" ") || undefined,
+        }
+        : undefined,
+      failureReason: data.status === "success" ? undefined : data.gateway_response,
+      raw: data,
+    };
+  }
+
+  async initialize(params: PaymentInitParams): Promise<PaymentInitResult> {
+    const reference = generateReference("PSK");
+    const data = await this.request("/transaction/initialize", {
+      method: "POST",
+      body: JSON.stringify({
+        email: params.email,
+        amount: Math.round(params.amount * 100), // Convert to kobo
+        reference,
+        callback_url: params.callbackUrl,
+        cancel_action: params.cancelUrl,
+        currency: params.currency,
+        metadata: {
+          ...params.metadata,
+          orderId: params.orderId,
+          userId: params.userId,
+        },
+      }),
+    });
+
+    if (!data?.authorization_url) {
+      throw new Error("No payment URL received from Paystack");
+    }
+    return { reference, authorizationUrl: data.authorization_url };
+  }
+
+  async verify(reference: string): Promise<VerifiedPayment> {
+    const data = await this.request(`/transaction/verify/${encodeURIComponent(reference)}`);
+    return this.toVerifiedPayment(data);
+  }
+
+  async verifyWebhook(headers: Record<string, string | string[] | undefined>, rawBody: string): Promise<PaymentWebhookEvent | null> {
+    const signature = headerValue(headers["x-paystack-signature"]);
+    if (!signature) return null;
+
+    const hash = crypto.createHmac("sha512", this.secretKey).update(rawBody, "utf8").digest("hex");
+    if (!safeEqual(hash, signature)) return null;
+
+    const { event, data } = JSON.parse(rawBody);
+    if (event === "charge.success") {
+      return { type: "payment.succeeded", payment: this.toVerifiedPayment(data), raw: data };
+    }
+    if (event === "charge.failed") {
+      return { type: "payment.failed", payment: this.toVerifiedPayment(data), raw: data };
+    }
+    return { type: "ignored", raw: data };
+  }
+
+  async refund(reference: string, amount?: number): Promise<RefundResult> {
+    const data = await this.request("/refund", {
+      method: "POST",
+      body: JSON.stringify({
+        transaction: reference,
+        ...(amount !== undefined ? { amount: Math.round(amount * 100) } : {}),
+      }),
+    });
+
+    return {
+      refundId: String(data.id),
+      status: data.status === "processed" ? "succeeded" : data.status === "failed" ? "failed" : "pending",
+      amount: typeof data.amount === "number" ? data.amount / 100 : amount,
+    };
+  }
+
+  // Paystack authorizations are reusable by default for card payments
+  async chargeSavedMethod(params: RecurringChargeParams): Promise<VerifiedPayment> {
+    const data = await this.request("/transaction/charge_authorization", {
+      method: "POST",
+      body: JSON.stringify({
+        authorization_code: params.method.token,
+        email: params.email,
+        amount: Math.round(params.amount * 100),
+        currency: params.currency,
+        reference: generateReference("PSK"),
+        metadata: params.metadata,
+      }),
+    });
+    return this.toVerifiedPayment(data);
+  }
+}
+
+// Stripe Checkout; the Checkout Session id doubles as our payment reference
+export class StripeProvider implements PaymentProvider {
+  readonly name = "stripe";
+  readonly label = "Stripe";
+  readonly description = "International cards, Apple Pay & Google Pay";
+  private stripe: Stripe;
+
+  constructor(secretKey: string, private webhookSecret?: string) {
+    this.stripe = new Stripe(secretKey);
+  }
+
+  isValidReference(reference: string): boolean {
+    return /^cs_(test|live)_[A-Za-z0-9]+$/.test(reference);
+  }
+
+  private toVerifiedPayment(session: Stripe.Checkout.Session): VerifiedPayment {
+    // Only present when the session was retrieved with the payment intent expanded
+    const paymentIntent = typeof session.payment_intent === "object" ? session.payment_intent : null;
+    const paymentMethod = typeof paymentIntent?.payment_method === "string" ? paymentIntent.payment_method : paymentIntent?.payment_method?.id;
+    const customer = typeof session.customer === "string" ? session.customer : session.customer?.id;
+    return {
+      reference: session.id,
+      status: session.payment_status === "paid" || session.payment_status === "no_payment_required"
+        ? "success"
+        : session.status === "expired" ? "failed" : "pending",
+      amount: session.amount_total !== null ? session.amount_total / 100 : undefined,
+      currency: session.currency?.toUpperCase(),
+      orderId: session.metadata?.orderId,
+      paidAt: session.payment_status === "paid" ? new Date() : undefined,
+      savedMethod: paymentMethod && customer && paymentIntent?.setup_future_usage
+        ? { token: paymentMethod, customer, label: "Card" }
+        : undefined,
+      raw: session,
+    };
+  }
+
+  async initialize(params: PaymentInitParams): Promise<PaymentInitResult> {
+    // Stripe fills in {CHECKOUT_SESSION_ID} when it redirects back
+    const separator = params.callbackUrl.includes("?") ? "&" : "?";
+    const session = await this.stripe.checkout.sessions.create({
+      mode: "payment",
+      customer_email: params.email,
+      line_items: [{
+        quantity: 1,
+        price_data: {
+          currency: params.currency.toLowerCase(),
+          unit_amount: Math.round(params.amount * 100),
+          product_data: { name: params.description || `Order #${params.orderId.slice(0, 8)}` },
+        },
+      }],
+      success_url: `${params.callbackUrl}${separator}provider=stripe&reference={CHECKOUT_SESSION_ID}`,
+      cancel_url: params.cancelUrl,
+      ...(params.saveMethod ? { customer_creation: "always" as const } : {}),
+      metadata: { ...params.metadata, orderId: params.orderId, userId: params.userId },
+      payment_intent_data: {
+        metadata: { ...params.metadata, orderId: params.orderId, userId: params.userId },
+        ...(params.saveMethod ? { setup_future_usage: "off_session" as const } : {}),
+      },
+    });
+
+    if (!session.url) {
+      throw new Error("No payment URL received from Stripe");
+    }
+    return { reference: session.id, authorizationUrl: session.url };
+  }
+
+  async verify(reference: string): Promise<VerifiedPayment> {
+    const session = await this.stripe.checkout.sessions.retrieve(reference, { expand: ["payment_intent"] });
+    return this.toVerifiedPayment(session);
+  }
+
+  async verifyWebhook(headers: Record<string, string | string[] | undefined>, rawBody: string): Promise<PaymentWebhookEvent | null> {
+    const signature = headerValue(headers["stripe-signature"]);
+    if (!signature || !this.webhookSecret) return null;
+
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.webhooks.constructEvent(rawBody, signature, this.webhookSecret);
+    } catch {
+      return null;
+    }
+
+    switch (event.type) {
+      case "checkout.session.completed":
+      case "checkout.session.async_payment_succeeded":
+        return { type: "payment.succeeded", payment: this.toVerifiedPayment(event.data.object), raw: event };
+      case "checkout.session.async_payment_failed":
+      case "checkout.session.expired":
+        return { type: "payment.failed", payment: this.toVerifiedPayment(event.data.object), raw: event };
+      default:
+        return { type: "ignored", raw: event };
+    }
+  }
+
+  async refund(reference: string, amount?: number): Promise<RefundResult> {
+    const session = await this.stripe.checkout.sessions.retrieve(reference);
+    const paymentIntent = typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id;
+    if (!paymentIntent) {
+      throw new Error("Stripe session has no payment to refund");
+    }
+
+    const refund = await this.stripe.refunds.create({
+      payment_intent: paymentIntent,
+      ...(amount !== undefined ? { amount: Math.round(amount * 100) } : {}),
+    });
+
+    return {
+      refundId: refund.id,
+      status: refund.status === "succeeded" ? "succeeded" : refund.status === "failed" || refund.status === "canceled" ? "failed" : "pending",
+      amount: refund.amount / 100,
+    };
+  }
+
+  // Declines come back as errors; they are a failed charge rather than a provider outage
+  async chargeSavedMethod(params: RecurringChargeParams): Promise<VerifiedPayment> {
+    try {
+      const intent = await this.stripe.paymentIntents.create({
+        amount: Math.round(params.amount * 100),
+        currency: params.currency.toLowerCase(),
+        customer: params.method.customer,
+        payment_method: params.method.token,
+        off_session: true,
+        confirm: true,
+        description: params.description,
+        metadata: params.metadata,
+      });
+      return {
+        reference: intent.id,
+        status: intent.status === "succeeded" ? "success" : intent.status === "canceled" ? "failed" : "pending",
+        amount: intent.amount / 100,
+        currency: intent.currency.toUpperCase(),
+        paidAt: intent.status === "succeeded" ? new Date() : undefined,
+        raw: intent,
+      };
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeCardError) {
+        return {
+          reference: error.payment_intent?.id ?? generateReference("pi_failed"),
+          status: "failed",
+          failureReason: error.message,
+          raw: error.raw,
+        };
+      }
+      throw error;
+    }
+  }
+}
+
+// Local development provider: payments succeed immediately without any network calls
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+  readonly label = "Test payment";
+  readonly description = "Development only - no real charge is made";
+  private payments = new Map<string, { orderId: string; amount: number; currency: string }>();
+
+  isValidReference(reference: string): boolean {
+    return /^MOCK_\d+_[a-z0-9]+$/i.test(reference);
+  }
+
+  async initialize(params: PaymentInitParams): Promise<PaymentInitResult> {
+    const reference = generateReference("MOCK");
+    this.payments.set(reference, { orderId: params.orderId, amount: params.amount, currency: params.currency });
+
+    const separator = params.callbackUrl.includes("?") ? "&" : "?";
+    return { reference, authorizationUrl: `${params.callbackUrl}${separator}provider=mock&reference=${reference}` };
+  }
+
+  // MOCK_PAYMENT_VERIFY_STATUS=failed|pending lets the reconciler's other paths be exercised locally
+  async verify(reference: string): Promise<VerifiedPayment> {
+    const payment = this.payments.get(reference);
+    const status = process.env.MOCK_PAYMENT_VERIFY_STATUS;
+    return {
+      reference,
+      status: status === "failed" || status === "pending" ? status : "success",
+      amount: payment?.amount,
+      currency: payment?.currency,
+      orderId: payment?.orderId,
+      paidAt: new Date(),
+      savedMethod: { token: `MOCKAUTH_${reference}`, label: "Test card •••• 4242" },
+    };
+  }
+
+  // Accepts unsigned Paystack-shaped payloads so webhooks can be replayed by hand
+  async verifyWebhook(_headers: Record<string, string | string[] | undefined>, rawBody: string): Promise<PaymentWebhookEvent | null> {
+    const { event, data } = JSON.parse(rawBody);
+    if (!data?.reference || !this.isValidReference(data.reference)) return null;
+
+    if (event === "charge.success") {
+      return { type: "payment.succeeded", payment: await this.verify(data.reference), raw: data };
+    }
+    return { type: "ignored", raw: data };
+  }
+
+  async refund(_reference: string, amount?: number): Promise<RefundResult> {
+    return { refundId: generateReference("MOCKRF"), status: "succeeded", amount };
+  }
+
+  // MOCK_PAYMENT_CHARGE_STATUS=failed makes renewals decline, to exercise dunning locally
+  async chargeSavedMethod(params: RecurringChargeParams): Promise<VerifiedPayment> {
+    const failed = process.env.MOCK_PAYMENT_CHARGE_STATUS === "failed";
+    return {
+      reference: generateReference("MOCK"),
+      status: failed ? "failed" : "success",
+      amount: params.amount,
+      currency: params.currency,
+      paidAt: failed ? undefined : new Date(),
+      failureReason: failed ? "Insufficient funds (test)" : undefined,
+    };
+  }
+}
+
+export const BANK_TRANSFER_PROVIDER = "bank_transfer";
+
+export interface BankAccountDetails {
+  bankName: string;
+  accountName: string;
+  accountNumber: string;
+}
+
+// Offline transfer into our own account. There is no gateway: the client pays from their bank app,
+// uploads proof on the bank transfer page and an admin confirms the money arrived (see
+// storage.confirmPaymentProof), so verify and refund only ever report pending.
+export class BankTransferProvider implements PaymentProvider {
+  readonly name = BANK_TRANSFER_PROVIDER;
+  readonly label = "Bank transfer";
+  readonly description = "Pay into our account and upload your receipt";
+
+  constructor(readonly accountDetails: BankAccountDetails) {}
+
+  isValidReference(reference: string): boolean {
+    return /^BTR_\d+_[a-z0-9]+$/i.test(reference);
+  }
+
+  // The client is sent to our own page with the account details instead of a hosted checkout
+  async initialize(params: PaymentInitParams): Promise<PaymentInitResult> {
+    const reference = generateReference("BTR");
+    return { reference, authorizationUrl: `${new URL(params.callbackUrl).origin}/bank-transfer/${reference}` };
+  }
+
+  async verify(reference: string): Promise<VerifiedPayment> {
+    return { reference, status: "pending" };
+  }
+
+  async verifyWebhook(): Promise<PaymentWebhookEvent | null> {
+    return null;
+  }
+
+  // Money goes back by hand from the business account
+  async refund(_reference: string, amount?: number): Promise<RefundResult> {
+    return { refundId: generateReference("BTRRF"), status: "pending", amount };
+  }
+}
+
+const providers: Record<string, () => PaymentProvider | null> = {
+  paystack: () => process.env.PAYSTACK_SECRET_KEY ? new PaystackProvider(process.env.PAYSTACK_SECRET_KEY) : null,
+  stripe: () => process.env.STRIPE_SECRET_KEY
+    ? new StripeProvider(process.env.STRIPE_SECRET_KEY, process.env.STRIPE_WEBHOOK_SECRET)
+    : null,
+  bank_transfer: () => process.env.BANK_TRANSFER_BANK_NAME && process.env.BANK_TRANSFER_ACCOUNT_NAME && process.env.BANK_TRANSFER_ACCOUNT_NUMBER
+    ? new BankTransferProvider({
+      bankName: process.env.BANK_TRANSFER_BANK_NAME,
+      accountName: process.env.BANK_TRANSFER_ACCOUNT_NAME,
+      accountNumber: process.env.BANK_TRANSFER_ACCOUNT_NUMBER,
+    })
+    : null,
+  // Never offer fake payments in production unless explicitly allowed
+  mock: () => process.env.NODE_ENV !== "production" || process.env.ENABLE_MOCK_PAYMENTS === "true"
+    ? new MockPaymentProvider()
+    : null,
+};
+
+const instances = new Map<string, PaymentProvider>();
+
+export function registerPaymentProvider(name: string, factory: () => PaymentProvider | null) {
+  providers[name] = factory;
+  instances.delete(name);
+}
+
+export const DEFAULT_PAYMENT_PROVIDER = "paystack";
+
+export function getPaymentProvider(name: string = DEFAULT_PAYMENT_PROVIDER): PaymentProvider {
+  const key = name.toLowerCase();
+  const cached = instances.get(key);
+  if (cached) return cached;
+
+  const factory = providers[key];
+  if (!factory) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+
+  const provider = factory();
+  if (!provider) {
+    throw new Error("Payment service not configured");
+  }
+  instances.set(key, provider);
+  return provider;
+}
+
+// Providers that are configured in this environment, for the checkout UI
+export function getAvailablePaymentProviders(): PaymentProvider[] {
+  return Object.keys(providers)
+    .map(name => {
+      try {
+        return getPaymentProvider(name);
+      } catch {
+        return null;
+      }
+    })
+    .filter((provider): provider is PaymentProvider => provider !== null);
+}
+
+// Find the provider that issued a reference, e.g. when the callback omits ?provider=
+export function findProviderForReference(reference: string): PaymentProvider | undefined {
+  return getAvailablePaymentProviders().find(provider => provider.isValidReference(reference));
+}
+
+export function isValidPaymentReference(reference: unknown): reference is string {
+  return typeof reference === "string" && findProviderForReference(reference) !== undefined;
+}
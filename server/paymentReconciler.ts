@@ -0,0 +1,183 @@
+import { storage } from "./storage";
+import { auditLog } from "./security";
+import { PAYMENT_AMOUNT_TOLERANCE } from "./paymentProviders";
+import type { Payment } from "@shared/schema";
+
+export type ReconciliationIssueKind =
+  | "amount_mismatch" // Provider collected a different amount than the payment row expects
+  | "currency_mismatch"
+  | "paid_after_cancellation" // Provider says paid, but the order was cancelled or expired meanwhile
+  | "verification_failed"; // Provider lookups kept failing until the order expired
+
+export interface ReconciliationRunSummary {
+  startedAt: Date;
+  finishedAt: Date;
+  checked: number;
+  succeeded: number;
+  failed: number;
+  stillPending: number;
+  issues: number;
+  errors: number;
+  expiredOrders: number;
+}
+
+const BATCH_SIZE = 100;
+
+const positiveNumberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : fallback;
+};
+
+// Settles payments whose webhook never arrived and whose customer never returned to
+// /payment-success, by asking the issuing provider directly. Successes go through the same
+// idempotent handler as webhooks; anything that doesn't add up is recorded for an admin.
+// Unpaid orders are expired once their payment window has passed.
+export class PaymentReconciler {
+  private static instance: PaymentReconciler;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<ReconciliationRunSummary> | null = null;
+  lastRun: ReconciliationRunSummary | null = null;
+
+  // Pending payments younger than this are left for the webhook and callback to settle
+  readonly pendingAfterMinutes = positiveNumberFromEnv("PAYMENT_RECONCILE_AFTER_MINUTES", 15);
+  readonly orderExpiryHours = positiveNumberFromEnv("PENDING_ORDER_EXPIRY_HOURS", 72);
+
+  static getInstance(): PaymentReconciler {
+    if (!PaymentReconciler.instance) {
+      PaymentReconciler.instance = new PaymentReconciler();
+    }
+    return PaymentReconciler.instance;
+  }
+
+  // Overlapping calls (timer and a manual admin run) share the in-flight run
+  run(): Promise<ReconciliationRunSummary> {
+    if (!this.running) {
+      this.running = this.reconcile().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async reconcile(): Promise<ReconciliationRunSummary> {
+    const summary: ReconciliationRunSummary = {
+      startedAt: new Date(),
+      finishedAt: new Date(),
+      checked: 0,
+      succeeded: 0,
+      failed: 0,
+      stillPending: 0,
+      issues: 0,
+      errors: 0,
+      expiredOrders: 0,
+    };
+    const expiryCutoff = new Date(Date.now() - this.orderExpiryHours * 60 * 60 * 1000);
+
+    const stale = await storage.getStalePendingPayments(new Date(Date.now() - this.pendingAfterMinutes * 60 * 1000), BATCH_SIZE);
+    for (const payment of stale) {
+      summary.checked++;
+      try {
+        await this.reconcilePayment(payment, summary);
+      } catch (error) {
+        summary.errors++;
+        console.error(`Payment reconciliation failed for ${payment.providerId}:`, error);
+        if (payment.createdAt && payment.createdAt < expiryCutoff) {
+          await this.recordIssue(payment, "verification_failed", summary, { details: (error as Error).message });
+        }
+      }
+    }
+
+    const expired = await storage.expirePendingOrders(expiryCutoff);
+    for (const order of expired) {
+      auditLog('order_expired', order.userId, { orderId: order.id, createdAt: order.createdAt });
+    }
+    summary.expiredOrders = expired.length;
+
+    summary.finishedAt = new Date();
+    this.lastRun = summary;
+    if (summary.checked > 0 || summary.expiredOrders > 0) {
+      auditLog('payment_reconciliation_run', undefined, summary);
+    }
+    return summary;
+  }
+
+  private async reconcilePayment(payment: Payment & { orderStatus: string | null }, summary: ReconciliationRunSummary) {
+    const verified = await storage.verifyPayment(payment.providerId);
+
+    if (verified.status === "success") {
+      const expected = parseFloat(payment.amount);
+      if (verified.amount !== undefined && Math.abs(verified.amount - expected) > PAYMENT_AMOUNT_TOLERANCE) {
+        await this.recordIssue(payment, "amount_mismatch", summary, { actualAmount: verified.amount });
+        return;
+      }
+      if (verified.currency && payment.currency && verified.currency.toUpperCase() !== payment.currency.toUpperCase()) {
+        await this.recordIssue(payment, "currency_mismatch", summary, {
+          actualAmount: verified.amount,
+          details: `Expected ${payment.currency}, provider reported ${verified.currency}`,
+        });
+        return;
+      }
+      if (payment.orderStatus === "cancelled") {
+        await this.recordIssue(payment, "paid_after_cancellation", summary, { actualAmount: verified.amount });
+        return;
+      }
+
+      if (await storage.handleSuccessfulPayment(verified)) {
+        summary.succeeded++;
+        auditLog('payment_reconciled', undefined, { orderId: payment.orderId, reference: payment.providerId, outcome: 'succeeded' });
+      }
+      return;
+    }
+
+    // Still-pending payments on a cancelled order were abandoned
+    if (verified.status === "failed" || payment.orderStatus === "cancelled") {
+      if (await storage.markPaymentFailed(payment.id)) {
+        summary.failed++;
+        auditLog('payment_reconciled', undefined, { orderId: payment.orderId, reference: payment.providerId, outcome: 'failed' });
+      }
+      return;
+    }
+
+    summary.stillPending++;
+  }
+
+  private async recordIssue(
+    payment: Payment,
+    kind: ReconciliationIssueKind,
+    summary: ReconciliationRunSummary,
+    extra: { actualAmount?: number; details?: string } = {},
+  ) {
+    const recorded = await storage.recordReconciliationIssue({
+      paymentId: payment.id,
+      orderId: payment.orderId,
+      provider: payment.provider,
+      reference: payment.providerId,
+      kind,
+      expectedAmount: payment.amount,
+      actualAmount: extra.actualAmount !== undefined ? extra.actualAmount.toFixed(2) : null,
+      details: extra.details ?? null,
+    });
+    if (recorded) {
+      summary.issues++;
+      auditLog('payment_reconciliation_issue', undefined, { orderId: payment.orderId, reference: payment.providerId, kind });
+    }
+  }
+
+  start(intervalMs: number = positiveNumberFromEnv("PAYMENT_RECONCILE_INTERVAL_MINUTES", 10) * 60 * 1000): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch((error) => console.error('Payment reconciliation run failed:', error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const paymentReconciler = PaymentReconciler.getInstance();
@@ -0,0 +1,82 @@
+// Deposit-plus-balance payment schedules. Each split after the deposit is unlocked once the
+// project's stage progress reaches its threshold, so the balance falls due on delivery.
+
+export interface PaymentSchedule {
+  id: string;
+  label: string;
+  description: string;
+  splits: number[]; // Percentages of the order total, summing to 100
+}
+
+export interface PlannedInstallment {
+  sequence: number;
+  label: string;
+  percentage: number;
+  amount: string;
+  unlockAtProgress: number; // Stage progress (%) at which the installment falls due; 0 = due now
+}
+
+export const FULL_PAYMENT_SCHEDULE = "full";
+
+const schedules: PaymentSchedule[] = [
+  {
+    id: FULL_PAYMENT_SCHEDULE,
+    label: "Pay in full",
+    description: "One payment up front",
+    splits: [100],
+  },
+  {
+    id: "50_50",
+    label: "50% deposit, 50% on delivery",
+    description: "Half now, the balance when the final milestone is complete",
+    splits: [50, 50],
+  },
+  {
+    id: "40_30_30",
+    label: "40% deposit, 30% mid-project, 30% on delivery",
+    description: "Deposit now, then payments at the halfway point and on delivery",
+    splits: [40, 30, 30],
+  },
+];
+
+// Split payments are only offered on the larger packages
+const INSTALLMENT_CATEGORIES = new Set(["elite", "custom"]);
+
+export function getPaymentSchedules(category?: string | null): PaymentSchedule[] {
+  if (category && INSTALLMENT_CATEGORIES.has(category)) {
+    return schedules;
+  }
+  return schedules.filter(schedule => schedule.id === FULL_PAYMENT_SCHEDULE);
+}
+
+export function isPaymentScheduleAllowed(scheduleId: string, category?: string | null): boolean {
+  return getPaymentSchedules(category).some(schedule => schedule.id === scheduleId);
+}
+
+const installmentLabel = (index: number, count: number) => {
+  if (count === 1) return "Full payment";
+  if (index === 0) return "Deposit";
+  if (index === count - 1) return "Balance on delivery";
+  return `Milestone payment ${index}`;
+};
+
+// Each split is rounded down to whole naira and the deposit absorbs the remainder, so the
+// installments always sum to the order total (e.g. 1001 on 50_50 plans 501 + 500)
+export function planInstallments(total: number, scheduleId: string): PlannedInstallment[] {
+  const schedule = schedules.find(s => s.id === scheduleId);
+  if (!schedule) {
+    throw new Error(`Unknown payment schedule: ${scheduleId}`);
+  }
+
+  const count = schedule.splits.length;
+  const amounts = schedule.splits.map(percentage => Math.floor((total * percentage) / 100));
+  amounts[0] += total - amounts.reduce((sum, amount) => sum + amount, 0);
+
+  return schedule.splits.map((percentage, index) => ({
+    sequence: index + 1,
+    label: installmentLabel(index, count),
+    percentage,
+    amount: amounts[index].toString(),
+    unlockAtProgress: index === 0 ? 0 : Math.round((100 * index) / (count - 1)),
+  }));
+}
@@ -0,0 +1,64 @@
+import type { ProjectStage } from "@shared/schema";
+
+export type ServiceCategory = "launch" | "growth" | "elite" | "custom";
+
+interface StageTemplate {
+  title: string;
+  description: string;
+}
+
+// Default milestones created for a project when its order is paid
+export const STAGE_TEMPLATES: Record<ServiceCategory, StageTemplate[]> = {
+  launch: [
+    { title: "Discovery", description: "Kick-off call, goals and content checklist" },
+    { title: "Design", description: "Homepage and key page mockups for approval" },
+    { title: "Development", description: "Build pages and connect contact forms" },
+    { title: "Review", description: "Client review and one round of revisions" },
+    { title: "Launch", description: "Domain setup, go-live and handover" },
+  ],
+  growth: [
+    { title: "Discovery", description: "Requirements workshop and sitemap" },
+    { title: "Design", description: "Wireframes and full visual design" },
+    { title: "Development", description: "Frontend build and CMS setup" },
+    { title: "Integrations", description: "Payments, analytics and third-party services" },
+    { title: "Testing", description: "Cross-device QA and performance checks" },
+    { title: "Launch", description: "Go-live, SEO setup and training" },
+  ],
+  elite: [
+    { title: "Discovery", description: "Stakeholder interviews and technical scoping" },
+    { title: "Architecture", description: "Data model, infrastructure and API design" },
+    { title: "Design", description: "Design system and high-fidelity prototypes" },
+    { title: "Development", description: "Core application build in sprints" },
+    { title: "Integrations", description: "Third-party services and data migration" },
+    { title: "Testing", description: "QA, security review and load testing" },
+    { title: "Launch", description: "Production rollout and monitoring" },
+    { title: "Handover", description: "Documentation, training and support plan" },
+  ],
+  custom: [
+    { title: "Discovery", description: "Review the brief and agree on scope" },
+    { title: "Design", description: "Concepts and design approval" },
+    { title: "Development", description: "Build the agreed features" },
+    { title: "Testing", description: "QA and client review" },
+    { title: "Launch", description: "Delivery and handover" },
+  ],
+};
+
+export function getStageTemplate(category?: string | null): StageTemplate[] {
+  return STAGE_TEMPLATES[(category as ServiceCategory)] || STAGE_TEMPLATES.custom;
+}
+
+// Progress is the share of completed stages; the current stage is the first open one
+export function calculateStageProgress(stages: ProjectStage[]): { progressPercentage: number; currentStage: string } {
+  if (stages.length === 0) {
+    return { progressPercentage: 0, currentStage: "Discovery" };
+  }
+
+  const ordered = [...stages].sort((a, b) => a.orderIndex - b.orderIndex);
+  const completed = ordered.filter(stage => stage.isComplete).length;
+  const nextStage = ordered.find(stage => !stage.isComplete);
+
+  return {
+    progressPercentage: Math.round((completed / ordered.length) * 100),
+    currentStage: nextStage ? nextStage.title : "Completed",
+  };
+}
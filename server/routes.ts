@@ -1,12 +1,14 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import crypto from "crypto";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./auth";
+import { setupAuth, isAuthenticated, getSessionMiddleware } from "./auth";
 import { setupAuth as setupReplitAuth } from "./replitAuth";
 import { 
   insertOrderSchema, 
   insertProjectSchema, 
   insertMessageSchema,
+  insertProjectStageSchema,
   insertSupportRequestSchema,
   insertPaymentSchema,
   insertServiceSchema,
@@ -17,6 +19,25 @@ import { z } from "zod";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
 import { cacheManager, CacheKeys } from "./cache";
+import { notificationService } from "./notifications";
+import { emailService } from "./email";
+import { messageHub } from "./messageHub";
+import { listEmailTemplates, previewEmailTemplate, isEmailTemplateName } from "./emailTemplates";
+import { getAvailablePaymentProviders, getPaymentProvider, isValidPaymentReference, DEFAULT_PAYMENT_PROVIDER, BankTransferProvider } from "./paymentProviders";
+import { paymentReconciler } from "./paymentReconciler";
+import { checkoutRecovery } from "./checkoutRecovery";
+import { subscriptionBilling } from "./subscriptionBilling";
+import { orderLifecycle } from "./orderLifecycle";
+import { issueChallenge, spamGuard, botGuard, QUARANTINE_FORMS, type QuarantineForm } from "./antiAbuse";
+import { isOrderStatus } from "@shared/orderLifecycle";
+import { QUOTE_STATUSES, isQuoteStatus, projectTypes, budgetRanges, timelines, quoteOptionLabel, type QuoteOption } from "@shared/quotes";
+import { isBillingInterval, monthlyRecurringAmount } from "@shared/subscriptions";
+import { getPaymentSchedules, isPaymentScheduleAllowed, FULL_PAYMENT_SCHEDULE } from "./paymentSchedules";
+import { renderInvoicePdf } from "./invoices";
+import { priceOrder, clientTotalMatches, settlementCatalogue, readAddOnNames } from "./orderPricing";
+import { SETTLEMENT_CURRENCY, CURRENCY_CODE_PATTERN, normalizeCurrencyCode } from "@shared/currency";
+import { couponLineDescription, COUPON_CODE_PATTERN, normalizeCouponCode } from "./coupons";
+import { getFileStorage, validateUpload, sanitizeFilename, attachmentDisposition, MAX_FILE_SIZE, PAYMENT_PROOF_FILE_TYPES } from "./fileStorage";
 import { 
   checkRateLimit, 
   validateContentType, 
@@ -66,19 +87,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
 
-  // Services routes with rate limiting
-  app.get('/api/services', authRateLimit('api'), async (req, res) => {
-    try {
-      const services = await storage.getActiveServices();
+  // Prices go out in the settlement currency, which is what checkout charges.
+  // A service whose base currency has no rate can't be priced, so it isn't listed.
+  const getPricedCatalogue = async () => {
+    const [services, rates] = await Promise.all([storage.getActiveServices(), storage.getExchangeRates()]);
+    const rateFor = (currency: string) =>
+      currency === SETTLEMENT_CURRENCY ? 1 : parseFloat(rates.find(row => row.currency === currency)?.rate ?? '');
 
-      // Remove sensitive internal data before sending to client
-      const publicServices = services.map(service => ({
+    return services
+      .filter(service => rateFor(service.currency) > 0)
+      .map(service => ({
         ...service,
+        ...settlementCatalogue(service, rateFor(service.currency)),
         // Don't expose internal flags or sensitive data
         createdAt: undefined,
         updatedAt: undefined
       }));
+  };
 
+  // Services routes with rate limiting
+  app.get('/api/services', authRateLimit('api'), async (req, res) => {
+    try {
+      // Recurring plans are sold through /api/subscription-plans
+      const publicServices = (await getPricedCatalogue()).filter(service => !service.billingInterval);
       res.json(publicServices);
     } catch (error) {
       console.error("Error fetching services:", error);
@@ -87,6 +118,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/subscription-plans', authRateLimit('api'), async (req, res) => {
+    try {
+      const plans = (await getPricedCatalogue()).filter(service => !!service.billingInterval);
+      res.json(plans);
+    } catch (error) {
+      console.error("Error fetching subscription plans:", error);
+      auditLog('api_error', undefined, { endpoint: '/api/subscription-plans', error: (error as Error).message });
+      res.status(500).json({ message: "Failed to fetch subscription plans" });
+    }
+  });
+
+  // A service's base currency needs an exchange rate before its prices can be converted
+  const isPricedCurrency = async (currency: unknown) => {
+    if (currency === undefined) return true;
+    if (typeof currency !== 'string' || !CURRENCY_CODE_PATTERN.test(currency)) return false;
+    try {
+      await storage.getExchangeRate(currency);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+  const unpricedCurrencyMessage = "Set an exchange rate for this currency before pricing services in it";
+
+  // null (or empty) turns a plan back into a one-off service
+  const isValidBillingInterval = (value: unknown) =>
+    value === undefined || value === null || value === '' || isBillingInterval(value);
+
   // Admin service management routes
   app.get('/api/admin/services', isAuthenticated, async (req: any, res) => {
     try {
@@ -129,6 +188,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Admin access required" });
       }
 
+      if (!(await isPricedCurrency(req.body.currency))) {
+        return res.status(400).json({ message: unpricedCurrencyMessage });
+      }
+
       const serviceData = insertServiceSchema.parse({
         ...req.body,
         addOns: typeof req.body.addOns === 'string' ? req.body.addOns : JSON.stringify(req.body.addOns)
@@ -152,7 +215,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Admin access required" });
       }
 
+      if (!(await isPricedCurrency(req.body.currency))) {
+        return res.status(400).json({ message: unpricedCurrencyMessage });
+      }
+
+      if (!isValidBillingInterval(req.body.billingInterval)) {
+        return res.status(400).json({ message: "Invalid billing interval" });
+      }
+
       const updateData = { ...req.body };
+      if (updateData.billingInterval === '') {
+        updateData.billingInterval = null;
+      }
       if (updateData.addOns && typeof updateData.addOns !== 'string') {
         updateData.addOns = JSON.stringify(updateData.addOns);
       }
@@ -196,10 +270,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Missing required order data" });
       }
 
-      // Validate amount is reasonable (between ₦100 and ₦10,000,000)
-      const amount = parseInt(orderData.totalAmount?.toString() || orderData.totalPrice?.toString() || '0');
-      if (isNaN(amount) || amount < 100 || amount > 10000000) {
-        auditLog('order_validation_failed', userId, { reason: 'invalid_amount', amount, clientIP });
+      // The client's figure is only compared against the server-computed total below
+      const clientAmount = parseFloat(orderData.totalAmount?.toString() || orderData.totalPrice?.toString() || '0');
+      if (isNaN(clientAmount)) {
+        auditLog('order_validation_failed', userId, { reason: 'invalid_amount', clientIP });
         return res.status(400).json({ message: "Invalid order amount" });
       }
 
@@ -218,27 +292,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid email format" });
       }
 
+      const paymentMethod = sanitizeInput(orderData.paymentMethod || DEFAULT_PAYMENT_PROVIDER);
+      if (!getAvailablePaymentProviders().some(provider => provider.name === paymentMethod)) {
+        auditLog('order_validation_failed', userId, { reason: 'invalid_payment_method', paymentMethod, clientIP });
+        return res.status(400).json({ message: "Unsupported payment method" });
+      }
+
+      const service = await storage.getServiceById(sanitizeInput(orderData.serviceId));
+      if (!service || service.isActive === false) {
+        auditLog('order_validation_failed', userId, { reason: 'unknown_service', serviceId: orderData.serviceId, clientIP });
+        return res.status(400).json({ message: "Service not available" });
+      }
+      if (service.billingInterval) {
+        auditLog('order_validation_failed', userId, { reason: 'subscription_plan', serviceId: service.id, clientIP });
+        return res.status(400).json({ message: "This plan is billed as a subscription" });
+      }
+
+      // Deposit-plus-balance schedules are limited to the larger packages
+      const paymentSchedule = sanitizeInput(orderData.paymentSchedule || FULL_PAYMENT_SCHEDULE);
+      if (!isPaymentScheduleAllowed(paymentSchedule, service?.category)) {
+        auditLog('order_validation_failed', userId, { reason: 'invalid_payment_schedule', paymentSchedule, clientIP });
+        return res.status(400).json({ message: "Payment schedule not available for this service" });
+      }
+
       // Sanitize project details - handle both formats
       const projectDetails = {
         description: sanitizeInput((orderData.projectDetails && orderData.projectDetails.description) || orderData.projectDescription || '')
       };
 
-      // Sanitize and validate add-ons - handle both formats
-      let selectedAddOns: string[] = [];
-      const addOnsData = orderData.selectedAddOns || orderData.overrideSelectedAddOns || [];
-      if (Array.isArray(addOnsData)) {
-        selectedAddOns = addOnsData
-          .filter((addon: any) => typeof addon === 'string' && addon.trim().length > 0)
-          .map((addon: string) => sanitizeInput(addon));
+      // Add-ons are checked against the service catalogue when the order is priced - handle both formats
+      const selectedAddOns = readAddOnNames(orderData.selectedAddOns || orderData.overrideSelectedAddOns);
+
+      // Unknown or unrated display currencies fall back to the settlement currency
+      let displayCurrency = SETTLEMENT_CURRENCY;
+      let exchangeRate = 1;
+      if (typeof orderData.displayCurrency === 'string' && CURRENCY_CODE_PATTERN.test(normalizeCurrencyCode(orderData.displayCurrency))) {
+        try {
+          exchangeRate = await storage.getExchangeRate(normalizeCurrencyCode(orderData.displayCurrency));
+          displayCurrency = normalizeCurrencyCode(orderData.displayCurrency);
+        } catch {
+          exchangeRate = 1;
+        }
+      }
+
+      // Price the order from the catalogue; the stored line items are the source of truth
+      let pricing;
+      let baseRate: number;
+      try {
+        baseRate = await storage.getExchangeRate(service.currency);
+        pricing = priceOrder(service, selectedAddOns, { baseRate });
+      } catch (pricingError) {
+        auditLog('order_validation_failed', userId, { reason: 'invalid_pricing', error: (pricingError as Error).message, clientIP });
+        return res.status(400).json({ message: (pricingError as Error).message });
+      }
+
+      let coupon: schema.Coupon | undefined;
+      if (typeof orderData.couponCode === 'string' && orderData.couponCode.trim()) {
+        try {
+          const applied = await storage.validateCoupon(sanitizeInput(orderData.couponCode), {
+            service,
+            subtotal: pricing.subtotal,
+            userId,
+          });
+          coupon = applied.coupon;
+          pricing = priceOrder(service, selectedAddOns, {
+            discounts: [{ description: couponLineDescription(applied.coupon), amount: applied.discount }],
+            baseRate,
+          });
+        } catch (couponError) {
+          auditLog('order_validation_failed', userId, { reason: 'invalid_coupon', error: (couponError as Error).message, clientIP });
+          return res.status(400).json({ message: (couponError as Error).message });
+        }
+      }
+
+      const amount = pricing.total;
+      if (amount < 100 || amount > 10000000) {
+        auditLog('order_validation_failed', userId, { reason: 'invalid_amount', amount, clientIP });
+        return res.status(400).json({ message: "Invalid order amount" });
+      }
+
+      if (!clientTotalMatches(clientAmount, pricing)) {
+        auditLog('order_validation_failed', userId, { reason: 'price_mismatch', clientAmount, amount, clientIP });
+        return res.status(400).json({
+          message: "The order total does not match current pricing. Please review your order and try again.",
+          expectedTotal: amount,
+        });
       }
 
-      // Build comprehensive custom request data with add-ons
       const customRequestData = {
         contactInfo,
         projectDetails,
-        selectedAddOns,
         timeline: sanitizeInput(orderData.timeline || ''),
-        paymentMethod: sanitizeInput(orderData.paymentMethod || 'paystack')
+        paymentMethod
       };
 
       // Prepare validated order data
@@ -248,29 +393,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
         customRequest: JSON.stringify(customRequestData),
         totalPrice: amount.toString(),
         status: 'pending' as const,
+        paymentSchedule,
+        couponId: coupon?.id ?? null,
+        currency: SETTLEMENT_CURRENCY,
+        displayCurrency,
+        exchangeRate: exchangeRate.toString(),
       };
 
-      // Create the order
-      const order = await storage.createOrder(validatedOrderData);
+      // Create the order; coupon usage limits are re-checked under a lock here
+      let order;
+      try {
+        order = await storage.createOrder(validatedOrderData, pricing.lineItems);
+      } catch (createError) {
+        if (/fully booked/i.test((createError as Error).message)) {
+          auditLog('order_validation_failed', userId, { reason: 'service_fully_booked', serviceId: service.id, clientIP });
+          return res.status(409).json({ message: "This package is fully booked. Please choose another package or contact us." });
+        }
+        if (coupon && /usage limit|already used|coupon/i.test((createError as Error).message)) {
+          auditLog('order_validation_failed', userId, { reason: 'coupon_exhausted', couponId: coupon.id, clientIP });
+          return res.status(400).json({ message: (createError as Error).message });
+        }
+        throw createError;
+      }
       auditLog('order_created', userId, { 
         orderId: order.id, 
         amount, 
         serviceId: orderData.serviceId,
         addOnsCount: selectedAddOns.length,
+        paymentSchedule,
+        couponCode: coupon?.code,
+        discount: pricing.discountTotal,
+        displayCurrency,
+        exchangeRate,
         clientIP 
       });
 
-      // Initialize payment
+      // Close the checkout session this order came from so it counts as converted, not abandoned
+      if (typeof orderData.checkoutSessionToken === 'string' && orderData.checkoutSessionToken) {
+        try {
+          await storage.completeCheckoutSession(sanitizeInput(orderData.checkoutSessionToken), order.id, userId);
+        } catch (sessionError) {
+          console.error("Error completing checkout session:", sessionError);
+        }
+      }
+
+      // Initialize payment for the first installment (the full amount unless a schedule was chosen)
       if (order?.id) {
+        const [firstInstallment] = await storage.getOrderInstallments(order.id);
+        const amountDue = firstInstallment ? parseFloat(firstInstallment.amount) : amount;
+        const sendOrderCreatedEmail = (paymentUrl?: string) => {
+          void emailService.sendTemplate(contactInfo.email, 'order_created', {
+            firstName: contactInfo.fullName.split(' ')[0],
+            orderId: order.id,
+            serviceName: service?.name || 'Custom Project',
+            amount: amountDue,
+            paymentUrl,
+          });
+        };
+
         try {
           const paymentUrl = await storage.initializePayment({
             orderId: order.id,
-            amount,
+            amount: amountDue,
             email: contactInfo.email,
             userId,
+            provider: paymentMethod,
+            installmentId: firstInstallment?.id,
           });
 
-          auditLog('payment_initialized', userId, { orderId: order.id, amount, clientIP });
+          auditLog('payment_initialized', userId, { orderId: order.id, amount: amountDue, provider: paymentMethod, clientIP });
+          sendOrderCreatedEmail(paymentUrl);
           res.json({ ...order, paymentUrl });
         } catch (paymentError) {
           auditLog('payment_initialization_failed', userId, { 
@@ -278,6 +470,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             error: (paymentError as Error).message, 
             clientIP 
           });
+          sendOrderCreatedEmail();
           res.json(order);
         }
       } else {
@@ -320,6 +513,239 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Preview a discount code at checkout. The same checks run again when the order is placed.
+  app.post('/api/coupons/validate', authRateLimit('checkout'), async (req: any, res) => {
+    try {
+      const { code, serviceId, selectedAddOns } = req.body || {};
+      if (typeof code !== 'string' || !code.trim() || typeof serviceId !== 'string') {
+        return res.status(400).json({ message: "Discount code and service are required" });
+      }
+
+      const service = await storage.getServiceById(sanitizeInput(serviceId));
+      if (!service || service.isActive === false) {
+        return res.status(400).json({ message: "Service not available" });
+      }
+
+      const addOns = readAddOnNames(selectedAddOns);
+      const baseRate = await storage.getExchangeRate(service.currency);
+      const basePricing = priceOrder(service, addOns, { baseRate });
+      const { coupon, discount } = await storage.validateCoupon(sanitizeInput(code), {
+        service,
+        subtotal: basePricing.subtotal,
+        userId: req.user?.id,
+      });
+      const pricing = priceOrder(service, addOns, {
+        discounts: [{ description: couponLineDescription(coupon), amount: discount }],
+        baseRate,
+      });
+
+      res.json({
+        code: coupon.code,
+        description: coupon.description,
+        discount: pricing.discountTotal,
+        subtotal: pricing.subtotal,
+        total: pricing.total,
+      });
+    } catch (error) {
+      res.status(400).json({ message: (error as Error).message || "Invalid discount code" });
+    }
+  });
+
+  // Schedules the checkout can offer for a service, or for a category (quotes use "custom")
+  app.get('/api/payment-schedules', async (req, res) => {
+    try {
+      const serviceId = typeof req.query.serviceId === 'string' ? req.query.serviceId : '';
+      const service = serviceId ? await storage.getServiceById(sanitizeInput(serviceId)) : undefined;
+      const category = typeof req.query.category === 'string' ? req.query.category : undefined;
+      res.json(getPaymentSchedules(service?.category ?? category));
+    } catch (error) {
+      console.error("Error fetching payment schedules:", error);
+      res.status(500).json({ message: "Failed to fetch payment schedules" });
+    }
+  });
+
+  // Pay an installment that a completed milestone has unlocked
+  app.post('/api/orders/:orderId/installments/:installmentId/pay', authRateLimit('payment_reactivation'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { orderId, installmentId } = req.params;
+
+      if (!validateOrderId(orderId) || !validateOrderId(installmentId)) {
+        return res.status(400).json({ message: "Invalid order or installment ID" });
+      }
+
+      const paymentUrl = await storage.payInstallment(orderId, installmentId, userId);
+      auditLog('installment_payment_initialized', userId, { orderId, installmentId, clientIP: req.ip });
+      res.json({ paymentUrl });
+    } catch (error) {
+      const message = (error as Error).message;
+      auditLog('installment_payment_failed', req.user?.id, { orderId: req.params.orderId, error: message, clientIP: req.ip });
+      if (/not found/i.test(message)) {
+        return res.status(404).json({ message });
+      }
+      if (/not authorized/i.test(message)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (/already paid|not due|cancelled/i.test(message)) {
+        return res.status(400).json({ message });
+      }
+      res.status(500).json({ message: "Failed to start installment payment" });
+    }
+  });
+
+  // Invoices and receipts are available to the client who placed the order and to admins
+  const getAccessibleOrder = async (orderId: string, userId: string) => {
+    const [order] = await db.select().from(schema.orders).where(eq(schema.orders.id, orderId));
+    if (!order) return { order: undefined, allowed: false };
+    if (order.userId === userId) return { order, allowed: true };
+    const user = await storage.getUser(userId);
+    return { order, allowed: user?.role === 'admin' };
+  };
+
+  const isCompletedPayment = (payment: schema.Payment) => payment.status === 'succeeded' || payment.status === 'refunded';
+
+  const sendPdf = (res: any, filename: string, pdf: Buffer) => {
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.send(pdf);
+  };
+
+  app.get('/api/orders/:orderId/documents', isAuthenticated, async (req: any, res) => {
+    try {
+      const { orderId } = req.params;
+      if (!validateOrderId(orderId)) {
+        return res.status(400).json({ message: "Invalid order ID" });
+      }
+
+      const { order, allowed } = await getAccessibleOrder(orderId, req.user.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (!allowed) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const [orderPayments, issued] = await Promise.all([
+        storage.getOrderPayments(orderId),
+        storage.getOrderInvoices(orderId),
+      ]);
+      const completed = orderPayments.filter(isCompletedPayment);
+      const invoice = issued.find(doc => doc.kind === 'invoice');
+
+      res.json({
+        invoice: completed.length > 0
+          ? { number: invoice?.number ?? null, url: `/api/orders/${orderId}/invoice.pdf` }
+          : null,
+        receipts: completed.map(payment => ({
+          paymentId: payment.id,
+          number: issued.find(doc => doc.paymentId === payment.id)?.number ?? null,
+          amount: payment.amount,
+          paidAt: payment.paidAt,
+          url: `/api/payments/${payment.id}/receipt.pdf`,
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching order documents:", error);
+      res.status(500).json({ message: "Failed to fetch order documents" });
+    }
+  });
+
+  // Status timeline; staff names are only shown to admins
+  app.get('/api/orders/:orderId/status-history', isAuthenticated, async (req: any, res) => {
+    try {
+      const { orderId } = req.params;
+      if (!validateOrderId(orderId)) {
+        return res.status(400).json({ message: "Invalid order ID" });
+      }
+
+      const { order, allowed } = await getAccessibleOrder(orderId, req.user.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (!allowed) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const history = await storage.getOrderStatusHistory(orderId);
+      const isOwner = order.userId === req.user.id;
+      res.json(history.map(entry => ({
+        ...entry,
+        changedByName: !isOwner || entry.changedBy === req.user.id ? entry.changedByName : null,
+      })));
+    } catch (error) {
+      console.error("Error fetching order status history:", error);
+      res.status(500).json({ message: "Failed to fetch order status history" });
+    }
+  });
+
+  app.get('/api/orders/:orderId/invoice.pdf', authRateLimit('api'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { orderId } = req.params;
+      if (!validateOrderId(orderId)) {
+        return res.status(400).json({ message: "Invalid order ID" });
+      }
+
+      const { order, allowed } = await getAccessibleOrder(orderId, userId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (!allowed) {
+        auditLog('invoice_access_denied', userId, { orderId, clientIP: req.ip });
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      // Numbers are only spent on orders that have actually been paid
+      const orderPayments = await storage.getOrderPayments(orderId);
+      if (!orderPayments.some(isCompletedPayment)) {
+        return res.status(400).json({ message: "An invoice is issued once the order has been paid" });
+      }
+
+      const invoice = await storage.issueOrderInvoice(orderId);
+      const pdf = await renderInvoicePdf(invoice);
+      auditLog('invoice_downloaded', userId, { orderId, invoiceNumber: invoice.number, clientIP: req.ip });
+      sendPdf(res, `${invoice.number}.pdf`, pdf);
+    } catch (error) {
+      console.error("Error generating invoice:", error);
+      res.status(500).json({ message: "Failed to generate invoice" });
+    }
+  });
+
+  app.get('/api/payments/:paymentId/receipt.pdf', authRateLimit('api'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { paymentId } = req.params;
+      if (!validateOrderId(paymentId)) {
+        return res.status(400).json({ message: "Invalid payment ID" });
+      }
+
+      const [payment] = await db.select().from(schema.payments).where(eq(schema.payments.id, paymentId));
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      const { allowed } = await getAccessibleOrder(payment.orderId, userId);
+      if (!allowed) {
+        auditLog('receipt_access_denied', userId, { paymentId, clientIP: req.ip });
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!isCompletedPayment(payment)) {
+        return res.status(400).json({ message: "A receipt is issued once the payment has completed" });
+      }
+
+      const invoice = await storage.issueOrderInvoice(payment.orderId);
+      const receipt = await storage.issuePaymentReceipt(paymentId);
+      const pdf = await renderInvoicePdf(receipt, { payment, invoiceNumber: invoice.number });
+      auditLog('receipt_downloaded', userId, { paymentId, receiptNumber: receipt.number, clientIP: req.ip });
+      sendPdf(res, `${receipt.number}.pdf`, pdf);
+    } catch (error) {
+      console.error("Error generating receipt:", error);
+      res.status(500).json({ message: "Failed to generate receipt" });
+    }
+  });
+
   // Cancel pending order
   app.delete('/api/orders/:orderId', authRateLimit('api'), isAuthenticated, async (req: any, res) => {
     try {
@@ -345,7 +771,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if ((error as Error).message.includes('not found') || (error as Error).message.includes('not authorized')) {
         return res.status(404).json({ message: "Order not found or not authorized" });
       }
-      if ((error as Error).message.includes('cannot be cancelled')) {
+      if ((error as Error).message.includes('cannot be cancelled') || /cannot change order/i.test((error as Error).message)) {
         return res.status(400).json({ message: "Order cannot be cancelled" });
       }
       res.status(500).json({ message: "Failed to cancel order" });
@@ -414,7 +840,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { id } = req.params;
-      const { status } = req.body;
+      const { status, reason } = req.body;
 
       // Validate order ID format (UUID)
       if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
@@ -423,17 +849,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Validate status
-      const validStatuses = ['pending', 'paid', 'in_progress', 'complete', 'cancelled'];
-      if (!validStatuses.includes(status)) {
+      if (!isOrderStatus(status)) {
         auditLog('invalid_order_status', userId, { orderId: id, status, clientIP });
         return res.status(400).json({ message: "Invalid order status" });
       }
 
-      const order = await storage.updateOrderStatus(id, sanitizeInput(status));
-      auditLog('order_status_updated', userId, { orderId: id, newStatus: status, clientIP });
+      const order = await orderLifecycle.transition(id, status, {
+        source: 'admin',
+        changedBy: userId,
+        reason: typeof reason === 'string' && reason.trim() ? sanitizeInput(reason).slice(0, 500) : null,
+      });
       res.json(order);
     } catch (error) {
-      auditLog('order_update_error', req.user?.id, { orderId: req.params.id, error: (error as Error).message, clientIP: req.ip });
+      const message = (error as Error).message;
+      auditLog('order_update_error', req.user?.id, { orderId: req.params.id, error: message, clientIP: req.ip });
+      if (/not found/i.test(message)) {
+        return res.status(404).json({ message });
+      }
+      if (/cannot change order/i.test(message)) {
+        return res.status(409).json({ message });
+      }
       res.status(500).json({ message: "Failed to update order status" });
     }
   });
@@ -474,6 +909,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/projects/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { id } = req.params;
+
+      const hasAccess = await storage.userHasProjectAccess(userId, id);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const project = await storage.getProjectById(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      res.json(project);
+    } catch (error) {
+      console.error("Error fetching project:", error);
+      res.status(500).json({ message: "Failed to fetch project" });
+    }
+  });
+
   app.post('/api/projects', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -490,6 +947,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid project data", errors: error.errors });
       }
+      if (/already has a project/.test((error as Error).message)) {
+        return res.status(409).json({ message: (error as Error).message });
+      }
       console.error("Error creating project:", error);
       res.status(500).json({ message: "Failed to create project" });
     }
@@ -518,8 +978,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Debug: Log the updates being applied
       console.log('Updating project with:', { id, updates });
 
+      const previousProject = await storage.getProjectById(id);
       const project = await storage.updateProject(id, updates);
 
+      if (updates.status && project && previousProject?.status !== updates.status) {
+        await notificationService.projectStatusChanged(project.userId, project.id, project.projectName, updates.status);
+        if (updates.status === 'completed') {
+          void emailService.sendTemplateToUser(project.userId, 'project_completed', {
+            projectId: project.id,
+            projectName: project.projectName || 'Your project',
+          });
+        }
+      }
+
       console.log('Updated project result:', project);
       res.json(project);
     } catch (error) {
@@ -540,14 +1011,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized" });
       }
 
-      const messages = await storage.getProjectMessages(projectId);
-      res.json(messages);
+      const { before, limit, unread } = req.query;
+      const result = await storage.getProjectMessages(projectId, {
+        before: typeof before === 'string' ? before : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        unreadFor: unread === 'true' ? userId : undefined,
+      });
+      res.json(result);
     } catch (error) {
       console.error("Error fetching messages:", error);
       res.status(500).json({ message: "Failed to fetch messages" });
     }
   });
 
+  // REST fallback for read receipts when the socket isn't connected
+  app.post('/api/projects/:projectId/messages/read', validateContentType, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { projectId } = req.params;
+
+      const hasAccess = await storage.userHasProjectAccess(userId, projectId);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const messageId = typeof req.body?.messageId === 'string' ? req.body.messageId : undefined;
+      const result = await storage.markMessagesRead(projectId, userId, messageId);
+      if (result.messageIds.length > 0) {
+        messageHub.publishRead(projectId, userId, result.messageIds, result.readAt);
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error marking messages read:", error);
+      res.status(500).json({ message: "Failed to mark messages as read" });
+    }
+  });
+
   app.post('/api/projects/:projectId/messages', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -562,12 +1061,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const messageData = insertMessageSchema.parse({
         ...req.body,
+        content: typeof req.body.content === 'string' ? req.body.content.trim() : req.body.content,
         projectId,
         senderId: userId,
         isAdmin: user?.role === 'admin',
       });
+      const fileIds = z.array(z.string().uuid()).max(10).optional().parse(req.body.fileIds) || [];
+
+      if (!messageData.content && fileIds.length === 0) {
+        return res.status(400).json({ message: "Message content or an attachment is required" });
+      }
+
+      const message = await storage.createMessage(messageData, fileIds);
+      messageHub.publishMessage({ ...message, sender: { firstName: user?.firstName ?? null, lastName: user?.lastName ?? null } });
+      const preview = message.content ||
+        `Sent ${message.attachments.length} attachment${message.attachments.length === 1 ? '' : 's'}`;
+
+      const project = await storage.getProjectById(projectId);
+      if (project) {
+        await notificationService.newProjectMessage({
+          projectId,
+          projectOwnerId: project.userId,
+          senderId: userId,
+          senderName: `${user?.firstName || ''} ${user?.lastName || ''}`.trim() || 'a client',
+          isAdmin: user?.role === 'admin',
+          preview,
+        });
+
+        if (user?.role === 'admin' && project.userId !== userId) {
+          void emailService.sendTemplateToUser(project.userId, 'new_message', {
+            projectId,
+            projectName: project.projectName || 'your project',
+            preview,
+          });
+        }
+      }
 
-      const message = await storage.createMessage(messageData);
       res.json(message);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -578,43 +1107,186 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Payment routes
-  app.post('/api/payments/initialize', isAuthenticated, async (req: any, res) => {
+  // Project file routes
+  app.get('/api/projects/:projectId/files', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { orderId, amount, email } = req.body;
+      const { projectId } = req.params;
 
-      const paymentUrl = await storage.initializePayment({
-        orderId,
-        amount,
-        email,
-        userId,
-      });
+      const hasAccess = await storage.userHasProjectAccess(userId, projectId);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
 
-      res.json({ paymentUrl });
+      const projectFiles = await storage.getProjectFiles(projectId);
+      // Storage locations are internal - clients download through the API
+      res.json(projectFiles.map(({ fileUrl, ...file }) => file));
     } catch (error) {
-      console.error("Error initializing payment:", error);
-      res.status(500).json({ message: "Failed to initialize payment" });
+      console.error("Error fetching files:", error);
+      res.status(500).json({ message: "Failed to fetch files" });
     }
   });
 
-  // Test route to verify callback endpoint is working
-  app.get('/api/payments/test-callback', (req, res) => {
-    res.json({ message: 'Callback endpoint is working', timestamp: new Date().toISOString() });
-  });
+  // Files arrive as base64 in a JSON body: { filename, mimeType, data }
+  app.post('/api/projects/:projectId/files', authRateLimit('upload'), validateContentType, validateRequestSize(Math.ceil(MAX_FILE_SIZE * 1.4)), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { projectId } = req.params;
+
+      const hasAccess = await storage.userHasProjectAccess(userId, projectId);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
 
+      const { filename, mimeType, data } = req.body;
+      if (!filename || !mimeType || !data || typeof data !== 'string') {
+        return res.status(400).json({ message: "Filename, type and file data are required" });
+      }
 
+      const safeName = sanitizeFilename(filename);
+      const buffer = Buffer.from(data.replace(/^data:[^;]+;base64,/, ''), 'base64');
 
-  // Payment callback route (for redirect after payment)
-  app.get('/api/payments/callback', async (req, res) => {
-    const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
-    
+      const validation = validateUpload(safeName, mimeType, buffer.length);
+      if (!validation.valid) {
+        return res.status(400).json({ message: validation.message });
+      }
+
+      const fileStorage = getFileStorage();
+      const key = `${projectId}/${crypto.randomUUID()}-${safeName}`;
+      const location = await fileStorage.save(key, buffer, mimeType);
+
+      try {
+        const file = await storage.createFile({
+          projectId,
+          uploadedBy: userId,
+          fileUrl: location,
+          filename: safeName,
+          mimeType,
+          sizeBytes: buffer.length,
+        });
+
+        auditLog('file_uploaded', userId, { projectId, fileId: file.id, filename: safeName, size: buffer.length });
+
+        const { fileUrl, ...publicFile } = file;
+        res.json(publicFile);
+      } catch (error) {
+        // Don't leave an orphaned blob behind if the row could not be written
+        await fileStorage.remove(location).catch(() => {});
+        throw error;
+      }
+    } catch (error) {
+      console.error("Error uploading file:", error);
+      res.status(500).json({ message: "Failed to upload file" });
+    }
+  });
+
+  app.get('/api/projects/:projectId/files/:fileId/download', isAuthenticated, async (req: any, res) => {
     try {
-      // Security: Rate limit callback attempts
-      const { allowed, message } = checkRateLimit('payment_callback', clientIP);
-      if (!allowed) {
-        auditLog('payment_callback_rate_limited', undefined, { clientIP, message });
-        return res.status(429).send(`
+      const userId = req.user.id;
+      const { projectId, fileId } = req.params;
+
+      const hasAccess = await storage.userHasProjectAccess(userId, projectId);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const file = await storage.getFileById(fileId);
+      if (!file || file.projectId !== projectId) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const content = await getFileStorage().read(file.fileUrl);
+
+      res.setHeader('Content-Type', file.mimeType || 'application/octet-stream');
+      res.setHeader('Content-Length', content.length);
+      res.setHeader('Content-Disposition', attachmentDisposition(file.filename));
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.send(content);
+    } catch (error) {
+      console.error("Error downloading file:", error);
+      res.status(500).json({ message: "Failed to download file" });
+    }
+  });
+
+  app.delete('/api/projects/:projectId/files/:fileId', validateContentType, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { projectId, fileId } = req.params;
+
+      const hasAccess = await storage.userHasProjectAccess(userId, projectId);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const file = await storage.getFileById(fileId);
+      if (!file || file.projectId !== projectId) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      // Only the uploader or an admin may remove a file
+      const user = await storage.getUser(userId);
+      if (file.uploadedBy !== userId && user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      await storage.deleteFile(fileId);
+      await getFileStorage().remove(file.fileUrl);
+
+      auditLog('file_deleted', userId, { projectId, fileId, filename: file.filename });
+      res.json({ message: "File deleted" });
+    } catch (error) {
+      console.error("Error deleting file:", error);
+      res.status(500).json({ message: "Failed to delete file" });
+    }
+  });
+
+  // Payment routes
+  app.get('/api/payments/providers', (req, res) => {
+    res.json(getAvailablePaymentProviders().map(provider => ({
+      name: provider.name,
+      label: provider.label,
+      description: provider.description,
+      recurring: !!provider.chargeSavedMethod, // Can charge subscription renewals
+    })));
+  });
+
+  app.post('/api/payments/initialize', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { orderId, amount, email, provider } = req.body;
+
+      const paymentUrl = await storage.initializePayment({
+        orderId,
+        amount,
+        email,
+        userId,
+        provider,
+      });
+
+      res.json({ paymentUrl });
+    } catch (error) {
+      console.error("Error initializing payment:", error);
+      res.status(500).json({ message: "Failed to initialize payment" });
+    }
+  });
+
+  // Test route to verify callback endpoint is working
+  app.get('/api/payments/test-callback', (req, res) => {
+    res.json({ message: 'Callback endpoint is working', timestamp: new Date().toISOString() });
+  });
+
+
+
+  // Payment callback route (for redirect after payment)
+  app.get('/api/payments/callback', async (req, res) => {
+    const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
+    
+    try {
+      // Security: Rate limit callback attempts
+      const { allowed, message } = checkRateLimit('payment_callback', clientIP);
+      if (!allowed) {
+        auditLog('payment_callback_rate_limited', undefined, { clientIP, message });
+        return res.status(429).send(`
           <!DOCTYPE html>
           <html>
           <head>
@@ -643,7 +1315,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const paymentReference = (reference || trxref) as string;
 
       // Security: Validate payment reference format
-      if (!paymentReference || !/^PSK_\d+_[a-z0-9]+$/i.test(paymentReference)) {
+      if (!isValidPaymentReference(paymentReference)) {
         auditLog('payment_callback_invalid_reference', undefined, { clientIP, reference: paymentReference });
         return res.status(400).send(`
           <!DOCTYPE html>
@@ -671,32 +1343,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       if (paymentReference) {
-        // Verify payment with Paystack before confirming success
+        // Verify payment with the issuing provider before confirming success
         try {
-          const paystackSecretKey = process.env.PAYSTACK_SECRET_KEY;
-          if (!paystackSecretKey) {
-            throw new Error('Payment service not configured');
-          }
+          const verified = await storage.verifyPayment(paymentReference);
 
-          const verifyResponse = await fetch(`https://api.paystack.co/transaction/verify/${paymentReference}`, {
-            headers: {
-              Authorization: `Bearer ${paystackSecretKey}`,
-            },
-          });
-
-          if (!verifyResponse.ok) {
-            throw new Error(`Paystack API error: ${verifyResponse.status}`);
-          }
-
-          const verifyData = await verifyResponse.json();
-
-          if (verifyData.status && verifyData.data.status === 'success') {
+          if (verified.status === 'success') {
             // Payment verified, use the centralized success handler
-            await storage.handleSuccessfulPayment(verifyData.data);
+            await storage.handleSuccessfulPayment(verified);
             auditLog('payment_callback_success', undefined, { 
               clientIP, 
-              orderId: verifyData.data.metadata?.orderId,
-              amount: verifyData.data.amount,
+              orderId: verified.orderId,
+              amount: verified.amount,
               reference: paymentReference
             });
 
@@ -737,7 +1394,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             auditLog('payment_callback_failed', undefined, { 
               clientIP, 
               reference: paymentReference,
-              status: verifyData.data?.status || 'unknown'
+              status: verified.status
             });
             
             return res.send(`
@@ -865,39 +1522,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/payments/webhook', authRateLimit('payment'), validateRequestSize(), async (req, res) => {
+  // Provider webhooks; the bare path is kept for the Paystack dashboard configuration
+  app.post(['/api/payments/webhook', '/api/payments/webhook/:provider'], authRateLimit('payment'), validateRequestSize(), async (req, res) => {
     const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
+    const providerName = req.params.provider || DEFAULT_PAYMENT_PROVIDER;
 
     try {
-      // Verify webhook signature from Paystack
-      const hash = req.headers['x-paystack-signature'];
-      const body = JSON.stringify(req.body);
-
-      if (!hash) {
-        auditLog('webhook_no_signature', undefined, { clientIP });
-        return res.status(400).json({ message: "Missing signature" });
-      }
+      const rawBody = req.rawBody ?? JSON.stringify(req.body);
+      const event = await storage.verifyPaymentWebhook(providerName, req.headers, rawBody);
 
-      const hashString = Array.isArray(hash) ? hash[0] : hash;
-      if (!await storage.verifyPaystackWebhook(hashString, body)) {
-        auditLog('webhook_invalid_signature', undefined, { clientIP, hash: hashString.substring(0, 10) + '***' });
+      if (!event) {
+        auditLog('webhook_invalid_signature', undefined, { clientIP, provider: providerName });
         return res.status(400).json({ message: "Invalid signature" });
       }
 
-      const { event, data } = req.body;
-
-      if (event === 'charge.success') {
-        auditLog('webhook_payment_success', undefined, { 
+      // Subscription charges are settled by the billing worker; renewals are recorded as they are made
+      const subscriptionCharge = event.payment ? await storage.getSubscriptionChargeByReference(event.payment.reference) : undefined;
+      if (subscriptionCharge) {
+        if (subscriptionCharge.kind === 'checkout' && event.type === 'payment.succeeded' && event.payment?.status === 'success') {
+          const processed = await subscriptionBilling.handleCheckoutPayment(event.payment);
+          auditLog(processed ? 'webhook_subscription_payment' : 'webhook_payment_duplicate', undefined, {
+            clientIP,
+            provider: providerName,
+            subscriptionId: subscriptionCharge.subscriptionId,
+            amount: event.payment.amount,
+          });
+        }
+      } else if (event.type === 'payment.succeeded' && event.payment?.status === 'success') {
+        const processed = await storage.handleSuccessfulPayment(event.payment);
+        auditLog(processed ? 'webhook_payment_success' : 'webhook_payment_duplicate', undefined, { 
           clientIP, 
-          orderId: data?.metadata?.orderId,
-          amount: data?.amount 
+          provider: providerName,
+          orderId: event.payment.orderId,
+          amount: event.payment.amount 
         });
-        await storage.handleSuccessfulPayment(data);
       }
 
       res.json({ status: 'success' });
     } catch (error) {
-      auditLog('webhook_error', undefined, { error: (error as Error).message, clientIP });
+      const message = (error as Error).message;
+      // Mismatched payments are waiting on an admin as a reconciliation issue; retries won't change them
+      if (/does not match the amount/.test(message)) {
+        auditLog('webhook_payment_mismatch', undefined, { error: message, provider: providerName, clientIP });
+        return res.json({ status: 'success' });
+      }
+      auditLog('webhook_error', undefined, { error: message, provider: providerName, clientIP });
       res.status(500).json({ message: "Webhook error" });
     }
   });
@@ -1017,6 +1686,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Business details and VAT printed on invoices and receipts
+  const invoiceSettingsSchema = z.object({
+    businessName: z.string().trim().max(200).nullable().optional(),
+    businessAddress: z.string().trim().max(500).nullable().optional(),
+    businessEmail: z.string().trim().email().max(200).or(z.literal('')).nullable().optional(),
+    businessPhone: z.string().trim().max(50).nullable().optional(),
+    taxId: z.string().trim().max(100).nullable().optional(),
+    vatRate: z.number().min(0).max(100).nullable().optional(),
+  });
+
+  app.get('/api/admin/settings/invoicing', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const current = await storage.getInvoiceSettings();
+      res.json({
+        businessName: current?.businessName ?? null,
+        businessAddress: current?.businessAddress ?? null,
+        businessEmail: current?.businessEmail ?? null,
+        businessPhone: current?.businessPhone ?? null,
+        taxId: current?.taxId ?? null,
+        vatRate: current?.vatRate != null ? parseFloat(current.vatRate) : null,
+      });
+    } catch (error) {
+      console.error("Error fetching invoice settings:", error);
+      res.status(500).json({ message: "Failed to fetch invoice settings" });
+    }
+  });
+
+  app.put('/api/admin/settings/invoicing', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const parsed = invoiceSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid invoice settings", errors: parsed.error.errors });
+      }
+
+      const { vatRate, ...details } = parsed.data;
+      const updates = Object.fromEntries(
+        Object.entries(details).map(([key, value]) => [key, value ? sanitizeInput(value) : null])
+      );
+      const saved = await storage.updateInvoiceSettings({
+        ...updates,
+        ...(vatRate !== undefined ? { vatRate: vatRate === null ? null : vatRate.toFixed(2) } : {}),
+      });
+
+      auditLog('invoice_settings_updated', userId, { fields: Object.keys(parsed.data), clientIP: req.ip });
+      res.json({
+        businessName: saved.businessName,
+        businessAddress: saved.businessAddress,
+        businessEmail: saved.businessEmail,
+        businessPhone: saved.businessPhone,
+        taxId: saved.taxId,
+        vatRate: saved.vatRate != null ? parseFloat(saved.vatRate) : null,
+      });
+    } catch (error) {
+      console.error("Error updating invoice settings:", error);
+      res.status(500).json({ message: "Failed to update invoice settings" });
+    }
+  });
+
+  // Exchange rates: public so visitors can browse prices in their own currency
+  app.get('/api/exchange-rates', authRateLimit('api'), async (req, res) => {
+    try {
+      const rates = await storage.getExchangeRates();
+      res.json({
+        settlementCurrency: SETTLEMENT_CURRENCY,
+        rates: [
+          { currency: SETTLEMENT_CURRENCY, rate: 1, updatedAt: null },
+          ...rates.map(row => ({ currency: row.currency, rate: parseFloat(row.rate), updatedAt: row.updatedAt })),
+        ],
+      });
+    } catch (error) {
+      console.error("Error fetching exchange rates:", error);
+      res.status(500).json({ message: "Failed to fetch exchange rates" });
+    }
+  });
+
+  app.put('/api/admin/exchange-rates/:currency', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const currency = normalizeCurrencyCode(req.params.currency);
+      const rate = Number(req.body?.rate);
+      if (!CURRENCY_CODE_PATTERN.test(currency)) {
+        return res.status(400).json({ message: "Currency must be a three-letter ISO code" });
+      }
+      if (!isFinite(rate) || rate <= 0) {
+        return res.status(400).json({ message: "Rate must be a positive number" });
+      }
+
+      const saved = await storage.upsertExchangeRate(currency, rate, userId);
+      auditLog('exchange_rate_updated', userId, { currency, rate, clientIP: req.ip });
+      res.json({ currency: saved.currency, rate: parseFloat(saved.rate), updatedAt: saved.updatedAt });
+    } catch (error) {
+      if (/settlement currency/.test((error as Error).message)) {
+        return res.status(400).json({ message: (error as Error).message });
+      }
+      console.error("Error updating exchange rate:", error);
+      res.status(500).json({ message: "Failed to update exchange rate" });
+    }
+  });
+
+  app.delete('/api/admin/exchange-rates/:currency', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const currency = normalizeCurrencyCode(req.params.currency);
+      await storage.deleteExchangeRate(currency);
+      auditLog('exchange_rate_deleted', userId, { currency, clientIP: req.ip });
+      res.json({ message: "Exchange rate removed" });
+    } catch (error) {
+      if (/base currency/.test((error as Error).message)) {
+        return res.status(409).json({ message: (error as Error).message });
+      }
+      console.error("Error deleting exchange rate:", error);
+      res.status(500).json({ message: "Failed to delete exchange rate" });
+    }
+  });
+
   app.patch('/api/admin/projects/:id', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -1037,7 +1842,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updates.startDate = new Date(updates.startDate);
       }
 
+      const previousProject = await storage.getProjectById(id);
       const updatedProject = await storage.updateProject(id, updates);
+
+      if (updates.status && updatedProject && previousProject?.status !== updates.status) {
+        await notificationService.projectStatusChanged(updatedProject.userId, updatedProject.id, updatedProject.projectName, updates.status);
+        if (updates.status === 'completed') {
+          void emailService.sendTemplateToUser(updatedProject.userId, 'project_completed', {
+            projectId: updatedProject.id,
+            projectName: updatedProject.projectName || 'Your project',
+          });
+        }
+      }
       res.json(updatedProject);
     } catch (error) {
       console.error("Error updating project:", error);
@@ -1057,7 +1873,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       const { status } = req.body;
 
+      const previousProject = await storage.getProjectById(id);
       const updatedProject = await storage.updateProject(id, { status });
+
+      if (updatedProject && previousProject?.status !== status) {
+        await notificationService.projectStatusChanged(updatedProject.userId, updatedProject.id, updatedProject.projectName, status);
+        if (status === 'completed') {
+          void emailService.sendTemplateToUser(updatedProject.userId, 'project_completed', {
+            projectId: updatedProject.id,
+            projectName: updatedProject.projectName || 'Your project',
+          });
+        }
+      }
       res.json(updatedProject);
     } catch (error) {
       console.error("Error updating project status:", error);
@@ -1065,6 +1892,178 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Project stage routes - clients can read, admins manage the checklist
+  app.get('/api/projects/:projectId/stages', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { projectId } = req.params;
+
+      const hasAccess = await storage.userHasProjectAccess(userId, projectId);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const stages = await storage.getProjectStages(projectId);
+      res.json(stages);
+    } catch (error) {
+      console.error("Error fetching project stages:", error);
+      res.status(500).json({ message: "Failed to fetch project stages" });
+    }
+  });
+
+  app.post('/api/admin/projects/:projectId/stages', validateContentType, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const { projectId } = req.params;
+      const project = await storage.getProjectById(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      // New stages go to the end of the checklist unless a position is given
+      const existingStages = await storage.getProjectStages(projectId);
+      const stageData = insertProjectStageSchema.parse({
+        title: sanitizeInput(req.body.title || ''),
+        description: req.body.description ? sanitizeInput(req.body.description) : null,
+        isComplete: !!req.body.isComplete,
+        orderIndex: req.body.orderIndex ?? existingStages.length,
+        projectId,
+      });
+
+      const stage = await storage.createProjectStage(stageData);
+      auditLog('project_stage_created', userId, { projectId, stageId: stage.id, title: stage.title });
+      res.json(stage);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid stage data", errors: error.errors });
+      }
+      console.error("Error creating project stage:", error);
+      res.status(500).json({ message: "Failed to create project stage" });
+    }
+  });
+
+  // Declared before the :stageId route so "reorder" is not taken as an id
+  app.put('/api/admin/projects/:projectId/stages/reorder', validateContentType, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const { projectId } = req.params;
+      const { stageIds } = req.body;
+      if (!Array.isArray(stageIds) || stageIds.some((id: unknown) => typeof id !== 'string')) {
+        return res.status(400).json({ message: "stageIds must be an array of stage ids" });
+      }
+
+      const stages = await storage.reorderProjectStages(projectId, stageIds);
+      res.json(stages);
+    } catch (error: any) {
+      if (error.message?.includes("does not match")) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error reordering project stages:", error);
+      res.status(500).json({ message: "Failed to reorder project stages" });
+    }
+  });
+
+  // Apply the default milestone template to a project that has no stages yet
+  app.post('/api/admin/projects/:projectId/stages/template', validateContentType, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const { projectId } = req.params;
+      const project = await storage.getProjectById(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      let category = req.body.category;
+      if (!category) {
+        const [order] = await db.select().from(orders).where(eq(orders.id, project.orderId));
+        const service = order?.serviceId ? await storage.getServiceById(order.serviceId) : undefined;
+        category = service?.category;
+      }
+
+      const stages = await storage.seedProjectStages(projectId, category);
+      res.json(stages);
+    } catch (error) {
+      console.error("Error applying stage template:", error);
+      res.status(500).json({ message: "Failed to apply stage template" });
+    }
+  });
+
+  app.patch('/api/admin/projects/:projectId/stages/:stageId', validateContentType, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const { projectId, stageId } = req.params;
+      const stage = await storage.getProjectStageById(stageId);
+      if (!stage || stage.projectId !== projectId) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+
+      const updates: Record<string, any> = {};
+      if (req.body.title !== undefined) updates.title = sanitizeInput(req.body.title);
+      if (req.body.description !== undefined) updates.description = req.body.description ? sanitizeInput(req.body.description) : null;
+      if (req.body.isComplete !== undefined) updates.isComplete = !!req.body.isComplete;
+
+      const validatedUpdates = insertProjectStageSchema.partial().parse(updates);
+      const updatedStage = await storage.updateProjectStage(stageId, validatedUpdates);
+
+      auditLog('project_stage_updated', userId, { projectId, stageId, updates: validatedUpdates });
+      res.json(updatedStage);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid stage data", errors: error.errors });
+      }
+      console.error("Error updating project stage:", error);
+      res.status(500).json({ message: "Failed to update project stage" });
+    }
+  });
+
+  app.delete('/api/admin/projects/:projectId/stages/:stageId', validateContentType, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const { projectId, stageId } = req.params;
+      const stage = await storage.getProjectStageById(stageId);
+      if (!stage || stage.projectId !== projectId) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+
+      await storage.deleteProjectStage(stageId);
+      auditLog('project_stage_deleted', userId, { projectId, stageId, title: stage.title });
+      res.json({ message: "Stage deleted" });
+    } catch (error) {
+      console.error("Error deleting project stage:", error);
+      res.status(500).json({ message: "Failed to delete project stage" });
+    }
+  });
+
   // Project update route for regular users and admins
   app.patch("/api/projects/:id", isAuthenticated, async (req, res) => {
     try {
@@ -1124,7 +2123,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/admin/availability', isAuthenticated, async (req: any, res) => {
+  // Audit log viewer (admin only)
+  app.get('/api/admin/audit-logs', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
       const user = await storage.getUser(userId);
@@ -1133,10 +2133,165 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized" });
       }
 
-      const { serviceId, spots } = req.body;
-      // Update service availability logic would go here
-      res.json({ message: "Availability updated successfully" });
+      const { page, limit, action, user: userFilter, from, to } = req.query as Record<string, string | undefined>;
+
+      // The user filter accepts either a user id or an email address
+      let filterUserId: string | undefined;
+      if (userFilter) {
+        const filterValue = sanitizeInput(userFilter);
+        if (filterValue.includes('@')) {
+          const filterUser = await storage.getUserByEmail(filterValue);
+          if (!filterUser) {
+            return res.json({ logs: [], total: 0, page: 1, limit: parseInt(limit || '50') });
+          }
+          filterUserId = filterUser.id;
+        } else {
+          filterUserId = filterValue;
+        }
+      }
+
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+
+      const pageNumber = parseInt(page || '1') || 1;
+      const pageSize = parseInt(limit || '50') || 50;
+
+      const result = await storage.getAuditLogs({
+        page: pageNumber,
+        limit: pageSize,
+        actionType: action ? sanitizeInput(action) : undefined,
+        userId: filterUserId,
+        from: fromDate,
+        to: toDate,
+      });
+
+      res.json({ ...result, page: pageNumber, limit: pageSize });
+    } catch (error) {
+      console.error("Error fetching audit logs:", error);
+      res.status(500).json({ message: "Failed to fetch audit logs" });
+    }
+  });
+
+  app.get('/api/admin/audit-logs/actions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const actionTypes = await storage.getAuditLogActionTypes();
+      res.json(actionTypes);
+    } catch (error) {
+      console.error("Error fetching audit log actions:", error);
+      res.status(500).json({ message: "Failed to fetch audit log actions" });
+    }
+  });
+
+  app.get('/api/admin/messages/unanswered', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const conversations = await storage.getUnansweredClientMessages();
+      res.json(conversations);
+    } catch (error) {
+      console.error("Error fetching unanswered messages:", error);
+      res.status(500).json({ message: "Failed to fetch unanswered messages" });
+    }
+  });
+
+  // Admin email template previews rendered with sample data
+  app.get('/api/admin/email-templates', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      res.json(listEmailTemplates());
+    } catch (error) {
+      console.error("Error fetching email templates:", error);
+      res.status(500).json({ message: "Failed to fetch email templates" });
+    }
+  });
+
+  app.get('/api/admin/email-templates/:name/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const { name } = req.params;
+      if (!isEmailTemplateName(name)) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+
+      res.json(previewEmailTemplate(name));
+    } catch (error) {
+      console.error("Error rendering email template preview:", error);
+      res.status(500).json({ message: "Failed to render email template" });
+    }
+  });
+
+  // Set a package's capacity. Changing only totalSpots keeps spots already taken as taken.
+  const availabilitySchema = z.object({
+    serviceId: z.string().min(1),
+    totalSpots: z.number().int().min(0).max(1000).optional(),
+    spotsRemaining: z.number().int().min(0).max(1000).optional(),
+  }).refine(data => data.totalSpots !== undefined || data.spotsRemaining !== undefined, {
+    message: "Provide totalSpots or spotsRemaining",
+  });
+
+  app.post('/api/admin/availability', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const parsed = availabilitySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid availability" });
+      }
+
+      const { serviceId, ...capacity } = parsed.data;
+      const service = await storage.setServiceCapacity(sanitizeInput(serviceId), capacity);
+
+      auditLog('service_capacity_updated', userId, {
+        serviceId: service.id,
+        totalSpots: service.totalSpots,
+        spotsRemaining: service.spotsRemaining,
+      });
+      res.json({
+        serviceId: service.id,
+        totalSpots: service.totalSpots,
+        spotsRemaining: service.spotsRemaining,
+        reservedSpots: service.reservedSpots,
+      });
     } catch (error) {
+      const message = (error as Error).message;
+      if (/not found/i.test(message)) {
+        return res.status(404).json({ message });
+      }
+      if (/cannot exceed/i.test(message)) {
+        return res.status(400).json({ message });
+      }
       console.error("Error updating availability:", error);
       res.status(500).json({ message: "Failed to update availability" });
     }
@@ -1181,230 +2336,1692 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin create new project
-  app.post('/api/admin/projects', isAuthenticated, securityHeaders, validateContentType, validateRequestSize(), authRateLimit('project_create'), async (req: any, res) => {
+  // Admin create new project
+  app.post('/api/admin/projects', isAuthenticated, securityHeaders, validateContentType, validateRequestSize(), authRateLimit('project_create'), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        auditLog('unauthorized_project_create_attempt', userId);
+        return sendSafeErrorResponse(res, 403, new Error("Unauthorized"), 'unauthorized_project_create');
+      }
+
+      // Validate and sanitize input
+      const projectData = {
+        ...req.body,
+        projectName: sanitizeInput(req.body.projectName || ''),
+        userId: sanitizeInput(req.body.userId || ''),
+        description: sanitizeInput(req.body.description || ''),
+        notes: sanitizeInput(req.body.notes || '')
+      };
+
+      const validatedProject = insertProjectSchema.parse(projectData);
+      const project = await storage.createProject(validatedProject);
+
+      auditLog('project_created', userId, { 
+        projectId: project.id, 
+        projectName: project.projectName,
+        targetUserId: project.userId 
+      });
+
+      res.json(project);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendSafeErrorResponse(res, 400, new Error("Invalid project data"), 'invalid_project_data');
+      }
+      if (/already has a project/.test((error as Error).message)) {
+        return res.status(409).json({ message: (error as Error).message });
+      }
+      console.error("Error creating project:", error);
+      sendSafeErrorResponse(res, 500, error, 'project_create_error');
+    }
+  });
+
+  // Admin update order status and payment
+  app.patch('/api/admin/orders/:id', isAuthenticated, securityHeaders, validateContentType, validateRequestSize(), authRateLimit('order_update'), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        auditLog('unauthorized_order_update_attempt', userId, { orderId: req.params.id });
+        return sendSafeErrorResponse(res, 403, new Error("Unauthorized"), 'unauthorized_order_update');
+      }
+
+      const { id } = req.params;
+      const { status, reason } = req.body;
+
+      // Validate order ID
+      if (!validateOrderId(id)) {
+        return sendSafeErrorResponse(res, 400, new Error("Invalid order ID"), 'invalid_order_id');
+      }
+
+      // Payments are linked by the payment flow; status is the only admin-editable field
+      const sanitizedStatus = sanitizeInput(status || '');
+      if (!isOrderStatus(sanitizedStatus)) {
+        return sendSafeErrorResponse(res, 400, new Error("Invalid order status"), 'invalid_order_status');
+      }
+
+      const updatedOrder = await orderLifecycle.transition(id, sanitizedStatus, {
+        source: 'admin',
+        changedBy: userId,
+        reason: typeof reason === 'string' && reason.trim() ? sanitizeInput(reason).slice(0, 500) : null,
+      });
+
+      auditLog('order_updated_by_admin', userId, { 
+        orderId: id, 
+        newStatus: sanitizedStatus,
+      });
+
+      res.json(updatedOrder);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (/not found/i.test(message)) {
+        return sendSafeErrorResponse(res, 404, error, 'order_not_found');
+      }
+      if (/cannot change order/i.test(message)) {
+        return res.status(409).json({ message });
+      }
+      console.error("Error updating order:", error);
+      sendSafeErrorResponse(res, 500, error, 'order_update_error');
+    }
+  });
+
+  // Discount codes with redemption and revenue reporting
+  const couponFields = z.object({
+    code: z.string().transform(normalizeCouponCode).refine(code => COUPON_CODE_PATTERN.test(code), {
+      message: "Codes are 3-32 letters, numbers, dashes or underscores",
+    }),
+    description: z.string().trim().max(500).nullable().optional(),
+    type: z.enum(['percentage', 'fixed']),
+    value: z.number().positive(),
+    serviceId: z.string().nullable().optional(),
+    category: z.enum(['launch', 'growth', 'elite', 'custom']).nullable().optional(),
+    startsAt: z.coerce.date().nullable().optional(),
+    expiresAt: z.coerce.date().nullable().optional(),
+    maxRedemptions: z.number().int().positive().nullable().optional(),
+    perUserLimit: z.number().int().positive().nullable().optional(),
+    isActive: z.boolean().optional(),
+  });
+  const percentageWithinRange = (coupon: { type?: string; value?: number }) =>
+    coupon.type !== 'percentage' || coupon.value === undefined || coupon.value <= 100;
+  const createCouponSchema = couponFields.refine(percentageWithinRange, {
+    message: "Percentage discounts cannot exceed 100%",
+    path: ['value'],
+  });
+  const updateCouponSchema = couponFields.partial().refine(percentageWithinRange, {
+    message: "Percentage discounts cannot exceed 100%",
+    path: ['value'],
+  });
+
+  const toCouponValues = <T extends { value?: number; description?: string | null }>(data: T) => ({
+    ...data,
+    ...(data.value !== undefined ? { value: data.value.toFixed(2) } : {}),
+    ...(data.description ? { description: sanitizeInput(data.description) } : {}),
+  });
+
+  app.get('/api/admin/coupons', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const allCoupons = await storage.getCoupons();
+      res.json({
+        coupons: allCoupons,
+        summary: {
+          redemptions: allCoupons.reduce((total, coupon) => total + coupon.redemptions, 0),
+          discountTotal: allCoupons.reduce((total, coupon) => total + coupon.discountTotal, 0),
+          paidRevenue: allCoupons.reduce((total, coupon) => total + coupon.paidRevenue, 0),
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching coupons:", error);
+      res.status(500).json({ message: "Failed to fetch coupons" });
+    }
+  });
+
+  app.post('/api/admin/coupons', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const parsed = createCouponSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid coupon", errors: parsed.error.errors });
+      }
+
+      if (await storage.getCouponByCode(parsed.data.code)) {
+        return res.status(409).json({ message: "A coupon with this code already exists" });
+      }
+
+      const coupon = await storage.createCoupon(toCouponValues(parsed.data), userId);
+      auditLog('coupon_created', userId, { couponId: coupon.id, code: coupon.code, clientIP: req.ip });
+      res.status(201).json(coupon);
+    } catch (error) {
+      console.error("Error creating coupon:", error);
+      res.status(500).json({ message: "Failed to create coupon" });
+    }
+  });
+
+  app.patch('/api/admin/coupons/:id', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid coupon ID" });
+      }
+
+      const parsed = updateCouponSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid coupon", errors: parsed.error.errors });
+      }
+
+      if (parsed.data.code) {
+        const existing = await storage.getCouponByCode(parsed.data.code);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(409).json({ message: "A coupon with this code already exists" });
+        }
+      }
+
+      const coupon = await storage.updateCoupon(req.params.id, toCouponValues(parsed.data));
+      auditLog('coupon_updated', userId, { couponId: coupon.id, fields: Object.keys(parsed.data), clientIP: req.ip });
+      res.json(coupon);
+    } catch (error) {
+      if (/not found/i.test((error as Error).message)) {
+        return res.status(404).json({ message: "Coupon not found" });
+      }
+      console.error("Error updating coupon:", error);
+      res.status(500).json({ message: "Failed to update coupon" });
+    }
+  });
+
+  app.get('/api/admin/coupons/:id/redemptions', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid coupon ID" });
+      }
+
+      res.json(await storage.getCouponRedemptions(req.params.id));
+    } catch (error) {
+      console.error("Error fetching coupon redemptions:", error);
+      res.status(500).json({ message: "Failed to fetch coupon redemptions" });
+    }
+  });
+
+  // Payments on an order, with refunds issued against each
+  app.get('/api/admin/orders/:id/payments', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid order ID" });
+      }
+
+      const orderPayments = await storage.getOrderPayments(req.params.id);
+      res.json(orderPayments);
+    } catch (error) {
+      console.error("Error fetching order payments:", error);
+      res.status(500).json({ message: "Failed to fetch order payments" });
+    }
+  });
+
+  const refundRequestSchema = z.object({
+    amount: z.number().positive().optional(),
+    reason: z.string().max(500).optional(),
+  });
+
+  // Full refund when no amount is given
+  app.post('/api/admin/payments/:paymentId/refunds', isAuthenticated, securityHeaders, validateContentType, validateRequestSize(), authRateLimit('payment_refund'), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        auditLog('unauthorized_refund_attempt', userId, { paymentId: req.params.paymentId });
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const { amount, reason } = refundRequestSchema.parse(req.body);
+      const { refund, orderCancelled, awaitingTransfer } = await storage.refundPayment(req.params.paymentId, {
+        amount,
+        reason: reason ? sanitizeInput(reason) : undefined,
+        requestedBy: userId,
+      });
+
+      auditLog(awaitingTransfer ? 'bank_refund_requested' : 'payment_refunded', userId, {
+        paymentId: req.params.paymentId,
+        orderId: refund.orderId,
+        refundId: refund.id,
+        amount: refund.amount,
+        commissionClawback: refund.commissionClawback,
+        orderCancelled,
+      });
+
+      res.json({ refund, orderCancelled, awaitingTransfer });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid refund data", errors: error.errors });
+      }
+      const message = (error as Error).message;
+      auditLog('payment_refund_failed', req.user?.id, { paymentId: req.params.paymentId, error: message });
+      if (/not found/i.test(message)) {
+        return res.status(404).json({ message });
+      }
+      if (/Only successful payments|Refund amount/.test(message)) {
+        return res.status(400).json({ message });
+      }
+      console.error("Error refunding payment:", error);
+      res.status(502).json({ message: "Refund could not be processed by the payment provider" });
+    }
+  });
+
+  // Bank transfer refunds are sent by hand; this books one once the money has gone out
+  app.post('/api/admin/refunds/:id/sent', authRateLimit('payment_refund'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid refund ID" });
+      }
+
+      const { refund, orderCancelled } = await storage.completeBankTransferRefund(req.params.id, userId);
+      auditLog('payment_refunded', userId, {
+        paymentId: refund.paymentId,
+        orderId: refund.orderId,
+        refundId: refund.id,
+        amount: refund.amount,
+        commissionClawback: refund.commissionClawback,
+        orderCancelled,
+      });
+
+      res.json({ refund, orderCancelled });
+    } catch (error) {
+      const message = (error as Error).message;
+      if (/not found/i.test(message)) {
+        return res.status(404).json({ message });
+      }
+      if (/not waiting/i.test(message)) {
+        return res.status(409).json({ message });
+      }
+      console.error("Error recording bank refund:", error);
+      res.status(500).json({ message: "Failed to record the refund" });
+    }
+  });
+
+  // Drops a bank transfer refund that hasn't been sent, e.g. one entered for the wrong amount
+  app.post('/api/admin/refunds/:id/cancel', authRateLimit('payment_refund'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid refund ID" });
+      }
+
+      const parsed = z.object({ reason: z.string().trim().max(500).optional() }).safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid cancellation reason" });
+      }
+
+      const refund = await storage.cancelBankTransferRefund(req.params.id);
+      auditLog('bank_refund_cancelled', userId, {
+        paymentId: refund.paymentId,
+        orderId: refund.orderId,
+        refundId: refund.id,
+        amount: refund.amount,
+        reason: parsed.data.reason || undefined,
+      });
+
+      res.json(refund);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (/not found/i.test(message)) {
+        return res.status(404).json({ message });
+      }
+      if (/not waiting/i.test(message)) {
+        return res.status(409).json({ message });
+      }
+      console.error("Error cancelling bank refund:", error);
+      res.status(500).json({ message: "Failed to cancel the refund" });
+    }
+  });
+
+  // Pending payment reconciliation: open mismatches plus the outcome of the last run
+  app.get('/api/admin/payments/reconciliation', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const issues = await storage.getReconciliationIssues({ includeResolved: req.query.status === 'all' });
+      res.json({
+        issues,
+        lastRun: paymentReconciler.lastRun,
+        pendingAfterMinutes: paymentReconciler.pendingAfterMinutes,
+        orderExpiryHours: paymentReconciler.orderExpiryHours,
+      });
+    } catch (error) {
+      console.error("Error fetching reconciliation report:", error);
+      res.status(500).json({ message: "Failed to fetch reconciliation report" });
+    }
+  });
+
+  app.post('/api/admin/payments/reconciliation/run', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const summary = await paymentReconciler.run();
+      auditLog('payment_reconciliation_triggered', userId, { clientIP: req.ip });
+      res.json(summary);
+    } catch (error) {
+      console.error("Error running payment reconciliation:", error);
+      res.status(500).json({ message: "Failed to run payment reconciliation" });
+    }
+  });
+
+  app.patch('/api/admin/payments/reconciliation/:id', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid issue ID" });
+      }
+
+      const note = typeof req.body?.note === 'string' ? sanitizeInput(req.body.note).slice(0, 500) : undefined;
+      const resolved = await storage.resolveReconciliationIssue(req.params.id, userId, note);
+      if (!resolved) {
+        return res.status(404).json({ message: "Issue not found" });
+      }
+
+      auditLog('payment_reconciliation_issue_resolved', userId, { issueId: resolved.id, orderId: resolved.orderId });
+      res.json(resolved);
+    } catch (error) {
+      console.error("Error resolving reconciliation issue:", error);
+      res.status(500).json({ message: "Failed to resolve issue" });
+    }
+  });
+
+  // Bank transfers: the client pays into our account and uploads proof, an admin confirms it
+  const bankTransferProvider = () =>
+    getAvailablePaymentProviders().find((provider): provider is BankTransferProvider => provider instanceof BankTransferProvider);
+
+  const publicProof = ({ fileUrl, ...proof }: schema.PaymentProof) => proof;
+
+  const bankTransferErrorResponse = (res: any, error: unknown, action: string) => {
+    const message = (error as Error).message;
+    if (/not found/i.test(message)) {
+      return res.status(404).json({ message });
+    }
+    if (/already|no longer|cancelled|not a bank transfer/i.test(message)) {
+      return res.status(409).json({ message });
+    }
+    console.error(`Error trying to ${action}:`, error);
+    res.status(500).json({ message: `Failed to ${action}` });
+  };
+
+  app.get('/api/payments/bank-transfer/:reference', isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isValidPaymentReference(req.params.reference)) {
+        return res.status(404).json({ message: "Bank transfer not found" });
+      }
+
+      const transfer = await storage.getBankTransfer(req.params.reference);
+      if (!transfer || transfer.payment.userId !== req.user.id) {
+        return res.status(404).json({ message: "Bank transfer not found" });
+      }
+
+      const { payment, order, proofs } = transfer;
+      res.json({
+        reference: payment.providerId,
+        amount: payment.amount,
+        currency: payment.currency,
+        status: payment.status,
+        installmentId: payment.installmentId,
+        order: { id: order.id, status: order.status, totalPrice: order.totalPrice },
+        accountDetails: bankTransferProvider()?.accountDetails ?? null,
+        proofs: proofs.map(publicProof),
+      });
+    } catch (error) {
+      console.error("Error fetching bank transfer:", error);
+      res.status(500).json({ message: "Failed to fetch bank transfer" });
+    }
+  });
+
+  // Same base64 JSON body as project files, plus the sender's account name and an optional note
+  app.post('/api/payments/bank-transfer/:reference/proof', authRateLimit('upload'), validateContentType, validateRequestSize(Math.ceil(MAX_FILE_SIZE * 1.4)), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      if (!isValidPaymentReference(req.params.reference)) {
+        return res.status(404).json({ message: "Bank transfer not found" });
+      }
+
+      const transfer = await storage.getBankTransfer(req.params.reference);
+      if (!transfer || transfer.payment.userId !== userId) {
+        return res.status(404).json({ message: "Bank transfer not found" });
+      }
+
+      const { filename, mimeType, data } = req.body;
+      if (!filename || !mimeType || !data || typeof data !== 'string') {
+        return res.status(400).json({ message: "Filename, type and file data are required" });
+      }
+      if (!PAYMENT_PROOF_FILE_TYPES.includes(mimeType)) {
+        return res.status(400).json({ message: "Upload a screenshot (PNG, JPG or WebP) or a PDF receipt" });
+      }
+
+      const safeName = sanitizeFilename(filename);
+      const buffer = Buffer.from(data.replace(/^data:[^;]+;base64,/, ''), 'base64');
+
+      const validation = validateUpload(safeName, mimeType, buffer.length);
+      if (!validation.valid) {
+        return res.status(400).json({ message: validation.message });
+      }
+
+      const senderName = typeof req.body.senderName === 'string' ? sanitizeInput(req.body.senderName).slice(0, 100) || null : null;
+      const note = typeof req.body.note === 'string' ? sanitizeInput(req.body.note).slice(0, 500) || null : null;
+
+      const fileStorage = getFileStorage();
+      const key = `payment-proofs/${transfer.payment.id}/${crypto.randomUUID()}-${safeName}`;
+      const location = await fileStorage.save(key, buffer, mimeType);
+
+      let submitted;
+      try {
+        submitted = await storage.submitPaymentProof({
+          paymentId: transfer.payment.id,
+          userId,
+          fileUrl: location,
+          filename: safeName,
+          mimeType,
+          sizeBytes: buffer.length,
+          senderName,
+          note,
+        });
+      } catch (error) {
+        // Don't leave an orphaned blob behind if the proof was refused
+        await fileStorage.remove(location).catch(() => {});
+        throw error;
+      }
+
+      const { proof, order } = submitted;
+      auditLog('payment_proof_submitted', userId, { orderId: order.id, proofId: proof.id, reference: transfer.payment.providerId, clientIP: req.ip });
+
+      const user = await storage.getUser(userId);
+      await notificationService.paymentProofSubmitted(
+        order.id,
+        [user?.firstName, user?.lastName].filter(Boolean).join(" ") || user?.email || "A client",
+      );
+      res.json({ proof: publicProof(proof), orderStatus: order.status });
+    } catch (error) {
+      bankTransferErrorResponse(res, error, 'upload proof of payment');
+    }
+  });
+
+  app.get('/api/admin/bank-transfers', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const [proofs, refundsDue] = await Promise.all([storage.getPaymentProofs(), storage.getBankTransferRefundsDue()]);
+      res.json({
+        proofs: proofs.map(({ fileUrl, ...proof }) => proof),
+        counts: Object.fromEntries(schema.paymentProofStatusEnum.enumValues.map(s => [s, proofs.filter(proof => proof.status === s).length])),
+        refundsDue,
+        accountDetails: bankTransferProvider()?.accountDetails ?? null,
+      });
+    } catch (error) {
+      console.error("Error fetching bank transfers:", error);
+      res.status(500).json({ message: "Failed to fetch bank transfers" });
+    }
+  });
+
+  app.get('/api/admin/bank-transfers/:id/proof', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid proof ID" });
+      }
+
+      const proof = await storage.getPaymentProof(req.params.id);
+      if (!proof) {
+        return res.status(404).json({ message: "Payment proof not found" });
+      }
+
+      const content = await getFileStorage().read(proof.fileUrl);
+
+      res.setHeader('Content-Type', proof.mimeType || 'application/octet-stream');
+      res.setHeader('Content-Length', content.length);
+      res.setHeader('Content-Disposition', attachmentDisposition(proof.filename));
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.send(content);
+    } catch (error) {
+      console.error("Error downloading payment proof:", error);
+      res.status(500).json({ message: "Failed to download payment proof" });
+    }
+  });
+
+  app.post('/api/admin/bank-transfers/:id/confirm', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid proof ID" });
+      }
+
+      const proof = await storage.confirmPaymentProof(req.params.id, userId);
+      auditLog('payment_proof_confirmed', userId, { proofId: proof.id, orderId: proof.orderId, paymentId: proof.paymentId, clientIP: req.ip });
+      res.json({ proof: publicProof(proof) });
+    } catch (error) {
+      bankTransferErrorResponse(res, error, 'confirm bank transfer');
+    }
+  });
+
+  app.post('/api/admin/bank-transfers/:id/reject', authRateLimit('admin'), validateContentType, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid proof ID" });
+      }
+
+      const reason = typeof req.body?.reason === 'string' ? sanitizeInput(req.body.reason).trim().slice(0, 500) : '';
+      if (!reason) {
+        return res.status(400).json({ message: "A reason is required so the client knows what to fix" });
+      }
+
+      const { proof, order, payment } = await storage.rejectPaymentProof(req.params.id, userId, reason);
+      auditLog('payment_proof_rejected', userId, { proofId: proof.id, orderId: order.id, reason, clientIP: req.ip });
+
+      await notificationService.paymentProofRejected(proof.userId, order.id, payment.providerId);
+      void emailService.sendTemplateToUser(proof.userId, 'bank_transfer_rejected', {
+        orderId: order.id,
+        reference: payment.providerId,
+        amount: payment.amount,
+        reason,
+      });
+      res.json({ proof: publicProof(proof), orderStatus: order.status });
+    } catch (error) {
+      bankTransferErrorResponse(res, error, 'reject bank transfer');
+    }
+  });
+
+  // Abandoned checkouts with their recovery email, resume and conversion status
+  app.get('/api/admin/abandoned-checkouts', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      res.json(await checkoutRecovery.report());
+    } catch (error) {
+      console.error("Error fetching abandoned checkouts:", error);
+      res.status(500).json({ message: "Failed to fetch abandoned checkouts" });
+    }
+  });
+
+  app.post('/api/admin/abandoned-checkouts/run', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const summary = await checkoutRecovery.run();
+      auditLog('checkout_recovery_triggered', userId, { clientIP: req.ip });
+      res.json(summary);
+    } catch (error) {
+      console.error("Error running checkout recovery:", error);
+      res.status(500).json({ message: "Failed to run checkout recovery" });
+    }
+  });
+
+  // Admin service package CRUD operations
+  app.get('/api/admin/services', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return sendSafeErrorResponse(res, 403, new Error("Unauthorized"), 'unauthorized_service_access');
+      }
+
+      const services = await storage.getAllServices();
+      res.json(services);
+    } catch (error) {
+      console.error("Error fetching admin services:", error);
+      sendSafeErrorResponse(res, 500, error, 'service_fetch_error');
+    }
+  });
+
+  app.post('/api/admin/services', isAuthenticated, securityHeaders, validateContentType, validateRequestSize(), authRateLimit('service_create'), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        auditLog('unauthorized_service_create_attempt', userId);
+        return sendSafeErrorResponse(res, 403, new Error("Unauthorized"), 'unauthorized_service_create');
+      }
+
+      if (!(await isPricedCurrency(req.body.currency))) {
+        return res.status(400).json({ message: unpricedCurrencyMessage });
+      }
+
+      // Sanitize input data
+      const serviceData = {
+        ...req.body,
+        name: sanitizeInput(req.body.name || ''),
+        description: sanitizeInput(req.body.description || ''),
+        category: sanitizeInput(req.body.category || ''),
+        features: Array.isArray(req.body.features) ? req.body.features.map((f: string) => sanitizeInput(f)) : []
+      };
+
+      const validatedService = insertServiceSchema.parse(serviceData);
+      const service = await storage.createService(validatedService);
+
+      auditLog('service_created', userId, { 
+        serviceId: service.id, 
+        serviceName: service.name 
+      });
+
+      res.json(service);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendSafeErrorResponse(res, 400, new Error("Invalid service data"), 'invalid_service_data');
+      }
+      console.error("Error creating service:", error);
+      sendSafeErrorResponse(res, 500, error, 'service_create_error');
+    }
+  });
+
+  app.patch('/api/admin/services/:id', isAuthenticated, securityHeaders, validateContentType, validateRequestSize(), authRateLimit('service_update'), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        auditLog('unauthorized_service_update_attempt', userId, { serviceId: req.params.id });
+        return sendSafeErrorResponse(res, 403, new Error("Unauthorized"), 'unauthorized_service_update');
+      }
+
+      const { id } = req.params;
+      if (!(await isPricedCurrency(req.body.currency))) {
+        return res.status(400).json({ message: unpricedCurrencyMessage });
+      }
+      if (!isValidBillingInterval(req.body.billingInterval)) {
+        return res.status(400).json({ message: "Invalid billing interval" });
+      }
+
+      // Sanitize update data
+      const updates = {
+        ...req.body,
+        name: req.body.name ? sanitizeInput(req.body.name) : undefined,
+        description: req.body.description ? sanitizeInput(req.body.description) : undefined,
+        category: req.body.category ? sanitizeInput(req.body.category) : undefined,
+        features: Array.isArray(req.body.features) ? req.body.features.map((f: string) => sanitizeInput(f)) : undefined
+      };
+
+      // Capacity goes through /api/admin/availability so reserved spots stay accounted for
+      delete updates.spotsRemaining;
+      delete updates.totalSpots;
+      if (updates.billingInterval === '') {
+        updates.billingInterval = null;
+      }
+
+      // Remove undefined values
+      Object.keys(updates).forEach(key => updates[key] === undefined && delete updates[key]);
+
+      const updatedService = await storage.updateService(id, updates);
+
+      auditLog('service_updated', userId, { 
+        serviceId: id, 
+        updates: Object.keys(updates) 
+      });
+
+      res.json(updatedService);
+    } catch (error) {
+      console.error("Error updating service:", error);
+      sendSafeErrorResponse(res, 500, error, 'service_update_error');
+    }
+  });
+
+  app.delete('/api/admin/services/:id', isAuthenticated, securityHeaders, validateContentType, validateRequestSize(), authRateLimit('service_delete'), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        auditLog('unauthorized_service_delete_attempt', userId, { serviceId: req.params.id });
+        return sendSafeErrorResponse(res, 403, new Error("Unauthorized"), 'unauthorized_service_delete');
+      }
+
+      const { id } = req.params;
+      await storage.deleteService(id);
+
+      auditLog('service_deleted', userId, { serviceId: id });
+
+      res.json({ message: "Service deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting service:", error);
+      sendSafeErrorResponse(res, 500, error, 'service_delete_error');
+    }
+  });
+
+  // Proof-of-work challenge for the public forms, fetched when a form opens (server/antiAbuse.ts)
+  app.get('/api/anti-abuse/challenge', authRateLimit('challenge'), (req, res) => {
+    res.set('Cache-Control', 'no-store');
+    res.json(issueChallenge());
+  });
+
+  // Contact form route (public)
+  const contactSchema = z.object({
+    name: z.string().trim().min(1).max(200),
+    email: z.string().trim().email().max(254),
+    subject: z.string().trim().min(1).max(200),
+    message: z.string().trim().min(1).max(5000),
+  });
+
+  // Shared with releases from the spam quarantine
+  const submitContact = async (data: z.infer<typeof contactSchema>, clientIP?: string | null) => {
+    const submission = await storage.handleContactForm({
+      name: sanitizeInput(data.name),
+      email: data.email.toLowerCase(),
+      subject: sanitizeInput(data.subject),
+      message: data.message, // Kept as written; the inbox and reply email escape it
+    });
+    auditLog('contact_form_submitted', submission.userId ?? undefined, { submissionId: submission.id, clientIP });
+    void notificationService.contactReceived(submission.name, submission.subject);
+    return submission;
+  };
+
+  const contactAccepted = { message: "Contact form submitted successfully" };
+
+  app.post('/api/contact', authRateLimit('contact'), spamGuard('contact', {
+    schema: contactSchema,
+    textFields: ['name', 'subject', 'message'],
+    linkFreeFields: ['name', 'subject'],
+    acceptedResponse: () => contactAccepted,
+  }), async (req, res) => {
+    try {
+      const parsed = contactSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "All fields are required" });
+      }
+
+      await submitContact(parsed.data, req.ip);
+      res.json(contactAccepted);
+    } catch (error) {
+      console.error("Error handling contact form:", error);
+      res.status(500).json({ message: "Failed to submit contact form" });
+    }
+  });
+
+  // Admin contact inbox
+  const contactStatuses = schema.contactStatusEnum.enumValues;
+
+  app.get('/api/admin/contacts', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const submissions = await storage.getContactSubmissions();
+      res.json({
+        submissions,
+        counts: Object.fromEntries(contactStatuses.map(s => [s, submissions.filter(submission => submission.status === s).length])),
+      });
+    } catch (error) {
+      console.error("Error fetching contact messages:", error);
+      res.status(500).json({ message: "Failed to fetch contact messages" });
+    }
+  });
+
+  // Opening a message marks it read
+  app.get('/api/admin/contacts/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid message ID" });
+      }
+
+      await storage.markContactRead(req.params.id);
+      const submission = await storage.getContactSubmission(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: "Contact message not found" });
+      }
+      res.json(submission);
+    } catch (error) {
+      console.error("Error fetching contact message:", error);
+      res.status(500).json({ message: "Failed to fetch contact message" });
+    }
+  });
+
+  app.patch('/api/admin/contacts/:id', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid message ID" });
+      }
+
+      const parsed = z.object({ status: z.enum(contactStatuses) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+
+      const submission = await storage.updateContactStatus(req.params.id, parsed.data.status);
+      auditLog('contact_status_updated', userId, { submissionId: submission.id, status: submission.status, clientIP: req.ip });
+      res.json(submission);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (/not found/i.test(message)) {
+        return res.status(404).json({ message });
+      }
+      console.error("Error updating contact message:", error);
+      res.status(500).json({ message: "Failed to update contact message" });
+    }
+  });
+
+  // The reply goes out by email; the sender has no inbox on the site
+  app.post('/api/admin/contacts/:id/reply', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid message ID" });
+      }
+
+      const parsed = z.object({ body: z.string().trim().min(1).max(10000) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Reply cannot be empty" });
+      }
+
+      const existing = await storage.getContactSubmission(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Contact message not found" });
+      }
+
+      const body = parsed.data.body;
+      const queued = await emailService.sendTemplate(existing.email, 'contact_reply', {
+        firstName: existing.name.split(' ')[0],
+        subject: existing.subject,
+        reply: body,
+        originalMessage: existing.message,
+      });
+      if (!queued) {
+        return res.status(502).json({ message: "The reply email could not be sent. Please try again." });
+      }
+      await storage.recordContactReply(existing.id, body, userId);
+      auditLog('contact_replied', userId, { submissionId: existing.id, clientIP: req.ip });
+
+      res.json(await storage.getContactSubmission(existing.id));
+    } catch (error) {
+      console.error("Error replying to contact message:", error);
+      res.status(500).json({ message: "Failed to send reply" });
+    }
+  });
+
+  // Quote requests (public). Signed-in clients get the quote linked to their account straight away.
+  const quoteOption = (options: QuoteOption[], field: string) =>
+    z.string().refine(value => options.some(option => option.value === value), { message: `Invalid ${field}` });
+
+  const quoteRequestSchema = z.object({
+    fullName: z.string().trim().min(1, "Full name is required").max(200),
+    email: z.string().trim().email("Invalid email address").max(254),
+    phone: z.string().trim().max(50).optional(),
+    company: z.string().trim().max(200).optional(),
+    projectType: quoteOption(projectTypes, "project type"),
+    budgetRange: quoteOption(budgetRanges, "budget range"),
+    timeline: quoteOption(timelines, "timeline"),
+    description: z.string().trim().min(50, "Description must be at least 50 characters").max(5000),
+    features: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+    preferredStartDate: z.string().trim().max(50).optional(),
+  });
+
+  const submitQuote = async (data: z.infer<typeof quoteRequestSchema>, userId?: string | null, clientIP?: string | null) => {
+    const quote = await storage.handleQuoteRequest({
+      userId: userId ?? null,
+      fullName: sanitizeInput(data.fullName),
+      email: data.email.toLowerCase(),
+      phone: data.phone ? sanitizeInput(data.phone) : null,
+      company: data.company ? sanitizeInput(data.company) : null,
+      projectType: data.projectType,
+      budgetRange: data.budgetRange,
+      timeline: data.timeline,
+      description: sanitizeInput(data.description),
+      features: (data.features ?? []).map(feature => sanitizeInput(feature)),
+      preferredStartDate: data.preferredStartDate ? sanitizeInput(data.preferredStartDate) : null,
+    });
+
+    auditLog('quote_requested', userId ?? undefined, { quoteId: quote.id, projectType: quote.projectType, clientIP });
+    void notificationService.quoteRequested(quote.id, quote.fullName, quoteOptionLabel(projectTypes, quote.projectType));
+    return quote;
+  };
+
+  app.post('/api/quote-request', authRateLimit('contact'), spamGuard('quote', {
+    schema: quoteRequestSchema,
+    textFields: ['fullName', 'company', 'description', 'preferredStartDate'],
+    linkFreeFields: ['fullName', 'company'],
+    acceptedStatus: 201,
+    acceptedResponse: (quarantined) => ({ message: "Quote request submitted successfully", id: quarantined.id }),
+  }), async (req: any, res) => {
+    try {
+      const parsed = quoteRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid quote request" });
+      }
+
+      const quote = await submitQuote(parsed.data, req.user?.id, req.ip);
+      res.status(201).json({ message: "Quote request submitted successfully", id: quote.id });
+    } catch (error) {
+      console.error("Error handling quote request:", error);
+      res.status(500).json({ message: "Failed to submit quote request" });
+    }
+  });
+
+  // Turn a contact message into a quote so it can get a priced proposal
+  const contactQuoteSchema = z.object({
+    projectType: quoteOption(projectTypes, "project type"),
+    budgetRange: quoteOption(budgetRanges, "budget range"),
+    timeline: quoteOption(timelines, "timeline"),
+    description: z.string().trim().min(1).max(5000).optional(),
+  });
+
+  app.post('/api/admin/contacts/:id/convert-to-quote', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid message ID" });
+      }
+
+      const parsed = contactQuoteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid quote details" });
+      }
+
+      const existing = await storage.getContactSubmission(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Contact message not found" });
+      }
+
+      const { description, ...fields } = parsed.data;
+      const { submission, quote } = await storage.convertContactToQuote(existing.id, {
+        ...fields,
+        description: description ? sanitizeInput(description) : existing.message,
+      });
+      auditLog('contact_converted_to_quote', userId, { submissionId: submission.id, quoteId: quote.id, clientIP: req.ip });
+      res.status(201).json({ submission, quote });
+    } catch (error) {
+      const message = (error as Error).message;
+      if (/not found/i.test(message)) {
+        return res.status(404).json({ message });
+      }
+      if (/already been converted/i.test(message)) {
+        return res.status(409).json({ message });
+      }
+      console.error("Error converting contact message:", error);
+      res.status(500).json({ message: "Failed to convert message to a quote" });
+    }
+  });
+
+  // Spam quarantine. Releasing a submission runs it through the same handler as the public form.
+  const quarantineStatuses = schema.quarantineStatusEnum.enumValues;
+  const quarantineSchemas: Record<QuarantineForm, z.ZodTypeAny> = {
+    contact: contactSchema,
+    quote: quoteRequestSchema,
+  };
+
+  app.get('/api/admin/quarantine', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const submissions = await storage.getQuarantinedSubmissions();
+      res.json({
+        submissions,
+        counts: Object.fromEntries(quarantineStatuses.map(s => [s, submissions.filter(submission => submission.status === s).length])),
+      });
+    } catch (error) {
+      console.error("Error fetching quarantined submissions:", error);
+      res.status(500).json({ message: "Failed to fetch quarantined submissions" });
+    }
+  });
+
+  const reviewErrorResponse = (res: any, error: unknown, action: string) => {
+    const message = (error as Error).message;
+    if (/not found/i.test(message)) {
+      return res.status(404).json({ message });
+    }
+    if (/already been/i.test(message)) {
+      return res.status(409).json({ message });
+    }
+    console.error(`Error trying to ${action} quarantined submission:`, error);
+    res.status(500).json({ message: `Failed to ${action} submission` });
+  };
+
+  app.post('/api/admin/quarantine/:id/release', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid submission ID" });
+      }
+
+      const existing = await storage.getQuarantinedSubmission(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Quarantined submission not found" });
+      }
+
+      const form = existing.form as QuarantineForm;
+      if (!QUARANTINE_FORMS.includes(form)) {
+        return res.status(400).json({ message: `Unknown form "${existing.form}"` });
+      }
+      // Checked before claiming it, so a payload that no longer validates stays pending for discarding
+      const parsed = quarantineSchemas[form].safeParse(existing.payload);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: `This submission can't be released: ${parsed.error.errors[0]?.message || "invalid form data"}. Discard it instead.`,
+        });
+      }
+
+      const submission = await storage.reviewQuarantinedSubmission(existing.id, 'released', userId);
+      const created = form === 'contact'
+        ? await submitContact(parsed.data, existing.ipAddress)
+        : await submitQuote(parsed.data, existing.userId, existing.ipAddress);
+      auditLog('quarantined_submission_released', userId, { quarantineId: submission.id, form, createdId: created.id, clientIP: req.ip });
+      res.json({ submission, createdId: created.id });
+    } catch (error) {
+      reviewErrorResponse(res, error, 'release');
+    }
+  });
+
+  app.post('/api/admin/quarantine/:id/discard', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid submission ID" });
+      }
+
+      const submission = await storage.reviewQuarantinedSubmission(req.params.id, 'discarded', userId);
+      auditLog('quarantined_submission_discarded', userId, { quarantineId: submission.id, form: submission.form, clientIP: req.ip });
+      res.json({ submission });
+    } catch (error) {
+      reviewErrorResponse(res, error, 'discard');
+    }
+  });
+
+  // Admin quote inbox
+  app.get('/api/admin/quotes', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const status = isQuoteStatus(req.query.status) ? req.query.status : undefined;
+      const allQuotes = await storage.getQuotes();
+      res.json({
+        quotes: status ? allQuotes.filter(quote => quote.status === status) : allQuotes,
+        counts: Object.fromEntries(QUOTE_STATUSES.map(s => [s, allQuotes.filter(quote => quote.status === s).length])),
+      });
+    } catch (error) {
+      console.error("Error fetching quotes:", error);
+      res.status(500).json({ message: "Failed to fetch quotes" });
+    }
+  });
+
+  const quoteStatusSchema = z.object({
+    status: z.enum(QUOTE_STATUSES),
+    adminNotes: z.string().trim().max(5000).nullable().optional(),
+  });
+
+  app.patch('/api/admin/quotes/:id', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid quote ID" });
+      }
+
+      const parsed = quoteStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid quote update", errors: parsed.error.errors });
+      }
+
+      const { status, adminNotes } = parsed.data;
+      const quote = await storage.updateQuoteStatus(
+        req.params.id,
+        status,
+        adminNotes === undefined ? undefined : adminNotes ? sanitizeInput(adminNotes) : null,
+      );
+      auditLog('quote_status_updated', userId, { quoteId: quote.id, status, clientIP: req.ip });
+      res.json(quote);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (/not found/i.test(message)) {
+        return res.status(404).json({ message });
+      }
+      if (/cannot change quote/i.test(message)) {
+        return res.status(409).json({ message });
+      }
+      console.error("Error updating quote:", error);
+      res.status(500).json({ message: "Failed to update quote" });
+    }
+  });
+
+  const quoteProposalSchema = z.object({
+    price: z.number().min(100).max(100000000),
+    paymentSchedule: z.string().default(FULL_PAYMENT_SCHEDULE).refine(id => isPaymentScheduleAllowed(id, 'custom'), {
+      message: "Unknown payment schedule",
+    }),
+    deliveryTime: z.string().trim().max(100).nullable().optional(),
+    notes: z.string().trim().max(5000).nullable().optional(),
+  });
+
+  app.post('/api/admin/quotes/:id/proposal', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid quote ID" });
+      }
+
+      const parsed = quoteProposalSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid proposal" });
+      }
+
+      const proposal = parsed.data;
+      const quote = await storage.proposeQuote(req.params.id, {
+        price: Math.round(proposal.price),
+        paymentSchedule: proposal.paymentSchedule,
+        deliveryTime: proposal.deliveryTime ? sanitizeInput(proposal.deliveryTime) : null,
+        notes: proposal.notes ? sanitizeInput(proposal.notes) : null,
+      }, userId);
+      auditLog('quote_proposed', userId, { quoteId: quote.id, price: quote.proposedPrice, clientIP: req.ip });
+
+      const projectType = quoteOptionLabel(projectTypes, quote.projectType);
+      const schedule = getPaymentSchedules('custom').find(s => s.id === quote.proposedPaymentSchedule);
+      void emailService.sendTemplate(quote.email, 'quote_proposal', {
+        firstName: quote.fullName.split(' ')[0],
+        projectType,
+        amount: quote.proposedPrice ?? 0,
+        paymentSchedule: schedule?.label ?? 'Pay in full',
+        deliveryTime: quote.proposedDeliveryTime,
+        notes: quote.proposalNotes,
+      });
+      if (quote.userId) {
+        void notificationService.quoteProposed(quote.userId, projectType);
+      }
+
+      res.json(quote);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (/not found/i.test(message)) {
+        return res.status(404).json({ message });
+      }
+      if (/cannot send a proposal/i.test(message)) {
+        return res.status(409).json({ message });
+      }
+      console.error("Error sending quote proposal:", error);
+      res.status(500).json({ message: "Failed to send proposal" });
+    }
+  });
+
+  // Client side of the quote: see proposals, then accept (creating an order) or decline
+  const getClientQuote = async (quoteId: string, userId: string) => {
+    const [user, quote] = await Promise.all([storage.getUser(userId), storage.getQuote(quoteId)]);
+    if (!user || !quote) return undefined;
+    const ownsQuote = quote.userId === userId || (!!user.email && quote.email.toLowerCase() === user.email.toLowerCase());
+    return ownsQuote ? quote : undefined;
+  };
+
+  app.get('/api/quotes', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const clientQuotes = await storage.getClientQuotes(user.id, user.email || '');
+      // Internal notes stay with the team
+      res.json(clientQuotes.map(({ adminNotes, proposedBy, ...quote }) => quote));
+    } catch (error) {
+      console.error("Error fetching quotes:", error);
+      res.status(500).json({ message: "Failed to fetch quotes" });
+    }
+  });
+
+  app.post('/api/quotes/:id/accept', authRateLimit('payment'), isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const user = await storage.getUser(userId);
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid quote ID" });
+      }
 
-      if (user?.role !== 'admin') {
-        auditLog('unauthorized_project_create_attempt', userId);
-        return sendSafeErrorResponse(res, 403, new Error("Unauthorized"), 'unauthorized_project_create');
+      const existing = await getClientQuote(req.params.id, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Quote not found" });
       }
 
-      // Validate and sanitize input
-      const projectData = {
-        ...req.body,
-        projectName: sanitizeInput(req.body.projectName || ''),
-        userId: sanitizeInput(req.body.userId || ''),
-        description: sanitizeInput(req.body.description || ''),
-        notes: sanitizeInput(req.body.notes || '')
-      };
+      const paymentMethod = sanitizeInput(req.body?.paymentMethod || DEFAULT_PAYMENT_PROVIDER);
+      if (!getAvailablePaymentProviders().some(provider => provider.name === paymentMethod)) {
+        return res.status(400).json({ message: "Unsupported payment method" });
+      }
 
-      const validatedProject = insertProjectSchema.parse(projectData);
-      const project = await storage.createProject(validatedProject);
+      const { quote, order } = await storage.acceptQuote(existing.id, userId, paymentMethod);
+      auditLog('quote_accepted', userId, { quoteId: quote.id, orderId: order.id, amount: order.totalPrice, clientIP: req.ip });
+      void notificationService.quoteAnswered(quote.id, quote.fullName, true);
 
-      auditLog('project_created', userId, { 
-        projectId: project.id, 
-        projectName: project.projectName,
-        targetUserId: project.userId 
+      // Same payment start as a checkout order: the first installment is due now
+      const [firstInstallment] = await storage.getOrderInstallments(order.id);
+      const amountDue = firstInstallment ? parseFloat(firstInstallment.amount) : parseFloat(order.totalPrice);
+      let paymentUrl: string | undefined;
+      try {
+        paymentUrl = await storage.initializePayment({
+          orderId: order.id,
+          amount: amountDue,
+          email: quote.email,
+          userId,
+          provider: paymentMethod,
+          installmentId: firstInstallment?.id,
+        });
+        auditLog('payment_initialized', userId, { orderId: order.id, amount: amountDue, provider: paymentMethod, clientIP: req.ip });
+      } catch (paymentError) {
+        auditLog('payment_initialization_failed', userId, { orderId: order.id, error: (paymentError as Error).message, clientIP: req.ip });
+      }
+
+      void emailService.sendTemplate(quote.email, 'order_created', {
+        firstName: quote.fullName.split(' ')[0],
+        orderId: order.id,
+        serviceName: `Custom ${quoteOptionLabel(projectTypes, quote.projectType)}`,
+        amount: amountDue,
+        paymentUrl,
       });
 
-      res.json(project);
+      res.json({ quote, order, paymentUrl });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return sendSafeErrorResponse(res, 400, new Error("Invalid project data"), 'invalid_project_data');
+      const message = (error as Error).message;
+      if (/not found/i.test(message)) {
+        return res.status(404).json({ message });
       }
-      console.error("Error creating project:", error);
-      sendSafeErrorResponse(res, 500, error, 'project_create_error');
+      if (/no open proposal/i.test(message)) {
+        return res.status(409).json({ message });
+      }
+      console.error("Error accepting quote:", error);
+      res.status(500).json({ message: "Failed to accept quote" });
     }
   });
 
-  // Admin update order status and payment
-  app.patch('/api/admin/orders/:id', isAuthenticated, securityHeaders, validateContentType, validateRequestSize(), authRateLimit('order_update'), async (req: any, res) => {
+  app.post('/api/quotes/:id/decline', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        auditLog('unauthorized_order_update_attempt', userId, { orderId: req.params.id });
-        return sendSafeErrorResponse(res, 403, new Error("Unauthorized"), 'unauthorized_order_update');
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid quote ID" });
       }
 
-      const { id } = req.params;
-      const { status, paymentId } = req.body;
-
-      // Validate order ID
-      if (!validateOrderId(id)) {
-        return sendSafeErrorResponse(res, 400, new Error("Invalid order ID"), 'invalid_order_id');
+      const existing = await getClientQuote(req.params.id, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Quote not found" });
       }
 
-      // Sanitize inputs
-      const sanitizedStatus = sanitizeInput(status || '');
-      const sanitizedPaymentId = sanitizeInput(paymentId || '');
+      const quote = await storage.declineQuote(existing.id);
+      auditLog('quote_declined', userId, { quoteId: quote.id, clientIP: req.ip });
+      void notificationService.quoteAnswered(quote.id, quote.fullName, false);
+      const { adminNotes, proposedBy, ...clientQuote } = quote;
+      res.json(clientQuote);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (/no open proposal/i.test(message)) {
+        return res.status(409).json({ message });
+      }
+      console.error("Error declining quote:", error);
+      res.status(500).json({ message: "Failed to decline quote" });
+    }
+  });
 
-      const updates: any = {};
-      if (sanitizedStatus) updates.status = sanitizedStatus;
-      if (sanitizedPaymentId) updates.paymentId = sanitizedPaymentId;
+  // Subscriptions: recurring plans paid through the provider's hosted page, then renewed
+  // off-session by the billing worker (server/subscriptionBilling.ts)
+  const subscriptionErrorResponse = (res: any, error: unknown, action: string) => {
+    const message = (error as Error).message;
+    if (/not found/i.test(message)) {
+      return res.status(404).json({ message });
+    }
+    if (/already|cannot pay|can be resumed/i.test(message)) {
+      return res.status(409).json({ message });
+    }
+    console.error(`Error trying to ${action} subscription:`, error);
+    res.status(500).json({ message: `Failed to ${action} subscription` });
+  };
 
-      const updatedOrder = await storage.updateOrderStatus(id, sanitizedStatus);
+  // The provider token stays on the server
+  const clientSubscription = ({ paymentMethodToken, paymentCustomer, ...subscription }: schema.Subscription & { serviceName?: string | null }) => subscription;
 
-      auditLog('order_updated_by_admin', userId, { 
-        orderId: id, 
-        newStatus: sanitizedStatus,
-        paymentId: sanitizedPaymentId 
-      });
+  const getClientSubscription = async (subscriptionId: string, userId: string) => {
+    if (!validateOrderId(subscriptionId)) return undefined;
+    const subscription = await storage.getSubscription(subscriptionId);
+    return subscription?.userId === userId ? subscription : undefined;
+  };
 
-      res.json(updatedOrder);
+  app.get('/api/subscriptions', isAuthenticated, async (req: any, res) => {
+    try {
+      const subscriptions = await storage.getUserSubscriptions(req.user.id);
+      res.json(subscriptions.map(clientSubscription));
     } catch (error) {
-      console.error("Error updating order:", error);
-      sendSafeErrorResponse(res, 500, error, 'order_update_error');
+      console.error("Error fetching subscriptions:", error);
+      res.status(500).json({ message: "Failed to fetch subscriptions" });
     }
   });
 
-  // Admin service package CRUD operations
-  app.get('/api/admin/services', isAuthenticated, async (req: any, res) => {
+  const subscribeSchema = z.object({
+    serviceId: z.string().min(1).max(100),
+    paymentMethod: z.string().max(50).optional(),
+  });
+
+  app.post('/api/subscriptions', authRateLimit('payment'), validateContentType, isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
+      const parsed = subscribeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid subscription data", errors: parsed.error.errors });
+      }
+
       const user = await storage.getUser(userId);
+      if (!user?.email) {
+        return res.status(400).json({ message: "Add an email address to your account before subscribing" });
+      }
 
-      if (user?.role !== 'admin') {
-        return sendSafeErrorResponse(res, 403, new Error("Unauthorized"), 'unauthorized_service_access');
+      const paymentMethod = sanitizeInput(parsed.data.paymentMethod || DEFAULT_PAYMENT_PROVIDER);
+      const provider = getAvailablePaymentProviders().find(candidate => candidate.name === paymentMethod);
+      if (!provider) {
+        return res.status(400).json({ message: "Unsupported payment method" });
+      }
+      if (!provider.chargeSavedMethod) {
+        return res.status(400).json({ message: "This payment method can't be used for subscriptions" });
       }
 
-      const services = await storage.getAllServices();
-      res.json(services);
+      const service = await storage.getServiceById(parsed.data.serviceId);
+      if (!service || service.isActive === false || !service.billingInterval) {
+        return res.status(400).json({ message: "Plan not available" });
+      }
+
+      let amount: number;
+      try {
+        amount = settlementCatalogue(service, await storage.getExchangeRate(service.currency)).price;
+      } catch (pricingError) {
+        return res.status(400).json({ message: (pricingError as Error).message });
+      }
+      if (!(amount > 0)) {
+        return res.status(400).json({ message: "Plan not available" });
+      }
+
+      const subscription = await storage.createSubscription({
+        userId,
+        serviceId: service.id,
+        billingInterval: service.billingInterval,
+        amount: amount.toFixed(2),
+        currency: SETTLEMENT_CURRENCY,
+        provider: provider.name,
+      });
+      const { paymentUrl } = await subscriptionBilling.startCheckout(subscription.id, user.email);
+      auditLog('subscription_created', userId, { subscriptionId: subscription.id, serviceId: service.id, amount, provider: provider.name, clientIP: req.ip });
+
+      res.status(201).json({ subscription: clientSubscription(subscription), paymentUrl });
     } catch (error) {
-      console.error("Error fetching admin services:", error);
-      sendSafeErrorResponse(res, 500, error, 'service_fetch_error');
+      subscriptionErrorResponse(res, error, 'create');
     }
   });
 
-  app.post('/api/admin/services', isAuthenticated, securityHeaders, validateContentType, validateRequestSize(), authRateLimit('service_create'), async (req: any, res) => {
+  // Pays the first period of an unpaid subscription, or the overdue period of a past-due one
+  app.post('/api/subscriptions/:id/pay', authRateLimit('payment'), isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        auditLog('unauthorized_service_create_attempt', userId);
-        return sendSafeErrorResponse(res, 403, new Error("Unauthorized"), 'unauthorized_service_create');
+      const existing = await getClientSubscription(req.params.id, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Subscription not found" });
       }
 
-      // Sanitize input data
-      const serviceData = {
-        ...req.body,
-        name: sanitizeInput(req.body.name || ''),
-        description: sanitizeInput(req.body.description || ''),
-        category: sanitizeInput(req.body.category || ''),
-        features: Array.isArray(req.body.features) ? req.body.features.map((f: string) => sanitizeInput(f)) : []
-      };
-
-      const validatedService = insertServiceSchema.parse(serviceData);
-      const service = await storage.createService(validatedService);
-
-      auditLog('service_created', userId, { 
-        serviceId: service.id, 
-        serviceName: service.name 
-      });
+      const user = await storage.getUser(userId);
+      if (!user?.email) {
+        return res.status(400).json({ message: "Add an email address to your account before paying" });
+      }
 
-      res.json(service);
+      const { paymentUrl } = await subscriptionBilling.startCheckout(existing.id, user.email);
+      auditLog('subscription_payment_started', userId, { subscriptionId: existing.id, status: existing.status, clientIP: req.ip });
+      res.json({ paymentUrl });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return sendSafeErrorResponse(res, 400, new Error("Invalid service data"), 'invalid_service_data');
-      }
-      console.error("Error creating service:", error);
-      sendSafeErrorResponse(res, 500, error, 'service_create_error');
+      subscriptionErrorResponse(res, error, 'pay for');
     }
   });
 
-  app.patch('/api/admin/services/:id', isAuthenticated, securityHeaders, validateContentType, validateRequestSize(), authRateLimit('service_update'), async (req: any, res) => {
+  app.post('/api/subscriptions/:id/cancel', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        auditLog('unauthorized_service_update_attempt', userId, { serviceId: req.params.id });
-        return sendSafeErrorResponse(res, 403, new Error("Unauthorized"), 'unauthorized_service_update');
+      const existing = await getClientSubscription(req.params.id, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Subscription not found" });
       }
 
-      const { id } = req.params;
-
-      // Sanitize update data
-      const updates = {
-        ...req.body,
-        name: req.body.name ? sanitizeInput(req.body.name) : undefined,
-        description: req.body.description ? sanitizeInput(req.body.description) : undefined,
-        category: req.body.category ? sanitizeInput(req.body.category) : undefined,
-        features: Array.isArray(req.body.features) ? req.body.features.map((f: string) => sanitizeInput(f)) : undefined
-      };
+      const subscription = await storage.cancelSubscription(existing.id, 'client');
+      auditLog('subscription_cancelled', userId, { subscriptionId: subscription.id, atPeriodEnd: subscription.cancelAtPeriodEnd, clientIP: req.ip });
+      if (subscription.status === 'cancelled') {
+        void subscriptionBilling.sendCancellation(subscription);
+      }
+      res.json(clientSubscription({ ...subscription, serviceName: existing.serviceName }));
+    } catch (error) {
+      subscriptionErrorResponse(res, error, 'cancel');
+    }
+  });
 
-      // Remove undefined values
-      Object.keys(updates).forEach(key => updates[key] === undefined && delete updates[key]);
+  app.post('/api/subscriptions/:id/resume', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const existing = await getClientSubscription(req.params.id, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Subscription not found" });
+      }
 
-      const updatedService = await storage.updateService(id, updates);
+      const subscription = await storage.resumeSubscription(existing.id);
+      auditLog('subscription_resumed', userId, { subscriptionId: subscription.id, clientIP: req.ip });
+      res.json(clientSubscription({ ...subscription, serviceName: existing.serviceName }));
+    } catch (error) {
+      subscriptionErrorResponse(res, error, 'resume');
+    }
+  });
 
-      auditLog('service_updated', userId, { 
-        serviceId: id, 
-        updates: Object.keys(updates) 
-      });
+  // Where the provider sends the client after a subscription checkout
+  app.get('/api/subscriptions/callback', authRateLimit('payment'), async (req: any, res) => {
+    const reference = (req.query.reference || req.query.trxref) as string;
+    let outcome = 'failed';
 
-      res.json(updatedService);
+    try {
+      const charge = isValidPaymentReference(reference) ? await storage.getSubscriptionChargeByReference(reference) : undefined;
+      if (charge) {
+        const verified = await getPaymentProvider(charge.provider).verify(reference);
+        await subscriptionBilling.handleCheckoutPayment(verified);
+        const subscription = await storage.getSubscription(charge.subscriptionId);
+        outcome = verified.status === 'pending'
+          ? 'pending'
+          : subscription?.status === 'active' && verified.status === 'success' ? 'success' : 'failed';
+      } else {
+        auditLog('payment_callback_invalid_reference', undefined, { clientIP: req.ip, reference });
+      }
     } catch (error) {
-      console.error("Error updating service:", error);
-      sendSafeErrorResponse(res, 500, error, 'service_update_error');
+      console.error("Error handling subscription callback:", error);
     }
+
+    res.redirect(`/dashboard?subscription=${outcome}#subscriptions`);
   });
 
-  app.delete('/api/admin/services/:id', isAuthenticated, securityHeaders, validateContentType, validateRequestSize(), authRateLimit('service_delete'), async (req: any, res) => {
+  app.get('/api/admin/subscriptions', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const user = await storage.getUser(userId);
-
+      const user = await storage.getUser(req.user.id);
       if (user?.role !== 'admin') {
-        auditLog('unauthorized_service_delete_attempt', userId, { serviceId: req.params.id });
-        return sendSafeErrorResponse(res, 403, new Error("Unauthorized"), 'unauthorized_service_delete');
+        return res.status(403).json({ message: "Unauthorized" });
       }
 
-      const { id } = req.params;
-      await storage.deleteService(id);
-
-      auditLog('service_deleted', userId, { serviceId: id });
+      const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      const [all, recentCharges] = await Promise.all([storage.getAllSubscriptions(), storage.getSubscriptionChargesSince(since)]);
+      const mrrOf = (rows: typeof all) =>
+        Math.round(rows.reduce((total, row) => total + monthlyRecurringAmount(row.amount, row.billingInterval), 0) * 100) / 100;
+
+      // Subscriptions set to cancel still count until their period ends
+      const active = all.filter(row => row.status === 'active');
+      const pastDue = all.filter(row => row.status === 'past_due');
+      const byPlan = new Map<string, { serviceId: string; name: string; subscribers: number; mrr: number }>();
+      active.forEach(row => {
+        const plan = byPlan.get(row.serviceId) ?? { serviceId: row.serviceId, name: row.serviceName ?? 'Unknown plan', subscribers: 0, mrr: 0 };
+        plan.subscribers++;
+        plan.mrr = Math.round((plan.mrr + monthlyRecurringAmount(row.amount, row.billingInterval)) * 100) / 100;
+        byPlan.set(row.serviceId, plan);
+      });
 
-      res.json({ message: "Service deleted successfully" });
+      res.json({
+        subscriptions: all.map(clientSubscription),
+        metrics: {
+          mrr: mrrOf(active),
+          active: active.length,
+          cancelling: active.filter(row => row.cancelAtPeriodEnd).length,
+          pastDue: pastDue.length,
+          atRiskMrr: mrrOf(pastDue),
+          churned30d: all.filter(row => row.status === 'cancelled' && row.cancelledAt && row.cancelledAt >= since).length,
+          collected30d: recentCharges
+            .filter(charge => charge.status === 'succeeded')
+            .reduce((total, charge) => total + parseFloat(charge.amount), 0),
+          failedCharges30d: recentCharges.filter(charge => charge.status === 'failed').length,
+          byPlan: Array.from(byPlan.values()).sort((a, b) => b.mrr - a.mrr),
+        },
+        lastSweep: subscriptionBilling.lastSweep,
+      });
     } catch (error) {
-      console.error("Error deleting service:", error);
-      sendSafeErrorResponse(res, 500, error, 'service_delete_error');
+      console.error("Error fetching subscriptions:", error);
+      res.status(500).json({ message: "Failed to fetch subscriptions" });
     }
   });
 
-  // Contact form route (public)
-  app.post('/api/contact', async (req, res) => {
+  app.post('/api/admin/subscriptions/:id/cancel', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
     try {
-      const { name, email, subject, message } = req.body;
-
-      // Basic validation
-      if (!name || !email || !subject || !message) {
-        return res.status(400).json({ message: "All fields are required" });
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (!validateOrderId(req.params.id)) {
+        return res.status(400).json({ message: "Invalid subscription ID" });
       }
 
-      await storage.handleContactForm({ name, email, subject, message });
-      res.json({ message: "Contact form submitted successfully" });
+      const subscription = await storage.cancelSubscription(req.params.id, 'admin', req.body?.immediately === true);
+      auditLog('subscription_cancelled_by_admin', userId, { subscriptionId: subscription.id, immediately: subscription.status === 'cancelled', clientIP: req.ip });
+      if (subscription.status === 'cancelled') {
+        void subscriptionBilling.sendCancellation(subscription);
+      }
+      res.json(clientSubscription(subscription));
     } catch (error) {
-      console.error("Error handling contact form:", error);
-      res.status(500).json({ message: "Failed to submit contact form" });
+      subscriptionErrorResponse(res, error, 'cancel');
     }
   });
 
-  // Quote request route (public)
-  app.post('/api/quote-request', async (req, res) => {
+  app.post('/api/admin/subscriptions/run', authRateLimit('admin'), isAuthenticated, async (req: any, res) => {
     try {
-      const quoteData = req.body;
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
 
-      await storage.handleQuoteRequest(quoteData);
-      res.json({ message: "Quote request submitted successfully" });
+      const summary = await subscriptionBilling.run();
+      auditLog('subscription_billing_triggered', userId, { clientIP: req.ip });
+      res.json(summary);
     } catch (error) {
-      console.error("Error handling quote request:", error);
-      res.status(500).json({ message: "Failed to submit quote request" });
+      console.error("Error running subscription billing:", error);
+      res.status(500).json({ message: "Failed to run subscription billing" });
     }
   });
 
@@ -1428,7 +4045,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const optimizedStats = await cacheManager.getOrSet(
         cacheKey,
         async () => {
-          const [userOrders, userProjects] = await Promise.all([
+          const [userOrders, userProjects, newMessages] = await Promise.all([
             db.select({
               status: orders.status,
               totalPrice: orders.totalPrice
@@ -1436,7 +4053,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             
             db.select({
               status: schema.projects.status
-            }).from(schema.projects).where(eq(schema.projects.userId, userId))
+            }).from(schema.projects).where(eq(schema.projects.userId, userId)),
+
+            storage.getUnreadNotificationCount(userId, 'new_message')
           ]);
 
           const paidOrders = userOrders.filter(o => o.status === 'paid');
@@ -1452,7 +4071,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             activeProjects: activeProjects,
             completedProjects: completedProjects,
             totalSpent: totalSpent,
-            newMessages: 0
+            newMessages: newMessages
           };
         },
         30 // 30 second cache
@@ -1470,11 +4089,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Checkout session routes
-  app.post("/api/checkout-sessions", async (req, res) => {
+  // Notification routes
+  app.get('/api/notifications', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const unreadOnly = req.query.unread === 'true';
+
+      const userNotifications = await storage.getUserNotifications(userId, { limit, unreadOnly });
+      res.json(userNotifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.get('/api/notifications/unread-count', isAuthenticated, async (req: any, res) => {
+    try {
+      const count = await storage.getUnreadNotificationCount(req.user.id);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error fetching unread notification count:", error);
+      res.status(500).json({ message: "Failed to fetch unread count" });
+    }
+  });
+
+  app.patch('/api/notifications/:id/read', validateContentType, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const notification = await storage.markNotificationRead(req.params.id, userId);
+
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+
+      await cacheManager.invalidate(CacheKeys.userStats(userId));
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to update notification" });
+    }
+  });
+
+  app.post('/api/notifications/read-all', validateContentType, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      await storage.markAllNotificationsRead(userId);
+      await cacheManager.invalidate(CacheKeys.userStats(userId));
+      res.json({ message: "All notifications marked as read" });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to update notifications" });
+    }
+  });
+
+  // Checkout session routes. Sessions are saved before sign-in, so these are public and rate limited.
+  const checkoutTotalSchema = z.number().nonnegative().max(1_000_000_000).transform(Math.round);
+  const checkoutSessionUpdateSchema = z.object({
+    contactData: z.record(z.string().max(100), z.unknown()).nullable().optional()
+      .refine(value => !value || JSON.stringify(value).length <= 10000, { message: "Contact details are too long" }),
+    selectedAddOns: z.array(z.string().max(100)).max(50).optional(),
+    totalPrice: checkoutTotalSchema.optional(),
+  });
+  const checkoutSessionSchema = checkoutSessionUpdateSchema.extend({
+    serviceId: z.string().min(1).max(100),
+    serviceData: z.object({ price: z.number().nonnegative().max(1_000_000_000).optional() }).optional(),
+    totalPrice: checkoutTotalSchema,
+  });
+
+  app.post("/api/checkout-sessions", authRateLimit('checkout_session'), botGuard('checkout_session', {
+    rejectedResponse: () => ({ error: "We couldn't save your checkout. Please refresh the page and try again." }),
+  }), async (req: any, res) => {
     try {
-      const sessionData = req.body;
-      console.log('Creating checkout session with data:', sessionData);
+      const parsed = checkoutSessionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid checkout session" });
+      }
+      const sessionData = parsed.data;
+
+      // The stored service snapshot comes from the catalogue; only the displayed price is the client's
+      const service = await storage.getServiceById(sessionData.serviceId);
+      if (!service || !service.isActive) {
+        return res.status(400).json({ error: "Service not found" });
+      }
 
       // Generate unique session token
       const sessionToken = `checkout_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -1484,16 +4181,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const checkoutSession = await storage.createCheckoutSession({
         sessionToken,
-        serviceId: sessionData.serviceId,
-        serviceData: sessionData.serviceData,
+        serviceId: service.id,
+        serviceData: {
+          id: service.id,
+          name: service.name,
+          price: sessionData.serviceData?.price ?? Number(service.priceUsd),
+          description: service.description,
+        },
         contactData: sessionData.contactData || null,
         selectedAddOns: sessionData.selectedAddOns || [],
         totalPrice: sessionData.totalPrice,
-        userId: sessionData.userId || null,
+        userId: req.user?.id ?? null,
         expiresAt,
       });
 
-      console.log('Created checkout session:', checkoutSession);
       res.json({ sessionToken: checkoutSession.sessionToken });
     } catch (error) {
       console.error("Error creating checkout session:", error);
@@ -1510,12 +4211,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Checkout session not found" });
       }
 
-      // Check if session has expired
-      if (new Date() > session.expiresAt) {
-        await storage.deleteCheckoutSession(sessionToken);
+      // Expired sessions are kept so the recovery email can still reopen them
+      if (new Date() > session.expiresAt || session.isCompleted) {
         return res.status(410).json({ error: "Checkout session expired" });
       }
 
+      // Link the session to the client once they sign in, so recovery can reach them
+      if (!session.userId && req.user?.id) {
+        return res.json(await storage.updateCheckoutSession(sessionToken, { userId: req.user.id }));
+      }
+
       res.json(session);
     } catch (error) {
       console.error("Error fetching checkout session:", error);
@@ -1523,10 +4228,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/checkout-sessions/:sessionToken", async (req, res) => {
+  // Reopen a session from the signed link in a recovery email
+  app.get("/api/checkout-sessions/:sessionToken/resume", authRateLimit('api'), async (req, res) => {
+    try {
+      const { sessionToken } = req.params;
+      const { exp, sig } = req.query;
+
+      if (typeof exp !== 'string' || typeof sig !== 'string' || !checkoutRecovery.verifyResumeLink(sessionToken, exp, sig)) {
+        auditLog('checkout_resume_rejected', undefined, { clientIP: req.ip });
+        return res.status(403).json({ error: "This checkout link is invalid or has expired" });
+      }
+
+      // Give the client the usual two hours to finish from here
+      const session = await storage.markCheckoutSessionRecovered(sessionToken, new Date(Date.now() + 2 * 60 * 60 * 1000));
+      if (!session) {
+        return res.status(410).json({ error: "This checkout has already been completed" });
+      }
+
+      auditLog('checkout_resumed', session.userId ?? undefined, { sessionId: session.id, clientIP: req.ip });
+      res.json(session);
+    } catch (error) {
+      console.error("Error resuming checkout session:", error);
+      res.status(500).json({ error: "Failed to resume checkout session" });
+    }
+  });
+
+  app.put("/api/checkout-sessions/:sessionToken", authRateLimit('checkout_session'), async (req: any, res) => {
     try {
       const { sessionToken } = req.params;
-      const updates = req.body;
+      // Recovery and conversion tracking fields are server-managed
+      const parsed = checkoutSessionUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid checkout session" });
+      }
+      const updates = { ...parsed.data, ...(req.user?.id ? { userId: req.user.id } : {}) };
 
       const updatedSession = await storage.updateCheckoutSession(sessionToken, updates);
       res.json(updatedSession);
@@ -1771,6 +4506,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         newStatus: sanitizedStatus,
         notes: sanitizedNotes 
       });
+      await notificationService.withdrawalProcessed(withdrawal.userId, withdrawal.amount, sanitizedStatus);
+
+      if (sanitizedStatus === 'rejected') {
+        void emailService.sendTemplateToUser(withdrawal.userId, 'withdrawal_rejected', {
+          amount: withdrawal.amount,
+          notes: sanitizedNotes,
+        });
+      } else if (sanitizedStatus === 'approved' || sanitizedStatus === 'completed') {
+        void emailService.sendTemplateToUser(withdrawal.userId, 'withdrawal_approved', {
+          amount: withdrawal.amount,
+          status: sanitizedStatus,
+          notes: sanitizedNotes,
+        });
+      }
 
       res.json(withdrawal);
     } catch (error) {
@@ -2387,29 +5136,54 @@ Sitemap: ${settings.siteUrl}/sitemap.xml`;
     }
   });
 
-  // Track SEO analytics
-  app.post('/api/seo/analytics', async (req, res) => {
-    try {
-      const { page, date, views, referrer, userAgent } = req.body;
+  // Track SEO analytics. Each request counts as one view; crawlers and headless browsers aren't counted.
+  const BOT_USER_AGENT = /bot|crawl|spider|slurp|headless|lighthouse|curl|wget|python-requests|axios|node-fetch/i;
+  const analyticsSchema = z.object({
+    page: z.string().trim().min(1).max(500),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  });
 
-      if (!page || !date) {
+  // Page views are sent without anyone filling anything in, so only the time-to-submit check is skipped
+  app.post('/api/seo/analytics', authRateLimit('analytics'), botGuard('seo_analytics', {
+    allowQuickSubmit: true,
+    rejectedStatus: 200,
+    rejectedResponse: () => ({ success: true }),
+  }), async (req, res) => {
+    try {
+      const parsed = analyticsSchema.safeParse(req.body);
+      if (!parsed.success) {
         return sendSafeErrorResponse(res, 400, new Error("Page and date are required"), 'missing_analytics_data');
       }
 
+      const userAgent = req.get('user-agent') || '';
+      if (!userAgent || BOT_USER_AGENT.test(userAgent)) {
+        return res.json({ success: true });
+      }
+
+      // Only today's views are accepted, allowing for the visitor's timezone
+      const dayMs = 24 * 60 * 60 * 1000;
+      const viewedAt = Date.parse(`${parsed.data.date}T00:00:00Z`);
+      if (!Number.isFinite(viewedAt) || Math.abs(viewedAt - Date.now()) > 2 * dayMs) {
+        return sendSafeErrorResponse(res, 400, new Error("Invalid date"), 'invalid_analytics_date');
+      }
+
+      const page = sanitizeInput(parsed.data.page);
+      const date = parsed.data.date;
+
       // Check if record exists for this page and date
-      const existingRecord = await storage.getSeoAnalyticsByPageAndDate(sanitizeInput(page), sanitizeInput(date));
+      const existingRecord = await storage.getSeoAnalyticsByPageAndDate(page, date);
 
       if (existingRecord) {
         // Update existing record
         await storage.updateSeoAnalytics(existingRecord.id, {
-          views: (existingRecord.views || 0) + (views || 1)
+          views: (existingRecord.views || 0) + 1
         });
       } else {
         // Create new record
         await storage.createSeoAnalytics({
-          page: sanitizeInput(page),
-          date: sanitizeInput(date),
-          views: views || 1,
+          page,
+          date,
+          views: 1,
           clicks: 0,
           impressions: 0
         });
@@ -2423,5 +5197,6 @@ Sitemap: ${settings.siteUrl}/sitemap.xml`;
   });
 
   const httpServer = createServer(app);
+  messageHub.attach(httpServer, getSessionMiddleware());
   return httpServer;
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from "express";
+import { auditLogger } from "./auditLogger";
 
 // Production-ready security configuration with environment-based tuning
 const attemptStore = new Map();
@@ -13,11 +14,15 @@ const BASE_RATE_LIMITS = {
   register: { max: 3, window: 3600000 },     // 3 attempts per hour
   password: { max: 3, window: 900000 },      // 3 attempts per 15 minutes
   payment_reactivation: { max: 3, window: 300000 }, // 3 payment reactivations per 5 minutes
+  payment_refund: { max: 10, window: 900000 }, // 10 refunds per 15 minutes
   admin: { max: 10, window: 900000 },        // 10 admin actions per 15 minutes
   api: { max: 100, window: 60000 },          // 100 API calls per minute
   upload: { max: 5, window: 300000 },        // 5 uploads per 5 minutes
   checkout: { max: 10, window: 600000 },     // 10 checkout attempts per 10 minutes
   contact: { max: 3, window: 3600000 },      // 3 contact form submissions per hour
+  challenge: { max: 120, window: 600000 },   // 120 anti-abuse challenges per 10 minutes (page views fetch one too)
+  checkout_session: { max: 20, window: 600000 }, // 20 checkout session saves per 10 minutes
+  analytics: { max: 60, window: 60000 },     // 60 page views per minute
   order_cancel: { max: 5, window: 300000 },  // 5 cancellations per 5 minutes
   auth_check: { max: 100, window: 300000 },  // 100 auth checks per 5 minutes
 };
@@ -255,10 +260,30 @@ export function authRateLimit(type: string) {
   };
 }
 
-// Audit logging
+// Audit logging - printed immediately, persisted to audit_logs in background batches
 export function auditLog(action: string, userId?: string, details?: any) {
   const timestamp = new Date().toISOString();
   console.log(`[AUDIT] ${timestamp} - Action: ${action}, User: ${userId || 'anonymous'}, Details: ${JSON.stringify(details)}`);
+
+  try {
+    // Call sites record the client address under a few different names
+    const ipAddress = details?.ip || details?.clientIP || details?.clientIp || details?.ipAddress || null;
+
+    auditLogger.enqueue({
+      actionType: action,
+      userId: userId || null,
+      ipAddress: ipAddress ? String(ipAddress) : null,
+      details: details === undefined ? null : JSON.parse(JSON.stringify(details)),
+      createdAt: new Date(),
+    });
+  } catch (error) {
+    console.error('[AUDIT] Failed to queue audit entry:', (error as Error).message);
+  }
+}
+
+// Write any buffered audit entries, e.g. before the process exits
+export async function flushAuditLog(): Promise<void> {
+  await auditLogger.flush();
 }
 
 // Clean session data
@@ -1,16 +1,33 @@
 import {
   users,
   services,
+  exchangeRates,
   orders,
   projects,
   projectStages,
   messages,
   payments,
+  processedPaymentEvents,
+  paymentReconciliationIssues,
+  refunds,
+  orderInstallments,
+  orderLineItems,
+  coupons,
+  invoices,
+  invoiceSequences,
+  settings,
   files,
   notifications,
   supportRequests,
   auditLogs,
   checkoutSessions,
+  quotes,
+  contactSubmissions,
+  contactReplies,
+  quarantinedSubmissions,
+  subscriptions,
+  subscriptionCharges,
+  paymentProofs,
   passwordResetTokens,
   referrals,
   referralEarnings,
@@ -26,18 +43,58 @@ import {
   type UpsertUser,
   type Service,
   type InsertService,
+  type ExchangeRate,
   type Order,
   type InsertOrder,
   type Project,
   type InsertProject,
+  type ProjectStage,
+  type InsertProjectStage,
   type Message,
   type InsertMessage,
+  type MessageWithDetails,
+  messageAttachments,
+  messageReads,
+  type File,
+  type InsertFile,
+  type Notification,
+  type AuditLog,
+  type InsertNotification,
   type Payment,
+  type PaymentWithRefunds,
+  type PaymentReconciliationIssue,
+  type InsertPaymentReconciliationIssue,
+  orderStatusHistory,
+  type OrderStatusHistory,
+  type Refund,
+  type OrderInstallment,
+  type OrderLineItem,
+  type Coupon,
+  type InsertCoupon,
+  type CouponWithStats,
+  type OrderWithInstallments,
+  type Invoice,
+  type InvoiceLineItem,
+  type InvoiceParty,
+  type Settings,
   type InsertPayment,
   type SupportRequest,
   type InsertSupportRequest,
   type CheckoutSession,
   type InsertCheckoutSession,
+  type Quote,
+  type InsertQuote,
+  type ContactSubmission,
+  type ContactSubmissionWithReplies,
+  type QuarantinedSubmission,
+  type Subscription,
+  type SubscriptionCharge,
+  type SubscriptionWithService,
+  type PaymentProof,
+  type InsertPaymentProof,
+  type PaymentProofWithPayment,
+  type BankTransferRefundDue,
+  type InsertQuarantinedSubmission,
   type PasswordResetToken,
   type InsertPasswordResetToken,
   type Referral,
@@ -67,8 +124,76 @@ console.log('🔍 DEBUG: Schema info loaded');
 console.log('🔍 DEBUG: passwordResetTokens table structure available');
 console.log('🔍 DEBUG: users table structure available');
 import { db } from "./db";
-import { eq, desc, and, count, sum, sql, lt, gte, lte } from "drizzle-orm";
+import { eq, desc, and, or, count, sum, min, sql, lt, gt, gte, lte, inArray, ne, isNotNull, isNull, notExists } from "drizzle-orm";
 import crypto from "crypto";
+import { getStageTemplate, calculateStageProgress } from "./projectStageTemplates";
+import { notificationService } from "./notifications";
+import { emailService } from "./email";
+import {
+  getPaymentProvider,
+  findProviderForReference,
+  DEFAULT_PAYMENT_PROVIDER,
+  BANK_TRANSFER_PROVIDER,
+  PAYMENT_AMOUNT_TOLERANCE,
+  type VerifiedPayment,
+  type PaymentWebhookEvent,
+  type RefundResult,
+} from "./paymentProviders";
+import type { ReconciliationIssueKind } from "./paymentReconciler";
+import { planInstallments, FULL_PAYMENT_SCHEDULE } from "./paymentSchedules";
+import type { PricedLineItem } from "./orderPricing";
+import { couponDiscount, couponIneligibility, normalizeCouponCode } from "./coupons";
+import { buildOrderLineItems, buildPaymentLineItems, formatInvoiceNumber, splitVat, type InvoiceKind } from "./invoices";
+import { SETTLEMENT_CURRENCY } from "@shared/currency";
+import { assertOrderTransition, canTransitionOrder, type OrderStatus, type OrderStatusSource } from "@shared/orderLifecycle";
+import { adminQuoteTransitions, quoteOptionLabel, projectTypes, quoteStatusLabels, type QuoteStatus } from "@shared/quotes";
+import { addBillingInterval } from "@shared/subscriptions";
+
+export type ContactStatus = ContactSubmission["status"];
+export type QuarantineStatus = QuarantinedSubmission["status"];
+
+export interface QuoteProposal {
+  price: number; // Settlement currency
+  paymentSchedule: string;
+  deliveryTime?: string | null;
+  notes?: string | null;
+}
+
+export interface OrderStatusChange {
+  source: OrderStatusSource;
+  changedBy?: string | null; // Null for automatic changes
+  reason?: string | null;
+}
+
+export type InvoiceSettingsUpdate = Partial<Pick<Settings,
+  'businessName' | 'businessAddress' | 'businessEmail' | 'businessPhone' | 'taxId' | 'vatRate'>>;
+
+// Either the shared connection or an open transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const outstandingInstallmentBalance = (rows: OrderInstallment[]) =>
+  roundMoney(rows.filter(installment => installment.status !== 'paid').reduce((total, installment) => total + parseFloat(installment.amount), 0));
+
+// Failed refunds never left the account, so they don't count against the payment
+const sumActiveRefunds = (rows: Refund[]) =>
+  roundMoney(rows.filter(refund => refund.status !== 'failed').reduce((total, refund) => total + parseFloat(refund.amount), 0));
+
+// The same checks the reconciler makes before a provider's "success" is applied to an order
+const paymentMismatch = (payment: Payment, verified: VerifiedPayment): ReconciliationIssueKind | null => {
+  if (verified.amount !== undefined && Math.abs(verified.amount - parseFloat(payment.amount)) > PAYMENT_AMOUNT_TOLERANCE) {
+    return 'amount_mismatch';
+  }
+  if (verified.currency && payment.currency && verified.currency.toUpperCase() !== payment.currency.toUpperCase()) {
+    return 'currency_mismatch';
+  }
+  return null;
+};
+
+// Bank transfer refunds go back by hand, so they are only booked once an admin records the transfer
+const awaitingBankTransfer = (refund: Refund) =>
+  refund.provider === BANK_TRANSFER_PROVIDER && refund.status === 'pending' && !refund.processedAt;
 
 // Interface for storage operations
 export interface IStorage {
@@ -89,13 +214,44 @@ export interface IStorage {
   getAllServices(): Promise<Service[]>;
   getServiceById(id: string): Promise<Service | undefined>;
   createService(service: InsertService): Promise<Service>;
+  setServiceCapacity(serviceId: string, capacity: { totalSpots?: number; spotsRemaining?: number }): Promise<Service & { reservedSpots: number }>;
   updateService(id: string, updates: Partial<InsertService>): Promise<Service>;
   deleteService(id: string): Promise<void>;
 
-  createOrder(order: InsertOrder): Promise<Order>;
-  getUserOrders(userId: string): Promise<Order[]>;
+  // Exchange rate operations
+  getExchangeRates(): Promise<ExchangeRate[]>;
+  getExchangeRate(currency: string): Promise<number>;
+  upsertExchangeRate(currency: string, rate: number, updatedBy: string): Promise<ExchangeRate>;
+  deleteExchangeRate(currency: string): Promise<void>;
+
+  createOrder(order: InsertOrder, lineItems?: PricedLineItem[]): Promise<Order>;
+  getOrderLineItems(orderId: string): Promise<OrderLineItem[]>;
+
+  // Coupon operations
+  getCoupons(): Promise<CouponWithStats[]>;
+  getCouponByCode(code: string): Promise<Coupon | undefined>;
+  createCoupon(coupon: InsertCoupon, createdBy: string): Promise<Coupon>;
+  updateCoupon(couponId: string, updates: Partial<InsertCoupon>): Promise<Coupon>;
+  getCouponRedemptions(couponId: string): Promise<{
+    orderId: string;
+    status: string | null;
+    totalPrice: string;
+    discount: number;
+    customerEmail: string | null;
+    createdAt: Date | null;
+  }[]>;
+  validateCoupon(code: string, params: {
+    service: Service;
+    subtotal: number;
+    userId?: string;
+  }): Promise<{ coupon: Coupon; discount: number }>;
+  getUserOrders(userId: string): Promise<OrderWithInstallments[]>;
   getAllOrders(): Promise<Order[]>;
-  updateOrderStatus(orderId: string, status: string): Promise<Order>;
+  transitionOrderStatus(orderId: string, status: OrderStatus, change: OrderStatusChange): Promise<{ order: Order; previousStatus: OrderStatus }>;
+  getOrderStatusHistory(orderId: string): Promise<(OrderStatusHistory & { changedByName: string | null })[]>;
+  activateOrderProject(orderId: string): Promise<{ projectId: string; serviceCategory: string | null }>;
+  activatePaidOrder(orderId: string): Promise<{ projectId: string; serviceCategory: string | null }>;
+  setOrderProjectStatus(orderId: string, status: 'active' | 'paused' | 'completed'): Promise<void>;
   cancelOrder(orderId: string, userId: string): Promise<Order>;
   reactivatePayment(orderId: string, userId: string): Promise<string>;
 
@@ -105,17 +261,108 @@ export interface IStorage {
   updateProject(projectId: string, updates: Partial<Project>): Promise<Project>;
   userHasProjectAccess(userId: string, projectId: string): Promise<boolean>;
 
-  getProjectMessages(projectId: string): Promise<Message[]>;
-  createMessage(message: InsertMessage): Promise<Message>;
+  // Project milestone operations
+  getProjectStages(projectId: string): Promise<ProjectStage[]>;
+  getProjectStageById(stageId: string): Promise<ProjectStage | undefined>;
+  createProjectStage(stage: InsertProjectStage): Promise<ProjectStage>;
+  updateProjectStage(stageId: string, updates: Partial<InsertProjectStage>): Promise<ProjectStage>;
+  deleteProjectStage(stageId: string): Promise<void>;
+  reorderProjectStages(projectId: string, stageIds: string[]): Promise<ProjectStage[]>;
+  seedProjectStages(projectId: string, category?: string | null): Promise<ProjectStage[]>;
+  syncProjectProgress(projectId: string): Promise<Project>;
+
+  getProjectMessages(projectId: string, options?: {
+    before?: string;
+    limit?: number;
+    unreadFor?: string;
+  }): Promise<{ messages: MessageWithDetails[]; nextCursor: string | null }>;
+  createMessage(message: InsertMessage, fileIds?: string[]): Promise<MessageWithDetails>;
+  markMessagesRead(projectId: string, userId: string, upToMessageId?: string): Promise<{ messageIds: string[]; readAt: Date }>;
+  getUnansweredClientMessages(): Promise<{
+    projectId: string;
+    projectName: string | null;
+    client: { id: string; email: string; firstName: string | null; lastName: string | null } | null;
+    lastMessage: { id: string; content: string; sentAt: Date | null };
+    unansweredCount: number;
+    waitingSince: Date | null;
+    readByAdminAt: Date | null;
+  }[]>;
+
+  // Project file operations
+  getProjectFiles(projectId: string): Promise<File[]>;
+  getFileById(fileId: string): Promise<File | undefined>;
+  createFile(file: InsertFile): Promise<File>;
+  deleteFile(fileId: string): Promise<void>;
+
+  // Notification operations
+  getAdminUsers(): Promise<User[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getUserNotifications(userId: string, options?: { limit?: number; unreadOnly?: boolean }): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: string, type?: string): Promise<number>;
+  markNotificationRead(notificationId: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string, type?: string): Promise<void>;
+
+  // Audit log queries
+  getAuditLogs(filters: {
+    page?: number;
+    limit?: number;
+    actionType?: string;
+    userId?: string;
+    from?: Date;
+    to?: Date;
+  }): Promise<{ logs: AuditLog[]; total: number }>;
+  getAuditLogActionTypes(): Promise<string[]>;
 
   initializePayment(params: {
     orderId: string;
     amount: number;
     email: string;
     userId: string;
+    provider?: string;
+    installmentId?: string;
   }): Promise<string>;
-  verifyPaystackWebhook(signature: string, body: string): Promise<boolean>;
-  handleSuccessfulPayment(paymentData: any): Promise<void>;
+  getPaymentByReference(reference: string): Promise<Payment | undefined>;
+  verifyPayment(reference: string): Promise<VerifiedPayment>;
+  verifyPaymentWebhook(
+    provider: string,
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: string,
+  ): Promise<PaymentWebhookEvent | null>;
+  handleSuccessfulPayment(payment: VerifiedPayment): Promise<boolean>;
+  markPaymentFailed(paymentId: string): Promise<boolean>;
+
+  // Bank transfers
+  getBankTransfer(reference: string): Promise<{ payment: Payment; order: Order; proofs: PaymentProof[] } | undefined>;
+  submitPaymentProof(proof: Pick<InsertPaymentProof, "paymentId" | "userId" | "fileUrl" | "filename" | "mimeType" | "sizeBytes" | "senderName" | "note">): Promise<{ proof: PaymentProof; order: Order }>;
+  getPaymentProofs(status?: PaymentProof["status"]): Promise<PaymentProofWithPayment[]>;
+  getPaymentProof(id: string): Promise<PaymentProof | undefined>;
+  confirmPaymentProof(id: string, reviewedBy: string): Promise<PaymentProof>;
+  rejectPaymentProof(id: string, reviewedBy: string, reason: string): Promise<{ proof: PaymentProof; order: Order; payment: Payment }>;
+
+  // Pending payment reconciliation
+  getStalePendingPayments(createdBefore: Date, limit?: number): Promise<(Payment & { orderStatus: string | null })[]>;
+  expirePendingOrders(createdBefore: Date): Promise<Order[]>;
+  recordReconciliationIssue(issue: InsertPaymentReconciliationIssue): Promise<boolean>;
+  getReconciliationIssues(options?: { includeResolved?: boolean }): Promise<(PaymentReconciliationIssue & { customerEmail: string | null })[]>;
+  resolveReconciliationIssue(issueId: string, resolvedBy: string, note?: string): Promise<PaymentReconciliationIssue | undefined>;
+  getOrderPayments(orderId: string): Promise<PaymentWithRefunds[]>;
+  getOrderInstallments(orderId: string): Promise<OrderInstallment[]>;
+  payInstallment(orderId: string, installmentId: string, userId: string): Promise<string>;
+  refundPayment(paymentId: string, params: {
+    amount?: number;
+    reason?: string;
+    requestedBy: string;
+  }): Promise<{ refund: Refund; orderCancelled: boolean; awaitingTransfer: boolean }>;
+  getBankTransferRefundsDue(): Promise<BankTransferRefundDue[]>;
+  completeBankTransferRefund(refundId: string, sentBy: string): Promise<{ refund: Refund; orderCancelled: boolean }>;
+  cancelBankTransferRefund(refundId: string): Promise<Refund>;
+
+  // Invoices and receipts
+  getInvoiceSettings(): Promise<Settings | undefined>;
+  updateInvoiceSettings(updates: InvoiceSettingsUpdate): Promise<Settings>;
+  issueOrderInvoice(orderId: string): Promise<Invoice>;
+  issuePaymentReceipt(paymentId: string): Promise<Invoice>;
+  getOrderInvoices(orderId: string): Promise<Invoice[]>;
 
   getUserSupportRequests(userId: string): Promise<SupportRequest[]>;
   getAllSupportRequests(): Promise<SupportRequest[]>;
@@ -129,15 +376,56 @@ export interface IStorage {
     email: string;
     subject: string;
     message: string;
-  }): Promise<void>;
-  handleQuoteRequest(data: any): Promise<void>;
+  }): Promise<ContactSubmission>;
+  getContactSubmissions(status?: ContactStatus): Promise<ContactSubmission[]>;
+  getContactSubmission(id: string): Promise<ContactSubmissionWithReplies | undefined>;
+  markContactRead(id: string): Promise<void>;
+  updateContactStatus(id: string, status: ContactStatus): Promise<ContactSubmission>;
+  recordContactReply(id: string, body: string, sentBy: string): Promise<ContactSubmission>;
+  convertContactToQuote(id: string, fields: Pick<InsertQuote, "projectType" | "budgetRange" | "timeline" | "description">): Promise<{ submission: ContactSubmission; quote: Quote }>;
+  handleQuoteRequest(data: InsertQuote): Promise<Quote>;
+  getQuotes(status?: QuoteStatus): Promise<Quote[]>;
+  getQuote(id: string): Promise<Quote | undefined>;
+  getClientQuotes(userId: string, email: string): Promise<Quote[]>;
+  updateQuoteStatus(id: string, status: QuoteStatus, adminNotes?: string | null): Promise<Quote>;
+  proposeQuote(id: string, proposal: QuoteProposal, proposedBy: string): Promise<Quote>;
+  declineQuote(id: string): Promise<Quote>;
+  acceptQuote(id: string, userId: string, paymentMethod: string): Promise<{ quote: Quote; order: Order }>;
+  quarantineSubmission(submission: InsertQuarantinedSubmission): Promise<QuarantinedSubmission>;
+  getQuarantinedSubmissions(status?: QuarantineStatus): Promise<QuarantinedSubmission[]>;
+  getQuarantinedSubmission(id: string): Promise<QuarantinedSubmission | undefined>;
+  reviewQuarantinedSubmission(id: string, status: Exclude<QuarantineStatus, 'pending'>, reviewedBy: string): Promise<QuarantinedSubmission>;
+
+  // Subscriptions
+  createSubscription(subscription: Pick<Subscription, "userId" | "serviceId" | "billingInterval" | "amount" | "currency" | "provider">): Promise<Subscription>;
+  getSubscription(id: string): Promise<SubscriptionWithService | undefined>;
+  getUserSubscriptions(userId: string): Promise<SubscriptionWithService[]>;
+  getAllSubscriptions(): Promise<(SubscriptionWithService & { customerEmail: string | null; customerName: string | null })[]>;
+  getSubscriptionCharges(subscriptionId: string): Promise<SubscriptionCharge[]>;
+  getSubscriptionChargesSince(since: Date): Promise<SubscriptionCharge[]>;
+  getSubscriptionChargeByReference(reference: string): Promise<SubscriptionCharge | undefined>;
+  startSubscriptionCheckout(subscriptionId: string): Promise<{ subscription: Subscription; charge: SubscriptionCharge }>;
+  setSubscriptionChargeReference(chargeId: string, reference: string): Promise<void>;
+  getPendingSubscriptionCheckouts(createdBefore: Date, limit?: number): Promise<SubscriptionCharge[]>;
+  settleSubscriptionCheckout(verified: VerifiedPayment): Promise<{ subscription: Subscription; charge: SubscriptionCharge; started: boolean } | null>;
+  getSubscriptionsDueForRenewal(now: Date, limit?: number): Promise<Subscription[]>;
+  claimSubscriptionRenewal(subscriptionId: string, now: Date): Promise<{ subscription: Subscription; charge: SubscriptionCharge } | null>;
+  recordSubscriptionRenewal(chargeId: string, result: VerifiedPayment, retryDays: number[]): Promise<{ subscription: Subscription; outcome: 'renewed' | 'retrying' | 'cancelled' }>;
+  endCancelledSubscriptions(now: Date): Promise<Subscription[]>;
+  cancelSubscription(id: string, reason: 'client' | 'admin', immediately?: boolean): Promise<Subscription>;
+  resumeSubscription(id: string): Promise<Subscription>;
 
   // Checkout session management
   createCheckoutSession(session: InsertCheckoutSession): Promise<CheckoutSession>;
   getCheckoutSession(sessionToken: string): Promise<CheckoutSession | undefined>;
   updateCheckoutSession(sessionToken: string, updates: Partial<InsertCheckoutSession>): Promise<CheckoutSession>;
   deleteCheckoutSession(sessionToken: string): Promise<void>;
-  cleanupExpiredCheckoutSessions(): Promise<void>;
+  cleanupExpiredCheckoutSessions(expiredBefore?: Date): Promise<void>;
+  getCheckoutSessionsForRecovery(createdAfter: Date, createdBefore: Date, limit?: number): Promise<(CheckoutSession & { userEmail: string | null; userFirstName: string | null })[]>;
+  markCheckoutRecoveryEmailSent(sessionId: string): Promise<boolean>;
+  markCheckoutSessionRecovered(sessionToken: string, expiresAt: Date): Promise<CheckoutSession | undefined>;
+  completeCheckoutSession(sessionToken: string, orderId: string, userId: string): Promise<void>;
+  getAbandonedCheckouts(createdBefore: Date, limit?: number): Promise<(CheckoutSession & { userEmail: string | null; orderStatus: string | null; orderTotal: string | null })[]>;
 
   // Admin project management
   getProjectById(id: string): Promise<Project | undefined>;
@@ -399,6 +687,34 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Without an explicit spotsRemaining, spots already taken stay taken when the total changes
+  async setServiceCapacity(serviceId: string, capacity: { totalSpots?: number; spotsRemaining?: number }) {
+    return await db.transaction(async (tx) => {
+      const [service] = await tx.select().from(services).where(eq(services.id, serviceId)).for('update');
+      if (!service) {
+        throw new Error("Service not found");
+      }
+
+      const totalSpots = capacity.totalSpots ?? service.totalSpots;
+      const spotsRemaining = capacity.spotsRemaining ?? Math.max(0, service.spotsRemaining + totalSpots - service.totalSpots);
+      if (spotsRemaining > totalSpots) {
+        throw new Error("Spots remaining cannot exceed total spots");
+      }
+
+      const [updated] = await tx
+        .update(services)
+        .set({ totalSpots, spotsRemaining })
+        .where(eq(services.id, serviceId))
+        .returning();
+      const [reserved] = await tx
+        .select({ count: count() })
+        .from(orders)
+        .where(and(eq(orders.serviceId, serviceId), eq(orders.spotStatus, 'reserved')));
+
+      return { ...updated, reservedSpots: reserved?.count ?? 0 };
+    });
+  }
+
   async deleteService(id: string): Promise<void> {
     await db.delete(services).where(eq(services.id, id));
   }
@@ -418,26 +734,301 @@ export class DatabaseStorage implements IStorage {
       recommended: service.recommended,
       category: service.category,
       industry: typeof service.industry === 'string' ? service.industry : JSON.stringify(service.industry),
-      isActive: service.isActive
+      isActive: service.isActive,
+      currency: service.currency
     };
 
     const [newService] = await db.insert(services).values([serviceData]).returning();
     return newService;
   }
 
+  // Exchange rate operations
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return await db.select().from(exchangeRates).orderBy(exchangeRates.currency);
+  }
+
+  // Settlement units per one unit of the currency; throws when no rate has been set
+  async getExchangeRate(currency: string): Promise<number> {
+    if (currency === SETTLEMENT_CURRENCY) return 1;
+
+    const [row] = await db.select().from(exchangeRates).where(eq(exchangeRates.currency, currency));
+    const rate = row ? parseFloat(row.rate) : NaN;
+    if (!(rate > 0)) {
+      throw new Error(`No exchange rate for ${currency}`);
+    }
+    return rate;
+  }
+
+  async upsertExchangeRate(currency: string, rate: number, updatedBy: string): Promise<ExchangeRate> {
+    if (currency === SETTLEMENT_CURRENCY) {
+      throw new Error(`${SETTLEMENT_CURRENCY} is the settlement currency and always has a rate of 1`);
+    }
+
+    const values = { rate: rate.toString(), updatedBy, updatedAt: new Date() };
+    const [row] = await db
+      .insert(exchangeRates)
+      .values({ currency, ...values })
+      .onConflictDoUpdate({ target: exchangeRates.currency, set: values })
+      .returning();
+    return row;
+  }
+
+  // Services priced in the currency keep their rate so their prices stay convertible
+  async deleteExchangeRate(currency: string): Promise<void> {
+    const [inUse] = await db
+      .select({ id: services.id })
+      .from(services)
+      .where(eq(services.currency, currency))
+      .limit(1);
+    if (inUse) {
+      throw new Error(`${currency} is the base currency of a service and cannot be removed`);
+    }
+
+    await db.delete(exchangeRates).where(eq(exchangeRates.currency, currency));
+  }
+
   // Order operations
-  async createOrder(order: InsertOrder): Promise<Order> {
-    const [newOrder] = await db.insert(orders).values(order).returning();
+  // Creates the order together with its payment schedule; the first installment is due immediately
+  async createOrder(order: InsertOrder, lineItems: PricedLineItem[] = []): Promise<Order> {
+    return await db.transaction(async (tx) => this.insertOrder(tx, order, lineItems));
+  }
+
+  private async insertOrder(tx: DbExecutor, order: InsertOrder, lineItems: PricedLineItem[]): Promise<Order> {
+    const planned = planInstallments(parseFloat(order.totalPrice), order.paymentSchedule || FULL_PAYMENT_SCHEDULE);
+
+    // Lock the coupon so concurrent checkouts can't both take its last redemption
+    if (order.couponId) {
+      const [coupon] = await tx.select().from(coupons).where(eq(coupons.id, order.couponId)).for('update');
+      if (!coupon) {
+        throw new Error("Coupon not found");
+      }
+      await this.assertCouponRedeemable(tx, coupon, order.userId);
+    }
+
+    // Hold a spot on the package until the order is paid or cancelled
+    if (order.serviceId) {
+      await this.reserveServiceSpot(tx, order.serviceId);
+    }
+
+    const [newOrder] = await tx
+      .insert(orders)
+      .values({ ...order, spotStatus: order.serviceId ? 'reserved' : null })
+      .returning();
+    await tx.insert(orderStatusHistory).values({
+      orderId: newOrder.id,
+      fromStatus: null,
+      toStatus: newOrder.status ?? 'pending',
+      source: 'checkout',
+      changedBy: newOrder.userId,
+    });
+
+    if (lineItems.length > 0) {
+      await tx.insert(orderLineItems).values(lineItems.map((item, index) => ({
+        ...item,
+        orderId: newOrder.id,
+        sequence: index + 1,
+      })));
+    }
+
+    await tx.insert(orderInstallments).values(planned.map(installment => ({
+      orderId: newOrder.id,
+      sequence: installment.sequence,
+      label: installment.label,
+      percentage: installment.percentage,
+      amount: installment.amount,
+      unlockAtProgress: installment.unlockAtProgress,
+      status: installment.sequence === 1 ? 'due' as const : 'locked' as const,
+      dueAt: installment.sequence === 1 ? new Date() : null,
+    })));
+
     return newOrder;
   }
 
-  // Optimized for instant loading
-  async getUserOrders(userId: string): Promise<Order[]> {
+  async getOrderLineItems(orderId: string): Promise<OrderLineItem[]> {
     return await db
+      .select()
+      .from(orderLineItems)
+      .where(eq(orderLineItems.orderId, orderId))
+      .orderBy(orderLineItems.sequence);
+  }
+
+  // Coupon operations
+  async getCoupons(): Promise<CouponWithStats[]> {
+    const allCoupons = await db.select().from(coupons).orderBy(desc(coupons.createdAt));
+    if (allCoupons.length === 0) {
+      return [];
+    }
+
+    // Cancelled orders never took the discount, so they don't count as redemptions
+    const [usage, discounts] = await Promise.all([
+      db
+        .select({
+          couponId: orders.couponId,
+          redemptions: count(),
+          paidRevenue: sql<string>`coalesce(sum(case when ${orders.status} in ('paid', 'in_progress', 'complete') then ${orders.totalPrice}::numeric else 0 end), 0)`,
+        })
+        .from(orders)
+        .where(and(isNotNull(orders.couponId), ne(orders.status, 'cancelled')))
+        .groupBy(orders.couponId),
+      db
+        .select({
+          couponId: orders.couponId,
+          discountTotal: sql<string>`coalesce(sum(-${orderLineItems.amount}), 0)`,
+        })
+        .from(orderLineItems)
+        .innerJoin(orders, eq(orderLineItems.orderId, orders.id))
+        .where(and(eq(orderLineItems.kind, 'discount'), isNotNull(orders.couponId), ne(orders.status, 'cancelled')))
+        .groupBy(orders.couponId),
+    ]);
+
+    return allCoupons.map(coupon => {
+      const couponUsage = usage.find(row => row.couponId === coupon.id);
+      const couponDiscounts = discounts.find(row => row.couponId === coupon.id);
+      return {
+        ...coupon,
+        redemptions: couponUsage?.redemptions ?? 0,
+        discountTotal: roundMoney(parseFloat(couponDiscounts?.discountTotal ?? '0')),
+        paidRevenue: roundMoney(parseFloat(couponUsage?.paidRevenue ?? '0')),
+      };
+    });
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | undefined> {
+    const [coupon] = await db.select().from(coupons).where(eq(coupons.code, normalizeCouponCode(code)));
+    return coupon;
+  }
+
+  async createCoupon(coupon: InsertCoupon, createdBy: string): Promise<Coupon> {
+    const [newCoupon] = await db
+      .insert(coupons)
+      .values({ ...coupon, code: normalizeCouponCode(coupon.code), createdBy })
+      .returning();
+    return newCoupon;
+  }
+
+  async updateCoupon(couponId: string, updates: Partial<InsertCoupon>): Promise<Coupon> {
+    const [updated] = await db
+      .update(coupons)
+      .set({
+        ...updates,
+        ...(updates.code ? { code: normalizeCouponCode(updates.code) } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(coupons.id, couponId))
+      .returning();
+    if (!updated) {
+      throw new Error("Coupon not found");
+    }
+    return updated;
+  }
+
+  async getCouponRedemptions(couponId: string) {
+    const rows = await db
+      .select({
+        orderId: orders.id,
+        status: orders.status,
+        totalPrice: orders.totalPrice,
+        customerEmail: users.email,
+        createdAt: orders.createdAt,
+        discount: sql<string>`coalesce((select sum(-${orderLineItems.amount}) from ${orderLineItems} where ${orderLineItems.orderId} = ${orders.id} and ${orderLineItems.kind} = 'discount'), 0)`,
+      })
+      .from(orders)
+      .leftJoin(users, eq(orders.userId, users.id))
+      .where(eq(orders.couponId, couponId))
+      .orderBy(desc(orders.createdAt));
+
+    return rows.map(row => ({ ...row, discount: roundMoney(parseFloat(row.discount)) }));
+  }
+
+  // Checks everything a checkout needs before pricing; createOrder re-checks the usage
+  // limits under a lock. Throws with a message that is safe to show the client.
+  async validateCoupon(code: string, params: {
+    service: Service;
+    subtotal: number;
+    userId?: string;
+  }): Promise<{ coupon: Coupon; discount: number }> {
+    const coupon = await this.getCouponByCode(code);
+    if (!coupon) {
+      throw new Error("Invalid discount code");
+    }
+
+    const reason = couponIneligibility(coupon, params.service);
+    if (reason) {
+      throw new Error(reason);
+    }
+    await this.assertCouponRedeemable(db, coupon, params.userId);
+
+    const discount = couponDiscount(coupon, params.subtotal);
+    if (discount <= 0) {
+      throw new Error("This code does not reduce the price of this order");
+    }
+    return { coupon, discount };
+  }
+
+  private async assertCouponRedeemable(executor: DbExecutor, coupon: Coupon, userId?: string): Promise<void> {
+    if (coupon.maxRedemptions != null) {
+      const [{ used }] = await executor
+        .select({ used: count() })
+        .from(orders)
+        .where(and(eq(orders.couponId, coupon.id), ne(orders.status, 'cancelled')));
+      if (used >= coupon.maxRedemptions) {
+        throw new Error("This code has reached its usage limit");
+      }
+    }
+
+    if (coupon.perUserLimit != null && userId) {
+      const [{ used }] = await executor
+        .select({ used: count() })
+        .from(orders)
+        .where(and(eq(orders.couponId, coupon.id), eq(orders.userId, userId), ne(orders.status, 'cancelled')));
+      if (used >= coupon.perUserLimit) {
+        throw new Error("You have already used this code");
+      }
+    }
+  }
+
+  // Optimized for instant loading
+  async getUserOrders(userId: string): Promise<OrderWithInstallments[]> {
+    const userOrders = await db
       .select()
       .from(orders)
       .where(eq(orders.userId, userId))
       .orderBy(desc(orders.createdAt));
+
+    if (userOrders.length === 0) {
+      return [];
+    }
+
+    const orderIds = userOrders.map(order => order.id);
+    const [installments, lineItems] = await Promise.all([
+      db
+        .select()
+        .from(orderInstallments)
+        .where(inArray(orderInstallments.orderId, orderIds))
+        .orderBy(orderInstallments.sequence),
+      db
+        .select()
+        .from(orderLineItems)
+        .where(inArray(orderLineItems.orderId, orderIds))
+        .orderBy(orderLineItems.sequence),
+    ]);
+
+    return userOrders.map(order => {
+      const orderInstallmentRows = installments.filter(installment => installment.orderId === order.id);
+      let outstandingBalance = 0;
+      if (order.status !== 'cancelled') {
+        // Orders placed before schedules existed have no installment rows
+        outstandingBalance = orderInstallmentRows.length > 0
+          ? outstandingInstallmentBalance(orderInstallmentRows)
+          : order.status === 'pending' ? parseFloat(order.totalPrice) : 0;
+      }
+      return {
+        ...order,
+        installments: orderInstallmentRows,
+        lineItems: lineItems.filter(item => item.orderId === order.id),
+        outstandingBalance,
+      };
+    });
   }
 
   async getAllOrders(): Promise<Order[]> {
@@ -450,6 +1041,12 @@ export class DatabaseStorage implements IStorage {
         totalPrice: orders.totalPrice,
         status: orders.status,
         paymentId: orders.paymentId,
+        paymentSchedule: orders.paymentSchedule,
+        couponId: orders.couponId,
+        currency: orders.currency,
+        displayCurrency: orders.displayCurrency,
+        exchangeRate: orders.exchangeRate,
+        spotStatus: orders.spotStatus,
         createdAt: orders.createdAt,
         user: {
           id: users.id,
@@ -469,15 +1066,106 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(orders.createdAt));
   }
 
-  async updateOrderStatus(orderId: string, status: string): Promise<Order> {
-    const [updatedOrder] = await db
+  // Service capacity: spotsRemaining counts down as orders reserve spots. A reserved spot is
+  // consumed when the order is paid and handed back when it is cancelled or expires. The
+  // conditional update takes the service row lock, so concurrent checkouts can't oversell.
+  private async reserveServiceSpot(tx: DbExecutor, serviceId: string): Promise<void> {
+    const [reserved] = await tx
+      .update(services)
+      .set({ spotsRemaining: sql`${services.spotsRemaining} - 1` })
+      .where(and(eq(services.id, serviceId), gt(services.spotsRemaining, 0)))
+      .returning({ id: services.id });
+    if (!reserved) {
+      throw new Error("This package is fully booked");
+    }
+  }
+
+  private async releaseServiceSpots(tx: DbExecutor, serviceId: string, spots: number = 1): Promise<void> {
+    await tx
+      .update(services)
+      .set({ spotsRemaining: sql`least(${services.spotsRemaining} + ${spots}, ${services.totalSpots})` })
+      .where(eq(services.id, serviceId));
+  }
+
+  private async updateOrderSpot(tx: DbExecutor, order: Order, status: OrderStatus): Promise<void> {
+    if (!order.serviceId) return;
+
+    let spotStatus = order.spotStatus;
+    if (status === 'cancelled' && (spotStatus === 'reserved' || spotStatus === 'consumed')) {
+      await this.releaseServiceSpots(tx, order.serviceId);
+      spotStatus = 'released';
+    } else if (status === 'paid' && spotStatus === 'reserved') {
+      spotStatus = 'consumed';
+    } else if (status === 'paid' && spotStatus === 'released') {
+      // A late payment is honoured even if the package filled up after the order was cancelled
+      await tx
+        .update(services)
+        .set({ spotsRemaining: sql`greatest(${services.spotsRemaining} - 1, 0)` })
+        .where(eq(services.id, order.serviceId));
+      spotStatus = 'consumed';
+    } else if (status === 'pending' && spotStatus === 'released') {
+      await this.reserveServiceSpot(tx, order.serviceId);
+      spotStatus = 'reserved';
+    }
+
+    if (spotStatus !== order.spotStatus) {
+      await tx.update(orders).set({ spotStatus }).where(eq(orders.id, order.id));
+    }
+  }
+
+  // Moves a locked order along the lifecycle and records the change in the caller's transaction
+  private async applyOrderStatus(tx: DbExecutor, order: Order, status: OrderStatus, change: OrderStatusChange): Promise<Order> {
+    assertOrderTransition(order.status, status);
+    await this.updateOrderSpot(tx, order, status);
+
+    const [updatedOrder] = await tx
       .update(orders)
-      .set({ status: status as any })
-      .where(eq(orders.id, orderId))
+      .set({ status })
+      .where(eq(orders.id, order.id))
       .returning();
+    await tx.insert(orderStatusHistory).values({
+      orderId: order.id,
+      fromStatus: order.status,
+      toStatus: status,
+      source: change.source,
+      changedBy: change.changedBy ?? null,
+      reason: change.reason ?? null,
+    });
     return updatedOrder;
   }
 
+  // Side effects of the change are run by server/orderLifecycle.ts
+  async transitionOrderStatus(orderId: string, status: OrderStatus, change: OrderStatusChange) {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for('update');
+      if (!order) {
+        throw new Error('Order not found');
+      }
+
+      const updatedOrder = await this.applyOrderStatus(tx, order, status, change);
+      return { order: updatedOrder, previousStatus: order.status ?? 'pending' };
+    });
+  }
+
+  async getOrderStatusHistory(orderId: string) {
+    const rows = await db
+      .select({
+        entry: orderStatusHistory,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(orderStatusHistory)
+      .leftJoin(users, eq(orderStatusHistory.changedBy, users.id))
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(orderStatusHistory.createdAt);
+
+    return rows.map(row => ({
+      ...row.entry,
+      changedByName: [row.firstName, row.lastName].filter(Boolean).join(' ') || row.email,
+    }));
+  }
+
   async cancelOrder(orderId: string, userId: string): Promise<Order> {
     // First, verify the order exists and belongs to the user
     const [existingOrder] = await db
@@ -498,14 +1186,12 @@ export class DatabaseStorage implements IStorage {
       throw new Error('Order cannot be cancelled - only pending orders can be cancelled');
     }
 
-    // Update order status to cancelled
-    const [cancelledOrder] = await db
-      .update(orders)
-      .set({ 
-        status: 'cancelled' as any
-      })
-      .where(and(eq(orders.id, orderId), eq(orders.userId, userId)))
-      .returning();
+    // Re-checked under the lock in case a payment lands meanwhile
+    const { order: cancelledOrder } = await this.transitionOrderStatus(orderId, 'cancelled', {
+      source: 'client',
+      changedBy: userId,
+      reason: 'Cancelled by client before payment',
+    });
 
     return cancelledOrder;
   }
@@ -540,11 +1226,14 @@ export class DatabaseStorage implements IStorage {
 
 
     try {
+      // Pending orders still owe their first installment (or the full price for older orders)
+      const [deposit] = await this.getOrderInstallments(existingOrder.id);
       const paymentUrl = await this.initializePayment({
         orderId: existingOrder.id,
-        amount: parseInt(existingOrder.totalPrice),
+        amount: deposit ? parseFloat(deposit.amount) : parseInt(existingOrder.totalPrice),
         email: user.email,
         userId: existingOrder.userId,
+        installmentId: deposit?.id,
       });
 
       return paymentUrl;
@@ -601,92 +1290,6 @@ export class DatabaseStorage implements IStorage {
     return { weeks: 4, days: 28 }; // Default fallback
   }
 
-  private extractProjectDataFromOrder(order: any): any {
-    // Use actual order creation date as project start date
-    const startDate = order.createdAt ? new Date(order.createdAt) : new Date();
-    const dueDate = new Date(startDate);
-
-    // Calculate timeline based on service duration or custom timeline
-    const timeline = this.parseServiceDuration(order.serviceDuration);
-    let timelineWeeks = timeline.weeks;
-    let timelineDays = timeline.days;
-    let projectName = order.serviceName || 'Custom Project';
-    let notes = '';
-    let currentStage = 'Discovery';
-    let progressPercentage = Math.floor(Math.random() * 15) + 5; // Random 5-20%
-
-    // Parse custom request for additional data
-    if (order.customRequest) {
-      try {
-        // Handle JSON format from checkout system
-        const customData = JSON.parse(order.customRequest);
-        if (customData.projectDetails?.description) {
-          notes = customData.projectDetails.description;
-        }
-        if (customData.contactInfo?.fullName) {
-          projectName = `${projectName} - ${customData.contactInfo.fullName}`;
-        }
-      } catch (e) {
-        // Handle text format from custom requests
-        const customText = order.customRequest;
-
-        // Extract service name if specified
-        const serviceMatch = customText.match(/Service:\s*([^\n]+)/i);
-        if (serviceMatch) {
-          projectName = serviceMatch[1].trim();
-        }
-
-        // Extract timeline from custom request
-        const timelineMatch = customText.match(/Timeline:\s*([^\n]+)/i);
-        if (timelineMatch) {
-          const customTimeline = timelineMatch[1].trim();
-          const customTimelineData = this.parseCustomTimeline(customTimeline);
-          if (customTimelineData > 0) {
-            timelineWeeks = customTimelineData;
-            timelineDays = customTimelineData * 7;
-          }
-        }
-
-        // Use custom request as notes
-        notes = customText;
-      }
-    }
-
-    // Calculate progress based on actual time elapsed since order
-    const totalDays = timelineDays;
-    const daysSinceStart = Math.floor((Date.now() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-    const timeProgress = Math.min(Math.round((daysSinceStart / totalDays) * 100), 95);
-
-    // Create realistic progress based on time elapsed and add some randomness
-    const baseProgress = Math.max(timeProgress * 0.4, 5); // Minimum 5% progress
-    const randomVariation = Math.floor(Math.random() * 15); // 0-15% random
-    progressPercentage = Math.min(Math.floor(baseProgress + randomVariation), 85);
-
-    // Set stage based on progress
-    if (progressPercentage < 20) currentStage = 'Discovery';
-    else if (progressPercentage < 40) currentStage = 'Design';
-    else if (progressPercentage < 70) currentStage = 'Development';
-    else if (progressPercentage < 90) currentStage = 'Testing';
-    else currentStage = 'Launch';
-
-    // Set due date to exact timestamp (order time + timeline days)
-    dueDate.setDate(dueDate.getDate() + timelineDays);
-
-    return {
-      orderId: order.id,
-      userId: order.userId,
-      projectName: projectName,
-      currentStage: currentStage,
-      notes: notes,
-      progressPercentage: progressPercentage,
-      timelineWeeks: timelineWeeks,
-      timelineDays: timelineDays,
-      status: 'active',
-      startDate: startDate, // Store full timestamp
-      dueDate: dueDate, // Store full timestamp for accurate countdown
-    };
-  }
-
   parseCustomTimeline(timeline: string): number {
     if (!timeline) return 0;
 
@@ -708,38 +1311,28 @@ export class DatabaseStorage implements IStorage {
     return 0;
   }
 
+  // Re-checked under the order row lock, like handleSuccessfulPayment, so a racing payment
+  // can't leave the order with two projects
   async ensureProjectsForPaidOrders(userId: string): Promise<void> {
     try {
-      // Get all paid orders for the user with complete service information
       const paidOrders = await db
-        .select({
-          id: orders.id,
-          serviceId: orders.serviceId,
-          userId: orders.userId,
-          createdAt: orders.createdAt,
-          totalPrice: orders.totalPrice,
-          customRequest: orders.customRequest,
-          serviceName: services.name,
-          serviceDuration: services.duration,
-          serviceCategory: services.category,
-        })
+        .select({ id: orders.id })
         .from(orders)
-        .leftJoin(services, eq(orders.serviceId, services.id))
-        .where(and(eq(orders.userId, userId), eq(orders.status, 'paid')));
-
-      // Get existing projects for this user
-      const existingProjects = await db
-        .select()
-        .from(projects)
-        .where(eq(projects.userId, userId));
-
-      const existingOrderIds = new Set(existingProjects.map(p => p.orderId));
+        .leftJoin(projects, eq(projects.orderId, orders.id))
+        .where(and(eq(orders.userId, userId), eq(orders.status, 'paid'), isNull(projects.id)));
+
+      for (const { id } of paidOrders) {
+        const created = await db.transaction(async (tx) => {
+          const [order] = await tx.select().from(orders).where(eq(orders.id, id)).for('update');
+          const [existing] = await tx.select({ id: projects.id }).from(projects).where(eq(projects.orderId, id)).limit(1);
+          if (!order || order.status !== 'paid' || existing) {
+            return null;
+          }
+          return await this.activateOrderProject(id, tx);
+        });
 
-      // Create projects for paid orders that don't have projects
-      for (const order of paidOrders) {
-        if (!existingOrderIds.has(order.id)) {
-          const projectData = this.extractProjectDataFromOrder(order);
-          await this.createProject(projectData);
+        if (created) {
+          await this.seedProjectStages(created.projectId, created.serviceCategory);
         }
       }
     } catch (error) {
@@ -775,7 +1368,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createProject(project: InsertProject): Promise<Project> {
-    const [newProject] = await db.insert(projects).values(project).returning();
+    const [newProject] = await db
+      .insert(projects)
+      .values(project)
+      .onConflictDoNothing({ target: projects.orderId })
+      .returning();
+    if (!newProject) {
+      throw new Error("This order already has a project");
+    }
     return newProject;
   }
 
@@ -806,251 +1406,1607 @@ export class DatabaseStorage implements IStorage {
     return !!project;
   }
 
-  // Message operations
-  async getProjectMessages(projectId: string): Promise<Message[]> {
+  // Project stage operations
+  async getProjectStages(projectId: string): Promise<ProjectStage[]> {
     return await db
-      .select({
-        id: messages.id,
-        projectId: messages.projectId,
-        senderId: messages.senderId,
-        content: messages.content,
-        sentAt: messages.sentAt,
-        isAdmin: messages.isAdmin,
-        sender: {
-          firstName: users.firstName,
-          lastName: users.lastName,
-        },
-      })
-      .from(messages)
-      .leftJoin(users, eq(messages.senderId, users.id))
-      .where(eq(messages.projectId, projectId))
-      .orderBy(messages.sentAt);
+      .select()
+      .from(projectStages)
+      .where(eq(projectStages.projectId, projectId))
+      .orderBy(projectStages.orderIndex);
   }
 
-  async createMessage(message: InsertMessage): Promise<Message> {
-    const [newMessage] = await db.insert(messages).values(message).returning();
-    return newMessage;
+  async getProjectStageById(stageId: string): Promise<ProjectStage | undefined> {
+    const [stage] = await db.select().from(projectStages).where(eq(projectStages.id, stageId));
+    return stage;
   }
 
-  // Payment operations
-  async initializePayment(params: {
-    orderId: string;
-    amount: number;
-    email: string;
-    userId: string;
-  }): Promise<string> {
+  async createProjectStage(stage: InsertProjectStage): Promise<ProjectStage> {
+    const [newStage] = await db
+      .insert(projectStages)
+      .values({
+        ...stage,
+        completedAt: stage.isComplete ? new Date() : null,
+      })
+      .returning();
+    await this.syncProjectProgress(newStage.projectId);
+    return newStage;
+  }
 
-    const paystackSecretKey = process.env.PAYSTACK_SECRET_KEY;
-    if (!paystackSecretKey) {
-      throw new Error("Payment service not configured");
+  async updateProjectStage(stageId: string, updates: Partial<InsertProjectStage>): Promise<ProjectStage> {
+    const previousStage = await this.getProjectStageById(stageId);
+    const changes: Partial<ProjectStage> = { ...updates, updatedAt: new Date() };
+    if (updates.isComplete !== undefined) {
+      changes.completedAt = updates.isComplete ? new Date() : null;
     }
 
-    // Validate parameters
-    if (!params.orderId || !params.email || !params.userId || params.amount <= 0) {
-      throw new Error('Invalid payment parameters');
+    const [updatedStage] = await db
+      .update(projectStages)
+      .set(changes)
+      .where(eq(projectStages.id, stageId))
+      .returning();
+    const project = await this.syncProjectProgress(updatedStage.projectId);
+
+    // The final stage is covered by the project completed email instead
+    if (updatedStage.isComplete && !previousStage?.isComplete && project.status !== 'completed') {
+      void emailService.sendTemplateToUser(project.userId, 'stage_completed', {
+        projectId: project.id,
+        projectName: project.projectName || 'Your project',
+        stageTitle: updatedStage.title,
+        progressPercentage: project.progressPercentage ?? 0,
+        nextStage: project.currentStage,
+      });
     }
+    return updatedStage;
+  }
 
-    const reference = `PSK_${Date.now()}_${Math.random()
-      .toString(36)
-      .substr(2, 9)}`;
-
-    try {
-      const requestBody = {
-        email: params.email,
-        amount: params.amount * 100, // Convert to kobo
-        reference,
-        callback_url: `${process.env.PAYSTACK_CALLBACK_URL || 'https://disoweb.onrender.com'}/payment-success`,
-        cancel_action: `${process.env.PAYSTACK_CALLBACK_URL || 'https://disoweb.onrender.com'}/checkout?cancelled=true`,
-        currency: "NGN",
-        metadata: {
-          orderId: params.orderId,
-          userId: params.userId,
-        },
-      };
-
-      const response = await fetch(
-        "https://api.paystack.co/transaction/initialize",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${paystackSecretKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(requestBody),
-        },
-      );
-
-      if (!response.ok) {
-        throw new Error(`Paystack API error: ${response.status}`);
-      }
+  async deleteProjectStage(stageId: string): Promise<void> {
+    const [deletedStage] = await db
+      .delete(projectStages)
+      .where(eq(projectStages.id, stageId))
+      .returning();
+    if (deletedStage) {
+      await this.syncProjectProgress(deletedStage.projectId);
+    }
+  }
 
-      const data = await response.json();
-      console.log('📊 Paystack response:', JSON.stringify(data, null, 2));
+  async reorderProjectStages(projectId: string, stageIds: string[]): Promise<ProjectStage[]> {
+    const existingStages = await this.getProjectStages(projectId);
+    const existingIds = new Set(existingStages.map(stage => stage.id));
 
-      if (!data.status) {
-        throw new Error(data.message || "Failed to initialize payment");
-      }
+    if (stageIds.length !== existingStages.length || !stageIds.every(id => existingIds.has(id))) {
+      throw new Error("Stage list does not match the project's stages");
+    }
 
-      if (!data.data?.authorization_url) {
-        throw new Error("No payment URL received from Paystack");
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < stageIds.length; index++) {
+        await tx
+          .update(projectStages)
+          .set({ orderIndex: index, updatedAt: new Date() })
+          .where(and(eq(projectStages.id, stageIds[index]), eq(projectStages.projectId, projectId)));
       }
-
-    // Store payment record
-    await db.insert(payments).values({
-      userId: params.userId,
-      orderId: params.orderId,
-      amount: params.amount.toString(),
-      currency: "NGN",
-      provider: "paystack",
-      providerId: reference,
-      status: "pending" as any,
     });
 
-      console.log('✅ Payment URL success:', data.data.authorization_url);
-      return data.data.authorization_url;
-    } catch (error) {
-      throw new Error(`Payment initialization failed: ${(error as Error).message}`);
-    }
+    await this.syncProjectProgress(projectId);
+    return await this.getProjectStages(projectId);
   }
 
-  async verifyPaystackWebhook(
-    signature: string,
-    body: string,
-  ): Promise<boolean> {
-    const paystackSecretKey = process.env.PAYSTACK_SECRET_KEY;
-    if (!paystackSecretKey) {
-      return false;
+  // Create the category's default milestones unless the project already has stages
+  async seedProjectStages(projectId: string, category?: string | null): Promise<ProjectStage[]> {
+    const existingStages = await this.getProjectStages(projectId);
+    if (existingStages.length > 0) {
+      return existingStages;
     }
 
-    const crypto = require('crypto');
-    const hash = crypto
-      .createHmac("sha512", paystackSecretKey)
-      .update(body, "utf8")
-      .digest("hex");
+    const template = getStageTemplate(category);
+    const stages = await db
+      .insert(projectStages)
+      .values(template.map((stage, index) => ({
+        projectId,
+        title: stage.title,
+        description: stage.description,
+        orderIndex: index,
+        isComplete: false,
+      })))
+      .returning();
 
-    return hash === signature;
+    await this.syncProjectProgress(projectId);
+    return stages.sort((a, b) => a.orderIndex - b.orderIndex);
   }
 
-  async handleSuccessfulPayment(paymentData: any): Promise<void> {
-    const reference = paymentData.reference;
-    const orderId = paymentData.metadata?.orderId;
+  // Recompute progressPercentage and currentStage from the stage checklist
+  async syncProjectProgress(projectId: string): Promise<Project> {
+    const stages = await this.getProjectStages(projectId);
+    const { progressPercentage, currentStage } = calculateStageProgress(stages);
+    const project = await this.getProjectById(projectId);
+
+    const updates: Partial<Project> = { progressPercentage, currentStage };
+    if (stages.length > 0 && progressPercentage === 100) {
+      updates.status = 'completed';
+    } else if (project?.status === 'completed') {
+      updates.status = 'active';
+    }
 
-    if (!orderId) {
-      throw new Error("Order ID not found in payment metadata");
+    const updatedProject = await this.updateProject(projectId, updates);
+    await this.unlockInstallments(updatedProject, progressPercentage);
+    if (updates.status && project?.status !== updates.status) {
+      await notificationService.projectStatusChanged(updatedProject.userId, projectId, updatedProject.projectName, updates.status);
+      if (updates.status === 'completed') {
+        void emailService.sendTemplateToUser(updatedProject.userId, 'project_completed', {
+          projectId,
+          projectName: updatedProject.projectName || 'Your project',
+        });
+      }
     }
+    return updatedProject;
+  }
 
-    // Update payment status
-    await db
-      .update(payments)
-      .set({
-        status: "succeeded" as any,
-        paidAt: new Date(),
-      })
-      .where(eq(payments.providerId, reference));
+  // Message operations
+  // Newest-first pages keyed by message id; each page is returned oldest-first for display
+  async getProjectMessages(projectId: string, options: {
+    before?: string;
+    limit?: number;
+    unreadFor?: string;
+  } = {}): Promise<{ messages: MessageWithDetails[]; nextCursor: string | null }> {
+    const limit = Math.min(Math.max(options.limit || 50, 1), 100);
+    const conditions = [eq(messages.projectId, projectId)];
+
+    if (options.before) {
+      const [cursor] = await db
+        .select({ id: messages.id, sentAt: messages.sentAt })
+        .from(messages)
+        .where(and(eq(messages.id, options.before), eq(messages.projectId, projectId)));
+      if (cursor?.sentAt) {
+        // Tie-break on id so messages sharing a timestamp aren't skipped
+        conditions.push(or(
+          lt(messages.sentAt, cursor.sentAt),
+          and(eq(messages.sentAt, cursor.sentAt), lt(messages.id, cursor.id)),
+        )!);
+      }
+    }
 
-    // Update order status
-    await db
-      .update(orders)
-      .set({ status: "paid" as any })
-      .where(eq(orders.id, orderId));
+    if (options.unreadFor) {
+      conditions.push(sql`${messages.senderId} <> ${options.unreadFor}`);
+      conditions.push(sql`not exists (
+        select 1 from ${messageReads}
+        where ${messageReads.messageId} = ${messages.id} and ${messageReads.userId} = ${options.unreadFor}
+      )`);
+    }
 
-    // Create and activate project for paid orders
-    const orderResult = await db
-      .select()
-      .from(orders)
-      .where(eq(orders.id, orderId))
-      .limit(1);
+    const rows = await db
+      .select({
+        id: messages.id,
+        projectId: messages.projectId,
+        senderId: messages.senderId,
+        content: messages.content,
+        sentAt: messages.sentAt,
+        isAdmin: messages.isAdmin,
+        sender: {
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+      })
+      .from(messages)
+      .leftJoin(users, eq(messages.senderId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(messages.sentAt), desc(messages.id))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    const nextCursor = hasMore ? page[page.length - 1].id : null;
+
+    return {
+      messages: await this.attachMessageDetails(page.reverse()),
+      nextCursor,
+    };
+  }
 
-    if (orderResult.length > 0) {
-      const order = orderResult[0];
-
-      // Extract timeline from custom request
-      const timelineMatch = order.customRequest?.match(/Timeline: ([^\n]+)/);
-      let timelineWeeks = 4; // default
-
-      if (timelineMatch) {
-        const timelineText = timelineMatch[1].toLowerCase();
-        if (timelineText.includes('1-2') || timelineText.includes('1-2weeks')) {
-          timelineWeeks = 2;
-        } else if (timelineText.includes('2-4') || timelineText.includes('2-4weeks')) {
-          timelineWeeks = 4;
-        } else if (timelineText.includes('1month') || timelineText.includes('1-2months')) {
-          timelineWeeks = 8;
-        } else if (timelineText.includes('3months') || timelineText.includes('2-3months')) {
-          timelineWeeks = 12;
+  private async attachMessageDetails<T extends Message>(rows: T[]): Promise<(T & MessageWithDetails)[]> {
+    if (rows.length === 0) return [];
+    const ids = rows.map(row => row.id);
+
+    const [attachments, reads] = await Promise.all([
+      db
+        .select({
+          messageId: messageAttachments.messageId,
+          id: files.id,
+          filename: files.filename,
+          mimeType: files.mimeType,
+          sizeBytes: files.sizeBytes,
+        })
+        .from(messageAttachments)
+        .innerJoin(files, eq(messageAttachments.fileId, files.id))
+        .where(inArray(messageAttachments.messageId, ids)),
+      db
+        .select({ messageId: messageReads.messageId, userId: messageReads.userId, readAt: messageReads.readAt })
+        .from(messageReads)
+        .where(inArray(messageReads.messageId, ids)),
+    ]);
+
+    return rows.map(row => ({
+      ...row,
+      attachments: attachments
+        .filter(attachment => attachment.messageId === row.id)
+        .map(({ messageId, ...file }) => file),
+      readBy: reads
+        .filter(read => read.messageId === row.id)
+        .map(({ userId, readAt }) => ({ userId, readAt })),
+    }));
+  }
+
+  async createMessage(message: InsertMessage, fileIds: string[] = []): Promise<MessageWithDetails> {
+    const newMessage = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(messages).values(message).returning();
+
+      if (fileIds.length > 0) {
+        // Only files that belong to the same project can be attached
+        const projectFiles = await tx
+          .select({ id: files.id })
+          .from(files)
+          .where(and(eq(files.projectId, message.projectId), inArray(files.id, fileIds)));
+
+        if (projectFiles.length > 0) {
+          await tx.insert(messageAttachments).values(
+            projectFiles.map(file => ({ messageId: created.id, fileId: file.id })),
+          );
         }
       }
+      return created;
+    });
+
+    const [withDetails] = await this.attachMessageDetails([newMessage]);
+    return withDetails;
+  }
+
+  // Record reads for every message from other participants up to (and including) the given one
+  async markMessagesRead(projectId: string, userId: string, upToMessageId?: string): Promise<{ messageIds: string[]; readAt: Date }> {
+    const readAt = new Date();
+    const conditions = [
+      eq(messages.projectId, projectId),
+      sql`${messages.senderId} <> ${userId}`,
+    ];
+
+    if (upToMessageId) {
+      const [target] = await db
+        .select({ sentAt: messages.sentAt })
+        .from(messages)
+        .where(and(eq(messages.id, upToMessageId), eq(messages.projectId, projectId)));
+      if (!target?.sentAt) {
+        return { messageIds: [], readAt };
+      }
+      conditions.push(lte(messages.sentAt, target.sentAt));
+    }
 
-      const serviceName = order.customRequest?.split('\n')[0]?.replace('Service: ', '') || 'Custom Project';
-      const startDate = new Date();
-      const estimatedEndDate = new Date();
-      const timelineDays = timelineWeeks * 7;
-      estimatedEndDate.setDate(startDate.getDate() + timelineDays);
+    const unread = await db
+      .select({ id: messages.id })
+      .from(messages)
+      .where(and(...conditions, sql`not exists (
+        select 1 from ${messageReads}
+        where ${messageReads.messageId} = ${messages.id} and ${messageReads.userId} = ${userId}
+      )`));
 
-      // Check if project already exists
-      const existingProject = await db
-        .select()
+    if (unread.length === 0) {
+      return { messageIds: [], readAt };
+    }
+
+    const inserted = await db
+      .insert(messageReads)
+      .values(unread.map(row => ({ messageId: row.id, userId, readAt })))
+      .onConflictDoNothing()
+      .returning({ messageId: messageReads.messageId });
+
+    return { messageIds: inserted.map(row => row.messageId), readAt };
+  }
+
+  // Projects whose latest message came from the client, i.e. waiting on the team
+  async getUnansweredClientMessages() {
+    const latest = await db
+      .selectDistinctOn([messages.projectId], {
+        id: messages.id,
+        projectId: messages.projectId,
+        content: messages.content,
+        sentAt: messages.sentAt,
+        isAdmin: messages.isAdmin,
+      })
+      .from(messages)
+      .orderBy(messages.projectId, desc(messages.sentAt));
+
+    const waiting = latest.filter(message => !message.isAdmin);
+    if (waiting.length === 0) return [];
+    const projectIds = waiting.map(message => message.projectId);
+
+    const [projectRows, counts, adminReads] = await Promise.all([
+      db
+        .select({
+          id: projects.id,
+          projectName: projects.projectName,
+          client: {
+            id: users.id,
+            email: users.email,
+            firstName: users.firstName,
+            lastName: users.lastName,
+          },
+        })
         .from(projects)
-        .where(eq(projects.orderId, orderId))
-        .limit(1);
+        .leftJoin(users, eq(projects.userId, users.id))
+        .where(inArray(projects.id, projectIds)),
+      db
+        .select({ projectId: messages.projectId, count: count(), oldest: min(messages.sentAt) })
+        .from(messages)
+        .where(and(
+          inArray(messages.projectId, projectIds),
+          sql`coalesce(${messages.isAdmin}, false) = false`,
+          sql`${messages.sentAt} > coalesce((
+            select max(m.sent_at) from ${messages} m
+            where m.project_id = ${messages.projectId} and m.is_admin = true
+          ), 'epoch'::timestamp)`,
+        ))
+        .groupBy(messages.projectId),
+      db
+        .select({ messageId: messageReads.messageId, readAt: min(messageReads.readAt) })
+        .from(messageReads)
+        .innerJoin(users, eq(messageReads.userId, users.id))
+        .where(and(inArray(messageReads.messageId, waiting.map(message => message.id)), eq(users.role, 'admin')))
+        .groupBy(messageReads.messageId),
+    ]);
+
+    return waiting
+      .map(message => {
+        const project = projectRows.find(row => row.id === message.projectId);
+        const stats = counts.find(row => row.projectId === message.projectId);
+        return {
+          projectId: message.projectId,
+          projectName: project?.projectName ?? null,
+          client: project?.client ?? null,
+          lastMessage: { id: message.id, content: message.content, sentAt: message.sentAt },
+          unansweredCount: Number(stats?.count || 1),
+          waitingSince: stats?.oldest ?? message.sentAt,
+          readByAdminAt: adminReads.find(read => read.messageId === message.id)?.readAt ?? null,
+        };
+      })
+      .sort((a, b) => (a.waitingSince?.getTime() ?? 0) - (b.waitingSince?.getTime() ?? 0));
+  }
 
-      if (existingProject.length === 0) {
-        await db.insert(projects).values({
-          orderId: order.id,
-          userId: order.userId,
-          projectName: serviceName,
-          notes: order.customRequest || 'Project created from service order',
+  // File operations
+  async getProjectFiles(projectId: string): Promise<File[]> {
+    return await db
+      .select({
+        id: files.id,
+        projectId: files.projectId,
+        uploadedBy: files.uploadedBy,
+        fileUrl: files.fileUrl,
+        filename: files.filename,
+        mimeType: files.mimeType,
+        sizeBytes: files.sizeBytes,
+        uploadedAt: files.uploadedAt,
+        uploader: {
+          firstName: users.firstName,
+          lastName: users.lastName,
+          role: users.role,
+        },
+      })
+      .from(files)
+      .leftJoin(users, eq(files.uploadedBy, users.id))
+      .where(eq(files.projectId, projectId))
+      .orderBy(desc(files.uploadedAt));
+  }
+
+  async getFileById(fileId: string): Promise<File | undefined> {
+    const [file] = await db.select().from(files).where(eq(files.id, fileId));
+    return file;
+  }
+
+  async createFile(file: InsertFile): Promise<File> {
+    const [newFile] = await db.insert(files).values(file).returning();
+    return newFile;
+  }
+
+  async deleteFile(fileId: string): Promise<void> {
+    await db.delete(files).where(eq(files.id, fileId));
+  }
+
+  // Notification operations
+  async getAdminUsers(): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.role, "admin"));
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [newNotification] = await db.insert(notifications).values(notification).returning();
+    return newNotification;
+  }
+
+  async getUserNotifications(
+    userId: string,
+    options: { limit?: number; unreadOnly?: boolean } = {},
+  ): Promise<Notification[]> {
+    const conditions = [eq(notifications.userId, userId)];
+    if (options.unreadOnly) {
+      conditions.push(eq(notifications.isRead, false));
+    }
+
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt))
+      .limit(options.limit || 20);
+  }
+
+  async getUnreadNotificationCount(userId: string, type?: string): Promise<number> {
+    const conditions = [eq(notifications.userId, userId), eq(notifications.isRead, false)];
+    if (type) {
+      conditions.push(eq(notifications.type, type));
+    }
+
+    const [result] = await db
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(...conditions));
+    return Number(result?.count || 0);
+  }
+
+  async markNotificationRead(notificationId: string, userId: string): Promise<Notification | undefined> {
+    const [updated] = await db
+      .update(notifications)
+      .set({ isRead: true, readAt: new Date() })
+      .where(and(eq(notifications.id, notificationId), eq(notifications.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async markAllNotificationsRead(userId: string, type?: string): Promise<void> {
+    const conditions = [eq(notifications.userId, userId), eq(notifications.isRead, false)];
+    if (type) {
+      conditions.push(eq(notifications.type, type));
+    }
+
+    await db
+      .update(notifications)
+      .set({ isRead: true, readAt: new Date() })
+      .where(and(...conditions));
+  }
+
+  // Payment operations
+  async initializePayment(params: {
+    orderId: string;
+    amount: number;
+    email: string;
+    userId: string;
+    provider?: string;
+    installmentId?: string;
+  }): Promise<string> {
+
+    // Validate parameters
+    if (!params.orderId || !params.email || !params.userId || params.amount <= 0) {
+      throw new Error('Invalid payment parameters');
+    }
+
+    // Fall back to the method the customer picked at checkout
+    const [order] = await db.select().from(orders).where(eq(orders.id, params.orderId));
+    const providerName = params.provider || (order ? this.getOrderPaymentMethod(order) : DEFAULT_PAYMENT_PROVIDER);
+    const provider = getPaymentProvider(providerName);
+    const currency = order?.currency || SETTLEMENT_CURRENCY;
+    const baseUrl = process.env.PAYMENT_CALLBACK_URL || process.env.PAYSTACK_CALLBACK_URL || 'https://disoweb.onrender.com';
+
+    try {
+      const { reference, authorizationUrl } = await provider.initialize({
+        orderId: params.orderId,
+        userId: params.userId,
+        email: params.email,
+        amount: params.amount,
+        currency,
+        callbackUrl: `${baseUrl}/payment-success`,
+        cancelUrl: `${baseUrl}/checkout?cancelled=true`,
+      });
+
+      // Store payment record
+      await db.insert(payments).values({
+        userId: params.userId,
+        orderId: params.orderId,
+        amount: params.amount.toString(),
+        currency,
+        // The rate quoted on the order, so the charge can be shown in the client's currency
+        displayCurrency: order?.displayCurrency || currency,
+        exchangeRate: order?.exchangeRate || "1",
+        provider: provider.name,
+        providerId: reference,
+        installmentId: params.installmentId ?? null,
+        status: "pending" as any,
+      });
+
+      console.log(`✅ Payment URL success (${provider.name}):`, authorizationUrl);
+      return authorizationUrl;
+    } catch (error) {
+      throw new Error(`Payment initialization failed: ${(error as Error).message}`);
+    }
+  }
+
+  async getPaymentByReference(reference: string): Promise<Payment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(eq(payments.providerId, reference))
+      .limit(1);
+    return payment;
+  }
+
+  // Ask the provider that issued the reference whether it was paid. The order id
+  // comes from our own payment row rather than provider-supplied metadata.
+  async verifyPayment(reference: string): Promise<VerifiedPayment> {
+    const payment = await this.getPaymentByReference(reference);
+    const provider = payment?.provider ? getPaymentProvider(payment.provider) : findProviderForReference(reference);
+    if (!provider) {
+      throw new Error('Unknown payment reference');
+    }
+
+    const verified = await provider.verify(reference);
+    return { ...verified, orderId: payment?.orderId ?? verified.orderId };
+  }
+
+  async verifyPaymentWebhook(
+    providerName: string,
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: string,
+  ): Promise<PaymentWebhookEvent | null> {
+    const provider = getPaymentProvider(providerName);
+    const event = await provider.verifyWebhook(headers, rawBody);
+
+    if (event?.payment) {
+      const payment = await this.getPaymentByReference(event.payment.reference);
+      if (payment?.orderId) {
+        event.payment.orderId = payment.orderId;
+      }
+    }
+    return event;
+  }
+
+  private getOrderPaymentMethod(order: Order): string {
+    try {
+      const data = JSON.parse(order.customRequest || '{}');
+      return typeof data.paymentMethod === 'string' && data.paymentMethod ? data.paymentMethod : DEFAULT_PAYMENT_PROVIDER;
+    } catch {
+      return DEFAULT_PAYMENT_PROVIDER;
+    }
+  }
+
+  // Idempotent: the ledger row for the provider reference is claimed in the same transaction
+  // as the order, project and commission updates, so a racing webhook and callback apply a
+  // payment exactly once. Returns false when the reference was already processed.
+  async handleSuccessfulPayment(verified: VerifiedPayment): Promise<boolean> {
+    const reference = verified.reference;
+    const payment = await this.getPaymentByReference(reference);
+    const orderId = payment?.orderId ?? verified.orderId;
+
+    if (!orderId) {
+      throw new Error("Order ID not found for payment reference");
+    }
+
+    const provider = payment?.provider ?? findProviderForReference(reference)?.name ?? DEFAULT_PAYMENT_PROVIDER;
+
+    let mismatch: ReconciliationIssueKind | null = null;
+    const result = await db.transaction(async (tx) => {
+      // A short or wrong-currency payment is left for an admin instead of paying the order. The
+      // reference isn't claimed, so the payment can still be applied once the issue is sorted out.
+      mismatch = payment ? paymentMismatch(payment, verified) : null;
+      if (payment && mismatch) {
+        await tx
+          .insert(paymentReconciliationIssues)
+          .values({
+            paymentId: payment.id,
+            orderId: payment.orderId,
+            provider: payment.provider,
+            reference,
+            kind: mismatch,
+            expectedAmount: payment.amount,
+            actualAmount: verified.amount !== undefined ? verified.amount.toFixed(2) : null,
+            details: mismatch === 'currency_mismatch' ? `Expected ${payment.currency}, provider reported ${verified.currency}` : null,
+          })
+          .onConflictDoNothing();
+        return null;
+      }
+
+      const [claimed] = await tx
+        .insert(processedPaymentEvents)
+        .values({ provider, reference, orderId })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!claimed) {
+        return null;
+      }
+
+      // Update payment status
+      await tx
+        .update(payments)
+        .set({
+          status: "succeeded" as any,
+          paidAt: verified.paidAt ?? new Date(),
+        })
+        .where(eq(payments.providerId, reference));
+
+      // Lock the order so two different successful references for it still create one project
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for('update');
+
+      if (!order) {
+        throw new Error("Order not found for payment");
+      }
+
+      const [installment] = payment?.installmentId
+        ? await tx
+          .update(orderInstallments)
+          .set({ status: 'paid', paidAt: verified.paidAt ?? new Date() })
+          .where(eq(orderInstallments.id, payment.installmentId))
+          .returning()
+        : [];
+
+      // Later installments only settle the balance; the project is already running
+      if (installment && installment.sequence > 1) {
+        return { order, installment, projectId: null, serviceCategory: null };
+      }
+
+      if (payment?.id && payment.id !== order.paymentId) {
+        await tx.update(orders).set({ paymentId: payment.id }).where(eq(orders.id, orderId));
+      }
+      // Orders already past paid (a second reference for the same deposit) keep their status
+      const paidOrder = canTransitionOrder(order.status, 'paid')
+        ? await this.applyOrderStatus(tx, order, 'paid', { source: 'payment', reason: `Payment ${reference} confirmed` })
+        : order;
+
+      const { projectId, serviceCategory } = await this.activateOrderProject(orderId, tx);
+
+      // Process referral earnings if applicable
+      await this.processReferralEarning(orderId, tx);
+
+      return { order: paidOrder, installment, projectId, serviceCategory };
+    });
+
+    if (mismatch) {
+      throw new Error(`Payment ${reference} does not match the amount or currency due (${mismatch})`);
+    }
+    if (!result) {
+      console.log('🎯 PAYMENT: Reference already processed, skipping:', reference);
+      return false;
+    }
+
+    // Side effects run once, after the commit
+    if (result.projectId) {
+      await this.seedProjectStages(result.projectId, result.serviceCategory);
+      await notificationService.paymentSucceeded(result.order.userId, orderId);
+    } else if (result.installment) {
+      await notificationService.installmentPaid(result.order.userId, orderId, result.installment.label);
+    }
+    void this.sendPaymentEmails(result.order, reference, !!result.projectId);
+    return true;
+  }
+
+  // An order marked paid outside the checkout gets what a payment would give it: the project and the
+  // referrer's commission, under the order lock so a racing payment can't do it a second time
+  async activatePaidOrder(orderId: string): Promise<{ projectId: string; serviceCategory: string | null }> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select({ id: orders.id }).from(orders).where(eq(orders.id, orderId)).for('update');
+      if (!order) {
+        throw new Error('Order not found');
+      }
+
+      const activated = await this.activateOrderProject(orderId, tx);
+      await this.processReferralEarning(orderId, tx);
+      return activated;
+    });
+  }
+
+  // Creates the project for a paid order, or restarts the one it already has
+  async activateOrderProject(orderId: string, executor: DbExecutor = db) {
+    const [order] = await executor.select().from(orders).where(eq(orders.id, orderId));
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    const [service] = order.serviceId
+      ? await executor.select({ category: services.category }).from(services).where(eq(services.id, order.serviceId))
+      : [];
+
+    const timelineWeeks = this.extractTimelineWeeks(order.customRequest);
+    const serviceName = order.customRequest?.split('\n')[0]?.replace('Service: ', '') || 'Custom Project';
+    const startDate = new Date();
+    const estimatedEndDate = new Date();
+    const timelineDays = timelineWeeks * 7;
+    estimatedEndDate.setDate(startDate.getDate() + timelineDays);
+
+    const [existingProject] = await executor
+      .select()
+      .from(projects)
+      .where(eq(projects.orderId, orderId))
+      .limit(1);
+
+    let projectId: string;
+    if (!existingProject) {
+      const [project] = await executor.insert(projects).values({
+        orderId: order.id,
+        userId: order.userId,
+        projectName: serviceName,
+        notes: order.customRequest || 'Project created from service order',
+        status: 'active',
+        startDate: startDate,
+        dueDate: estimatedEndDate,
+        timelineWeeks,
+        timelineDays: timelineDays,
+        progressPercentage: 0,
+      }).returning();
+      projectId = project.id;
+    } else {
+      // Update existing project to active status
+      await executor
+        .update(projects)
+        .set({
           status: 'active',
           startDate: startDate,
           dueDate: estimatedEndDate,
           timelineWeeks,
           timelineDays: timelineDays,
-          progressPercentage: 0,
-        });
-      } else {
-        // Update existing project to active status
-        await db
-          .update(projects)
-          .set({
-            status: 'active',
-            startDate: startDate,
-            dueDate: estimatedEndDate,
-            timelineWeeks,
-            timelineDays: timelineDays,
-          })
-          .where(eq(projects.id, existingProject[0].id));
+        })
+        .where(eq(projects.id, existingProject.id));
+      projectId = existingProject.id;
+    }
+
+    return { projectId, serviceCategory: service?.category ?? null };
+  }
+
+  async setOrderProjectStatus(orderId: string, status: 'active' | 'paused' | 'completed'): Promise<void> {
+    await db
+      .update(projects)
+      .set({ status })
+      .where(eq(projects.orderId, orderId));
+  }
+
+  // Only pending payments are failed, so a late success that already landed is never undone
+  async markPaymentFailed(paymentId: string): Promise<boolean> {
+    const [failed] = await db
+      .update(payments)
+      .set({ status: 'failed' })
+      .where(and(eq(payments.id, paymentId), eq(payments.status, 'pending')))
+      .returning({ id: payments.id });
+    return !!failed;
+  }
+
+  // Bank transfers
+  async getBankTransfer(reference: string) {
+    const payment = await this.getPaymentByReference(reference);
+    if (!payment || payment.provider !== BANK_TRANSFER_PROVIDER) {
+      return undefined;
+    }
+
+    const [order] = await db.select().from(orders).where(eq(orders.id, payment.orderId));
+    if (!order) {
+      return undefined;
+    }
+    const proofs = await db
+      .select()
+      .from(paymentProofs)
+      .where(eq(paymentProofs.paymentId, payment.id))
+      .orderBy(desc(paymentProofs.createdAt));
+    return { payment, order, proofs };
+  }
+
+  // One proof at a time per payment. The first proof for an unpaid order moves it to
+  // awaiting_confirmation, which also keeps the reconciler from expiring it while it is reviewed.
+  async submitPaymentProof(
+    proof: Pick<InsertPaymentProof, "paymentId" | "userId" | "fileUrl" | "filename" | "mimeType" | "sizeBytes" | "senderName" | "note">,
+  ): Promise<{ proof: PaymentProof; order: Order }> {
+    return await db.transaction(async (tx) => {
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, proof.paymentId)).for('update');
+      if (!payment || payment.userId !== proof.userId) {
+        throw new Error("Payment not found");
+      }
+      if (payment.provider !== BANK_TRANSFER_PROVIDER) {
+        throw new Error("This payment is not a bank transfer");
+      }
+      if (payment.status !== 'pending') {
+        throw new Error("This payment is no longer awaiting proof");
+      }
+
+      const [underReview] = await tx
+        .select({ id: paymentProofs.id })
+        .from(paymentProofs)
+        .where(and(eq(paymentProofs.paymentId, payment.id), eq(paymentProofs.status, 'pending')))
+        .limit(1);
+      if (underReview) {
+        throw new Error("A proof for this payment is already awaiting review");
+      }
+
+      const [order] = await tx.select().from(orders).where(eq(orders.id, payment.orderId)).for('update');
+      if (!order) {
+        throw new Error("Order not found");
+      }
+      if (order.status === 'cancelled') {
+        throw new Error("This order has been cancelled");
+      }
+
+      const [created] = await tx
+        .insert(paymentProofs)
+        .values({ ...proof, orderId: order.id })
+        .returning();
+
+      // Later installments are paid on orders that are already underway
+      const updatedOrder = order.status === 'pending'
+        ? await this.applyOrderStatus(tx, order, 'awaiting_confirmation', {
+          source: 'client',
+          changedBy: proof.userId,
+          reason: `Proof of transfer uploaded for ${payment.providerId}`,
+        })
+        : order;
+      return { proof: created, order: updatedOrder };
+    });
+  }
+
+  async getPaymentProofs(status?: PaymentProof["status"]): Promise<PaymentProofWithPayment[]> {
+    const rows = await db
+      .select({
+        proof: paymentProofs,
+        reference: payments.providerId,
+        amount: payments.amount,
+        currency: payments.currency,
+        installmentId: payments.installmentId,
+        orderStatus: orders.status,
+        customerEmail: users.email,
+        customerName: sql<string | null>`nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), '')`,
+      })
+      .from(paymentProofs)
+      .innerJoin(payments, eq(paymentProofs.paymentId, payments.id))
+      .leftJoin(orders, eq(paymentProofs.orderId, orders.id))
+      .leftJoin(users, eq(paymentProofs.userId, users.id))
+      .where(status ? eq(paymentProofs.status, status) : undefined)
+      .orderBy(desc(paymentProofs.createdAt));
+    return rows.map(({ proof, ...row }) => ({ ...proof, ...row }));
+  }
+
+  async getPaymentProof(id: string): Promise<PaymentProof | undefined> {
+    const [proof] = await db.select().from(paymentProofs).where(eq(paymentProofs.id, id));
+    return proof;
+  }
+
+  // The proof is claimed first so a concurrent rejection can't race it, then the payment goes
+  // through handleSuccessfulPayment like any gateway payment: order, installment, project and emails.
+  async confirmPaymentProof(id: string, reviewedBy: string): Promise<PaymentProof> {
+    const { proof, payment } = await db.transaction(async (tx) => {
+      const [proof] = await tx.select().from(paymentProofs).where(eq(paymentProofs.id, id)).for('update');
+      if (!proof) {
+        throw new Error("Payment proof not found");
+      }
+      if (proof.status !== 'pending') {
+        throw new Error(`This proof has already been ${proof.status}`);
+      }
+
+      const [order] = await tx.select({ status: orders.status }).from(orders).where(eq(orders.id, proof.orderId));
+      if (order?.status === 'cancelled') {
+        throw new Error("The order has been cancelled; reopen it before confirming this payment");
+      }
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, proof.paymentId));
+      if (!payment) {
+        throw new Error("Payment not found");
+      }
+
+      const [confirmed] = await tx
+        .update(paymentProofs)
+        .set({ status: 'confirmed', reviewedBy, reviewedAt: new Date() })
+        .where(eq(paymentProofs.id, id))
+        .returning();
+      return { proof: confirmed, payment };
+    });
+
+    try {
+      await this.handleSuccessfulPayment({
+        reference: payment.providerId,
+        status: 'success',
+        amount: parseFloat(payment.amount),
+        currency: payment.currency ?? undefined,
+        orderId: payment.orderId,
+        paidAt: new Date(),
+      });
+    } catch (error) {
+      // Leave the proof reviewable if the payment couldn't be applied
+      await db
+        .update(paymentProofs)
+        .set({ status: 'pending', reviewedBy: null, reviewedAt: null })
+        .where(eq(paymentProofs.id, id));
+      throw error;
+    }
+    return proof;
+  }
+
+  // A rejected proof sends the order back to pending so the client can transfer again or upload a clearer receipt
+  async rejectPaymentProof(id: string, reviewedBy: string, reason: string): Promise<{ proof: PaymentProof; order: Order; payment: Payment }> {
+    return await db.transaction(async (tx) => {
+      const [proof] = await tx.select().from(paymentProofs).where(eq(paymentProofs.id, id)).for('update');
+      if (!proof) {
+        throw new Error("Payment proof not found");
+      }
+      if (proof.status !== 'pending') {
+        throw new Error(`This proof has already been ${proof.status}`);
+      }
+
+      const [rejected] = await tx
+        .update(paymentProofs)
+        .set({ status: 'rejected', reviewedBy, reviewedAt: new Date(), rejectionReason: reason })
+        .where(eq(paymentProofs.id, id))
+        .returning();
+
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, proof.paymentId));
+      const [order] = await tx.select().from(orders).where(eq(orders.id, proof.orderId)).for('update');
+      if (!payment || !order) {
+        throw new Error("Order not found");
+      }
+      const updatedOrder = order.status === 'awaiting_confirmation'
+        ? await this.applyOrderStatus(tx, order, 'pending', { source: 'admin', changedBy: reviewedBy, reason: `Proof of transfer rejected: ${reason}` })
+        : order;
+      return { proof: rejected, order: updatedOrder, payment };
+    });
+  }
+
+  // Pending payment reconciliation. Payments with an open issue wait for an admin, so they
+  // can't hold a place at the head of the batch. Bank transfers have no provider to ask; an admin
+  // confirms them from the uploaded proof.
+  async getStalePendingPayments(createdBefore: Date, limit: number = 100) {
+    const openIssue = db
+      .select({ id: paymentReconciliationIssues.id })
+      .from(paymentReconciliationIssues)
+      .where(and(eq(paymentReconciliationIssues.paymentId, payments.id), isNull(paymentReconciliationIssues.resolvedAt)));
+
+    const rows = await db
+      .select({ payment: payments, orderStatus: orders.status })
+      .from(payments)
+      .leftJoin(orders, eq(payments.orderId, orders.id))
+      .where(and(
+        eq(payments.status, 'pending'),
+        lt(payments.createdAt, createdBefore),
+        ne(payments.provider, BANK_TRANSFER_PROVIDER),
+        notExists(openIssue),
+      ))
+      .orderBy(payments.createdAt)
+      .limit(limit);
+
+    return rows.map(row => ({ ...row.payment, orderStatus: row.orderStatus }));
+  }
+
+  // Cancels unpaid orders past the payment window. The status guard is re-checked under the
+  // row lock, so an order a concurrent payment has just marked paid is left alone.
+  async expirePendingOrders(createdBefore: Date): Promise<Order[]> {
+    return await db.transaction(async (tx) => {
+      // Pending orders either hold a reserved spot or predate reservations
+      const expired = await tx
+        .update(orders)
+        .set({
+          status: 'cancelled',
+          spotStatus: sql`case when ${orders.spotStatus} = 'reserved' then 'released' else ${orders.spotStatus} end`,
+        })
+        .where(and(
+          eq(orders.status, 'pending'),
+          lt(orders.createdAt, createdBefore),
+          sql`not exists (select 1 from ${payments} where ${payments.orderId} = ${orders.id} and ${payments.status} in ('succeeded', 'refunded'))`,
+        ))
+        .returning();
+
+      const releasedPerService = new Map<string, number>();
+      for (const order of expired) {
+        if (order.serviceId && order.spotStatus === 'released') {
+          releasedPerService.set(order.serviceId, (releasedPerService.get(order.serviceId) ?? 0) + 1);
+        }
       }
+      for (const [serviceId, spots] of Array.from(releasedPerService)) {
+        await this.releaseServiceSpots(tx, serviceId, spots);
+      }
+
+      if (expired.length > 0) {
+        await tx.insert(orderStatusHistory).values(expired.map(order => ({
+          orderId: order.id,
+          fromStatus: 'pending' as const,
+          toStatus: 'cancelled' as const,
+          source: 'reconciler',
+          reason: 'Expired unpaid',
+        })));
+      }
+      return expired;
+    });
+  }
+
+  // Returns false when the same kind of issue is already on record for the payment
+  async recordReconciliationIssue(issue: InsertPaymentReconciliationIssue): Promise<boolean> {
+    const [recorded] = await db
+      .insert(paymentReconciliationIssues)
+      .values(issue)
+      .onConflictDoNothing()
+      .returning({ id: paymentReconciliationIssues.id });
+    return !!recorded;
+  }
+
+  async getReconciliationIssues(options: { includeResolved?: boolean } = {}) {
+    const rows = await db
+      .select({ issue: paymentReconciliationIssues, customerEmail: users.email })
+      .from(paymentReconciliationIssues)
+      .leftJoin(orders, eq(paymentReconciliationIssues.orderId, orders.id))
+      .leftJoin(users, eq(orders.userId, users.id))
+      .where(options.includeResolved ? undefined : isNull(paymentReconciliationIssues.resolvedAt))
+      .orderBy(desc(paymentReconciliationIssues.detectedAt));
+
+    return rows.map(row => ({ ...row.issue, customerEmail: row.customerEmail }));
+  }
+
+  async resolveReconciliationIssue(issueId: string, resolvedBy: string, note?: string) {
+    const [resolved] = await db
+      .update(paymentReconciliationIssues)
+      .set({ resolvedAt: new Date(), resolvedBy, resolutionNote: note ?? null })
+      .where(eq(paymentReconciliationIssues.id, issueId))
+      .returning();
+    return resolved;
+  }
+
+  private extractTimelineWeeks(customRequest: string | null): number {
+    const timelineMatch = customRequest?.match(/Timeline: ([^\n]+)/);
+    if (!timelineMatch) {
+      return 4; // default
     }
 
-    // Create project if it doesn't exist
-    const [order] = await db
+    const timelineText = timelineMatch[1].toLowerCase();
+    if (timelineText.includes('1-2') || timelineText.includes('1-2weeks')) {
+      return 2;
+    } else if (timelineText.includes('2-4') || timelineText.includes('2-4weeks')) {
+      return 4;
+    } else if (timelineText.includes('1month') || timelineText.includes('1-2months')) {
+      return 8;
+    } else if (timelineText.includes('3months') || timelineText.includes('2-3months')) {
+      return 12;
+    }
+    return 4;
+  }
+
+  async getOrderPayments(orderId: string): Promise<PaymentWithRefunds[]> {
+    const orderPayments = await db
       .select()
-      .from(orders)
-      .where(eq(orders.id, orderId));
+      .from(payments)
+      .where(eq(payments.orderId, orderId))
+      .orderBy(desc(payments.createdAt));
+
+    if (orderPayments.length === 0) {
+      return [];
+    }
+
+    const paymentRefunds = await db
+      .select()
+      .from(refunds)
+      .where(inArray(refunds.paymentId, orderPayments.map(payment => payment.id)))
+      .orderBy(desc(refunds.createdAt));
+
+    return orderPayments.map(payment => {
+      const list = paymentRefunds.filter(refund => refund.paymentId === payment.id);
+      const refundedAmount = sumActiveRefunds(list);
+      return {
+        ...payment,
+        refunds: list,
+        refundedAmount,
+        refundableAmount: payment.status === 'succeeded' ? roundMoney(Math.max(parseFloat(payment.amount) - refundedAmount, 0)) : 0,
+      };
+    });
+  }
+
+  async getOrderInstallments(orderId: string): Promise<OrderInstallment[]> {
+    return await db
+      .select()
+      .from(orderInstallments)
+      .where(eq(orderInstallments.orderId, orderId))
+      .orderBy(orderInstallments.sequence);
+  }
+
+  // Start checkout for an installment that has fallen due
+  async payInstallment(orderId: string, installmentId: string, userId: string): Promise<string> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (order.userId !== userId) {
+      throw new Error('Order not authorized for this user');
+    }
+    if (order.status === 'cancelled') {
+      throw new Error('Order has been cancelled');
+    }
+
+    const [installment] = await db
+      .select()
+      .from(orderInstallments)
+      .where(and(eq(orderInstallments.id, installmentId), eq(orderInstallments.orderId, orderId)));
+    if (!installment) {
+      throw new Error('Installment not found');
+    }
+    if (installment.status !== 'due') {
+      throw new Error(installment.status === 'paid' ? 'Installment is already paid' : 'Installment is not due yet');
+    }
+
+    const user = await this.getUser(userId);
+    if (!user || !user.email) {
+      throw new Error('User email not found');
+    }
+
+    return await this.initializePayment({
+      orderId,
+      amount: parseFloat(installment.amount),
+      email: user.email,
+      userId,
+      installmentId: installment.id,
+    });
+  }
+
+  // Open up installments whose progress threshold the project has reached
+  private async unlockInstallments(project: Project, progressPercentage: number): Promise<void> {
+    if (!project.orderId) {
+      return;
+    }
+
+    const unlocked = await db
+      .update(orderInstallments)
+      .set({ status: 'due', dueAt: new Date() })
+      .where(and(
+        eq(orderInstallments.orderId, project.orderId),
+        eq(orderInstallments.status, 'locked'),
+        lte(orderInstallments.unlockAtProgress, progressPercentage),
+      ))
+      .returning();
+
+    for (const installment of unlocked) {
+      await notificationService.installmentDue(project.userId, project.orderId, installment.label, installment.amount);
+      void emailService.sendTemplateToUser(project.userId, 'installment_due', {
+        orderId: project.orderId,
+        projectName: project.projectName || 'Your project',
+        installmentLabel: installment.label,
+        amount: installment.amount,
+      });
+    }
+  }
 
-    if (order) {
-      const existingProject = await db
+  // Full refund when amount is omitted. The refund row is reserved before calling the
+  // provider so concurrent requests can't refund more than was paid.
+  async refundPayment(paymentId: string, params: {
+    amount?: number;
+    reason?: string;
+    requestedBy: string;
+  }): Promise<{ refund: Refund; orderCancelled: boolean; awaitingTransfer: boolean }> {
+    const { payment, refund, amount } = await db.transaction(async (tx) => {
+      const [payment] = await tx
         .select()
-        .from(projects)
-        .where(eq(projects.orderId, orderId));
+        .from(payments)
+        .where(eq(payments.id, paymentId))
+        .for('update');
 
-      if (existingProject.length === 0) {
-        await db.insert(projects).values({
-          orderId: order.id,
-          userId: order.userId,
-          projectName: `Project for ${
-            order.customRequest?.split("\n")[0] || "New Project"
-          }`,
-          currentStage: "Discovery",
-          status: "active" as any,
+      if (!payment) {
+        throw new Error("Payment not found");
+      }
+      if (payment.status !== 'succeeded') {
+        throw new Error("Only successful payments can be refunded");
+      }
+
+      const existingRefunds = await tx.select().from(refunds).where(eq(refunds.paymentId, paymentId));
+      const refundable = roundMoney(parseFloat(payment.amount) - sumActiveRefunds(existingRefunds));
+      const amount = roundMoney(params.amount ?? refundable);
+
+      if (!(amount > 0) || amount > refundable) {
+        throw new Error(`Refund amount must be greater than 0 and at most ${refundable}`);
+      }
+
+      const [refund] = await tx.insert(refunds).values({
+        paymentId,
+        orderId: payment.orderId,
+        amount: amount.toFixed(2),
+        reason: params.reason || null,
+        provider: payment.provider,
+        status: 'pending',
+        requestedBy: params.requestedBy,
+      }).returning();
+
+      return { payment, refund, amount };
+    });
+
+    let result: RefundResult;
+    try {
+      result = await getPaymentProvider(payment.provider).refund(payment.providerId, amount);
+      if (result.status === 'failed') {
+        throw new Error("Provider rejected the refund");
+      }
+    } catch (error) {
+      await db
+        .update(refunds)
+        .set({ status: 'failed', processedAt: new Date() })
+        .where(eq(refunds.id, refund.id));
+      throw new Error(`Refund failed: ${(error as Error).message}`);
+    }
+
+    if (payment.provider === BANK_TRANSFER_PROVIDER) {
+      const [awaiting] = await db
+        .update(refunds)
+        .set({ providerRefundId: result.refundId })
+        .where(eq(refunds.id, refund.id))
+        .returning();
+      return { refund: awaiting, orderCancelled: false, awaitingTransfer: true };
+    }
+
+    // Providers may settle asynchronously; an accepted refund is booked straight away
+    const outcome = await db.transaction(async (tx) => this.bookRefund(tx, payment, refund, {
+      status: result.status,
+      providerRefundId: result.refundId,
+      changedBy: params.requestedBy,
+    }));
+
+    await notificationService.paymentRefunded(payment.userId, payment.orderId, amount, outcome.orderCancelled);
+    return { ...outcome, awaitingTransfer: false };
+  }
+
+  async getBankTransferRefundsDue(): Promise<BankTransferRefundDue[]> {
+    const rows = await db
+      .select({
+        refund: refunds,
+        reference: payments.providerId,
+        customerEmail: users.email,
+        customerName: sql<string | null>`nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), '')`,
+      })
+      .from(refunds)
+      .innerJoin(payments, eq(refunds.paymentId, payments.id))
+      .leftJoin(users, eq(payments.userId, users.id))
+      .where(and(eq(refunds.provider, BANK_TRANSFER_PROVIDER), eq(refunds.status, 'pending'), isNull(refunds.processedAt)))
+      .orderBy(refunds.createdAt);
+    return rows.map(({ refund, ...row }) => ({ ...refund, ...row }));
+  }
+
+  // An admin has sent a manual bank refund, so it is booked like an accepted gateway refund
+  async completeBankTransferRefund(refundId: string, sentBy: string): Promise<{ refund: Refund; orderCancelled: boolean }> {
+    const { outcome, payment } = await db.transaction(async (tx) => {
+      const [refund] = await tx.select().from(refunds).where(eq(refunds.id, refundId)).for('update');
+      if (!refund) {
+        throw new Error("Refund not found");
+      }
+      if (!awaitingBankTransfer(refund)) {
+        throw new Error("This refund is not waiting for a bank transfer");
+      }
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, refund.paymentId)).for('update');
+      if (!payment) {
+        throw new Error("Payment not found");
+      }
+
+      const outcome = await this.bookRefund(tx, payment, refund, {
+        status: 'succeeded',
+        providerRefundId: refund.providerRefundId,
+        changedBy: sentBy,
+      });
+      return { outcome, payment };
+    });
+
+    await notificationService.paymentRefunded(payment.userId, payment.orderId, parseFloat(outcome.refund.amount), outcome.orderCancelled);
+    return outcome;
+  }
+
+  // A manual refund entered by mistake is dropped before any money is sent. Nothing was booked
+  // for it, so marking it failed is enough to free up the refundable balance.
+  async cancelBankTransferRefund(refundId: string): Promise<Refund> {
+    return await db.transaction(async (tx) => {
+      const [refund] = await tx.select().from(refunds).where(eq(refunds.id, refundId)).for('update');
+      if (!refund) {
+        throw new Error("Refund not found");
+      }
+      if (!awaitingBankTransfer(refund)) {
+        throw new Error("This refund is not waiting for a bank transfer");
+      }
+
+      const [cancelled] = await tx
+        .update(refunds)
+        .set({ status: 'failed', processedAt: new Date() })
+        .where(eq(refunds.id, refundId))
+        .returning();
+      return cancelled;
+    });
+  }
+
+  // Marks the payment refunded once nothing is left on it, cancels the order once none of its
+  // payments remain, and claws back the referral commission the refund covers
+  private async bookRefund(
+    tx: DbExecutor,
+    payment: Payment,
+    refund: Refund,
+    booking: { status: Refund["status"]; providerRefundId: string | null; changedBy: string },
+  ): Promise<{ refund: Refund; orderCancelled: boolean }> {
+    const amount = parseFloat(refund.amount);
+    // Other manual refunds still waiting to be sent haven't left the account yet
+    const paymentRefunds = (await tx.select().from(refunds).where(eq(refunds.paymentId, payment.id)))
+      .filter(row => row.id === refund.id || !awaitingBankTransfer(row));
+    const paymentFullyRefunded = sumActiveRefunds(paymentRefunds) >= parseFloat(payment.amount);
+
+    if (paymentFullyRefunded) {
+      await tx
+        .update(payments)
+        .set({ status: 'refunded' })
+        .where(eq(payments.id, payment.id));
+    }
+
+    // The order is only reversed once none of its payments remain
+    const [remainingPayment] = await tx
+      .select({ id: payments.id })
+      .from(payments)
+      .where(and(eq(payments.orderId, payment.orderId), eq(payments.status, 'succeeded')))
+      .limit(1);
+    const orderCancelled = paymentFullyRefunded && !remainingPayment;
+
+    if (orderCancelled) {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, payment.orderId)).for('update');
+      if (order && order.status !== 'cancelled') {
+        await this.applyOrderStatus(tx, order, 'cancelled', {
+          source: 'refund',
+          changedBy: booking.changedBy,
+          reason: refund.reason || 'Fully refunded',
         });
       }
     }
 
-    // Process referral earnings if applicable
-    console.log('🎯 PAYMENT: About to process referral earnings for order:', orderId);
-    await this.processReferralEarning(orderId);
-    console.log('🎯 PAYMENT: Referral earnings processing completed for order:', orderId);
+    const commissionClawback = await this.clawbackReferralCommission(tx, payment.orderId, amount, orderCancelled);
+
+    const [updatedRefund] = await tx
+      .update(refunds)
+      .set({
+        status: booking.status,
+        providerRefundId: booking.providerRefundId,
+        commissionClawback: commissionClawback.toFixed(2),
+        processedAt: new Date(),
+      })
+      .where(eq(refunds.id, refund.id))
+      .returning();
+
+    return { refund: updatedRefund, orderCancelled };
+  }
+
+  // Reverse the share of the referral commission covered by a refund, or whatever is left of
+  // it once the order is cancelled. Balances may go negative if the commission was withdrawn.
+  private async clawbackReferralCommission(
+    executor: DbExecutor,
+    orderId: string,
+    refundAmount: number,
+    orderCancelled: boolean,
+  ): Promise<number> {
+    const [referral] = await executor
+      .select()
+      .from(referrals)
+      .where(eq(referrals.orderId, orderId))
+      .limit(1);
+
+    if (!referral) {
+      return 0;
+    }
+
+    const remainingCommission = parseFloat(referral.commissionAmount);
+    const clawback = roundMoney(orderCancelled
+      ? remainingCommission
+      : Math.min(remainingCommission, (refundAmount * parseFloat(referral.commissionPercentage)) / 100));
+
+    if (clawback <= 0) {
+      return 0;
+    }
+
+    await executor
+      .update(referrals)
+      .set({ commissionAmount: (remainingCommission - clawback).toFixed(2) })
+      .where(eq(referrals.id, referral.id));
+
+    await executor
+      .update(referralEarnings)
+      .set({
+        totalEarned: sql`${referralEarnings.totalEarned} - ${clawback}`,
+        availableBalance: sql`${referralEarnings.availableBalance} - ${clawback}`,
+        ...(orderCancelled ? { successfulReferrals: sql`GREATEST(${referralEarnings.successfulReferrals} - 1, 0)` } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(referralEarnings.userId, referral.referrerId));
+
+    return clawback;
+  }
+
+  // Receipt plus project kickoff emails; runs off the webhook's critical path
+  private async sendPaymentEmails(order: Order, reference: string, projectActivated: boolean): Promise<void> {
+    try {
+      const [payment] = await db.select().from(payments).where(eq(payments.providerId, reference));
+      const service = order.serviceId ? await this.getServiceById(order.serviceId) : undefined;
+      const [project] = await db.select().from(projects).where(eq(projects.orderId, order.id));
+      const serviceName = service?.name || project?.projectName || 'Custom Project';
+      const installments = await this.getOrderInstallments(order.id);
+      const installment = installments.find(i => i.id === payment?.installmentId);
+
+      // Invoice first so document numbers follow the order of events
+      if (payment) {
+        await this.issueOrderInvoice(order.id)
+          .then(() => this.issuePaymentReceipt(payment.id))
+          .catch(error => console.error('Failed to issue invoice documents for payment:', payment.id, error));
+      }
+
+      await emailService.sendTemplateToUser(order.userId, 'payment_receipt', {
+        orderId: order.id,
+        serviceName,
+        amount: payment?.amount ?? order.totalPrice,
+        reference,
+        paidAt: payment?.paidAt ?? new Date(),
+        installmentLabel: installments.length > 1 ? installment?.label : undefined,
+        balanceRemaining: installments.length > 1 ? outstandingInstallmentBalance(installments) : undefined,
+      });
+
+      if (project && projectActivated) {
+        const stages = await this.getProjectStages(project.id);
+        await emailService.sendTemplateToUser(order.userId, 'project_activated', {
+          projectId: project.id,
+          projectName: project.projectName || serviceName,
+          dueDate: project.dueDate,
+          stages: stages.map(stage => stage.title),
+        });
+      }
+    } catch (error) {
+      console.error('Failed to send payment emails for order:', order.id, error);
+    }
+  }
+
+  // Invoice operations
+  async getInvoiceSettings(): Promise<Settings | undefined> {
+    const [row] = await db.select().from(settings).where(eq(settings.id, 'default'));
+    return row;
+  }
+
+  async updateInvoiceSettings(updates: InvoiceSettingsUpdate): Promise<Settings> {
+    const [row] = await db
+      .insert(settings)
+      .values({ id: 'default', ...updates })
+      .onConflictDoUpdate({ target: settings.id, set: { ...updates, updatedAt: new Date() } })
+      .returning();
+    return row;
+  }
+
+  async getOrderInvoices(orderId: string): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.orderId, orderId))
+      .orderBy(invoices.issuedAt);
+  }
+
+  // One invoice per order, issued on first request. The order row lock serialises
+  // concurrent requests so the second one finds the first's invoice.
+  async issueOrderInvoice(orderId: string): Promise<Invoice> {
+    const [existing] = await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.orderId, orderId), eq(invoices.kind, 'invoice')));
+    if (existing) return existing;
+
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
+    if (!order) {
+      throw new Error("Order not found");
+    }
+    const service = order.serviceId ? await this.getServiceById(order.serviceId) : undefined;
+    const lineItems = buildOrderLineItems(order, service, await this.getOrderLineItems(orderId));
+    const parties = await this.getInvoiceParties(order);
+
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: orders.id }).from(orders).where(eq(orders.id, orderId)).for('update');
+      const [issued] = await tx
+        .select()
+        .from(invoices)
+        .where(and(eq(invoices.orderId, orderId), eq(invoices.kind, 'invoice')));
+      if (issued) return issued;
+
+      return await this.insertInvoice(tx, {
+        kind: 'invoice',
+        order,
+        lineItems,
+        total: parseFloat(order.totalPrice) || 0,
+        currency: order.currency || SETTLEMENT_CURRENCY,
+        ...parties,
+      });
+    });
+  }
+
+  // One receipt per successful payment, for the amount actually paid
+  async issuePaymentReceipt(paymentId: string): Promise<Invoice> {
+    const [existing] = await db.select().from(invoices).where(eq(invoices.paymentId, paymentId));
+    if (existing) return existing;
+
+    const [payment] = await db.select().from(payments).where(eq(payments.id, paymentId));
+    if (!payment) {
+      throw new Error("Payment not found");
+    }
+    if (payment.status !== 'succeeded' && payment.status !== 'refunded') {
+      throw new Error("Receipts are only issued for completed payments");
+    }
+
+    const [order] = await db.select().from(orders).where(eq(orders.id, payment.orderId));
+    const service = order.serviceId ? await this.getServiceById(order.serviceId) : undefined;
+    const installments = await this.getOrderInstallments(order.id);
+    const installment = installments.length > 1 ? installments.find(i => i.id === payment.installmentId) : undefined;
+    const lineItems = buildPaymentLineItems(payment, service?.name || 'Custom project', installment?.label);
+    const parties = await this.getInvoiceParties(order);
+
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: payments.id }).from(payments).where(eq(payments.id, paymentId)).for('update');
+      const [issued] = await tx.select().from(invoices).where(eq(invoices.paymentId, paymentId));
+      if (issued) return issued;
+
+      return await this.insertInvoice(tx, {
+        kind: 'receipt',
+        order,
+        paymentId,
+        lineItems,
+        total: parseFloat(payment.amount) || 0,
+        currency: payment.currency || SETTLEMENT_CURRENCY,
+        ...parties,
+      });
+    });
+  }
+
+  // Takes the next number in the same transaction as the insert, so numbers stay gap-free
+  private async insertInvoice(executor: DbExecutor, params: {
+    kind: InvoiceKind;
+    order: Order;
+    paymentId?: string;
+    lineItems: InvoiceLineItem[];
+    total: number;
+    currency: string;
+    seller: InvoiceParty;
+    billTo: InvoiceParty;
+    vatRate: number;
+  }): Promise<Invoice> {
+    const [sequence] = await executor
+      .insert(invoiceSequences)
+      .values({ kind: params.kind, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: invoiceSequences.kind,
+        set: { lastNumber: sql`${invoiceSequences.lastNumber} + 1` },
+      })
+      .returning();
+
+    const [invoice] = await executor.insert(invoices).values({
+      number: formatInvoiceNumber(params.kind, sequence.lastNumber),
+      kind: params.kind,
+      orderId: params.order.id,
+      paymentId: params.paymentId ?? null,
+      userId: params.order.userId,
+      currency: params.currency,
+      lineItems: params.lineItems,
+      ...splitVat(params.total, params.vatRate),
+      seller: params.seller,
+      billTo: params.billTo,
+    }).returning();
+    return invoice;
+  }
+
+  // Seller details come from the settings store; the buyer from the checkout contact info
+  private async getInvoiceParties(order: Order): Promise<{ seller: InvoiceParty; billTo: InvoiceParty; vatRate: number }> {
+    const businessSettings = await this.getInvoiceSettings();
+    const user = await this.getUser(order.userId);
+
+    let contactInfo: { fullName?: string; email?: string; phone?: string; company?: string } = {};
+    try {
+      contactInfo = JSON.parse(order.customRequest || '{}').contactInfo || {};
+    } catch {
+      // Older orders stored free text here
+    }
+
+    const userName = `${user?.firstName || ''} ${user?.lastName || ''}`.trim();
+    return {
+      seller: {
+        name: businessSettings?.businessName || 'DiSO Webs',
+        address: businessSettings?.businessAddress,
+        email: businessSettings?.businessEmail,
+        phone: businessSettings?.businessPhone,
+        taxId: businessSettings?.taxId,
+      },
+      billTo: {
+        name: contactInfo.fullName || userName || user?.email || 'Client',
+        email: contactInfo.email || user?.email,
+        phone: contactInfo.phone || null,
+        company: contactInfo.company || null,
+      },
+      vatRate: parseFloat(businessSettings?.vatRate ?? '0') || 0,
+    };
   }
 
   // Support operations
@@ -1128,38 +3084,770 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Audit log operations
+  async getAuditLogs(filters: {
+    page?: number;
+    limit?: number;
+    actionType?: string;
+    userId?: string;
+    from?: Date;
+    to?: Date;
+  }): Promise<{ logs: AuditLog[]; total: number }> {
+    const page = Math.max(filters.page || 1, 1);
+    const limit = Math.min(Math.max(filters.limit || 50, 1), 200);
+
+    const conditions = [];
+    if (filters.actionType) conditions.push(eq(auditLogs.actionType, filters.actionType));
+    if (filters.userId) conditions.push(eq(auditLogs.userId, filters.userId));
+    if (filters.from) conditions.push(gte(auditLogs.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditLogs.createdAt, filters.to));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [logs, [totalResult]] = await Promise.all([
+      db
+        .select({
+          id: auditLogs.id,
+          userId: auditLogs.userId,
+          actionType: auditLogs.actionType,
+          ipAddress: auditLogs.ipAddress,
+          details: auditLogs.details,
+          createdAt: auditLogs.createdAt,
+          user: {
+            email: users.email,
+            firstName: users.firstName,
+            lastName: users.lastName,
+          },
+        })
+        .from(auditLogs)
+        .leftJoin(users, eq(auditLogs.userId, users.id))
+        .where(where)
+        .orderBy(desc(auditLogs.createdAt))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db.select({ count: count() }).from(auditLogs).where(where),
+    ]);
+
+    return { logs, total: Number(totalResult?.count || 0) };
+  }
+
+  async getAuditLogActionTypes(): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ actionType: auditLogs.actionType })
+      .from(auditLogs)
+      .orderBy(auditLogs.actionType);
+    return rows.map(row => row.actionType);
+  }
+
   // Contact and quote operations
+  // Links the message to the sender's account when the email matches one
   async handleContactForm(data: {
     name: string;
     email: string;
     subject: string;
     message: string;
-  }): Promise<void> {
-    // In a real implementation, you would send an email notification here
-
-    // Create a system user if it doesn't exist
-    const systemUser = await this.getUserByEmail("system@disowebs.com");
-    if (!systemUser) {
-      await this.createUser({
-        id: "system",
-        firstName: "System",
-        lastName: "Admin",
-        email: "system@disowebs.com",
-        role: "admin",
-      });
+  }): Promise<ContactSubmission> {
+    const user = await this.getUserByEmail(data.email);
+    const [submission] = await db
+      .insert(contactSubmissions)
+      .values({ ...data, userId: user?.id ?? null })
+      .returning();
+    return submission;
+  }
+
+  async getContactSubmissions(status?: ContactStatus): Promise<ContactSubmission[]> {
+    return await db
+      .select()
+      .from(contactSubmissions)
+      .where(status ? eq(contactSubmissions.status, status) : undefined)
+      .orderBy(desc(contactSubmissions.createdAt));
+  }
+
+  // Senders who registered after writing in are matched to their account by email
+  async getContactSubmission(id: string): Promise<ContactSubmissionWithReplies | undefined> {
+    const [row] = await db
+      .select({
+        submission: contactSubmissions,
+        linkedUserId: users.id,
+        userName: sql<string | null>`nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), '')`,
+      })
+      .from(contactSubmissions)
+      .leftJoin(users, or(
+        eq(contactSubmissions.userId, users.id),
+        and(isNull(contactSubmissions.userId), sql`lower(${users.email}) = lower(${contactSubmissions.email})`),
+      ))
+      .where(eq(contactSubmissions.id, id))
+      .limit(1);
+    if (!row) {
+      return undefined;
+    }
+
+    const replies = await db
+      .select({
+        reply: contactReplies,
+        sentByName: sql<string | null>`nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), '')`,
+      })
+      .from(contactReplies)
+      .leftJoin(users, eq(contactReplies.sentBy, users.id))
+      .where(eq(contactReplies.submissionId, id))
+      .orderBy(contactReplies.createdAt);
+
+    return {
+      ...row.submission,
+      userId: row.submission.userId ?? row.linkedUserId,
+      userName: row.userName,
+      replies: replies.map(({ reply, sentByName }) => ({ ...reply, sentByName })),
+    };
+  }
+
+  // Opening a new message moves it to read; later states are left alone
+  async markContactRead(id: string): Promise<void> {
+    await db
+      .update(contactSubmissions)
+      .set({ status: 'read', readAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(contactSubmissions.id, id), eq(contactSubmissions.status, 'new')));
+  }
+
+  async updateContactStatus(id: string, status: ContactStatus): Promise<ContactSubmission> {
+    const [updated] = await db
+      .update(contactSubmissions)
+      .set({
+        status,
+        ...(status !== 'new' ? { readAt: sql`coalesce(${contactSubmissions.readAt}, now())` } : { readAt: null }),
+        updatedAt: new Date(),
+      })
+      .where(eq(contactSubmissions.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error("Contact message not found");
+    }
+    return updated;
+  }
+
+  async recordContactReply(id: string, body: string, sentBy: string): Promise<ContactSubmission> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(contactSubmissions)
+        .set({
+          status: 'replied',
+          readAt: sql`coalesce(${contactSubmissions.readAt}, now())`,
+          repliedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(contactSubmissions.id, id))
+        .returning();
+      if (!updated) {
+        throw new Error("Contact message not found");
+      }
+
+      await tx.insert(contactReplies).values({ submissionId: id, body, sentBy });
+      return updated;
+    });
+  }
+
+  // Starts a quote in review from the message so it follows the normal proposal flow
+  async convertContactToQuote(
+    id: string,
+    fields: Pick<InsertQuote, "projectType" | "budgetRange" | "timeline" | "description">,
+  ): Promise<{ submission: ContactSubmission; quote: Quote }> {
+    return await db.transaction(async (tx) => {
+      const [submission] = await tx.select().from(contactSubmissions).where(eq(contactSubmissions.id, id)).for('update');
+      if (!submission) {
+        throw new Error("Contact message not found");
+      }
+      if (submission.quoteId) {
+        throw new Error("This message has already been converted to a quote");
+      }
+
+      const [quote] = await tx
+        .insert(quotes)
+        .values({
+          ...fields,
+          userId: submission.userId,
+          fullName: submission.name,
+          email: submission.email,
+          status: 'reviewing',
+          adminNotes: `Converted from contact message: ${submission.subject}`,
+        })
+        .returning();
+
+      const [updated] = await tx
+        .update(contactSubmissions)
+        .set({
+          quoteId: quote.id,
+          readAt: sql`coalesce(${contactSubmissions.readAt}, now())`,
+          status: submission.status === 'new' ? 'read' : submission.status,
+          updatedAt: new Date(),
+        })
+        .where(eq(contactSubmissions.id, id))
+        .returning();
+      return { submission: updated, quote };
+    });
+  }
+
+  async handleQuoteRequest(data: InsertQuote): Promise<Quote> {
+    const [quote] = await db.insert(quotes).values(data).returning();
+    return quote;
+  }
+
+  async getQuotes(status?: QuoteStatus): Promise<Quote[]> {
+    return await db
+      .select()
+      .from(quotes)
+      .where(status ? eq(quotes.status, status) : undefined)
+      .orderBy(desc(quotes.createdAt));
+  }
+
+  async getQuote(id: string): Promise<Quote | undefined> {
+    const [quote] = await db.select().from(quotes).where(eq(quotes.id, id));
+    return quote;
+  }
+
+  // Quotes submitted while signed in, plus those sent as a guest from the account's email
+  async getClientQuotes(userId: string, email: string): Promise<Quote[]> {
+    return await db
+      .select()
+      .from(quotes)
+      .where(or(eq(quotes.userId, userId), sql`lower(${quotes.email}) = lower(${email})`))
+      .orderBy(desc(quotes.createdAt));
+  }
+
+  private async lockQuote(tx: DbExecutor, id: string): Promise<Quote> {
+    const [quote] = await tx.select().from(quotes).where(eq(quotes.id, id)).for('update');
+    if (!quote) {
+      throw new Error("Quote not found");
+    }
+    return quote;
+  }
+
+  async updateQuoteStatus(id: string, status: QuoteStatus, adminNotes?: string | null): Promise<Quote> {
+    return await db.transaction(async (tx) => {
+      const quote = await this.lockQuote(tx, id);
+      if (quote.status !== status && !adminQuoteTransitions[quote.status].includes(status)) {
+        throw new Error(`Cannot change quote from ${quoteStatusLabels[quote.status]} to ${quoteStatusLabels[status]}`);
+      }
+
+      const [updated] = await tx
+        .update(quotes)
+        .set({
+          status,
+          ...(adminNotes !== undefined ? { adminNotes } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(quotes.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Sending a new proposal replaces any earlier one the client hasn't answered
+  async proposeQuote(id: string, proposal: QuoteProposal, proposedBy: string): Promise<Quote> {
+    return await db.transaction(async (tx) => {
+      const quote = await this.lockQuote(tx, id);
+      if (quote.status === 'accepted' || quote.status === 'declined') {
+        throw new Error(`Cannot send a proposal for a quote that is ${quoteStatusLabels[quote.status].toLowerCase()}`);
+      }
+
+      const [updated] = await tx
+        .update(quotes)
+        .set({
+          status: 'proposed',
+          proposedPrice: proposal.price.toFixed(2),
+          proposedPaymentSchedule: proposal.paymentSchedule,
+          proposedDeliveryTime: proposal.deliveryTime ?? null,
+          proposalNotes: proposal.notes ?? null,
+          proposedBy,
+          proposedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(quotes.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async declineQuote(id: string): Promise<Quote> {
+    return await db.transaction(async (tx) => {
+      const quote = await this.lockQuote(tx, id);
+      if (quote.status !== 'proposed') {
+        throw new Error("This quote has no open proposal");
+      }
+
+      const [updated] = await tx
+        .update(quotes)
+        .set({ status: 'declined', respondedAt: new Date(), updatedAt: new Date() })
+        .where(eq(quotes.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Creates a pending order at the proposed price; the quote is locked so it converts only once
+  async acceptQuote(id: string, userId: string, paymentMethod: string): Promise<{ quote: Quote; order: Order }> {
+    return await db.transaction(async (tx) => {
+      const quote = await this.lockQuote(tx, id);
+      if (quote.status !== 'proposed' || !quote.proposedPrice) {
+        throw new Error("This quote has no open proposal");
+      }
+
+      const price = parseFloat(quote.proposedPrice);
+      const description = `Custom project: ${quoteOptionLabel(projectTypes, quote.projectType)}`;
+      const order = await this.insertOrder(tx, {
+        userId,
+        serviceId: null,
+        customRequest: JSON.stringify({
+          contactInfo: {
+            fullName: quote.fullName,
+            email: quote.email,
+            phone: quote.phone || '',
+            company: quote.company || '',
+          },
+          projectDetails: { description: quote.description },
+          timeline: quote.proposedDeliveryTime || quote.timeline,
+          paymentMethod,
+          quoteId: quote.id,
+        }),
+        totalPrice: price.toString(),
+        status: 'pending',
+        paymentSchedule: quote.proposedPaymentSchedule || FULL_PAYMENT_SCHEDULE,
+        currency: SETTLEMENT_CURRENCY,
+        displayCurrency: SETTLEMENT_CURRENCY,
+        exchangeRate: "1",
+      }, [{
+        kind: 'service',
+        description,
+        quantity: 1,
+        unitPrice: price.toFixed(2),
+        amount: price.toFixed(2),
+      }]);
+
+      const [updated] = await tx
+        .update(quotes)
+        .set({ status: 'accepted', userId, orderId: order.id, respondedAt: new Date(), updatedAt: new Date() })
+        .where(eq(quotes.id, id))
+        .returning();
+      return { quote: updated, order };
+    });
+  }
+
+  // Quarantined form submissions
+  async quarantineSubmission(submission: InsertQuarantinedSubmission): Promise<QuarantinedSubmission> {
+    const [quarantined] = await db.insert(quarantinedSubmissions).values(submission).returning();
+    return quarantined;
+  }
+
+  async getQuarantinedSubmissions(status?: QuarantineStatus): Promise<QuarantinedSubmission[]> {
+    return await db
+      .select()
+      .from(quarantinedSubmissions)
+      .where(status ? eq(quarantinedSubmissions.status, status) : undefined)
+      .orderBy(desc(quarantinedSubmissions.createdAt));
+  }
+
+  async getQuarantinedSubmission(id: string): Promise<QuarantinedSubmission | undefined> {
+    const [submission] = await db.select().from(quarantinedSubmissions).where(eq(quarantinedSubmissions.id, id));
+    return submission;
+  }
+
+  // Claims a pending submission so it is released or discarded exactly once
+  async reviewQuarantinedSubmission(
+    id: string,
+    status: Exclude<QuarantineStatus, 'pending'>,
+    reviewedBy: string,
+  ): Promise<QuarantinedSubmission> {
+    const [reviewed] = await db
+      .update(quarantinedSubmissions)
+      .set({ status, reviewedBy, reviewedAt: new Date() })
+      .where(and(eq(quarantinedSubmissions.id, id), eq(quarantinedSubmissions.status, 'pending')))
+      .returning();
+    if (!reviewed) {
+      const [existing] = await db.select().from(quarantinedSubmissions).where(eq(quarantinedSubmissions.id, id));
+      throw new Error(existing ? `This submission has already been ${existing.status}` : "Quarantined submission not found");
+    }
+    return reviewed;
+  }
+
+  // Subscriptions
+  // Reuses the client's unpaid subscription to the plan, so an abandoned checkout can be retried
+  async createSubscription(
+    subscription: Pick<Subscription, "userId" | "serviceId" | "billingInterval" | "amount" | "currency" | "provider">,
+  ): Promise<Subscription> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(subscriptions)
+        .where(and(
+          eq(subscriptions.userId, subscription.userId),
+          eq(subscriptions.serviceId, subscription.serviceId),
+          ne(subscriptions.status, 'cancelled'),
+        ))
+        .for('update');
+      if (existing && existing.status !== 'incomplete') {
+        throw new Error("You already have a subscription to this plan");
+      }
+
+      if (existing) {
+        const [updated] = await tx
+          .update(subscriptions)
+          .set({ ...subscription, updatedAt: new Date() })
+          .where(eq(subscriptions.id, existing.id))
+          .returning();
+        return updated;
+      }
+
+      const [created] = await tx.insert(subscriptions).values(subscription).returning();
+      return created;
+    });
+  }
+
+  private subscriptionWithServiceQuery() {
+    return db
+      .select({ subscription: subscriptions, serviceName: services.name })
+      .from(subscriptions)
+      .leftJoin(services, eq(subscriptions.serviceId, services.id));
+  }
+
+  async getSubscription(id: string): Promise<SubscriptionWithService | undefined> {
+    const [row] = await this.subscriptionWithServiceQuery().where(eq(subscriptions.id, id));
+    return row ? { ...row.subscription, serviceName: row.serviceName } : undefined;
+  }
+
+  async getUserSubscriptions(userId: string): Promise<SubscriptionWithService[]> {
+    const rows = await this.subscriptionWithServiceQuery()
+      .where(eq(subscriptions.userId, userId))
+      .orderBy(desc(subscriptions.createdAt));
+    return rows.map(row => ({ ...row.subscription, serviceName: row.serviceName }));
+  }
+
+  async getAllSubscriptions() {
+    const rows = await db
+      .select({
+        subscription: subscriptions,
+        serviceName: services.name,
+        customerEmail: users.email,
+        customerName: sql<string | null>`nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), '')`,
+      })
+      .from(subscriptions)
+      .leftJoin(services, eq(subscriptions.serviceId, services.id))
+      .leftJoin(users, eq(subscriptions.userId, users.id))
+      .orderBy(desc(subscriptions.createdAt));
+    return rows.map(({ subscription, ...row }) => ({ ...subscription, ...row }));
+  }
+
+  async getSubscriptionCharges(subscriptionId: string): Promise<SubscriptionCharge[]> {
+    return await db
+      .select()
+      .from(subscriptionCharges)
+      .where(eq(subscriptionCharges.subscriptionId, subscriptionId))
+      .orderBy(desc(subscriptionCharges.createdAt));
+  }
+
+  async getSubscriptionChargesSince(since: Date): Promise<SubscriptionCharge[]> {
+    return await db
+      .select()
+      .from(subscriptionCharges)
+      .where(gte(subscriptionCharges.createdAt, since))
+      .orderBy(desc(subscriptionCharges.createdAt));
+  }
+
+  async getSubscriptionChargeByReference(reference: string): Promise<SubscriptionCharge | undefined> {
+    const [charge] = await db.select().from(subscriptionCharges).where(eq(subscriptionCharges.reference, reference));
+    return charge;
+  }
+
+  private async lockSubscription(tx: DbExecutor, id: string): Promise<Subscription> {
+    const [subscription] = await tx.select().from(subscriptions).where(eq(subscriptions.id, id)).for('update');
+    if (!subscription) {
+      throw new Error("Subscription not found");
     }
+    return subscription;
+  }
+
+  // Opens a checkout charge for the first period, or for the unpaid period of a past-due subscription
+  async startSubscriptionCheckout(subscriptionId: string): Promise<{ subscription: Subscription; charge: SubscriptionCharge }> {
+    return await db.transaction(async (tx) => {
+      const subscription = await this.lockSubscription(tx, subscriptionId);
+      if (subscription.status !== 'incomplete' && subscription.status !== 'past_due') {
+        throw new Error(`Cannot pay for a subscription that is ${subscription.status.replace('_', ' ')}`);
+      }
+
+      const periodStart = subscription.status === 'past_due' && subscription.currentPeriodEnd
+        ? subscription.currentPeriodEnd
+        : new Date();
+      const [previous] = await tx
+        .select({ attempts: count() })
+        .from(subscriptionCharges)
+        .where(and(
+          eq(subscriptionCharges.subscriptionId, subscriptionId),
+          eq(subscriptionCharges.kind, 'checkout'),
+          eq(subscriptionCharges.periodStart, periodStart),
+        ));
+
+      const [charge] = await tx
+        .insert(subscriptionCharges)
+        .values({
+          subscriptionId,
+          userId: subscription.userId,
+          kind: 'checkout',
+          attempt: Number(previous?.attempts ?? 0) + 1,
+          amount: subscription.amount,
+          currency: subscription.currency,
+          provider: subscription.provider,
+          periodStart,
+          periodEnd: addBillingInterval(periodStart, subscription.billingInterval),
+        })
+        .returning();
+      return { subscription, charge };
+    });
+  }
+
+  async setSubscriptionChargeReference(chargeId: string, reference: string): Promise<void> {
+    await db.update(subscriptionCharges).set({ reference }).where(eq(subscriptionCharges.id, chargeId));
+  }
+
+  // Checkout charges whose callback and webhook never arrived
+  async getPendingSubscriptionCheckouts(createdBefore: Date, limit: number = 100): Promise<SubscriptionCharge[]> {
+    return await db
+      .select()
+      .from(subscriptionCharges)
+      .where(and(
+        eq(subscriptionCharges.kind, 'checkout'),
+        eq(subscriptionCharges.status, 'pending'),
+        isNotNull(subscriptionCharges.reference),
+        lt(subscriptionCharges.createdAt, createdBefore),
+      ))
+      .orderBy(subscriptionCharges.createdAt)
+      .limit(limit);
+  }
+
+  // Applies a verified checkout payment to its subscription. Idempotent like handleSuccessfulPayment:
+  // the charge row is locked and only a pending charge is settled, so callback and webhook can race.
+  // Returns null when the payment was already applied or wasn't successful; started is set when
+  // the payment (re)started the subscription rather than bringing a past-due one up to date.
+  async settleSubscriptionCheckout(verified: VerifiedPayment): Promise<{ subscription: Subscription; charge: SubscriptionCharge; started: boolean } | null> {
+    return await db.transaction(async (tx) => {
+      const [charge] = await tx
+        .select()
+        .from(subscriptionCharges)
+        .where(eq(subscriptionCharges.reference, verified.reference))
+        .for('update');
+      if (!charge) {
+        throw new Error("Subscription charge not found for payment reference");
+      }
+      if (charge.status !== 'pending') {
+        return null;
+      }
+
+      if (verified.status === 'failed') {
+        await tx
+          .update(subscriptionCharges)
+          .set({ status: 'failed', failureReason: verified.failureReason ?? null })
+          .where(eq(subscriptionCharges.id, charge.id));
+        return null;
+      }
+      if (verified.status !== 'success') {
+        return null;
+      }
+      if (verified.amount !== undefined && Math.abs(verified.amount - parseFloat(charge.amount)) > 0.01) {
+        throw new Error(`Subscription payment ${verified.reference} was for ${verified.amount}, expected ${charge.amount}`);
+      }
+
+      const paidAt = verified.paidAt ?? new Date();
+      const [settled] = await tx
+        .update(subscriptionCharges)
+        .set({ status: 'succeeded', paidAt })
+        .where(eq(subscriptionCharges.id, charge.id))
+        .returning();
+
+      // A late payment revives a subscription that dunning had already cancelled
+      const previous = await this.lockSubscription(tx, charge.subscriptionId);
+      const [subscription] = await tx
+        .update(subscriptions)
+        .set({
+          status: 'active',
+          currentPeriodStart: charge.periodStart,
+          currentPeriodEnd: charge.periodEnd,
+          failedAttempts: 0,
+          nextRetryAt: null,
+          cancelledAt: null,
+          cancellationReason: null,
+          ...(verified.savedMethod ? {
+            paymentMethodToken: verified.savedMethod.token,
+            paymentCustomer: verified.savedMethod.customer ?? null,
+            paymentMethodLabel: verified.savedMethod.label ?? null,
+          } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(subscriptions.id, charge.subscriptionId))
+        .returning();
+      return { subscription, charge: settled, started: previous.status !== 'past_due' };
+    });
+  }
+
+  async getSubscriptionsDueForRenewal(now: Date, limit: number = 100): Promise<Subscription[]> {
+    return await db
+      .select()
+      .from(subscriptions)
+      .where(or(
+        and(eq(subscriptions.status, 'active'), eq(subscriptions.cancelAtPeriodEnd, false), lte(subscriptions.currentPeriodEnd, now)),
+        and(eq(subscriptions.status, 'past_due'), lte(subscriptions.nextRetryAt, now)),
+      ))
+      .orderBy(subscriptions.currentPeriodEnd)
+      .limit(limit);
+  }
+
+  // Claims the next renewal attempt under the subscription lock. The unique period/attempt index
+  // means a second sweep racing this one gets null instead of charging the period again.
+  async claimSubscriptionRenewal(subscriptionId: string, now: Date): Promise<{ subscription: Subscription; charge: SubscriptionCharge } | null> {
+    return await db.transaction(async (tx) => {
+      const subscription = await this.lockSubscription(tx, subscriptionId);
+      const periodStart = subscription.currentPeriodEnd;
+      const due = subscription.status === 'active'
+        ? !subscription.cancelAtPeriodEnd && !!periodStart && periodStart <= now
+        : subscription.status === 'past_due' && !!subscription.nextRetryAt && subscription.nextRetryAt <= now;
+      if (!due || !periodStart) {
+        return null;
+      }
+
+      // The client is paying this period by hand; leave it to that checkout
+      const [checkout] = await tx
+        .select({ id: subscriptionCharges.id })
+        .from(subscriptionCharges)
+        .where(and(
+          eq(subscriptionCharges.subscriptionId, subscriptionId),
+          eq(subscriptionCharges.kind, 'checkout'),
+          eq(subscriptionCharges.status, 'pending'),
+          eq(subscriptionCharges.periodStart, periodStart),
+          isNotNull(subscriptionCharges.reference),
+        ))
+        .limit(1);
+      if (checkout) {
+        return null;
+      }
 
-    // Log audit trail
-    await db.insert(auditLogs).values({
-      userId: "system",
-      actionType: "contact_form_submission",
-      details: JSON.stringify(data),
+      const [charge] = await tx
+        .insert(subscriptionCharges)
+        .values({
+          subscriptionId,
+          userId: subscription.userId,
+          kind: 'renewal',
+          attempt: subscription.failedAttempts + 1,
+          amount: subscription.amount,
+          currency: subscription.currency,
+          provider: subscription.provider,
+          periodStart,
+          periodEnd: addBillingInterval(periodStart, subscription.billingInterval),
+        })
+        .onConflictDoNothing()
+        .returning();
+      return charge ? { subscription, charge } : null;
+    });
+  }
+
+  // retryDays[n] is how long to wait after the (n+1)th failed attempt; once they run out the
+  // subscription is cancelled
+  async recordSubscriptionRenewal(
+    chargeId: string,
+    result: VerifiedPayment,
+    retryDays: number[],
+  ): Promise<{ subscription: Subscription; outcome: 'renewed' | 'retrying' | 'cancelled' }> {
+    return await db.transaction(async (tx) => {
+      const [charge] = await tx.select().from(subscriptionCharges).where(eq(subscriptionCharges.id, chargeId)).for('update');
+      if (!charge) {
+        throw new Error("Subscription charge not found");
+      }
+      await this.lockSubscription(tx, charge.subscriptionId);
+      const now = new Date();
+
+      if (result.status === 'success') {
+        await tx
+          .update(subscriptionCharges)
+          .set({ status: 'succeeded', reference: result.reference, paidAt: result.paidAt ?? now })
+          .where(eq(subscriptionCharges.id, chargeId));
+        const [subscription] = await tx
+          .update(subscriptions)
+          .set({
+            status: 'active',
+            currentPeriodStart: charge.periodStart,
+            currentPeriodEnd: charge.periodEnd,
+            failedAttempts: 0,
+            nextRetryAt: null,
+            updatedAt: now,
+          })
+          .where(eq(subscriptions.id, charge.subscriptionId))
+          .returning();
+        return { subscription, outcome: 'renewed' as const };
+      }
+
+      // Charges that need the customer present (e.g. an OTP) can't complete off-session
+      await tx
+        .update(subscriptionCharges)
+        .set({
+          status: 'failed',
+          reference: result.reference || null,
+          failureReason: result.failureReason ?? (result.status === 'pending' ? "Payment needs the customer to authorize it" : null),
+        })
+        .where(eq(subscriptionCharges.id, chargeId));
+
+      const exhausted = charge.attempt > retryDays.length;
+      const [subscription] = await tx
+        .update(subscriptions)
+        .set(exhausted
+          ? { status: 'cancelled', failedAttempts: charge.attempt, nextRetryAt: null, cancelledAt: now, cancellationReason: 'payment_failed', updatedAt: now }
+          : {
+            status: 'past_due',
+            failedAttempts: charge.attempt,
+            nextRetryAt: new Date(now.getTime() + retryDays[charge.attempt - 1] * 24 * 60 * 60 * 1000),
+            updatedAt: now,
+          })
+        .where(eq(subscriptions.id, charge.subscriptionId))
+        .returning();
+      return { subscription, outcome: exhausted ? 'cancelled' as const : 'retrying' as const };
+    });
+  }
+
+  async endCancelledSubscriptions(now: Date): Promise<Subscription[]> {
+    return await db
+      .update(subscriptions)
+      .set({ status: 'cancelled', cancelledAt: now, updatedAt: now })
+      .where(and(
+        eq(subscriptions.status, 'active'),
+        eq(subscriptions.cancelAtPeriodEnd, true),
+        lte(subscriptions.currentPeriodEnd, now),
+      ))
+      .returning();
+  }
+
+  // Paid-up subscriptions run to the end of the period unless cancelled immediately;
+  // unpaid ones end straight away
+  async cancelSubscription(id: string, reason: 'client' | 'admin', immediately: boolean = false): Promise<Subscription> {
+    return await db.transaction(async (tx) => {
+      const subscription = await this.lockSubscription(tx, id);
+      if (subscription.status === 'cancelled') {
+        throw new Error("This subscription has already been cancelled");
+      }
+
+      const endNow = immediately || subscription.status !== 'active';
+      const [updated] = await tx
+        .update(subscriptions)
+        .set(endNow
+          ? { status: 'cancelled', cancelledAt: new Date(), cancellationReason: reason, nextRetryAt: null, updatedAt: new Date() }
+          : { cancelAtPeriodEnd: true, cancellationReason: reason, updatedAt: new Date() })
+        .where(eq(subscriptions.id, id))
+        .returning();
+      return updated;
     });
   }
 
-  async handleQuoteRequest(data: any): Promise<void> {
-    // Store the quote request without audit log for now
-    // TODO: Create a separate quotes table for better data management
+  async resumeSubscription(id: string): Promise<Subscription> {
+    const [updated] = await db
+      .update(subscriptions)
+      .set({ cancelAtPeriodEnd: false, cancellationReason: null, updatedAt: new Date() })
+      .where(and(eq(subscriptions.id, id), eq(subscriptions.status, 'active'), eq(subscriptions.cancelAtPeriodEnd, true)))
+      .returning();
+    if (!updated) {
+      throw new Error("Only a subscription set to cancel at the end of its period can be resumed");
+    }
+    return updated;
   }
 
   // Checkout session management
@@ -1214,18 +3902,96 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async cleanupExpiredCheckoutSessions(): Promise<void> {
+  // Converted sessions are kept so recovery conversions stay reportable
+  async cleanupExpiredCheckoutSessions(expiredBefore: Date = new Date()): Promise<void> {
     try {
-      const now = new Date();
       await db
         .delete(checkoutSessions)
-        .where(lt(checkoutSessions.expiresAt, now));
+        .where(and(
+          lt(checkoutSessions.expiresAt, expiredBefore),
+          isNull(checkoutSessions.orderId),
+        ));
     } catch (error) {
       console.error('DatabaseStorage: Error cleaning up sessions:', error);
       throw error;
     }
   }
 
+  // Incomplete sessions with a known address that haven't been sent a recovery email yet. The
+  // signed-in user's address is used for sessions whose contact form had none.
+  async getCheckoutSessionsForRecovery(createdAfter: Date, createdBefore: Date, limit: number = 100) {
+    const rows = await db
+      .select({ session: checkoutSessions, userEmail: users.email, userFirstName: users.firstName })
+      .from(checkoutSessions)
+      .leftJoin(users, eq(checkoutSessions.userId, users.id))
+      .where(and(
+        eq(checkoutSessions.isCompleted, false),
+        isNull(checkoutSessions.recoveryEmailSentAt),
+        gte(checkoutSessions.createdAt, createdAfter),
+        lt(checkoutSessions.createdAt, createdBefore),
+        sql`coalesce(${checkoutSessions.contactData}->>'email', ${users.email}) is not null`,
+        // Clients who went on to order anyway don't need a nudge
+        sql`not exists (select 1 from ${orders} where ${orders.userId} = ${checkoutSessions.userId} and ${orders.createdAt} > ${checkoutSessions.createdAt})`,
+      ))
+      .orderBy(checkoutSessions.createdAt)
+      .limit(limit);
+
+    return rows.map(row => ({ ...row.session, userEmail: row.userEmail, userFirstName: row.userFirstName }));
+  }
+
+  // Returns false when another sweep already claimed the session
+  async markCheckoutRecoveryEmailSent(sessionId: string): Promise<boolean> {
+    const [marked] = await db
+      .update(checkoutSessions)
+      .set({ recoveryEmailSentAt: new Date() })
+      .where(and(eq(checkoutSessions.id, sessionId), isNull(checkoutSessions.recoveryEmailSentAt)))
+      .returning({ id: checkoutSessions.id });
+    return !!marked;
+  }
+
+  // Reopens a session from its recovery link; the first visit is the one that counts
+  async markCheckoutSessionRecovered(sessionToken: string, expiresAt: Date) {
+    const [session] = await db
+      .update(checkoutSessions)
+      .set({ expiresAt, recoveredAt: sql`coalesce(${checkoutSessions.recoveredAt}, now())` })
+      .where(and(eq(checkoutSessions.sessionToken, sessionToken), eq(checkoutSessions.isCompleted, false)))
+      .returning();
+    return session;
+  }
+
+  async completeCheckoutSession(sessionToken: string, orderId: string, userId: string): Promise<void> {
+    await db
+      .update(checkoutSessions)
+      .set({ isCompleted: true, orderId, userId: sql`coalesce(${checkoutSessions.userId}, ${userId})` })
+      .where(and(eq(checkoutSessions.sessionToken, sessionToken), eq(checkoutSessions.isCompleted, false)));
+  }
+
+  async getAbandonedCheckouts(createdBefore: Date, limit: number = 200) {
+    const rows = await db
+      .select({
+        session: checkoutSessions,
+        userEmail: users.email,
+        orderStatus: orders.status,
+        orderTotal: orders.totalPrice,
+      })
+      .from(checkoutSessions)
+      .leftJoin(users, eq(checkoutSessions.userId, users.id))
+      .leftJoin(orders, eq(checkoutSessions.orderId, orders.id))
+      .where(and(
+        lt(checkoutSessions.createdAt, createdBefore),
+        or(eq(checkoutSessions.isCompleted, false), isNotNull(checkoutSessions.recoveryEmailSentAt)),
+      ))
+      .orderBy(desc(checkoutSessions.createdAt))
+      .limit(limit);
+
+    return rows.map(row => ({
+      ...row.session,
+      userEmail: row.userEmail,
+      orderStatus: row.orderStatus,
+      orderTotal: row.orderTotal,
+    }));
+  }
+
   async getWorkloadStatus(): Promise<any> {
     try {
       const projects = await this.getAllProjects();
@@ -1261,6 +4027,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteProject(id: string): Promise<void> {
+    await db.delete(projectStages).where(eq(projectStages.projectId, id));
     await db.delete(projects).where(eq(projects.id, id));
   }
 
@@ -1325,15 +4092,16 @@ export class DatabaseStorage implements IStorage {
     return newReferral;
   }
 
-  async processReferralEarning(orderId: string): Promise<void> {
+  // Pass the caller's transaction so the commission commits or rolls back with the payment
+  async processReferralEarning(orderId: string, executor: DbExecutor = db): Promise<void> {
     // Get the order and check if it has a referral
-    const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
+    const [order] = await executor.select().from(orders).where(eq(orders.id, orderId));
     if (!order) {
       return;
     }
 
     // Get the user who made the order
-    const [orderUser] = await db.select().from(users).where(eq(users.id, order.userId));
+    const [orderUser] = await executor.select().from(users).where(eq(users.id, order.userId));
     if (!orderUser || !orderUser.referredBy) {
       return;
     }
@@ -1345,26 +4113,45 @@ export class DatabaseStorage implements IStorage {
     const commissionAmount = (orderAmount * commissionPercentage) / 100;
 
     try {
-      // Create referral record
-      await this.createReferral({
-        referrerId: orderUser.referredBy!,
-        referredUserId: orderUser.id,
-        orderId: order.id,
-        commissionAmount: commissionAmount.toFixed(2),
-        commissionPercentage: commissionPercentage.toFixed(2),
-        status: "confirmed",
-      });
+      // One commission per order, however many times payment success is reported
+      const [referral] = await executor
+        .insert(referrals)
+        .values({
+          referrerId: orderUser.referredBy,
+          referredUserId: orderUser.id,
+          orderId: order.id,
+          commissionAmount: commissionAmount.toFixed(2),
+          commissionPercentage: commissionPercentage.toFixed(2),
+          status: "confirmed",
+        })
+        .onConflictDoNothing({ target: referrals.orderId })
+        .returning({ id: referrals.id });
+      if (!referral) {
+        return;
+      }
 
-      // Update referrer's earnings
-      await db
-        .update(referralEarnings)
-        .set({
-          totalEarned: sql`${referralEarnings.totalEarned} + ${commissionAmount}`,
-          availableBalance: sql`${referralEarnings.availableBalance} + ${commissionAmount}`,
-          successfulReferrals: sql`${referralEarnings.successfulReferrals} + 1`,
-          updatedAt: new Date(),
+      // Update referrer's earnings, creating the record if needed
+      await executor
+        .insert(referralEarnings)
+        .values({
+          userId: orderUser.referredBy,
+          totalEarned: commissionAmount.toFixed(2),
+          totalWithdrawn: "0.00",
+          pendingEarnings: "0.00",
+          availableBalance: commissionAmount.toFixed(2),
+          totalReferrals: 1,
+          successfulReferrals: 1,
         })
-        .where(eq(referralEarnings.userId, orderUser.referredBy));
+        .onConflictDoUpdate({
+          target: referralEarnings.userId,
+          set: {
+            totalEarned: sql`${referralEarnings.totalEarned} + ${commissionAmount}`,
+            availableBalance: sql`${referralEarnings.availableBalance} + ${commissionAmount}`,
+            totalReferrals: sql`${referralEarnings.totalReferrals} + 1`,
+            successfulReferrals: sql`${referralEarnings.successfulReferrals} + 1`,
+            updatedAt: new Date(),
+          },
+        });
     } catch (error) {
       console.error('Referral processing failed:', error);
       throw error;
@@ -1398,8 +4185,14 @@ export class DatabaseStorage implements IStorage {
           totalReferrals: 0,
           successfulReferrals: 0,
         })
+        .onConflictDoNothing()
         .returning();
-      return newEarnings;
+      if (newEarnings) {
+        return newEarnings;
+      }
+      // A concurrent request created it first
+      const [created] = await db.select().from(referralEarnings).where(eq(referralEarnings.userId, userId));
+      return created;
     }
 
     return earnings;
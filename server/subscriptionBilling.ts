@@ -0,0 +1,290 @@
+import { storage } from "./storage";
+import { emailService } from "./email";
+import { auditLog } from "./security";
+import { notificationService } from "./notifications";
+import { getPaymentProvider, type VerifiedPayment } from "./paymentProviders";
+import { billingIntervalLabels } from "@shared/subscriptions";
+import type { Subscription, SubscriptionCharge } from "@shared/schema";
+
+export interface SubscriptionBillingSweepSummary {
+  startedAt: Date;
+  finishedAt: Date;
+  renewed: number;
+  failed: number;
+  cancelled: number; // Ended at period end or after dunning ran out
+  checkoutsSettled: number;
+  errors: number;
+}
+
+const BATCH_SIZE = 100;
+// Pending checkouts are re-verified after this long, and given up on after a day
+const CHECKOUT_SETTLE_AFTER_MS = 30 * 60 * 1000;
+const CHECKOUT_ABANDON_AFTER_MS = 24 * 60 * 60 * 1000;
+
+const positiveNumberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : fallback;
+};
+
+// Days to wait before each renewal retry, e.g. "1,3,7": three retries, then the subscription is cancelled
+const retryDaysFromEnv = (name: string, fallback: number[]) => {
+  const days = (process.env[name] || "").split(",").map(Number).filter(day => day > 0);
+  return days.length > 0 ? days : fallback;
+};
+
+const callbackBaseUrl = () => process.env.PAYMENT_CALLBACK_URL || process.env.PAYSTACK_CALLBACK_URL || 'https://disoweb.onrender.com';
+
+// Charges due subscription renewals against the saved payment method, retries failed renewals on
+// the dunning schedule and ends subscriptions that were cancelled at period end. Checkout payments
+// (first period, or paying a past-due period by hand) go through the provider's hosted page.
+export class SubscriptionBilling {
+  private static instance: SubscriptionBilling;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<SubscriptionBillingSweepSummary> | null = null;
+  lastSweep: SubscriptionBillingSweepSummary | null = null;
+
+  readonly retryDays = retryDaysFromEnv("SUBSCRIPTION_DUNNING_RETRY_DAYS", [1, 3, 7]);
+
+  static getInstance(): SubscriptionBilling {
+    if (!SubscriptionBilling.instance) {
+      SubscriptionBilling.instance = new SubscriptionBilling();
+    }
+    return SubscriptionBilling.instance;
+  }
+
+  // Returns the provider page where the client pays and saves their card for renewals
+  async startCheckout(subscriptionId: string, email: string): Promise<{ paymentUrl: string; reference: string }> {
+    const { subscription, charge } = await storage.startSubscriptionCheckout(subscriptionId);
+    const provider = getPaymentProvider(subscription.provider);
+    const service = await storage.getServiceById(subscription.serviceId);
+    const baseUrl = callbackBaseUrl();
+
+    const { reference, authorizationUrl } = await provider.initialize({
+      orderId: subscription.id,
+      userId: subscription.userId,
+      email,
+      amount: parseFloat(charge.amount),
+      currency: charge.currency,
+      description: `${service?.name ?? "Subscription"} (${billingIntervalLabels[subscription.billingInterval].toLowerCase()})`,
+      callbackUrl: `${baseUrl}/api/subscriptions/callback`,
+      cancelUrl: `${baseUrl}/dashboard#subscriptions`,
+      saveMethod: true,
+      metadata: { subscriptionId: subscription.id, subscriptionChargeId: charge.id },
+    });
+    await storage.setSubscriptionChargeReference(charge.id, reference);
+
+    return { paymentUrl: authorizationUrl, reference };
+  }
+
+  // Shared by the callback, the webhook and the sweep; safe to call more than once per payment
+  async handleCheckoutPayment(verified: VerifiedPayment): Promise<boolean> {
+    const settled = await storage.settleSubscriptionCheckout(verified);
+    if (!settled) {
+      return false;
+    }
+
+    const { subscription, charge, started } = settled;
+    auditLog('subscription_checkout_paid', subscription.userId, { subscriptionId: subscription.id, chargeId: charge.id, reference: verified.reference });
+    await this.sendReceipt(subscription, charge, verified.reference);
+    if (!started) {
+      return true;
+    }
+
+    const [user, service] = await Promise.all([
+      storage.getUser(subscription.userId),
+      storage.getServiceById(subscription.serviceId),
+    ]);
+    await notificationService.subscriptionStarted(
+      subscription.userId,
+      service?.name ?? "subscription",
+      [user?.firstName, user?.lastName].filter(Boolean).join(" ") || user?.email || "A client",
+    );
+    return true;
+  }
+
+  // Overlapping calls share the in-flight sweep
+  run(): Promise<SubscriptionBillingSweepSummary> {
+    if (!this.running) {
+      this.running = this.sweep().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async sweep(): Promise<SubscriptionBillingSweepSummary> {
+    const summary: SubscriptionBillingSweepSummary = {
+      startedAt: new Date(),
+      finishedAt: new Date(),
+      renewed: 0,
+      failed: 0,
+      cancelled: 0,
+      checkoutsSettled: 0,
+      errors: 0,
+    };
+    const now = new Date();
+
+    for (const subscription of await storage.endCancelledSubscriptions(now)) {
+      summary.cancelled++;
+      await this.sendCancellation(subscription);
+    }
+
+    for (const due of await storage.getSubscriptionsDueForRenewal(now, BATCH_SIZE)) {
+      try {
+        const claimed = await storage.claimSubscriptionRenewal(due.id, now);
+        if (!claimed) continue;
+
+        // The claimed charge has to be settled either way, or the subscription is never billed again
+        let result: VerifiedPayment;
+        try {
+          result = await this.chargeRenewal(claimed.subscription, claimed.charge);
+        } catch (error) {
+          console.error(`Renewal charge ${claimed.charge.id} could not be made:`, error);
+          result = { reference: "", status: "failed", failureReason: "The renewal charge could not be completed" };
+        }
+        const { subscription, outcome } = await storage.recordSubscriptionRenewal(claimed.charge.id, result, this.retryDays);
+        auditLog(`subscription_renewal_${outcome}`, subscription.userId, {
+          subscriptionId: subscription.id,
+          chargeId: claimed.charge.id,
+          attempt: claimed.charge.attempt,
+          reference: result.reference || undefined,
+        });
+
+        if (outcome === 'renewed') {
+          summary.renewed++;
+          await this.sendReceipt(subscription, claimed.charge, result.reference);
+        } else if (outcome === 'retrying') {
+          summary.failed++;
+          await this.sendPaymentFailed(subscription, claimed.charge, result.failureReason);
+        } else {
+          summary.failed++;
+          summary.cancelled++;
+          await this.sendCancellation(subscription);
+        }
+      } catch (error) {
+        summary.errors++;
+        console.error(`Subscription renewal failed for ${due.id}:`, error);
+      }
+    }
+
+    const pending = await storage.getPendingSubscriptionCheckouts(new Date(now.getTime() - CHECKOUT_SETTLE_AFTER_MS), BATCH_SIZE);
+    for (const charge of pending) {
+      try {
+        const verified = await getPaymentProvider(charge.provider).verify(charge.reference!);
+        if (verified.status === 'pending' && now.getTime() - charge.createdAt.getTime() > CHECKOUT_ABANDON_AFTER_MS) {
+          await storage.settleSubscriptionCheckout({ ...verified, status: 'failed', failureReason: "Checkout was not completed" });
+        } else if (await this.handleCheckoutPayment(verified)) {
+          summary.checkoutsSettled++;
+        }
+      } catch (error) {
+        summary.errors++;
+        console.error(`Subscription checkout check failed for charge ${charge.id}:`, error);
+      }
+    }
+
+    summary.finishedAt = new Date();
+    this.lastSweep = summary;
+    return summary;
+  }
+
+  // A subscription without a saved method, or on a provider that can't charge one, counts as a
+  // failed attempt so the client is asked to pay by hand and dunning still runs its course
+  private async chargeRenewal(subscription: Subscription, charge: SubscriptionCharge): Promise<VerifiedPayment> {
+    const provider = getPaymentProvider(subscription.provider);
+    const user = await storage.getUser(subscription.userId);
+    if (!subscription.paymentMethodToken || !provider.chargeSavedMethod || !user?.email) {
+      return { reference: "", status: "failed", failureReason: "No saved payment method" };
+    }
+
+    return await provider.chargeSavedMethod({
+      email: user.email,
+      amount: parseFloat(charge.amount),
+      currency: charge.currency,
+      method: {
+        token: subscription.paymentMethodToken,
+        customer: subscription.paymentCustomer ?? undefined,
+        label: subscription.paymentMethodLabel ?? undefined,
+      },
+      description: `Subscription renewal #${subscription.id.slice(0, 8)}`,
+      metadata: { subscriptionId: subscription.id, subscriptionChargeId: charge.id },
+    });
+  }
+
+  private async recipient(subscription: Subscription) {
+    const [user, service] = await Promise.all([
+      storage.getUser(subscription.userId),
+      storage.getServiceById(subscription.serviceId),
+    ]);
+    return { user, planName: service?.name ?? "subscription" };
+  }
+
+  private async sendReceipt(subscription: Subscription, charge: SubscriptionCharge, reference: string): Promise<void> {
+    try {
+      const { user, planName } = await this.recipient(subscription);
+      if (!user?.email) return;
+      await emailService.sendTemplate(user.email, 'subscription_payment_received', {
+        firstName: user.firstName,
+        planName,
+        amount: charge.amount,
+        interval: billingIntervalLabels[subscription.billingInterval],
+        reference,
+        periodEnd: charge.periodEnd,
+        paymentMethod: subscription.paymentMethodLabel,
+      });
+    } catch (error) {
+      console.error(`Subscription receipt failed for ${subscription.id}:`, error);
+    }
+  }
+
+  private async sendPaymentFailed(subscription: Subscription, charge: SubscriptionCharge, reason?: string): Promise<void> {
+    try {
+      const { user, planName } = await this.recipient(subscription);
+      await notificationService.subscriptionPaymentFailed(subscription.userId, planName);
+      if (!user?.email) return;
+      await emailService.sendTemplate(user.email, 'subscription_payment_failed', {
+        firstName: user.firstName,
+        planName,
+        amount: charge.amount,
+        reason,
+        nextRetryAt: subscription.nextRetryAt,
+      });
+    } catch (error) {
+      console.error(`Subscription payment failure notice failed for ${subscription.id}:`, error);
+    }
+  }
+
+  async sendCancellation(subscription: Subscription): Promise<void> {
+    try {
+      const { user, planName } = await this.recipient(subscription);
+      const reason = subscription.cancellationReason ?? "client";
+      await notificationService.subscriptionEnded(subscription.userId, planName, reason === "payment_failed");
+      if (!user?.email) return;
+      await emailService.sendTemplate(user.email, 'subscription_cancelled', {
+        firstName: user.firstName,
+        planName,
+        reason,
+        endedAt: subscription.cancelledAt ?? new Date(),
+      });
+    } catch (error) {
+      console.error(`Subscription cancellation notice failed for ${subscription.id}:`, error);
+    }
+  }
+
+  start(intervalMs: number = positiveNumberFromEnv("SUBSCRIPTION_RENEWAL_INTERVAL_MINUTES", 60) * 60 * 1000): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch((error) => console.error('Subscription billing sweep failed:', error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const subscriptionBilling = SubscriptionBilling.getInstance();
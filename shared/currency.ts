@@ -0,0 +1,33 @@
+// Orders are charged and reported in the settlement currency. Service prices may be set in
+// another base currency and visitors may browse in any currency that has an exchange rate;
+// both are converted through the rates table, which stores settlement units per unit.
+export const SETTLEMENT_CURRENCY = "NGN";
+
+export const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+export interface CurrencyRate {
+  currency: string;
+  rate: number; // Settlement units per one unit of the currency
+}
+
+export const normalizeCurrencyCode = (code: string) => code.trim().toUpperCase();
+
+// Converts between two currencies given each one's rate into the settlement currency
+export const convertAmount = (amount: number, fromRate: number, toRate: number) =>
+  toRate > 0 ? (amount * fromRate) / toRate : amount;
+
+export function formatMoney(amount: number, currency: string, options: { decimals?: number } = {}): string {
+  const decimals = options.decimals ?? (currency === SETTLEMENT_CURRENCY ? 0 : 2);
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      currencyDisplay: "narrowSymbol",
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(amount);
+  } catch {
+    // Unknown ISO code; fall back to the code itself
+    return `${currency} ${amount.toLocaleString("en-US", { maximumFractionDigits: decimals })}`;
+  }
+}
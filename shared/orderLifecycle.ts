@@ -0,0 +1,47 @@
+// Order lifecycle shared by the server (which enforces it) and the admin UI (which only offers
+// the moves it allows). Orders start pending, become paid when their first payment lands, and
+// are worked on until complete. Orders paid by bank transfer wait in awaiting_confirmation from
+// the proof upload until an admin confirms the money arrived. Cancelled orders can be reopened.
+
+export const ORDER_STATUSES = ["pending", "awaiting_confirmation", "paid", "in_progress", "complete", "cancelled"] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// Who or what moved the order, for the status history
+export type OrderStatusSource = "checkout" | "admin" | "client" | "payment" | "reconciler" | "refund";
+
+const transitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["awaiting_confirmation", "paid", "cancelled"],
+  awaiting_confirmation: ["paid", "pending", "cancelled"], // Confirmed, or the proof was rejected
+  paid: ["in_progress", "complete", "cancelled"],
+  in_progress: ["complete", "cancelled"],
+  complete: ["in_progress", "cancelled"], // Reopened for follow-up work, or fully refunded
+  cancelled: ["pending", "paid"], // Reopened for payment, or paid outside the checkout
+};
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  pending: "Pending payment",
+  awaiting_confirmation: "Awaiting payment confirmation",
+  paid: "Paid",
+  in_progress: "In progress",
+  complete: "Complete",
+  cancelled: "Cancelled",
+};
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === "string" && (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function allowedOrderTransitions(from: OrderStatus | null | undefined): OrderStatus[] {
+  return transitions[from ?? "pending"];
+}
+
+export function canTransitionOrder(from: OrderStatus | null | undefined, to: OrderStatus): boolean {
+  return allowedOrderTransitions(from).includes(to);
+}
+
+export function assertOrderTransition(from: OrderStatus | null | undefined, to: OrderStatus): void {
+  if (!canTransitionOrder(from, to)) {
+    throw new Error(`Cannot change order from ${orderStatusLabels[from ?? "pending"]} to ${orderStatusLabels[to]}`);
+  }
+}
@@ -0,0 +1,60 @@
+// Custom quote requests shared by the quote form, the admin inbox and the client dashboard.
+// A request arrives as new, is reviewed, and gets a priced proposal that the client either
+// accepts (creating an order at that price) or declines.
+
+export const QUOTE_STATUSES = ["new", "reviewing", "proposed", "accepted", "declined"] as const;
+
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number];
+
+export const quoteStatusLabels: Record<QuoteStatus, string> = {
+  new: "New",
+  reviewing: "Reviewing",
+  proposed: "Proposal sent",
+  accepted: "Accepted",
+  declined: "Declined",
+};
+
+// Statuses an admin can set directly; proposals and acceptance have their own actions
+export const adminQuoteTransitions: Record<QuoteStatus, QuoteStatus[]> = {
+  new: ["reviewing", "declined"],
+  reviewing: ["declined"],
+  proposed: ["reviewing", "declined"], // Withdraw the proposal to revise it
+  accepted: [],
+  declined: ["reviewing"],
+};
+
+export interface QuoteOption {
+  value: string;
+  label: string;
+}
+
+export const projectTypes: QuoteOption[] = [
+  { value: "website", label: "Business Website" },
+  { value: "ecommerce", label: "E-commerce Platform" },
+  { value: "webapp", label: "Web Application" },
+  { value: "redesign", label: "Website Redesign" },
+  { value: "mobile", label: "Mobile App" },
+  { value: "other", label: "Other" },
+];
+
+export const budgetRanges: QuoteOption[] = [
+  { value: "5k-10k", label: "$5,000 - $10,000" },
+  { value: "10k-25k", label: "$10,000 - $25,000" },
+  { value: "25k-50k", label: "$25,000 - $50,000" },
+  { value: "50k+", label: "$50,000+" },
+];
+
+export const timelines: QuoteOption[] = [
+  { value: "asap", label: "ASAP (Rush project)" },
+  { value: "1-2months", label: "1-2 months" },
+  { value: "3-4months", label: "3-4 months" },
+  { value: "6months+", label: "6+ months" },
+];
+
+export function isQuoteStatus(value: unknown): value is QuoteStatus {
+  return typeof value === "string" && (QUOTE_STATUSES as readonly string[]).includes(value);
+}
+
+export function quoteOptionLabel(options: QuoteOption[], value: string | null | undefined): string {
+  return options.find(option => option.value === value)?.label ?? value ?? "";
+}
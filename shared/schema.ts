@@ -5,6 +5,7 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   uuid,
   decimal,
   boolean,
@@ -14,13 +15,13 @@ import {
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import crypto from "crypto";
 
 // Define enums first
 export const userRoleEnum = pgEnum("user_role", ["client", "admin", "pm"]);
 export const serviceCategoryEnum = pgEnum("service_category", ["launch", "growth", "elite", "custom"]);
-export const orderStatusEnum = pgEnum("order_status", ["pending", "paid", "in_progress", "complete", "cancelled"]);
+export const orderStatusEnum = pgEnum("order_status", ["pending", "awaiting_confirmation", "paid", "in_progress", "complete", "cancelled"]);
 export const projectStatusEnum = pgEnum("project_status", ["not_started", "active", "paused", "completed"]);
 export const paymentStatusEnum = pgEnum("payment_status", ["pending", "succeeded", "failed", "refunded"]);
 export const supportStatusEnum = pgEnum("support_status", ["open", "in_progress", "resolved"]);
@@ -28,6 +29,18 @@ export const withdrawalStatusEnum = pgEnum("withdrawal_status", ["pending", "app
 export const referralStatusEnum = pgEnum("referral_status", ["pending", "confirmed", "paid"]);
 export const seoContentTypeEnum = pgEnum("seo_content_type", ["page", "service", "project", "blog"]);
 export const seoRuleTypeEnum = pgEnum("seo_rule_type", ["meta", "schema", "content", "technical"]);
+export const emailStatusEnum = pgEnum("email_status", ["pending", "sent", "failed"]);
+export const refundStatusEnum = pgEnum("refund_status", ["pending", "succeeded", "failed"]);
+export const installmentStatusEnum = pgEnum("installment_status", ["locked", "due", "paid"]);
+export const invoiceKindEnum = pgEnum("invoice_kind", ["invoice", "receipt"]);
+export const couponTypeEnum = pgEnum("coupon_type", ["percentage", "fixed"]);
+export const orderLineItemKindEnum = pgEnum("order_line_item_kind", ["service", "add_on", "discount"]);
+export const quoteStatusEnum = pgEnum("quote_status", ["new", "reviewing", "proposed", "accepted", "declined"]);
+export const contactStatusEnum = pgEnum("contact_status", ["new", "read", "replied", "archived"]);
+export const quarantineStatusEnum = pgEnum("quarantine_status", ["pending", "released", "discarded"]);
+export const billingIntervalEnum = pgEnum("billing_interval", ["monthly", "quarterly", "yearly"]);
+export const subscriptionStatusEnum = pgEnum("subscription_status", ["incomplete", "active", "past_due", "cancelled"]);
+export const paymentProofStatusEnum = pgEnum("payment_proof_status", ["pending", "confirmed", "rejected"]);
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -78,7 +91,7 @@ export const services = pgTable("services", {
   id: varchar("id").primaryKey(),
   name: varchar("name").notNull(),
   description: text("description").notNull(),
-  priceUsd: varchar("price_usd").notNull(), // Price as string for easier handling
+  priceUsd: varchar("price_usd").notNull(), // Price as string for easier handling, in the service's currency
   originalPriceUsd: varchar("original_price_usd"),
   duration: varchar("duration").notNull(), // e.g., "2-3 weeks"
   spotsRemaining: integer("spots_remaining").notNull(),
@@ -89,10 +102,21 @@ export const services = pgTable("services", {
   category: serviceCategoryEnum("category").notNull(),
   industry: text("industry").notNull(), // JSON string of industries
   isActive: boolean("is_active").default(true),
+  currency: varchar("currency", { length: 3 }).default("NGN").notNull(), // Base currency of the prices above
+  billingInterval: billingIntervalEnum("billing_interval"), // Set for recurring plans (shared/subscriptions.ts); null for one-off builds
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Admin-maintained conversion rates into the settlement currency (see shared/currency.ts).
+// The settlement currency itself has no row; its rate is always 1.
+export const exchangeRates = pgTable("exchange_rates", {
+  currency: varchar("currency", { length: 3 }).primaryKey(),
+  rate: decimal("rate", { precision: 18, scale: 6 }).notNull(), // Settlement units per one unit of this currency
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const orders = pgTable("orders", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: varchar("user_id").references(() => users.id).notNull(),
@@ -101,9 +125,70 @@ export const orders = pgTable("orders", {
   totalPrice: varchar("total_price").notNull(), // Changed to varchar for easier handling
   status: orderStatusEnum("status").default("pending"),
   paymentId: uuid("payment_id"),
+  paymentSchedule: varchar("payment_schedule").default("full").notNull(), // See server/paymentSchedules.ts
+  couponId: uuid("coupon_id").references(() => coupons.id),
+  currency: varchar("currency", { length: 3 }).default("NGN").notNull(), // Currency of totalPrice and the line items
+  displayCurrency: varchar("display_currency", { length: 3 }).default("NGN").notNull(), // Currency the client was shown
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 6 }).default("1").notNull(), // Settlement units per display unit at order time
+  spotStatus: varchar("spot_status", { length: 10 }), // Service capacity held by the order: reserved | consumed | released
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Discount codes applied at checkout. A code may be scoped to a single service or to every
+// service in a category; redemptions are the non-cancelled orders that carry the coupon.
+export const coupons = pgTable("coupons", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  code: varchar("code").notNull(), // Stored upper-case
+  description: text("description"),
+  type: couponTypeEnum("type").notNull(),
+  value: decimal("value", { precision: 12, scale: 2 }).notNull(), // Percent off, or naira off for fixed codes
+  serviceId: varchar("service_id").references(() => services.id),
+  category: serviceCategoryEnum("category"),
+  startsAt: timestamp("starts_at"),
+  expiresAt: timestamp("expires_at"),
+  maxRedemptions: integer("max_redemptions"),
+  perUserLimit: integer("per_user_limit"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("coupons_code_idx").on(table.code),
+]);
+
+// Server-computed price breakdown of an order; the amounts always sum to orders.totalPrice.
+// Discounts are stored as negative amounts.
+export const orderLineItems = pgTable("order_line_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  sequence: integer("sequence").notNull(),
+  kind: orderLineItemKindEnum("kind").notNull(),
+  description: varchar("description").notNull(),
+  quantity: integer("quantity").default(1).notNull(),
+  unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+}, (table) => [
+  uniqueIndex("order_line_items_order_sequence_idx").on(table.orderId, table.sequence),
+]);
+
+// One row per scheduled payment on an order. The deposit is due at checkout; later
+// installments unlock when the project's stage progress reaches unlockAtProgress.
+export const orderInstallments = pgTable("order_installments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id").references(() => orders.id, { onDelete: "cascade" }).notNull(),
+  sequence: integer("sequence").notNull(),
+  label: varchar("label").notNull(),
+  percentage: integer("percentage").notNull(),
+  amount: decimal("amount").notNull(),
+  unlockAtProgress: integer("unlock_at_progress").default(0).notNull(),
+  status: installmentStatusEnum("status").default("locked").notNull(),
+  dueAt: timestamp("due_at"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("order_installments_order_sequence_idx").on(table.orderId, table.sequence),
+]);
+
 export const projects = pgTable("projects", {
   id: uuid("id").primaryKey().defaultRandom(),
   orderId: uuid("order_id").references(() => orders.id).notNull(),
@@ -118,7 +203,9 @@ export const projects = pgTable("projects", {
   timelineDays: integer("timeline_days"), // Total days for the project
   progressPercentage: integer("progress_percentage").default(0),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("projects_order_id_idx").on(table.orderId), // One project per order
+]);
 
 export const projectStages = pgTable("project_stages", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -127,6 +214,7 @@ export const projectStages = pgTable("project_stages", {
   description: text("description"),
   orderIndex: integer("order_index").notNull(),
   isComplete: boolean("is_complete").default(false),
+  completedAt: timestamp("completed_at"),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -137,7 +225,29 @@ export const messages = pgTable("messages", {
   content: text("content").notNull(),
   sentAt: timestamp("sent_at").defaultNow(),
   isAdmin: boolean("is_admin").default(false),
-});
+}, (table) => [
+  index("messages_project_sent_at_idx").on(table.projectId, table.sentAt),
+]);
+
+// Project files attached to a chat message
+export const messageAttachments = pgTable("message_attachments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  messageId: uuid("message_id").references(() => messages.id, { onDelete: "cascade" }).notNull(),
+  fileId: uuid("file_id").references(() => files.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("message_attachments_message_id_idx").on(table.messageId),
+]);
+
+// One row per recipient once they have seen the message
+export const messageReads = pgTable("message_reads", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  messageId: uuid("message_id").references(() => messages.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  readAt: timestamp("read_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("message_reads_message_user_idx").on(table.messageId, table.userId),
+]);
 
 export const payments = pgTable("payments", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -145,28 +255,227 @@ export const payments = pgTable("payments", {
   orderId: uuid("order_id").references(() => orders.id).notNull(),
   amount: decimal("amount").notNull(),
   currency: varchar("currency").default("USD"),
+  displayCurrency: varchar("display_currency", { length: 3 }).default("NGN").notNull(),
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 6 }).default("1").notNull(), // Settlement units per display unit when charged
   provider: varchar("provider").notNull(),
   providerId: varchar("provider_id").notNull(),
+  installmentId: uuid("installment_id").references(() => orderInstallments.id),
   status: paymentStatusEnum("status").notNull(),
   paidAt: timestamp("paid_at"),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("payments_status_created_at_idx").on(table.status, table.createdAt),
+]);
+
+// Full or partial reversals of a payment; the payment flips to "refunded" once fully reversed
+export const refunds = pgTable("refunds", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  paymentId: uuid("payment_id").references(() => payments.id).notNull(),
+  orderId: uuid("order_id").references(() => orders.id).notNull(),
+  amount: decimal("amount").notNull(),
+  reason: text("reason"),
+  provider: varchar("provider").notNull(),
+  providerRefundId: varchar("provider_refund_id"),
+  status: refundStatusEnum("status").default("pending").notNull(),
+  commissionClawback: decimal("commission_clawback", { precision: 10, scale: 2 }).default("0.00"),
+  requestedBy: varchar("requested_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  processedAt: timestamp("processed_at"),
+}, (table) => [
+  index("refunds_payment_id_idx").on(table.paymentId),
+]);
+
+// Ledger of provider payment references that have already been applied to an order.
+// Claimed inside the success transaction so webhook and callback deliveries can't double-process.
+export const processedPaymentEvents = pgTable("processed_payment_events", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  provider: varchar("provider").notNull(),
+  reference: varchar("reference").notNull(),
+  orderId: uuid("order_id").references(() => orders.id).notNull(),
+  processedAt: timestamp("processed_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("processed_payment_events_provider_reference_idx").on(table.provider, table.reference),
+]);
+
+// Proof of payment uploaded by the client for a bank transfer. The payment stays pending until
+// an admin confirms a proof; a rejected proof sends the order back to pending so the client can
+// upload another.
+export const paymentProofs = pgTable("payment_proofs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  paymentId: uuid("payment_id").references(() => payments.id).notNull(),
+  orderId: uuid("order_id").references(() => orders.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  fileUrl: text("file_url").notNull(), // Storage location, see server/fileStorage.ts
+  filename: varchar("filename").notNull(),
+  mimeType: varchar("mime_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  senderName: varchar("sender_name"), // Name on the sending account, to match the bank statement
+  note: text("note"),
+  status: paymentProofStatusEnum("status").default("pending").notNull(),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  rejectionReason: text("rejection_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("payment_proofs_status_created_at_idx").on(table.status, table.createdAt),
+  index("payment_proofs_payment_id_idx").on(table.paymentId),
+]);
+
+// Recurring plans (services with a billing interval). The amount is fixed in the settlement
+// currency when the client subscribes. paymentMethodToken is the provider's reusable
+// authorization from the last checkout payment and is what renewals are charged against.
+export const subscriptions = pgTable("subscriptions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  serviceId: varchar("service_id").references(() => services.id).notNull(),
+  status: subscriptionStatusEnum("status").default("incomplete").notNull(),
+  billingInterval: billingIntervalEnum("billing_interval").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).default("NGN").notNull(),
+  provider: varchar("provider").notNull(),
+  paymentMethodToken: text("payment_method_token"),
+  paymentCustomer: varchar("payment_customer"), // Provider customer the token belongs to, where the provider needs one
+  paymentMethodLabel: varchar("payment_method_label"), // e.g. "Visa •••• 4242"
+  currentPeriodStart: timestamp("current_period_start"),
+  currentPeriodEnd: timestamp("current_period_end"), // Renewal is charged once this passes
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").default(false).notNull(),
+  failedAttempts: integer("failed_attempts").default(0).notNull(), // Renewal attempts since the last success
+  nextRetryAt: timestamp("next_retry_at"), // Next dunning retry while past due
+  cancelledAt: timestamp("cancelled_at"),
+  cancellationReason: varchar("cancellation_reason"), // client, admin or payment_failed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("subscriptions_status_period_end_idx").on(table.status, table.currentPeriodEnd),
+  index("subscriptions_user_id_idx").on(table.userId),
+]);
+
+// Every attempt to collect a subscription period: checkout payments (first period, or paying a
+// past-due period by hand) and off-session renewal charges. At most one row per period and
+// attempt, so concurrent renewal sweeps can't charge the same period twice.
+export const subscriptionCharges = pgTable("subscription_charges", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  subscriptionId: uuid("subscription_id").references(() => subscriptions.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  kind: varchar("kind").notNull(), // checkout or renewal
+  attempt: integer("attempt").default(1).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).default("NGN").notNull(),
+  provider: varchar("provider").notNull(),
+  reference: varchar("reference"), // Provider reference, once the provider has been called
+  status: paymentStatusEnum("status").default("pending").notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  failureReason: text("failure_reason"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("subscription_charges_period_attempt_idx").on(table.subscriptionId, table.kind, table.periodStart, table.attempt),
+  uniqueIndex("subscription_charges_reference_idx").on(table.reference),
+]);
+
+// Problems the payment reconciler found but could not settle on its own, for admin review.
+// One row per payment and kind, so repeated runs don't pile up duplicates.
+export const paymentReconciliationIssues = pgTable("payment_reconciliation_issues", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  paymentId: uuid("payment_id").references(() => payments.id).notNull(),
+  orderId: uuid("order_id").references(() => orders.id).notNull(),
+  provider: varchar("provider").notNull(),
+  reference: varchar("reference").notNull(),
+  kind: varchar("kind").notNull(), // See ReconciliationIssueKind in server/paymentReconciler.ts
+  expectedAmount: decimal("expected_amount", { precision: 12, scale: 2 }),
+  actualAmount: decimal("actual_amount", { precision: 12, scale: 2 }),
+  details: text("details"),
+  detectedAt: timestamp("detected_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolutionNote: text("resolution_note"),
+}, (table) => [
+  uniqueIndex("payment_reconciliation_issues_payment_kind_idx").on(table.paymentId, table.kind),
+]);
+
+// Every order status change, in order. fromStatus is null for the row written when the order
+// is placed; changedBy is null for automatic changes (payments, expiry, refunds).
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id").references(() => orders.id).notNull(),
+  fromStatus: orderStatusEnum("from_status"),
+  toStatus: orderStatusEnum("to_status").notNull(),
+  source: varchar("source").notNull(), // See OrderStatusSource in shared/orderLifecycle.ts
+  changedBy: varchar("changed_by").references(() => users.id),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("order_status_history_order_created_at_idx").on(table.orderId, table.createdAt),
+]);
+
+// Gap-free counters for invoice and receipt numbers. The row is incremented inside the
+// transaction that issues the document, so a rolled-back issue never burns a number.
+export const invoiceSequences = pgTable("invoice_sequences", {
+  kind: invoiceKindEnum("kind").primaryKey(),
+  lastNumber: integer("last_number").default(0).notNull(),
 });
 
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: string;
+  amount: string;
+}
+
+export interface InvoiceParty {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  company?: string | null;
+  taxId?: string | null;
+}
+
+// Issued invoices (one per order) and receipts (one per successful payment). Seller and
+// buyer details are snapshotted at issue time so a document re-renders exactly as issued.
+export const invoices = pgTable("invoices", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  number: varchar("number").notNull(),
+  kind: invoiceKindEnum("kind").notNull(),
+  orderId: uuid("order_id").references(() => orders.id).notNull(),
+  paymentId: uuid("payment_id").references(() => payments.id),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  currency: varchar("currency").default("NGN").notNull(),
+  lineItems: jsonb("line_items").$type<InvoiceLineItem[]>().notNull(),
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull(),
+  vatRate: decimal("vat_rate", { precision: 5, scale: 2 }).default("0.00").notNull(),
+  vatAmount: decimal("vat_amount", { precision: 12, scale: 2 }).default("0.00").notNull(),
+  total: decimal("total", { precision: 12, scale: 2 }).notNull(),
+  seller: jsonb("seller").$type<InvoiceParty>().notNull(),
+  billTo: jsonb("bill_to").$type<InvoiceParty>().notNull(),
+  issuedAt: timestamp("issued_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("invoices_number_idx").on(table.number),
+  uniqueIndex("invoices_order_invoice_idx").on(table.orderId).where(sql`${table.kind} = 'invoice'`),
+  uniqueIndex("invoices_payment_idx").on(table.paymentId),
+]);
+
 export const files = pgTable("files", {
   id: uuid("id").primaryKey().defaultRandom(),
   projectId: uuid("project_id").references(() => projects.id).notNull(),
   uploadedBy: varchar("uploaded_by").references(() => users.id).notNull(),
-  fileUrl: text("file_url").notNull(),
+  fileUrl: text("file_url").notNull(), // Storage driver key, e.g. "local://<projectId>/<id>"
   filename: varchar("filename").notNull(),
+  mimeType: varchar("mime_type"),
+  sizeBytes: integer("size_bytes"),
   uploadedAt: timestamp("uploaded_at").defaultNow(),
 });
 
 export const notifications = pgTable("notifications", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: varchar("user_id").references(() => users.id).notNull(),
-  type: varchar("type").notNull(),
+  type: varchar("type").notNull(), // order_status, new_message, withdrawal, payment_success, payment_refund, installment_due, project_status
+  title: varchar("title"),
   content: text("content").notNull(),
+  link: varchar("link"), // In-app path to open when the notification is clicked
   isRead: boolean("is_read").default(false),
+  readAt: timestamp("read_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -182,11 +491,115 @@ export const supportRequests = pgTable("support_requests", {
 
 export const auditLogs = pgTable("audit_logs", {
   id: uuid("id").primaryKey().defaultRandom(),
-  userId: varchar("user_id").references(() => users.id).notNull(),
+  userId: varchar("user_id"), // Actor; null for anonymous/system events. No FK so logs outlive users
   actionType: varchar("action_type").notNull(),
-  details: text("details"),
+  ipAddress: varchar("ip_address"),
+  details: jsonb("details"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("audit_logs_action_type_idx").on(table.actionType),
+  index("audit_logs_user_id_idx").on(table.userId),
+  index("audit_logs_created_at_idx").on(table.createdAt),
+]);
+
+// Outgoing email queue - every message is recorded here and retried with backoff until sent
+export const emailOutbox = pgTable("email_outbox", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  toAddress: varchar("to_address").notNull(),
+  subject: varchar("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text"),
+  status: emailStatusEnum("status").default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  transport: varchar("transport"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("email_outbox_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+]);
+
+// Custom quote requests from the services page (see shared/quotes.ts). Guests can submit one;
+// it is matched to an account by email when the client signs in to accept the proposal.
+export const quotes = pgTable("quotes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: varchar("user_id").references(() => users.id),
+  fullName: varchar("full_name").notNull(),
+  email: varchar("email").notNull(),
+  phone: varchar("phone"),
+  company: varchar("company"),
+  projectType: varchar("project_type").notNull(),
+  budgetRange: varchar("budget_range").notNull(),
+  timeline: varchar("timeline").notNull(),
+  description: text("description").notNull(),
+  features: jsonb("features").$type<string[]>().default([]).notNull(),
+  preferredStartDate: varchar("preferred_start_date"),
+  status: quoteStatusEnum("status").default("new").notNull(),
+  adminNotes: text("admin_notes"), // Internal only, never shown to the client
+  proposedPrice: decimal("proposed_price", { precision: 12, scale: 2 }), // Settlement currency
+  proposedPaymentSchedule: varchar("proposed_payment_schedule"), // See server/paymentSchedules.ts
+  proposedDeliveryTime: varchar("proposed_delivery_time"),
+  proposalNotes: text("proposal_notes"),
+  proposedBy: varchar("proposed_by").references(() => users.id),
+  proposedAt: timestamp("proposed_at"),
+  respondedAt: timestamp("responded_at"), // Client accepted or declined the proposal
+  orderId: uuid("order_id").references(() => orders.id), // Order created on acceptance
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("quotes_status_created_at_idx").on(table.status, table.createdAt),
+  index("quotes_email_idx").on(table.email),
+]);
+
+// Messages from the public contact form. userId links the sender's account when one exists
+// for the email; quoteId is set once an admin turns the message into a quote request.
+export const contactSubmissions = pgTable("contact_submissions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: varchar("user_id").references(() => users.id),
+  name: varchar("name").notNull(),
+  email: varchar("email").notNull(),
+  subject: varchar("subject").notNull(),
+  message: text("message").notNull(),
+  status: contactStatusEnum("status").default("new").notNull(),
+  readAt: timestamp("read_at"),
+  repliedAt: timestamp("replied_at"),
+  quoteId: uuid("quote_id").references(() => quotes.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("contact_submissions_status_created_at_idx").on(table.status, table.createdAt),
+  index("contact_submissions_email_idx").on(table.email),
+]);
+
+// Replies emailed to a contact form sender from the admin inbox
+export const contactReplies = pgTable("contact_replies", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  submissionId: uuid("submission_id").references(() => contactSubmissions.id, { onDelete: "cascade" }).notNull(),
+  body: text("body").notNull(),
+  sentBy: varchar("sent_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("contact_replies_submission_idx").on(table.submissionId),
+]);
+
+// Public form submissions held back by the anti-abuse checks (server/antiAbuse.ts). Releasing
+// one runs it through the normal handler; discarded ones are kept for reference.
+export const quarantinedSubmissions = pgTable("quarantined_submissions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  form: varchar("form").notNull(), // See QuarantineForm in server/antiAbuse.ts
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  reasons: jsonb("reasons").$type<string[]>().notNull(),
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+  userId: varchar("user_id").references(() => users.id),
+  status: quarantineStatusEnum("status").default("pending").notNull(),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("quarantined_submissions_status_created_at_idx").on(table.status, table.createdAt),
+]);
 
 // Checkout sessions table for reliable data persistence
 export const checkoutSessions = pgTable("checkout_sessions", {
@@ -199,9 +612,14 @@ export const checkoutSessions = pgTable("checkout_sessions", {
   totalPrice: integer("total_price").notNull(),
   userId: varchar("user_id"), // Optional - set after authentication
   isCompleted: boolean("is_completed").default(false),
+  orderId: uuid("order_id").references(() => orders.id), // Order the session converted into
+  recoveryEmailSentAt: timestamp("recovery_email_sent_at"), // Resume-checkout email sent after abandonment
+  recoveredAt: timestamp("recovered_at"), // Resume link from the recovery email was opened
   createdAt: timestamp("created_at").defaultNow(),
   expiresAt: timestamp("expires_at").notNull(), // Auto-expire after 2 hours
-});
+}, (table) => [
+  index("checkout_sessions_completed_created_at_idx").on(table.isCompleted, table.createdAt),
+]);
 
 // Referral system tables
 export const referralSettings = pgTable("referral_settings", {
@@ -224,7 +642,9 @@ export const referrals = pgTable("referrals", {
   status: referralStatusEnum("status").default("pending"),
   paidAt: timestamp("paid_at"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("referrals_order_id_idx").on(table.orderId), // One commission per order
+]);
 
 export const withdrawalRequests = pgTable("withdrawal_requests", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -249,7 +669,9 @@ export const referralEarnings = pgTable("referral_earnings", {
   totalReferrals: integer("total_referrals").default(0),
   successfulReferrals: integer("successful_referrals").default(0),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("referral_earnings_user_id_idx").on(table.userId), // Commission credits upsert on it
+]);
 
 // SEO Management Tables
 export const seoSettings = pgTable("seo_settings", {
@@ -394,8 +816,12 @@ export const servicesRelations = relations(services, ({ many }) => ({
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   user: one(users, { fields: [orders.userId], references: [users.id] }),
   service: one(services, { fields: [orders.serviceId], references: [services.id] }),
+  coupon: one(coupons, { fields: [orders.couponId], references: [coupons.id] }),
   projects: many(projects),
   payments: many(payments),
+  installments: many(orderInstallments),
+  lineItems: many(orderLineItems),
+  statusHistory: many(orderStatusHistory),
 }));
 
 export const projectsRelations = relations(projects, ({ one, many }) => ({
@@ -410,14 +836,69 @@ export const projectStagesRelations = relations(projectStages, ({ one }) => ({
   project: one(projects, { fields: [projectStages.projectId], references: [projects.id] }),
 }));
 
-export const messagesRelations = relations(messages, ({ one }) => ({
+export const messagesRelations = relations(messages, ({ one, many }) => ({
   project: one(projects, { fields: [messages.projectId], references: [projects.id] }),
   sender: one(users, { fields: [messages.senderId], references: [users.id] }),
+  attachments: many(messageAttachments),
+  reads: many(messageReads),
+}));
+
+export const messageAttachmentsRelations = relations(messageAttachments, ({ one }) => ({
+  message: one(messages, { fields: [messageAttachments.messageId], references: [messages.id] }),
+  file: one(files, { fields: [messageAttachments.fileId], references: [files.id] }),
 }));
 
-export const paymentsRelations = relations(payments, ({ one }) => ({
+export const messageReadsRelations = relations(messageReads, ({ one }) => ({
+  message: one(messages, { fields: [messageReads.messageId], references: [messages.id] }),
+  user: one(users, { fields: [messageReads.userId], references: [users.id] }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one, many }) => ({
   user: one(users, { fields: [payments.userId], references: [users.id] }),
   order: one(orders, { fields: [payments.orderId], references: [orders.id] }),
+  installment: one(orderInstallments, { fields: [payments.installmentId], references: [orderInstallments.id] }),
+  refunds: many(refunds),
+}));
+
+export const exchangeRatesRelations = relations(exchangeRates, ({ one }) => ({
+  updatedBy: one(users, { fields: [exchangeRates.updatedBy], references: [users.id] }),
+}));
+
+export const couponsRelations = relations(coupons, ({ one, many }) => ({
+  service: one(services, { fields: [coupons.serviceId], references: [services.id] }),
+  createdBy: one(users, { fields: [coupons.createdBy], references: [users.id] }),
+  orders: many(orders),
+}));
+
+export const orderLineItemsRelations = relations(orderLineItems, ({ one }) => ({
+  order: one(orders, { fields: [orderLineItems.orderId], references: [orders.id] }),
+}));
+
+export const orderInstallmentsRelations = relations(orderInstallments, ({ one }) => ({
+  order: one(orders, { fields: [orderInstallments.orderId], references: [orders.id] }),
+}));
+
+export const invoicesRelations = relations(invoices, ({ one }) => ({
+  order: one(orders, { fields: [invoices.orderId], references: [orders.id] }),
+  payment: one(payments, { fields: [invoices.paymentId], references: [payments.id] }),
+  user: one(users, { fields: [invoices.userId], references: [users.id] }),
+}));
+
+export const paymentReconciliationIssuesRelations = relations(paymentReconciliationIssues, ({ one }) => ({
+  payment: one(payments, { fields: [paymentReconciliationIssues.paymentId], references: [payments.id] }),
+  order: one(orders, { fields: [paymentReconciliationIssues.orderId], references: [orders.id] }),
+  resolvedBy: one(users, { fields: [paymentReconciliationIssues.resolvedBy], references: [users.id] }),
+}));
+
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
+  order: one(orders, { fields: [orderStatusHistory.orderId], references: [orders.id] }),
+  changedBy: one(users, { fields: [orderStatusHistory.changedBy], references: [users.id] }),
+}));
+
+export const refundsRelations = relations(refunds, ({ one }) => ({
+  payment: one(payments, { fields: [refunds.paymentId], references: [payments.id] }),
+  order: one(orders, { fields: [refunds.orderId], references: [orders.id] }),
+  requestedBy: one(users, { fields: [refunds.requestedBy], references: [users.id] }),
 }));
 
 export const filesRelations = relations(files, ({ one }) => ({
@@ -438,8 +919,41 @@ export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   user: one(users, { fields: [auditLogs.userId], references: [users.id] }),
 }));
 
+export const paymentProofsRelations = relations(paymentProofs, ({ one }) => ({
+  payment: one(payments, { fields: [paymentProofs.paymentId], references: [payments.id] }),
+  order: one(orders, { fields: [paymentProofs.orderId], references: [orders.id] }),
+  user: one(users, { fields: [paymentProofs.userId], references: [users.id] }),
+}));
+
+export const subscriptionsRelations = relations(subscriptions, ({ one, many }) => ({
+  user: one(users, { fields: [subscriptions.userId], references: [users.id] }),
+  service: one(services, { fields: [subscriptions.serviceId], references: [services.id] }),
+  charges: many(subscriptionCharges),
+}));
+
+export const subscriptionChargesRelations = relations(subscriptionCharges, ({ one }) => ({
+  subscription: one(subscriptions, { fields: [subscriptionCharges.subscriptionId], references: [subscriptions.id] }),
+}));
+
+export const quotesRelations = relations(quotes, ({ one }) => ({
+  user: one(users, { fields: [quotes.userId], references: [users.id] }),
+  order: one(orders, { fields: [quotes.orderId], references: [orders.id] }),
+}));
+
+export const contactSubmissionsRelations = relations(contactSubmissions, ({ one, many }) => ({
+  user: one(users, { fields: [contactSubmissions.userId], references: [users.id] }),
+  quote: one(quotes, { fields: [contactSubmissions.quoteId], references: [quotes.id] }),
+  replies: many(contactReplies),
+}));
+
+export const contactRepliesRelations = relations(contactReplies, ({ one }) => ({
+  submission: one(contactSubmissions, { fields: [contactReplies.submissionId], references: [contactSubmissions.id] }),
+  sender: one(users, { fields: [contactReplies.sentBy], references: [users.id] }),
+}));
+
 export const checkoutSessionsRelations = relations(checkoutSessions, ({ one }) => ({
   service: one(services, { fields: [checkoutSessions.serviceId], references: [services.id] }),
+  order: one(orders, { fields: [checkoutSessions.orderId], references: [orders.id] }),
 }));
 
 export const referralsRelations = relations(referrals, ({ one }) => ({
@@ -478,11 +992,24 @@ export const insertOrderSchema = createInsertSchema(orders).omit({
   createdAt: true,
 });
 
+export const insertCouponSchema = createInsertSchema(coupons).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertProjectStageSchema = createInsertSchema(projectStages).omit({
+  id: true,
+  completedAt: true,
+  updatedAt: true,
+});
+
 export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true,
   sentAt: true,
@@ -498,6 +1025,13 @@ export const insertFileSchema = createInsertSchema(files).omit({
   uploadedAt: true,
 });
 
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  isRead: true,
+  readAt: true,
+  createdAt: true,
+});
+
 export const insertSupportRequestSchema = createInsertSchema(supportRequests).omit({
   id: true,
   createdAt: true,
@@ -572,23 +1106,92 @@ export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type InsertService = z.infer<typeof insertServiceSchema>;
 export type Service = typeof services.$inferSelect;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
+export type MessageAttachment = typeof messageAttachments.$inferSelect;
+export type MessageRead = typeof messageReads.$inferSelect;
+export type MessageWithDetails = Message & {
+  sender?: { firstName: string | null; lastName: string | null } | null;
+  attachments: { id: string; filename: string; mimeType: string | null; sizeBytes: number | null }[];
+  readBy: { userId: string; readAt: Date }[];
+};
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Payment = typeof payments.$inferSelect;
+export type ProcessedPaymentEvent = typeof processedPaymentEvents.$inferSelect;
+export type PaymentReconciliationIssue = typeof paymentReconciliationIssues.$inferSelect;
+export type InsertPaymentReconciliationIssue = typeof paymentReconciliationIssues.$inferInsert;
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+export type InsertOrderStatusHistory = typeof orderStatusHistory.$inferInsert;
+export type Refund = typeof refunds.$inferSelect;
+export type OrderInstallment = typeof orderInstallments.$inferSelect;
+export type OrderLineItem = typeof orderLineItems.$inferSelect;
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+export type Coupon = typeof coupons.$inferSelect;
+export type CouponWithStats = Coupon & {
+  redemptions: number;
+  discountTotal: number; // Revenue given up across non-cancelled orders
+  paidRevenue: number; // Order value collected on paid orders that used the code
+};
+export type Invoice = typeof invoices.$inferSelect;
+export type OrderWithInstallments = Order & {
+  installments: OrderInstallment[];
+  lineItems: OrderLineItem[];
+  outstandingBalance: number;
+};
+export type PaymentWithRefunds = Payment & {
+  refunds: Refund[];
+  refundedAmount: number;
+  refundableAmount: number;
+};
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type File = typeof files.$inferSelect;
 export type InsertSupportRequest = z.infer<typeof insertSupportRequestSchema>;
 export type SupportRequest = typeof supportRequests.$inferSelect;
+export type InsertProjectStage = z.infer<typeof insertProjectStageSchema>;
 export type ProjectStage = typeof projectStages.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type Notification = typeof notifications.$inferSelect;
 export type AuditLog = typeof auditLogs.$inferSelect;
+export type NewAuditLog = typeof auditLogs.$inferInsert;
+export type EmailOutboxEntry = typeof emailOutbox.$inferSelect;
 export type InsertCheckoutSession = z.infer<typeof insertCheckoutSessionSchema>;
 export type CheckoutSession = typeof checkoutSessions.$inferSelect;
+export type PaymentProof = typeof paymentProofs.$inferSelect;
+export type InsertPaymentProof = typeof paymentProofs.$inferInsert;
+export type PaymentProofWithPayment = PaymentProof & {
+  reference: string;
+  amount: string;
+  currency: string | null;
+  installmentId: string | null;
+  orderStatus: Order["status"] | null;
+  customerEmail: string | null;
+  customerName: string | null;
+};
+// Manual bank transfer refunds an admin still has to send from the business account
+export type BankTransferRefundDue = Refund & {
+  reference: string;
+  customerEmail: string | null;
+  customerName: string | null;
+};
+export type Subscription = typeof subscriptions.$inferSelect;
+export type SubscriptionCharge = typeof subscriptionCharges.$inferSelect;
+export type SubscriptionWithService = Subscription & { serviceName: string | null };
+export type Quote = typeof quotes.$inferSelect;
+export type InsertQuote = typeof quotes.$inferInsert;
+export type ContactSubmission = typeof contactSubmissions.$inferSelect;
+export type InsertContactSubmission = typeof contactSubmissions.$inferInsert;
+export type ContactReply = typeof contactReplies.$inferSelect;
+export type QuarantinedSubmission = typeof quarantinedSubmissions.$inferSelect;
+export type InsertQuarantinedSubmission = typeof quarantinedSubmissions.$inferInsert;
+export type ContactSubmissionWithReplies = ContactSubmission & {
+  replies: (ContactReply & { sentByName: string | null })[];
+  userName: string | null;
+};
 export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type NewPasswordResetToken = typeof passwordResetTokens.$inferInsert;
@@ -616,6 +1219,13 @@ export type SeoAudit = typeof seoAudits.$inferSelect;
 export const settings = pgTable("settings", {
   id: text("id").primaryKey().default("default"),
   whatsappNumber: text("whatsapp_number"),
+  // Business details printed on invoices and receipts
+  businessName: text("business_name"),
+  businessAddress: text("business_address"),
+  businessEmail: text("business_email"),
+  businessPhone: text("business_phone"),
+  taxId: text("tax_id"),
+  vatRate: decimal("vat_rate", { precision: 5, scale: 2 }), // Percentage; null or 0 = no VAT
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -0,0 +1,58 @@
+// Recurring maintenance, hosting and retainer plans. A plan is a service with a billing interval;
+// subscribing charges the first period through checkout, and the saved payment method is charged
+// again at the end of each period. Failed renewals put the subscription past due while retries
+// run, and it is cancelled once they are used up.
+
+export const BILLING_INTERVALS = ["monthly", "quarterly", "yearly"] as const;
+
+export type BillingInterval = (typeof BILLING_INTERVALS)[number];
+
+export const SUBSCRIPTION_STATUSES = ["incomplete", "active", "past_due", "cancelled"] as const;
+
+export type SubscriptionStatus = (typeof SUBSCRIPTION_STATUSES)[number];
+
+export const billingIntervalMonths: Record<BillingInterval, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+export const billingIntervalLabels: Record<BillingInterval, string> = {
+  monthly: "Monthly",
+  quarterly: "Every 3 months",
+  yearly: "Yearly",
+};
+
+// Short suffix for prices, e.g. "₦25,000/mo"
+export const billingIntervalSuffix: Record<BillingInterval, string> = {
+  monthly: "/mo",
+  quarterly: "/qtr",
+  yearly: "/yr",
+};
+
+export const subscriptionStatusLabels: Record<SubscriptionStatus, string> = {
+  incomplete: "Awaiting payment",
+  active: "Active",
+  past_due: "Payment failed",
+  cancelled: "Cancelled",
+};
+
+export function isBillingInterval(value: unknown): value is BillingInterval {
+  return typeof value === "string" && (BILLING_INTERVALS as readonly string[]).includes(value);
+}
+
+// Calendar months, clamped so a period starting on the 31st ends on the last day of a short month
+export function addBillingInterval(date: Date, interval: BillingInterval): Date {
+  const next = new Date(date);
+  const day = next.getUTCDate();
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + billingIntervalMonths[interval]);
+  const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(day, lastDay));
+  return next;
+}
+
+// Monthly recurring revenue contributed by one subscription
+export function monthlyRecurringAmount(amount: number | string, interval: BillingInterval): number {
+  return Math.round((Number(amount) / billingIntervalMonths[interval]) * 100) / 100;
+}